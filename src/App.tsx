@@ -3,13 +3,14 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route, useLocation } from "react-router-dom";
+import { BrowserRouter, Routes, Route, useLocation, useParams } from "react-router-dom";
 import { ThemeProvider } from "@/contexts/ThemeContext";
 import { SplashScreen } from "@/components/SplashScreen";
 import { initializeAppCache } from "@/hooks/useAppCache";
 import Dashboard from "./pages/Dashboard";
 import Network from "./pages/Network";
 import Capture from "./pages/Capture";
+import Scan from "./pages/Scan";
 import Schedule from "./pages/Schedule";
 import Profile from "./pages/Profile";
 import ProfileEdit from "./pages/ProfileEdit";
@@ -23,10 +24,12 @@ import MeetingResponse from "./pages/MeetingResponse";
 import Connect from "./pages/Connect";
 import Contact from "./pages/Contact";
 import PublicProfile from "./pages/PublicProfile";
+import BookMeeting from "./pages/BookMeeting";
 import OAuth2Callback from "./pages/OAuth2Callback";
 import Analytics from "./pages/Analytics";
 import Subscription from "./pages/Subscription";
 import Discover from "./pages/Discover";
+import Team from "./pages/Team";
 import NotFound from "./pages/NotFound";
 
 // Initialize cache immediately on app load
@@ -34,12 +37,19 @@ initializeAppCache();
 
 const queryClient = new QueryClient();
 
+// v6 can't match "/@:slug" directly, so vanity profile URLs match one segment and check the prefix
+function ProfileHandleRoute() {
+  const { handle } = useParams();
+  return handle?.startsWith("@") ? <PublicProfile /> : <NotFound />;
+}
+
 function AppRoutes() {
   return (
     <Routes>
       <Route path="/" element={<Dashboard />} />
       <Route path="/network" element={<Network />} />
       <Route path="/capture" element={<Capture />} />
+      <Route path="/scan" element={<Scan />} />
       <Route path="/discover" element={<Discover />} />
       <Route path="/schedule" element={<Schedule />} />
       <Route path="/profile" element={<Profile />} />
@@ -54,9 +64,13 @@ function AppRoutes() {
       <Route path="/connect/:id" element={<Connect />} />
       <Route path="/contact/:userId" element={<Contact />} />
       <Route path="/u/:userId" element={<PublicProfile />} />
+      <Route path="/u/:userId/book" element={<BookMeeting />} />
+      <Route path="/:handle" element={<ProfileHandleRoute />} />
       <Route path="/oauth2callback" element={<OAuth2Callback />} />
+      <Route path="/oauth2callback/:provider" element={<OAuth2Callback />} />
       <Route path="/analytics" element={<Analytics />} />
       <Route path="/subscription" element={<Subscription />} />
+      <Route path="/team" element={<Team />} />
       <Route path="*" element={<NotFound />} />
     </Routes>
   );
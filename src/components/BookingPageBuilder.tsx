@@ -0,0 +1,358 @@
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarCheck, Copy, Loader2, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useBookingPage, DEFAULT_BOOKING_PAGE, type BookingPageDraft } from "@/hooks/useBookingPage";
+import { DURATION_OPTIONS, formatDuration, getLocalTimeZone } from "@/lib/meetingTime";
+import { getBookingPath } from "@/lib/profileUrl";
+import type { BookingMeetingType } from "@/types/database";
+
+const MAX_MEETING_TYPES = 10;
+
+// Listed Monday first; stored with day 0 = Sunday
+const WEEKDAYS = [
+  { day: 1, label: "Mon" },
+  { day: 2, label: "Tue" },
+  { day: 3, label: "Wed" },
+  { day: 4, label: "Thu" },
+  { day: 5, label: "Fri" },
+  { day: 6, label: "Sat" },
+  { day: 0, label: "Sun" },
+];
+
+// Half-hour steps, "00:00" to "23:30"
+const TIME_OPTIONS = Array.from({ length: 48 }, (_, i) =>
+  `${String(Math.floor(i / 2)).padStart(2, "0")}:${i % 2 ? "30" : "00"}`
+);
+
+const BUFFER_OPTIONS = [0, 5, 10, 15, 30, 60];
+
+const NOTICE_OPTIONS = [
+  { minutes: 0, label: "No minimum" },
+  { minutes: 60, label: "1 hour" },
+  { minutes: 240, label: "4 hours" },
+  { minutes: 1440, label: "1 day" },
+  { minutes: 2880, label: "2 days" },
+];
+
+const DAYS_AHEAD_OPTIONS = [7, 14, 30, 60, 90];
+
+function formatTimeOption(time: string): string {
+  const [hours, minutes] = time.split(":").map(Number);
+  const suffix = hours < 12 ? "AM" : "PM";
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, "0")} ${suffix}`;
+}
+
+export function BookingPageBuilder() {
+  const { toast } = useToast();
+  const { bookingPage, loading, saveBookingPage } = useBookingPage();
+  const [draft, setDraft] = useState<BookingPageDraft>(DEFAULT_BOOKING_PAGE);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (bookingPage) {
+      setDraft({
+        is_enabled: bookingPage.is_enabled,
+        title: bookingPage.title,
+        description: bookingPage.description,
+        availability: bookingPage.availability,
+        meeting_types: bookingPage.meeting_types,
+        buffer_before_minutes: bookingPage.buffer_before_minutes,
+        buffer_after_minutes: bookingPage.buffer_after_minutes,
+        min_notice_minutes: bookingPage.min_notice_minutes,
+        max_days_ahead: bookingPage.max_days_ahead,
+      });
+    }
+  }, [bookingPage]);
+
+  const updateMeetingType = (id: string, updates: Partial<BookingMeetingType>) => {
+    setDraft(prev => ({
+      ...prev,
+      meeting_types: prev.meeting_types.map(t => (t.id === id ? { ...t, ...updates } : t)),
+    }));
+  };
+
+  const addMeetingType = () => {
+    if (draft.meeting_types.length >= MAX_MEETING_TYPES) return;
+    setDraft(prev => ({
+      ...prev,
+      meeting_types: [
+        ...prev.meeting_types,
+        { id: crypto.randomUUID(), title: "New meeting", duration_minutes: 30, description: null, location: null },
+      ],
+    }));
+  };
+
+  const removeMeetingType = (id: string) => {
+    setDraft(prev => ({ ...prev, meeting_types: prev.meeting_types.filter(t => t.id !== id) }));
+  };
+
+  // One window per day in this editor
+  const getWindow = (day: number) => draft.availability.find(w => w.day === day);
+
+  const setDayEnabled = (day: number, enabled: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      availability: enabled
+        ? [...prev.availability.filter(w => w.day !== day), { day, start: "09:00", end: "17:00" }]
+        : prev.availability.filter(w => w.day !== day),
+    }));
+  };
+
+  const updateWindow = (day: number, updates: { start?: string; end?: string }) => {
+    setDraft(prev => ({
+      ...prev,
+      availability: prev.availability.map(w => (w.day === day ? { ...w, ...updates } : w)),
+    }));
+  };
+
+  const copyLink = () => {
+    if (!bookingPage) return;
+    navigator.clipboard.writeText(`${window.location.origin}${getBookingPath(bookingPage.user_id)}`);
+    toast({ title: "Link copied", description: "Share it so people can book time with you" });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    await saveBookingPage(draft);
+    setSaving(false);
+  };
+
+  if (loading) return null;
+
+  const localZone = getLocalTimeZone();
+
+  return (
+    <Card className="bg-card border-border p-4">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-4">
+          <div className="p-2 bg-primary/10 rounded-lg">
+            <CalendarCheck className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <span className="text-foreground font-medium">Booking Page</span>
+            <p className="text-sm text-muted-foreground">Let people pick a time from your public profile</p>
+          </div>
+        </div>
+        <Switch
+          checked={draft.is_enabled}
+          onCheckedChange={(checked) => setDraft(prev => ({ ...prev, is_enabled: checked }))}
+        />
+      </div>
+
+      <div className="space-y-4">
+        {bookingPage?.is_enabled && (
+          <Button variant="outline" size="sm" onClick={copyLink} className="w-full border-border">
+            <Copy className="h-4 w-4 mr-2" />
+            Copy booking link
+          </Button>
+        )}
+
+        <div className="space-y-2">
+          <Label className="text-foreground">Page title</Label>
+          <Input
+            value={draft.title}
+            maxLength={100}
+            onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))}
+            className="bg-secondary border-border text-foreground"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-foreground">Description</Label>
+          <Textarea
+            value={draft.description || ""}
+            maxLength={500}
+            rows={2}
+            placeholder="What should people know before booking?"
+            onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value || null }))}
+            className="bg-secondary border-border text-foreground"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-foreground">Meeting types</Label>
+          {draft.meeting_types.map(type => (
+            <div key={type.id} className="space-y-2 bg-secondary rounded-lg p-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={type.title}
+                  maxLength={60}
+                  onChange={(e) => updateMeetingType(type.id, { title: e.target.value })}
+                  className="flex-1 h-8 bg-background border-border text-foreground text-sm"
+                />
+                <Select
+                  value={String(type.duration_minutes)}
+                  onValueChange={(v) => updateMeetingType(type.id, { duration_minutes: Number(v) })}
+                >
+                  <SelectTrigger className="w-[90px] h-8 bg-background border-border text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DURATION_OPTIONS.map(minutes => (
+                      <SelectItem key={minutes} value={String(minutes)}>{formatDuration(minutes)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeMeetingType(type.id)}
+                  disabled={draft.meeting_types.length === 1}
+                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <Input
+                value={type.location || ""}
+                maxLength={200}
+                placeholder="Location or video link (optional)"
+                onChange={(e) => updateMeetingType(type.id, { location: e.target.value || null })}
+                className="h-8 bg-background border-border text-foreground text-sm"
+              />
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={addMeetingType}
+            disabled={draft.meeting_types.length >= MAX_MEETING_TYPES}
+            className="w-full border-dashed border-border"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add meeting type
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-foreground">Weekly availability</Label>
+          <p className="text-xs text-muted-foreground">
+            In your time zone ({localZone.replace(/_/g, " ")})
+            {bookingPage && bookingPage.time_zone !== localZone && (
+              <> — currently saved in {bookingPage.time_zone.replace(/_/g, " ")}; saving switches it</>
+            )}
+          </p>
+          {WEEKDAYS.map(({ day, label }) => {
+            const hours = getWindow(day);
+            return (
+              <div key={day} className="flex items-center gap-2">
+                <Switch checked={!!hours} onCheckedChange={(checked) => setDayEnabled(day, checked)} />
+                <span className="w-10 text-sm text-foreground">{label}</span>
+                {hours ? (
+                  <>
+                    <Select value={hours.start} onValueChange={(v) => updateWindow(day, { start: v })}>
+                      <SelectTrigger className="h-8 bg-secondary border-border text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="max-h-[200px]">
+                        {TIME_OPTIONS.map(time => (
+                          <SelectItem key={time} value={time}>{formatTimeOption(time)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <span className="text-muted-foreground">–</span>
+                    <Select value={hours.end} onValueChange={(v) => updateWindow(day, { end: v })}>
+                      <SelectTrigger className="h-8 bg-secondary border-border text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="max-h-[200px]">
+                        {TIME_OPTIONS.filter(time => time > hours.start).map(time => (
+                          <SelectItem key={time} value={time}>{formatTimeOption(time)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </>
+                ) : (
+                  <span className="text-sm text-muted-foreground">Unavailable</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label className="text-foreground">Buffer before</Label>
+            <Select
+              value={String(draft.buffer_before_minutes)}
+              onValueChange={(v) => setDraft(prev => ({ ...prev, buffer_before_minutes: Number(v) }))}
+            >
+              <SelectTrigger className="bg-secondary border-border text-foreground">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BUFFER_OPTIONS.map(minutes => (
+                  <SelectItem key={minutes} value={String(minutes)}>{minutes ? formatDuration(minutes) : "None"}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-foreground">Buffer after</Label>
+            <Select
+              value={String(draft.buffer_after_minutes)}
+              onValueChange={(v) => setDraft(prev => ({ ...prev, buffer_after_minutes: Number(v) }))}
+            >
+              <SelectTrigger className="bg-secondary border-border text-foreground">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BUFFER_OPTIONS.map(minutes => (
+                  <SelectItem key={minutes} value={String(minutes)}>{minutes ? formatDuration(minutes) : "None"}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-foreground">Minimum notice</Label>
+            <Select
+              value={String(draft.min_notice_minutes)}
+              onValueChange={(v) => setDraft(prev => ({ ...prev, min_notice_minutes: Number(v) }))}
+            >
+              <SelectTrigger className="bg-secondary border-border text-foreground">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {NOTICE_OPTIONS.map(option => (
+                  <SelectItem key={option.minutes} value={String(option.minutes)}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-foreground">Book up to</Label>
+            <Select
+              value={String(draft.max_days_ahead)}
+              onValueChange={(v) => setDraft(prev => ({ ...prev, max_days_ahead: Number(v) }))}
+            >
+              <SelectTrigger className="bg-secondary border-border text-foreground">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DAYS_AHEAD_OPTIONS.map(days => (
+                  <SelectItem key={days} value={String(days)}>{days} days ahead</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Button
+          onClick={handleSave}
+          disabled={saving || !draft.title.trim()}
+          className="w-full bg-primary text-primary-foreground"
+        >
+          {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+          Save Booking Page
+        </Button>
+      </div>
+    </Card>
+  );
+}
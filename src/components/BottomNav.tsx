@@ -8,9 +8,9 @@ import { useMemo } from "react";
 const navItems = [
   { to: "/", icon: Home, label: "Home", matchPaths: ["/", "/meeting"], notifType: null },
   { to: "/network", icon: Users, label: "Network", matchPaths: ["/network", "/connection"], notifType: "network" },
-  { to: "/discover", icon: UserPlus, label: "Add", matchPaths: ["/discover", "/capture"], notifType: "discover" },
+  { to: "/discover", icon: UserPlus, label: "Add", matchPaths: ["/discover", "/capture", "/scan"], notifType: "discover" },
   { to: "/schedule", icon: Calendar, label: "Schedule", matchPaths: ["/schedule"], notifType: "schedule" },
-  { to: "/settings", icon: Settings, label: "Settings", matchPaths: ["/settings", "/profile", "/analytics", "/subscription"], notifType: null },
+  { to: "/settings", icon: Settings, label: "Settings", matchPaths: ["/settings", "/profile", "/analytics", "/subscription", "/team"], notifType: null },
 ];
 
 export const BottomNav = () => {
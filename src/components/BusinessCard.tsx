@@ -0,0 +1,85 @@
+import { QRCode } from "@/components/QRCode";
+import { getCardFont, type CardDesignDraft } from "@/lib/cardDesign";
+
+interface BusinessCardProps {
+  design: CardDesignDraft;
+  name: string;
+  jobTitle?: string | null;
+  company?: string | null;
+  // Renders a real QR code when given; otherwise a colored placeholder for previews
+  qrUrl?: string;
+  className?: string;
+}
+
+export function BusinessCard({ design, name, jobTitle, company, qrUrl, className = "" }: BusinessCardProps) {
+  const subtitle = [jobTitle, company].filter(Boolean).join(" • ");
+
+  return (
+    <div
+      className={`aspect-[1.6/1] rounded-xl p-4 flex flex-col justify-between ${className}`}
+      style={{
+        backgroundColor: design.background_color,
+        border: `1px solid ${design.accent_color}20`,
+        fontFamily: getCardFont(design.font_family),
+      }}
+    >
+      <div className="flex items-start justify-between">
+        {design.logo_url ? (
+          <img
+            src={design.logo_url}
+            alt={company || name}
+            className="h-10 max-w-[45%] object-contain"
+          />
+        ) : (
+          <div
+            className="w-10 h-10 rounded-lg flex items-center justify-center"
+            style={{ backgroundColor: `${design.accent_color}20` }}
+          >
+            <span className="text-lg font-bold" style={{ color: design.accent_color }}>
+              {name.charAt(0) || "B"}
+            </span>
+          </div>
+        )}
+
+        {qrUrl ? (
+          <QRCode
+            url={qrUrl}
+            size={80}
+            className="w-20 h-20"
+            customColors={{ foreground: design.qr_foreground, background: design.qr_background }}
+            errorCorrection={design.qr_error_correction}
+            margin={design.qr_margin}
+            logoUrl={design.qr_show_logo ? design.logo_url : null}
+          />
+        ) : (
+          <div
+            className="w-12 h-12 rounded grid grid-cols-4 grid-rows-4 gap-0.5"
+            style={{ backgroundColor: design.qr_background }}
+          >
+            {[...Array(16)].map((_, i) => (
+              <div
+                key={i}
+                className="rounded-sm"
+                style={{
+                  backgroundColor: [0, 1, 4, 5, 10, 11, 14, 15].includes(i)
+                    ? design.qr_foreground
+                    : design.qr_background,
+                }}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+      <div>
+        <p className="font-semibold text-sm" style={{ color: design.accent_color }}>
+          {name}
+        </p>
+        {subtitle && (
+          <p className="text-xs opacity-70" style={{ color: design.accent_color }}>
+            {subtitle}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,116 +1,109 @@
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
 import { 
-  Palette, Check, QrCode, CreditCard, Upload, Sparkles
+  Palette, Check, QrCode, CreditCard, Upload, Sparkles, Crown, Loader2, X
 } from "lucide-react";
-import { useToast } from "@/hooks/use-toast";
+import { useSubscription } from "@/hooks/useSubscription";
+import { useCardDesign } from "@/hooks/useCardDesign";
+import { BusinessCard } from "@/components/BusinessCard";
+import { QRCode } from "@/components/QRCode";
+import { UpgradePrompt } from "@/components/UpgradePrompt";
+import {
+  CARD_FONTS,
+  CARD_TEMPLATES,
+  DEFAULT_CARD_DESIGN,
+  designFromTemplate,
+  isFreeCardDesign,
+  type CardDesignDraft,
+  type CardTemplate,
+} from "@/lib/cardDesign";
+import { QR_ERROR_CORRECTION_LEVELS } from "@/lib/qrCode";
+import { PUBLIC_APP_URL } from "@/lib/profileUrl";
+import type { CardFontId, QrErrorCorrectionLevel } from "@/types/database";
 
-const CARD_TEMPLATES = [
-  { 
-    id: "default", 
-    name: "Classic", 
-    primary: "#00ff4d", 
-    background: "#000000", 
-    style: "minimal"
-  },
-  { 
-    id: "ocean", 
-    name: "Ocean", 
-    primary: "#00d4ff", 
-    background: "#0a1628", 
-    style: "gradient"
-  },
-  { 
-    id: "sunset", 
-    name: "Sunset", 
-    primary: "#ff6b35", 
-    background: "#1a0a05", 
-    style: "warm"
-  },
-  { 
-    id: "royal", 
-    name: "Royal", 
-    primary: "#a855f7", 
-    background: "#0d0015", 
-    style: "elegant"
-  },
-  { 
-    id: "gold", 
-    name: "Executive", 
-    primary: "#fbbf24", 
-    background: "#1a1500", 
-    style: "premium"
-  },
-  { 
-    id: "minimal", 
-    name: "Minimal", 
-    primary: "#000000", 
-    background: "#ffffff", 
-    style: "clean"
-  },
-];
+const CUSTOMIZER_TABS = ["templates", "qr", "branding"] as const;
+type CustomizerTab = typeof CUSTOMIZER_TABS[number];
 
-interface CardCustomization {
-  templateId: string;
-  qrForeground: string;
-  qrBackground: string;
-  logoUrl?: string;
-  accentColor: string;
-}
+const isCustomizerTab = (value: string): value is CustomizerTab =>
+  (CUSTOMIZER_TABS as readonly string[]).includes(value);
 
-interface BusinessCardCustomizerProps {
-  onSave?: (customization: CardCustomization) => Promise<void>;
-}
+export function BusinessCardCustomizer() {
+  const [activeTab, setActiveTab] = useState<CustomizerTab>("templates");
+  const { hasFeature } = useSubscription();
+  const { design, loading, saveDesign, uploadLogo } = useCardDesign();
+  const logoInputRef = useRef<HTMLInputElement>(null);
 
-export function BusinessCardCustomizer({ onSave }: BusinessCardCustomizerProps) {
-  const [activeTab, setActiveTab] = useState<"templates" | "qr" | "branding">("templates");
-  const { toast } = useToast();
-  
-  const [customization, setCustomization] = useState<CardCustomization>({
-    templateId: "default",
-    qrForeground: "#00ff4d",
-    qrBackground: "#000000",
-    accentColor: "#00ff4d",
-  });
+  const [customization, setCustomization] = useState<CardDesignDraft>(DEFAULT_CARD_DESIGN);
   const [saving, setSaving] = useState(false);
+  const [uploadingLogo, setUploadingLogo] = useState(false);
+  const [showUpgrade, setShowUpgrade] = useState(false);
+
+  const canBrand = hasFeature("hasCustomBranding");
+
+  useEffect(() => {
+    if (design) {
+      setCustomization({
+        template_id: design.template_id,
+        accent_color: design.accent_color,
+        background_color: design.background_color,
+        qr_foreground: design.qr_foreground,
+        qr_background: design.qr_background,
+        qr_error_correction: design.qr_error_correction,
+        qr_margin: design.qr_margin,
+        qr_show_logo: design.qr_show_logo,
+        font_family: design.font_family,
+        logo_url: design.logo_url,
+      });
+    }
+  }, [design]);
+
+  const handleTemplateSelect = (template: CardTemplate) => {
+    if (template.pro && !canBrand) {
+      setShowUpgrade(true);
+      return;
+    }
+    setCustomization(c => ({ ...c, ...designFromTemplate(template) }));
+  };
+
+  // Color and logo changes are Pro-only; free plans keep the template's stock look
+  const updateBranding = (updates: Partial<CardDesignDraft>) => {
+    if (!canBrand) {
+      setShowUpgrade(true);
+      return;
+    }
+    setCustomization(c => ({ ...c, ...updates }));
+  };
 
-  const selectedTemplate = CARD_TEMPLATES.find(t => t.id === customization.templateId) || CARD_TEMPLATES[0];
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
 
-  const handleTemplateSelect = (template: typeof CARD_TEMPLATES[0]) => {
-    setCustomization({
-      ...customization,
-      templateId: template.id,
-      qrForeground: template.primary,
-      qrBackground: template.background,
-      accentColor: template.primary,
-    });
+    setUploadingLogo(true);
+    const url = await uploadLogo(file);
+    if (url) updateBranding({ logo_url: url });
+    setUploadingLogo(false);
   };
 
   const handleSave = async () => {
-    setSaving(true);
-    try {
-      if (onSave) {
-        await onSave(customization);
-      }
-      toast({
-        title: "Customization saved",
-        description: "Your business card has been updated",
-      });
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to save customization",
-        variant: "destructive",
-      });
-    } finally {
-      setSaving(false);
+    if (!canBrand && !isFreeCardDesign(customization)) {
+      setShowUpgrade(true);
+      return;
     }
+    setSaving(true);
+    await saveDesign(customization);
+    setSaving(false);
   };
 
+  if (loading) return null;
+
   return (
     <Card className="bg-card border-border p-6">
       <div className="flex items-center gap-3 mb-6">
@@ -121,9 +114,20 @@ export function BusinessCardCustomizer({ onSave }: BusinessCardCustomizerProps)
           <h3 className="font-semibold text-foreground">Business Card Customization</h3>
           <p className="text-sm text-muted-foreground">Personalize your digital business card</p>
         </div>
+        {!canBrand && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setShowUpgrade(true)}
+            className="ml-auto border-primary text-primary"
+          >
+            <Crown className="h-4 w-4 mr-1" />
+            Pro
+          </Button>
+        )}
       </div>
 
-      <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as any)}>
+      <Tabs value={activeTab} onValueChange={(v) => isCustomizerTab(v) && setActiveTab(v)}>
         <TabsList className="grid w-full grid-cols-3 bg-secondary mb-6">
           <TabsTrigger 
             value="templates" 
@@ -144,7 +148,7 @@ export function BusinessCardCustomizer({ onSave }: BusinessCardCustomizerProps)
             className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground text-xs"
           >
             <Palette className="h-3 w-3 mr-1" />
-            Colors
+            Branding
           </TabsTrigger>
         </TabsList>
 
@@ -152,7 +156,7 @@ export function BusinessCardCustomizer({ onSave }: BusinessCardCustomizerProps)
         <TabsContent value="templates" className="space-y-4">
           <div className="grid grid-cols-2 gap-3">
             {CARD_TEMPLATES.map((template) => {
-              const isSelected = template.id === customization.templateId;
+              const isSelected = template.id === customization.template_id;
               return (
                 <button
                   key={template.id}
@@ -169,10 +173,12 @@ export function BusinessCardCustomizer({ onSave }: BusinessCardCustomizerProps)
                       className="w-8 h-8 rounded-lg"
                       style={{ backgroundColor: template.primary }}
                     />
-                    {isSelected && (
+                    {isSelected ? (
                       <div className="w-5 h-5 rounded-full bg-primary flex items-center justify-center">
                         <Check className="h-3 w-3 text-primary-foreground" />
                       </div>
+                    ) : template.pro && !canBrand && (
+                      <Crown className="h-4 w-4" style={{ color: template.primary }} />
                     )}
                   </div>
                   <p
@@ -197,14 +203,14 @@ export function BusinessCardCustomizer({ onSave }: BusinessCardCustomizerProps)
               <div className="flex gap-2">
                 <Input
                   type="color"
-                  value={customization.qrForeground}
-                  onChange={(e) => setCustomization(c => ({ ...c, qrForeground: e.target.value }))}
+                  value={customization.qr_foreground}
+                  onChange={(e) => updateBranding({ qr_foreground: e.target.value })}
                   className="w-12 h-10 p-1 cursor-pointer"
                 />
                 <Input
                   type="text"
-                  value={customization.qrForeground}
-                  onChange={(e) => setCustomization(c => ({ ...c, qrForeground: e.target.value }))}
+                  value={customization.qr_foreground}
+                  onChange={(e) => updateBranding({ qr_foreground: e.target.value })}
                   className="flex-1 bg-background border-border text-foreground uppercase text-xs"
                 />
               </div>
@@ -216,42 +222,84 @@ export function BusinessCardCustomizer({ onSave }: BusinessCardCustomizerProps)
               <div className="flex gap-2">
                 <Input
                   type="color"
-                  value={customization.qrBackground}
-                  onChange={(e) => setCustomization(c => ({ ...c, qrBackground: e.target.value }))}
+                  value={customization.qr_background}
+                  onChange={(e) => updateBranding({ qr_background: e.target.value })}
                   className="w-12 h-10 p-1 cursor-pointer"
                 />
                 <Input
                   type="text"
-                  value={customization.qrBackground}
-                  onChange={(e) => setCustomization(c => ({ ...c, qrBackground: e.target.value }))}
+                  value={customization.qr_background}
+                  onChange={(e) => updateBranding({ qr_background: e.target.value })}
                   className="flex-1 bg-background border-border text-foreground uppercase text-xs"
                 />
               </div>
             </div>
           </div>
 
-          {/* QR Preview */}
-          <div
-            className="p-4 rounded-lg flex items-center justify-center"
-            style={{ backgroundColor: customization.qrBackground }}
-          >
-            <div
-              className="w-24 h-24 rounded grid grid-cols-5 grid-rows-5 gap-0.5 p-2"
-              style={{ backgroundColor: customization.qrBackground }}
+          <div>
+            <Label className="text-xs text-muted-foreground mb-2 block">
+              Error Correction
+            </Label>
+            <Select
+              value={customization.qr_error_correction}
+              onValueChange={(value) => setCustomization(c => ({ ...c, qr_error_correction: value as QrErrorCorrectionLevel }))}
             >
-              {[...Array(25)].map((_, i) => {
-                const shouldFill = [0, 1, 2, 5, 6, 10, 11, 12, 14, 18, 20, 22, 23, 24].includes(i);
-                return (
-                  <div
-                    key={i}
-                    className="rounded-sm"
-                    style={{
-                      backgroundColor: shouldFill ? customization.qrForeground : customization.qrBackground,
-                    }}
-                  />
-                );
-              })}
+              <SelectTrigger className="bg-background border-border text-foreground">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {QR_ERROR_CORRECTION_LEVELS.map(level => (
+                  <SelectItem key={level.id} value={level.id}>
+                    {level.name} - {level.description}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label className="text-xs text-muted-foreground mb-2 block">
+              Quiet Zone: {customization.qr_margin} {customization.qr_margin === 1 ? "module" : "modules"}
+            </Label>
+            <Slider
+              value={[customization.qr_margin]}
+              min={0}
+              max={10}
+              step={1}
+              onValueChange={([value]) => setCustomization(c => ({ ...c, qr_margin: value }))}
+            />
+            {customization.qr_margin < 4 && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Printed codes scan most reliably with a quiet zone of 4 or more.
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label className="text-foreground">Logo in QR Code</Label>
+              <p className="text-xs text-muted-foreground">
+                {customization.logo_url ? "Uses at least Quartile error correction" : "Upload a logo under Branding first"}
+              </p>
             </div>
+            <Switch
+              checked={customization.qr_show_logo}
+              disabled={!customization.logo_url}
+              onCheckedChange={(checked) => updateBranding({ qr_show_logo: checked })}
+            />
+          </div>
+
+          {/* QR Preview */}
+          <div className="flex items-center justify-center">
+            <QRCode
+              url={PUBLIC_APP_URL}
+              size={160}
+              className="w-40 h-40"
+              customColors={{ foreground: customization.qr_foreground, background: customization.qr_background }}
+              errorCorrection={customization.qr_error_correction}
+              margin={customization.qr_margin}
+              logoUrl={customization.qr_show_logo ? customization.logo_url : null}
+            />
           </div>
         </TabsContent>
 
@@ -264,33 +312,108 @@ export function BusinessCardCustomizer({ onSave }: BusinessCardCustomizerProps)
             <div className="flex gap-2">
               <Input
                 type="color"
-                value={customization.accentColor}
-                onChange={(e) => setCustomization(c => ({ ...c, accentColor: e.target.value }))}
+                value={customization.accent_color}
+                onChange={(e) => updateBranding({ accent_color: e.target.value })}
                 className="w-12 h-10 p-1 cursor-pointer"
               />
               <Input
                 type="text"
-                value={customization.accentColor}
-                onChange={(e) => setCustomization(c => ({ ...c, accentColor: e.target.value }))}
+                value={customization.accent_color}
+                onChange={(e) => updateBranding({ accent_color: e.target.value })}
                 className="flex-1 bg-background border-border text-foreground uppercase"
               />
             </div>
           </div>
 
+          <div>
+            <Label className="text-xs text-muted-foreground mb-2 block">
+              Card Background
+            </Label>
+            <div className="flex gap-2">
+              <Input
+                type="color"
+                value={customization.background_color}
+                onChange={(e) => updateBranding({ background_color: e.target.value })}
+                className="w-12 h-10 p-1 cursor-pointer"
+              />
+              <Input
+                type="text"
+                value={customization.background_color}
+                onChange={(e) => updateBranding({ background_color: e.target.value })}
+                className="flex-1 bg-background border-border text-foreground uppercase"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label className="text-xs text-muted-foreground mb-2 block">
+              Font
+            </Label>
+            <Select
+              value={customization.font_family}
+              onValueChange={(value) => setCustomization(c => ({ ...c, font_family: value as CardFontId }))}
+            >
+              <SelectTrigger className="bg-background border-border text-foreground">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CARD_FONTS.map(font => (
+                  <SelectItem key={font.id} value={font.id}>
+                    <span style={{ fontFamily: font.css }}>{font.name}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Logo Upload */}
           <div>
             <Label className="text-xs text-muted-foreground mb-2 block">
               Company Logo (optional)
             </Label>
-            <div className="border-2 border-dashed border-border rounded-lg p-6 text-center hover:border-primary/50 transition-colors cursor-pointer">
-              <Upload className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
-              <p className="text-sm text-muted-foreground">
-                Click to upload or drag and drop
-              </p>
-              <p className="text-xs text-muted-foreground mt-1">
-                PNG, JPG up to 2MB
-              </p>
-            </div>
+            <input
+              ref={logoInputRef}
+              type="file"
+              accept="image/*"
+              onChange={handleLogoChange}
+              className="hidden"
+            />
+            {customization.logo_url ? (
+              <div className="flex items-center gap-3 border border-border rounded-lg p-3">
+                <img src={customization.logo_url} alt="Logo" className="h-10 max-w-[50%] object-contain" />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setCustomization(c => ({ ...c, logo_url: null, qr_show_logo: false }))}
+                  className="ml-auto text-muted-foreground"
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  Remove
+                </Button>
+              </div>
+            ) : (
+              <button
+                type="button"
+                onClick={() => (canBrand ? logoInputRef.current?.click() : setShowUpgrade(true))}
+                disabled={uploadingLogo}
+                className="w-full border-2 border-dashed border-border rounded-lg p-6 text-center hover:border-primary/50 transition-colors cursor-pointer"
+              >
+                {uploadingLogo ? (
+                  <Loader2 className="h-8 w-8 text-muted-foreground mx-auto animate-spin" />
+                ) : (
+                  <>
+                    <Upload className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
+                    <p className="text-sm text-muted-foreground">
+                      Click to upload
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      PNG, JPG up to 2MB
+                    </p>
+                  </>
+                )}
+              </button>
+            )}
           </div>
         </TabsContent>
       </Tabs>
@@ -298,57 +421,12 @@ export function BusinessCardCustomizer({ onSave }: BusinessCardCustomizerProps)
       {/* Card Preview */}
       <div className="mt-6 pt-6 border-t border-border">
         <Label className="text-foreground mb-3 block">Preview</Label>
-        <div
-          className="aspect-[1.6/1] rounded-xl p-4 flex flex-col justify-between"
-          style={{ 
-            backgroundColor: selectedTemplate.background,
-            border: `1px solid ${selectedTemplate.primary}20`
-          }}
-        >
-          <div className="flex items-start justify-between">
-            <div
-              className="w-10 h-10 rounded-lg flex items-center justify-center"
-              style={{ backgroundColor: `${customization.accentColor}20` }}
-            >
-              <span 
-                className="text-lg font-bold"
-                style={{ color: customization.accentColor }}
-              >
-                B
-              </span>
-            </div>
-            <div
-              className="w-12 h-12 rounded grid grid-cols-4 grid-rows-4 gap-0.5"
-              style={{ backgroundColor: customization.qrBackground }}
-            >
-              {[...Array(16)].map((_, i) => (
-                <div
-                  key={i}
-                  className="rounded-sm"
-                  style={{
-                    backgroundColor: [0, 1, 4, 5, 10, 11, 14, 15].includes(i) 
-                      ? customization.qrForeground 
-                      : customization.qrBackground,
-                  }}
-                />
-              ))}
-            </div>
-          </div>
-          <div>
-            <p 
-              className="font-semibold text-sm"
-              style={{ color: customization.accentColor }}
-            >
-              Your Name
-            </p>
-            <p 
-              className="text-xs opacity-70"
-              style={{ color: customization.accentColor }}
-            >
-              Job Title • Company
-            </p>
-          </div>
-        </div>
+        <BusinessCard
+          design={customization}
+          name="Your Name"
+          jobTitle="Job Title"
+          company="Company"
+        />
       </div>
 
       <Button
@@ -358,6 +436,12 @@ export function BusinessCardCustomizer({ onSave }: BusinessCardCustomizerProps)
       >
         {saving ? "Saving..." : "Save Customization"}
       </Button>
+
+      <UpgradePrompt
+        open={showUpgrade}
+        onOpenChange={setShowUpgrade}
+        feature="qr_customization"
+      />
     </Card>
   );
-}
\ No newline at end of file
+}
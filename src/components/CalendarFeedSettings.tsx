@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { CalendarPlus, Copy, Loader2, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+
+interface CalendarFeedSettingsProps {
+  token: string | null;
+  onChange: () => void;
+}
+
+function getFeedUrl(token: string): string {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+}
+
+// A secret URL that calendar apps subscribe to; anyone with it can read the user's meetings
+export function CalendarFeedSettings({ token, onChange }: CalendarFeedSettingsProps) {
+  const [working, setWorking] = useState(false);
+  const [confirmRotate, setConfirmRotate] = useState(false);
+  const { toast } = useToast();
+
+  const rotateToken = async () => {
+    setWorking(true);
+    try {
+      const { error } = await supabase.rpc("rotate_calendar_feed_token");
+      if (error) throw error;
+
+      toast({
+        title: token ? "Feed link reset" : "Feed link created",
+        description: token
+          ? "The old link no longer works. Subscribe again with the new one."
+          : "Add it to your calendar app to see your meetings there",
+      });
+      onChange();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const turnOff = async () => {
+    setWorking(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { error } = await supabase
+        .from("user_settings")
+        .update({ calendar_feed_token: null })
+        .eq("user_id", user.id);
+      if (error) throw error;
+
+      toast({ title: "Feed turned off", description: "Subscribed calendars will stop updating" });
+      onChange();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const copyLink = () => {
+    if (!token) return;
+    navigator.clipboard.writeText(getFeedUrl(token));
+    toast({ title: "Link copied", description: "Paste it into your calendar app's \"subscribe\" option" });
+  };
+
+  return (
+    <Card className="bg-card border-border p-4">
+      <div className="flex items-center gap-4 mb-4">
+        <div className="p-2 bg-primary/10 rounded-lg">
+          <CalendarPlus className="h-5 w-5 text-primary" />
+        </div>
+        <div>
+          <span className="text-foreground font-medium">Calendar Feed</span>
+          <p className="text-xs text-muted-foreground mt-1">
+            Subscribe to your confirmed meetings from Apple, Google, Outlook or any calendar app
+          </p>
+        </div>
+      </div>
+
+      {token ? (
+        <div className="space-y-3 pl-14">
+          <Input
+            readOnly
+            value={getFeedUrl(token)}
+            onFocus={(e) => e.target.select()}
+            className="bg-secondary border-border text-foreground text-xs"
+          />
+          <p className="text-xs text-muted-foreground">
+            Keep this link private. Anyone who has it can see your meetings.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" onClick={copyLink} className="bg-primary text-primary-foreground">
+              <Copy className="h-4 w-4 mr-2" />
+              Copy link
+            </Button>
+            <Button size="sm" variant="outline" asChild className="border-border">
+              <a href={getFeedUrl(token).replace(/^https?:\/\//, "webcal://")}>Subscribe</a>
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setConfirmRotate(true)} disabled={working} className="border-border">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Reset link
+            </Button>
+            <Button size="sm" variant="ghost" onClick={turnOff} disabled={working} className="text-muted-foreground">
+              Turn off
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="pl-14">
+          <Button size="sm" onClick={rotateToken} disabled={working} className="bg-primary text-primary-foreground">
+            {working && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create feed link
+          </Button>
+        </div>
+      )}
+
+      <AlertDialog open={confirmRotate} onOpenChange={setConfirmRotate}>
+        <AlertDialogContent className="bg-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-foreground">Reset feed link?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Calendars subscribed with the current link will stop updating. Use this if the link was shared by mistake.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="border-border">Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={rotateToken} className="bg-primary text-primary-foreground">
+              Reset link
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -4,7 +4,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Calendar, Loader2, Link2, Check, Copy } from "lucide-react";
+import { Calendar, Loader2, Link2, Copy, RefreshCw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 
@@ -15,11 +15,24 @@ interface CalendarSyncProps {
   onSync?: () => void;
 }
 
+// Non-2xx function responses carry the reason in their JSON body
+async function getFunctionError(error: Error & { context?: Response }): Promise<string> {
+  try {
+    const body = await error.context?.json();
+    if (body?.error) return body.error;
+  } catch {
+    // Fall through to the generic message
+  }
+  return error.message;
+}
+
 export function CalendarSync({ googleConnected, outlookConnected, icalUrl: existingIcalUrl, onSync }: CalendarSyncProps) {
   const [open, setOpen] = useState(false);
   const [icalUrl, setIcalUrl] = useState(existingIcalUrl || "");
   const [loading, setLoading] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [disconnectingOutlook, setDisconnectingOutlook] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -42,9 +55,17 @@ export function CalendarSync({ googleConnected, outlookConnected, icalUrl: exist
 
       if (error) throw error;
 
+      // Read the feed right away so a bad link is caught while the dialog is open
+      const { data, error: syncError } = await supabase.functions.invoke('ical-sync', {
+        body: { force: true }
+      });
+      if (syncError) throw new Error(await getFunctionError(syncError));
+
       toast({
         title: "Calendar synced!",
-        description: icalUrl ? "Your iCal feed has been connected" : "iCal feed removed",
+        description: icalUrl.trim()
+          ? `Your iCal feed has been connected (${data?.blocks || 0} busy time${data?.blocks === 1 ? "" : "s"} found)`
+          : "iCal feed removed",
       });
 
       if (onSync) onSync();
@@ -59,11 +80,46 @@ export function CalendarSync({ googleConnected, outlookConnected, icalUrl: exist
     }
   };
 
-  const handleConnectOutlook = () => {
-    toast({
-      title: "Coming Soon",
-      description: "Outlook integration will be available in a future update",
-    });
+  const handleConnectOutlook = async () => {
+    try {
+      const redirectUri = `${window.location.origin}/oauth2callback/microsoft`;
+
+      const { data, error } = await supabase.functions.invoke('microsoft-auth-start', {
+        body: { redirectUri }
+      });
+      if (error) throw error;
+
+      window.location.href = data.authUrl;
+    } catch (error: any) {
+      toast({
+        title: "Connection failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDisconnectOutlook = async () => {
+    setDisconnectingOutlook(true);
+    try {
+      const { error } = await supabase.functions.invoke('microsoft-revoke');
+      if (error) throw error;
+
+      toast({
+        title: "Disconnected",
+        description: "Outlook Calendar has been disconnected",
+      });
+
+      if (onSync) onSync();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setDisconnectingOutlook(false);
+    }
   };
 
   const handleConnectGoogle = async () => {
@@ -82,6 +138,35 @@ export function CalendarSync({ googleConnected, outlookConnected, icalUrl: exist
     }
   };
 
+  // Pulls Google changes and pushes pending Buizly edits right away
+  const handleSyncGoogle = async () => {
+    setSyncing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('google-calendar-sync', {
+        body: { action: 'pull', force: true }
+      });
+      if (error) throw error;
+
+      const changed = (data?.updated || 0) + (data?.pushed || 0);
+      toast({
+        title: "Google Calendar synced",
+        description: data?.conflicts
+          ? `${data.conflicts} meeting${data.conflicts === 1 ? " was" : "s were"} changed in both places. Open ${data.conflicts === 1 ? "it" : "them"} to choose a version.`
+          : changed ? `${changed} meeting${changed === 1 ? "" : "s"} updated` : "Everything is up to date",
+      });
+
+      if (onSync) onSync();
+    } catch (error: any) {
+      toast({
+        title: "Sync failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setSyncing(false);
+    }
+  };
+
   const copyIcalInstructions = () => {
     navigator.clipboard.writeText("webcal://your-calendar-url");
     setCopied(true);
@@ -134,7 +219,10 @@ export function CalendarSync({ googleConnected, outlookConnected, icalUrl: exist
                   </div>
                 </div>
                 {googleConnected ? (
-                  <Check className="h-5 w-5 text-primary" />
+                  <Button size="sm" variant="outline" onClick={handleSyncGoogle} disabled={syncing} className="border-primary text-primary">
+                    {syncing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-1" />}
+                    {!syncing && "Sync now"}
+                  </Button>
                 ) : (
                   <Button size="sm" onClick={handleConnectGoogle} className="bg-primary text-primary-foreground">
                     Connect
@@ -160,9 +248,15 @@ export function CalendarSync({ googleConnected, outlookConnected, icalUrl: exist
                     </p>
                   </div>
                 </div>
-                <Button size="sm" onClick={handleConnectOutlook} variant="outline" className="border-[#0078D4] text-[#0078D4]">
-                  Connect
-                </Button>
+                {outlookConnected ? (
+                  <Button size="sm" variant="outline" onClick={handleDisconnectOutlook} disabled={disconnectingOutlook} className="border-border">
+                    {disconnectingOutlook ? <Loader2 className="h-4 w-4 animate-spin" /> : "Disconnect"}
+                  </Button>
+                ) : (
+                  <Button size="sm" onClick={handleConnectOutlook} variant="outline" className="border-[#0078D4] text-[#0078D4]">
+                    Connect
+                  </Button>
+                )}
               </div>
             </div>
           </TabsContent>
@@ -178,7 +272,7 @@ export function CalendarSync({ googleConnected, outlookConnected, icalUrl: exist
                 className="bg-background border-border text-foreground"
               />
               <p className="text-xs text-muted-foreground">
-                Enter your iCal subscription URL to sync events
+                Enter your iCal subscription URL. Busy times from it are flagged when you schedule meetings.
               </p>
               <Button 
                 onClick={handleSaveIcal} 
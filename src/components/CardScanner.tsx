@@ -0,0 +1,134 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Camera, RefreshCw, ScanLine, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { recognizeCard, resizeImage, type ConfidenceLevel, type ScannedCard } from "@/lib/cardOcr";
+
+interface CardScannerProps {
+  onScanned: (card: ScannedCard, image: Blob) => void;
+  onClear: () => void;
+}
+
+export function CardScanner({ onScanned, onClear }: CardScannerProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const { toast } = useToast();
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      toast({
+        title: "Unsupported file",
+        description: "Please take a photo or choose an image of the card",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setScanning(true);
+    setProgress(0);
+    try {
+      const image = await resizeImage(file);
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+      setPreviewUrl(URL.createObjectURL(image));
+
+      const card = await recognizeCard(image, setProgress);
+      onScanned(card, image);
+
+      const found = Object.keys(card).length;
+      toast({
+        title: found > 0 ? "Card scanned" : "No details found",
+        description: found > 0
+          ? "Check the highlighted fields before saving"
+          : "Try again with better lighting, or enter the details by hand",
+      });
+    } catch (error) {
+      console.error("Card scan error:", error);
+      toast({
+        title: "Scan failed",
+        description: "Could not read the card. Please enter the details by hand.",
+        variant: "destructive",
+      });
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const handleClear = () => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+    setPreviewUrl(null);
+    onClear();
+  };
+
+  return (
+    <Card className="bg-secondary border-border p-4 space-y-3">
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        onChange={handleFile}
+        className="hidden"
+      />
+
+      {previewUrl ? (
+        <div className="relative">
+          <img src={previewUrl} alt="Scanned business card" className="w-full max-h-48 object-contain rounded-lg bg-card" />
+          {!scanning && (
+            <div className="absolute top-2 right-2 flex gap-2">
+              <Button type="button" size="icon" variant="secondary" onClick={() => inputRef.current?.click()}>
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+              <Button type="button" size="icon" variant="secondary" onClick={handleClear}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => inputRef.current?.click()}
+          disabled={scanning}
+          className="w-full border-primary text-primary hover:bg-primary/10"
+        >
+          <Camera className="h-4 w-4 mr-2" />
+          Scan Business Card
+        </Button>
+      )}
+
+      {scanning && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <ScanLine className="h-4 w-4 animate-pulse text-primary" />
+            Reading card... {Math.round(progress * 100)}%
+          </div>
+          <Progress value={progress * 100} className="h-1" />
+        </div>
+      )}
+    </Card>
+  );
+}
+
+const confidenceStyles: Record<ConfidenceLevel, { label: string; className: string }> = {
+  high: { label: "High confidence", className: "bg-green-500/20 text-green-400" },
+  medium: { label: "Check this", className: "bg-yellow-500/20 text-yellow-400" },
+  low: { label: "Low confidence", className: "bg-red-500/20 text-red-400" },
+};
+
+export function ConfidenceBadge({ level }: { level: ConfidenceLevel }) {
+  const style = confidenceStyles[level];
+  return (
+    <span className={`text-[10px] font-medium px-2 py-0.5 rounded-full ${style.className}`}>
+      {style.label}
+    </span>
+  );
+}
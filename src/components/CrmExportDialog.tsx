@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Download, Loader2 } from "lucide-react";
+import { format as formatDate } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { buildCrmExport, downloadCsv, CRM_EXPORT_LAYOUTS, type CrmExportFormat, type ExportMeeting } from "@/lib/crmExport";
+import type { Connection } from "@/types/database";
+
+interface CrmExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  connections: Connection[];
+  filterSummary?: string;
+}
+
+// Keeps the `in` filter well under URL length limits
+const MEETING_QUERY_CHUNK = 100;
+
+export function CrmExportDialog({ open, onOpenChange, connections, filterSummary }: CrmExportDialogProps) {
+  const [format, setFormat] = useState<CrmExportFormat>("csv");
+  const [includeMeetings, setIncludeMeetings] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
+
+  const fetchLinkedMeetings = async (): Promise<ExportMeeting[]> => {
+    const ids = connections.map(c => c.id);
+    const meetings: ExportMeeting[] = [];
+
+    for (let i = 0; i < ids.length; i += MEETING_QUERY_CHUNK) {
+      const { data, error } = await supabase
+        .from("meetings")
+        .select("id, connection_id, title, starts_at, status")
+        .in("connection_id", ids.slice(i, i + MEETING_QUERY_CHUNK));
+
+      if (error) throw error;
+      meetings.push(...(data || []));
+    }
+
+    return meetings;
+  };
+
+  const handleExport = async () => {
+    if (connections.length === 0) return;
+
+    setExporting(true);
+    try {
+      const meetings = includeMeetings ? await fetchLinkedMeetings() : [];
+      const csv = buildCrmExport(connections, meetings, format);
+      downloadCsv(csv, `buizly-connections-${format}-${formatDate(new Date(), "yyyy-MM-dd")}.csv`);
+
+      toast({
+        title: "Export ready",
+        description: `${connections.length} connections exported for ${CRM_EXPORT_LAYOUTS[format].label}`,
+      });
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to export connections",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="text-foreground flex items-center gap-2">
+            <Download className="h-5 w-5 text-primary" />
+            Export Connections
+          </DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            {connections.length} connections{filterSummary ? ` · ${filterSummary}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-2">
+          <div className="space-y-2">
+            <Label className="text-foreground">Format</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(CRM_EXPORT_LAYOUTS) as CrmExportFormat[]).map(key => (
+                <Button
+                  key={key}
+                  type="button"
+                  variant={format === key ? "default" : "outline"}
+                  onClick={() => setFormat(key)}
+                  className={format === key ? "bg-primary text-primary-foreground" : "border-border"}
+                >
+                  {CRM_EXPORT_LAYOUTS[key].label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="include-meetings" className="text-foreground">Include linked meetings</Label>
+              <p className="text-xs text-muted-foreground">Adds meeting dates and titles to each contact</p>
+            </div>
+            <Switch
+              id="include-meetings"
+              checked={includeMeetings}
+              onCheckedChange={setIncludeMeetings}
+            />
+          </div>
+
+          <Button
+            onClick={handleExport}
+            disabled={exporting || connections.length === 0}
+            className="w-full bg-primary text-primary-foreground"
+          >
+            {exporting ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            Download CSV
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
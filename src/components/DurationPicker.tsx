@@ -0,0 +1,97 @@
+import { useState, useEffect } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Timer } from "lucide-react";
+import {
+  DURATION_OPTIONS,
+  MAX_DURATION_MINUTES,
+  MIN_DURATION_MINUTES,
+  formatDuration,
+} from "@/lib/meetingTime";
+
+interface DurationPickerProps {
+  value: number;
+  onChange: (minutes: number) => void;
+}
+
+export function DurationPicker({ value, onChange }: DurationPickerProps) {
+  const [custom, setCustom] = useState(!DURATION_OPTIONS.includes(value));
+  const [draft, setDraft] = useState(String(value));
+
+  // Keep in sync when a form loads an existing meeting
+  useEffect(() => {
+    if (!DURATION_OPTIONS.includes(value)) setCustom(true);
+    setDraft(String(value));
+  }, [value]);
+
+  const handleSelect = (option: string) => {
+    if (option === "custom") {
+      setCustom(true);
+      return;
+    }
+    setCustom(false);
+    setDraft(option);
+    onChange(Number(option));
+  };
+
+  // Free typing is allowed; the value is clamped once the field loses focus
+  const handleCustomChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setDraft(e.target.value);
+    const minutes = Math.round(Number(e.target.value));
+    if (minutes >= MIN_DURATION_MINUTES && minutes <= MAX_DURATION_MINUTES) onChange(minutes);
+  };
+
+  const handleCustomBlur = () => {
+    const minutes = Math.round(Number(draft)) || value;
+    const clamped = Math.min(MAX_DURATION_MINUTES, Math.max(MIN_DURATION_MINUTES, minutes));
+    setDraft(String(clamped));
+    onChange(clamped);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-foreground flex items-center gap-1">
+        <Timer className="h-3.5 w-3.5" />
+        Duration
+      </Label>
+      <div className="flex gap-2">
+        <Select value={custom ? "custom" : String(value)} onValueChange={handleSelect}>
+          <SelectTrigger className="bg-secondary border-border text-foreground">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-card border-border">
+            {DURATION_OPTIONS.map((minutes) => (
+              <SelectItem key={minutes} value={String(minutes)} className="text-foreground">
+                {formatDuration(minutes)}
+              </SelectItem>
+            ))}
+            <SelectItem value="custom" className="text-foreground">Custom</SelectItem>
+          </SelectContent>
+        </Select>
+        {custom && (
+          <div className="relative w-32 flex-shrink-0">
+            <Input
+              type="number"
+              min={MIN_DURATION_MINUTES}
+              max={MAX_DURATION_MINUTES}
+              step={5}
+              value={draft}
+              onChange={handleCustomChange}
+              onBlur={handleCustomBlur}
+              className="bg-secondary border-border text-foreground pr-10"
+              aria-label="Duration in minutes"
+            />
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">min</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { formatMeetingDate, formatMeetingTime } from "@/lib/meetingTime";
+import type { GoogleSyncConflict, Meeting } from "@/types/database";
+
+interface GoogleSyncConflictCardProps {
+  meeting: Pick<Meeting, "id" | "time_zone" | "duration_minutes" | "google_sync_conflict">;
+  onResolve: (meetingId: string, keep: "buizly" | "google") => Promise<void>;
+}
+
+// Shown when a meeting was edited in Buizly and in Google Calendar since the last sync
+export function GoogleSyncConflictCard({ meeting, onResolve }: GoogleSyncConflictCardProps) {
+  const [resolving, setResolving] = useState<"buizly" | "google" | null>(null);
+  const { toast } = useToast();
+
+  const conflict = meeting.google_sync_conflict as unknown as GoogleSyncConflict | null;
+  if (!conflict) return null;
+
+  const googleSchedule = conflict.starts_at
+    ? {
+        starts_at: conflict.starts_at,
+        time_zone: conflict.time_zone || meeting.time_zone,
+        duration_minutes: conflict.duration_minutes || meeting.duration_minutes,
+      }
+    : null;
+
+  const handleResolve = async (keep: "buizly" | "google") => {
+    setResolving(keep);
+    try {
+      await onResolve(meeting.id, keep);
+      toast({
+        title: "Calendar conflict resolved",
+        description: keep === "google" ? "Updated from Google Calendar" : "Google Calendar now matches Buizly",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl bg-yellow-500/10 border border-yellow-500/30 p-4 space-y-3">
+      <div className="flex items-start gap-2 text-yellow-500">
+        <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+        <div className="text-sm">
+          <p className="font-medium">Changed in Google Calendar too</p>
+          <p className="opacity-80">
+            This meeting was edited here and in Google Calendar. Choose which version to keep.
+          </p>
+        </div>
+      </div>
+
+      <div className="rounded-lg bg-background/50 p-3 text-sm">
+        <p className="text-xs text-muted-foreground uppercase mb-1">Google Calendar version</p>
+        {conflict.status === "cancelled" ? (
+          <p className="text-foreground">Deleted from Google Calendar</p>
+        ) : (
+          <>
+            <p className="text-foreground font-medium">{conflict.title || "Untitled event"}</p>
+            {googleSchedule && (
+              <p className="text-muted-foreground">
+                {formatMeetingDate(googleSchedule, "PP")} · {formatMeetingTime(googleSchedule)}
+              </p>
+            )}
+            {conflict.location && <p className="text-muted-foreground">{conflict.location}</p>}
+          </>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          className="flex-1 border-border"
+          disabled={!!resolving}
+          onClick={() => handleResolve("buizly")}
+        >
+          {resolving === "buizly" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Keep Buizly version
+        </Button>
+        <Button
+          className="flex-1 bg-primary text-primary-foreground"
+          disabled={!!resolving}
+          onClick={() => handleResolve("google")}
+        >
+          {resolving === "google" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Use Google version
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CheckCircle2, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { toLeadForm } from "@/hooks/useLeadForm";
+import { buildLeadFormSchema, type LeadFormData } from "@/lib/validationSchemas";
+import type { LeadForm, LeadFormFieldType } from "@/types/database";
+
+interface LeadCaptureFormProps {
+  ownerId: string;
+}
+
+const INPUT_TYPES: Partial<Record<LeadFormFieldType, string>> = {
+  email: "email",
+  phone: "tel",
+  linkedin: "url",
+};
+
+export function LeadCaptureForm({ ownerId }: LeadCaptureFormProps) {
+  const [form, setForm] = useState<LeadForm | null>(null);
+  const [values, setValues] = useState<LeadFormData>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadForm = async () => {
+      // RLS only exposes enabled forms of Business subscribers
+      const { data } = await supabase
+        .from("lead_forms")
+        .select("*")
+        .eq("user_id", ownerId)
+        .eq("is_enabled", true)
+        .maybeSingle();
+
+      setForm(data ? toLeadForm(data) : null);
+    };
+    loadForm();
+  }, [ownerId]);
+
+  const schema = useMemo(
+    () => (form ? buildLeadFormSchema(form.fields, form.consent_required) : null),
+    [form]
+  );
+
+  if (!form || !schema) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = schema.safeParse(values);
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      result.error.errors.forEach(err => {
+        const key = String(err.path[0]);
+        if (!fieldErrors[key]) fieldErrors[key] = err.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setErrors({});
+    setSubmitting(true);
+    try {
+      const { consent, ...answers } = result.data;
+      const { error } = await supabase.functions.invoke("submit-lead-form", {
+        body: { formId: form.id, values: answers, consent: consent === true },
+      });
+
+      if (error) throw error;
+
+      setSubmitted(true);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (submitted) {
+    return (
+      <Card className="bg-card border-border p-6 text-center">
+        <CheckCircle2 className="h-10 w-10 text-primary mx-auto mb-3" />
+        <h3 className="text-lg font-semibold text-foreground">Thanks!</h3>
+        <p className="text-muted-foreground text-sm">Your details have been sent.</p>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="bg-card border-border p-6">
+      <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">{form.title}</h3>
+          {form.description && <p className="text-sm text-muted-foreground mt-1">{form.description}</p>}
+        </div>
+
+        {form.fields.map(field => (
+          <div key={field.id} className="space-y-2">
+            <Label htmlFor={`lead-${field.id}`} className="text-foreground">
+              {field.label}
+              {field.required && <span className="text-destructive"> *</span>}
+            </Label>
+            {field.type === "textarea" ? (
+              <Textarea
+                id={`lead-${field.id}`}
+                value={(values[field.id] as string) || ""}
+                onChange={(e) => setValues(prev => ({ ...prev, [field.id]: e.target.value }))}
+                rows={3}
+                className="bg-secondary border-border text-foreground"
+              />
+            ) : (
+              <Input
+                id={`lead-${field.id}`}
+                type={INPUT_TYPES[field.type] || "text"}
+                value={(values[field.id] as string) || ""}
+                onChange={(e) => setValues(prev => ({ ...prev, [field.id]: e.target.value }))}
+                className="bg-secondary border-border text-foreground"
+              />
+            )}
+            {errors[field.id] && <p className="text-xs text-destructive">{errors[field.id]}</p>}
+          </div>
+        ))}
+
+        {form.consent_required && (
+          <div className="space-y-1">
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="lead-consent"
+                checked={values.consent === true}
+                onCheckedChange={(checked) => setValues(prev => ({ ...prev, consent: checked === true }))}
+              />
+              <Label htmlFor="lead-consent" className="text-sm text-muted-foreground font-normal leading-snug">
+                {form.consent_text}
+              </Label>
+            </div>
+            {errors.consent && <p className="text-xs text-destructive">{errors.consent}</p>}
+          </div>
+        )}
+
+        <Button type="submit" disabled={submitting} className="w-full bg-primary text-primary-foreground">
+          {submitting && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+          {form.submit_label}
+        </Button>
+      </form>
+    </Card>
+  );
+}
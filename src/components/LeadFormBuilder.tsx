@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ClipboardList, Crown, Loader2, Plus, Trash2 } from "lucide-react";
+import { useSubscription } from "@/hooks/useSubscription";
+import { useLeadForm, DEFAULT_LEAD_FORM, type LeadFormDraft } from "@/hooks/useLeadForm";
+import { UpgradePrompt } from "@/components/UpgradePrompt";
+import type { LeadFormField, LeadFormFieldType } from "@/types/database";
+
+const MAX_FIELDS = 12;
+
+const FIELD_TYPE_LABELS: Record<LeadFormFieldType, string> = {
+  name: "Name",
+  email: "Email",
+  phone: "Phone",
+  company: "Company",
+  title: "Job title",
+  linkedin: "LinkedIn URL",
+  text: "Short text",
+  textarea: "Long text",
+};
+
+export function LeadFormBuilder() {
+  const { hasFeature } = useSubscription();
+  const { form, loading, saveForm } = useLeadForm();
+  const [draft, setDraft] = useState<LeadFormDraft>(DEFAULT_LEAD_FORM);
+  const [saving, setSaving] = useState(false);
+  const [showUpgrade, setShowUpgrade] = useState(false);
+
+  const canUse = hasFeature("hasLeadCapture");
+
+  useEffect(() => {
+    if (form) {
+      setDraft({
+        is_enabled: form.is_enabled,
+        title: form.title,
+        description: form.description,
+        fields: form.fields,
+        consent_required: form.consent_required,
+        consent_text: form.consent_text,
+        submit_label: form.submit_label,
+      });
+    }
+  }, [form]);
+
+  const updateField = (id: string, updates: Partial<LeadFormField>) => {
+    setDraft(prev => ({
+      ...prev,
+      fields: prev.fields.map(f => (f.id === id ? { ...f, ...updates } : f)),
+    }));
+  };
+
+  const addField = () => {
+    if (draft.fields.length >= MAX_FIELDS) return;
+    setDraft(prev => ({
+      ...prev,
+      fields: [...prev.fields, { id: crypto.randomUUID(), type: "text", label: "New question", required: false }],
+    }));
+  };
+
+  const removeField = (id: string) => {
+    setDraft(prev => ({ ...prev, fields: prev.fields.filter(f => f.id !== id) }));
+  };
+
+  const handleSave = async () => {
+    if (!canUse) {
+      setShowUpgrade(true);
+      return;
+    }
+    setSaving(true);
+    await saveForm(draft);
+    setSaving(false);
+  };
+
+  if (loading) return null;
+
+  return (
+    <Card className="bg-card border-border p-4">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-4">
+          <div className="p-2 bg-primary/10 rounded-lg">
+            <ClipboardList className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <span className="text-foreground font-medium">Lead Capture Form</span>
+            <p className="text-sm text-muted-foreground">Collect leads from your public profile</p>
+          </div>
+        </div>
+        {canUse ? (
+          <Switch
+            checked={draft.is_enabled}
+            onCheckedChange={(checked) => setDraft(prev => ({ ...prev, is_enabled: checked }))}
+          />
+        ) : (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setShowUpgrade(true)}
+            className="border-primary text-primary"
+          >
+            <Crown className="h-4 w-4 mr-1" />
+            Business
+          </Button>
+        )}
+      </div>
+
+      {canUse && (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-foreground">Form title</Label>
+            <Input
+              value={draft.title}
+              maxLength={100}
+              onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))}
+              className="bg-secondary border-border text-foreground"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-foreground">Description</Label>
+            <Textarea
+              value={draft.description || ""}
+              maxLength={500}
+              rows={2}
+              placeholder="Tell visitors what happens after they submit"
+              onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value || null }))}
+              className="bg-secondary border-border text-foreground"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-foreground">Fields</Label>
+            {draft.fields.map(field => (
+              <div key={field.id} className="flex items-center gap-2 bg-secondary rounded-lg p-2">
+                <Input
+                  value={field.label}
+                  maxLength={60}
+                  onChange={(e) => updateField(field.id, { label: e.target.value })}
+                  className="flex-1 h-8 bg-background border-border text-foreground text-sm"
+                />
+                <Select
+                  value={field.type}
+                  onValueChange={(v) => updateField(field.id, { type: v as LeadFormFieldType })}
+                >
+                  <SelectTrigger className="w-[120px] h-8 bg-background border-border text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FIELD_TYPE_LABELS) as LeadFormFieldType[]).map(type => (
+                      <SelectItem key={type} value={type}>{FIELD_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-1">
+                  <Switch
+                    checked={field.required}
+                    onCheckedChange={(checked) => updateField(field.id, { required: checked })}
+                  />
+                  <span className="text-xs text-muted-foreground">Req.</span>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeField(field.id)}
+                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={addField}
+              disabled={draft.fields.length >= MAX_FIELDS}
+              className="w-full border-dashed border-border"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add field
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-foreground">Require consent checkbox</Label>
+              <Switch
+                checked={draft.consent_required}
+                onCheckedChange={(checked) => setDraft(prev => ({ ...prev, consent_required: checked }))}
+              />
+            </div>
+            {draft.consent_required && (
+              <Input
+                value={draft.consent_text}
+                maxLength={500}
+                onChange={(e) => setDraft(prev => ({ ...prev, consent_text: e.target.value }))}
+                className="bg-secondary border-border text-foreground"
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-foreground">Button label</Label>
+            <Input
+              value={draft.submit_label}
+              maxLength={40}
+              onChange={(e) => setDraft(prev => ({ ...prev, submit_label: e.target.value }))}
+              className="bg-secondary border-border text-foreground"
+            />
+          </div>
+
+          <Button
+            onClick={handleSave}
+            disabled={saving || !draft.title.trim() || !draft.submit_label.trim()}
+            className="w-full bg-primary text-primary-foreground"
+          >
+            {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Save Form
+          </Button>
+        </div>
+      )}
+
+      <UpgradePrompt
+        open={showUpgrade}
+        onOpenChange={setShowUpgrade}
+        feature="lead_capture"
+      />
+    </Card>
+  );
+}
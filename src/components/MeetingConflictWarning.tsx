@@ -0,0 +1,49 @@
+import { AlertTriangle } from "lucide-react";
+import { formatBusyTime, formatMeetingTime } from "@/lib/meetingTime";
+import { getOccurrenceKey } from "@/lib/recurrence";
+import type { BusyBlock, Meeting } from "@/types/database";
+
+interface MeetingConflictWarningProps {
+  conflicts: (Pick<Meeting, "id" | "title" | "starts_at" | "time_zone" | "duration_minutes"> & {
+    occurrence_start?: string | null;
+  })[];
+  // Overlapping busy times from the user's iCal feed
+  busyBlocks?: Pick<BusyBlock, "id" | "summary" | "starts_at" | "ends_at" | "all_day">[];
+}
+
+// Overlaps are allowed (double-booking is sometimes intentional), so this only warns
+export function MeetingConflictWarning({ conflicts, busyBlocks = [] }: MeetingConflictWarningProps) {
+  if (conflicts.length === 0 && busyBlocks.length === 0) return null;
+
+  return (
+    <div className="flex items-start gap-2 rounded-lg bg-yellow-500/10 border border-yellow-500/30 p-3 text-sm text-yellow-500">
+      <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+      <div>
+        {conflicts.length > 0 && (
+          <>
+            <p className="font-medium">
+              Overlaps with {conflicts.length === 1 ? "another meeting" : `${conflicts.length} meetings`}
+            </p>
+            {conflicts.slice(0, 3).map(c => (
+              <p key={getOccurrenceKey(c)} className="text-xs opacity-80">
+                {c.title || "Meeting"} · {formatMeetingTime(c)}
+              </p>
+            ))}
+          </>
+        )}
+        {busyBlocks.length > 0 && (
+          <>
+            <p className={conflicts.length > 0 ? "font-medium mt-2" : "font-medium"}>
+              You're busy in your calendar
+            </p>
+            {busyBlocks.slice(0, 3).map(b => (
+              <p key={b.id} className="text-xs opacity-80">
+                {b.summary || "Busy"} · {formatBusyTime(b)}
+              </p>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
-import { Plus, X, Mail, CalendarIcon, Clock, MapPin, Image, FileText, Users } from "lucide-react";
+import { Plus, X, Mail, CalendarIcon, Clock, MapPin, Phone, Video, Image, FileText, Users } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -26,25 +26,36 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useMeetings } from "@/hooks/useMeetings";
+import { useBusyBlocks } from "@/hooks/useBusyBlocks";
 import { supabase } from "@/integrations/supabase/client";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
-import type { Connection, Meeting } from "@/types/database";
-
-const timeSlots = [
-  "09:00 AM", "09:30 AM", "10:00 AM", "10:30 AM", "11:00 AM", "11:30 AM",
-  "12:00 PM", "12:30 PM", "01:00 PM", "01:30 PM", "02:00 PM", "02:30 PM",
-  "03:00 PM", "03:30 PM", "04:00 PM", "04:30 PM", "05:00 PM", "05:30 PM"
-];
+import { DurationPicker } from "@/components/DurationPicker";
+import { MeetingConflictWarning } from "@/components/MeetingConflictWarning";
+import { RecurrencePicker } from "@/components/RecurrencePicker";
+import {
+  buildMeetingSchedule,
+  DEFAULT_DURATION_MINUTES,
+  findBusyConflicts,
+  getLocalTimeSlot,
+  TIME_SLOTS,
+} from "@/lib/meetingTime";
+import { findOccurrenceConflicts } from "@/lib/recurrence";
+import { getConferenceProvider, MEETING_MODE_LABELS } from "@/lib/conference";
+import type { Connection, Meeting, MeetingMode } from "@/types/database";
 
 interface MeetingFormProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   editMeeting?: Meeting | null;
+  // With a recurring editMeeting: edit only the occurrence starting at this time
+  occurrence?: string | null;
   prefillData?: {
     title?: string;
     description?: string;
+    agenda?: string;
     location?: string;
+    meeting_mode?: MeetingMode;
     connection_id?: string;
     parent_meeting_id?: string;
   };
@@ -55,11 +66,15 @@ interface Participant {
   name: string;
 }
 
-export function MeetingForm({ open, onOpenChange, editMeeting, prefillData }: MeetingFormProps) {
+export function MeetingForm({ open, onOpenChange, editMeeting, occurrence, prefillData }: MeetingFormProps) {
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
+  const [agenda, setAgenda] = useState("");
   const [date, setDate] = useState<Date | undefined>(new Date());
   const [time, setTime] = useState("");
+  const [duration, setDuration] = useState(DEFAULT_DURATION_MINUTES);
+  const [recurrence, setRecurrence] = useState<string | null>(null);
+  const [mode, setMode] = useState<MeetingMode>("in_person");
   const [location, setLocation] = useState("");
   const [participants, setParticipants] = useState<Participant[]>([]);
   const [newParticipantEmail, setNewParticipantEmail] = useState("");
@@ -68,11 +83,13 @@ export function MeetingForm({ open, onOpenChange, editMeeting, prefillData }: Me
   const [selectedConnection, setSelectedConnection] = useState("");
   const [loading, setLoading] = useState(false);
   const [showAddParticipant, setShowAddParticipant] = useState(false);
-  const [meetingPhotos, setMeetingPhotos] = useState<string[]>([]);
+  // Uploaded before the meeting exists; saved as its media once it's created
+  const [meetingPhotos, setMeetingPhotos] = useState<{ path: string; url: string }[]>([]);
   const [notes, setNotes] = useState("");
   const [calendarOpen, setCalendarOpen] = useState(false);
 
-  const { createMeeting, updateMeeting } = useMeetings();
+  const { meetings, createMeeting, updateMeeting, updateOccurrence } = useMeetings();
+  const { blocks: busyBlocks } = useBusyBlocks();
   const { toast } = useToast();
   const navigate = useNavigate();
 
@@ -80,21 +97,30 @@ export function MeetingForm({ open, onOpenChange, editMeeting, prefillData }: Me
     fetchConnections();
   }, []);
 
+  const editingOccurrence = !!(editMeeting?.recurrence_rule && occurrence);
+
   useEffect(() => {
     if (editMeeting) {
+      const startsAt = (editMeeting.recurrence_rule && occurrence) || editMeeting.starts_at;
       setTitle(editMeeting.title || "");
       setDescription(editMeeting.description || "");
-      setDate(new Date(editMeeting.meeting_date));
-      setTime(editMeeting.meeting_time);
+      setAgenda(editMeeting.agenda || "");
+      setDate(new Date(startsAt));
+      setTime(getLocalTimeSlot({ ...editMeeting, starts_at: startsAt }));
+      setDuration(editMeeting.duration_minutes || DEFAULT_DURATION_MINUTES);
+      setRecurrence(editMeeting.recurrence_rule);
+      setMode(editMeeting.meeting_mode || "in_person");
       setLocation(editMeeting.location || "");
       setSelectedConnection(editMeeting.connection_id || "");
     } else if (prefillData) {
       setTitle(prefillData.title || "");
       setDescription(prefillData.description || "");
+      setAgenda(prefillData.agenda || "");
+      setMode(prefillData.meeting_mode || "in_person");
       setLocation(prefillData.location || "");
       setSelectedConnection(prefillData.connection_id || "");
     }
-  }, [editMeeting, prefillData]);
+  }, [editMeeting, occurrence, prefillData]);
 
   const fetchConnections = async () => {
     try {
@@ -154,14 +180,28 @@ export function MeetingForm({ open, onOpenChange, editMeeting, prefillData }: Me
     setParticipants(prev => prev.filter(p => p.email !== email));
   };
 
-  const handlePhotoUpload = (urls: string[]) => {
-    setMeetingPhotos(prev => [...prev, ...urls]);
-  };
-
   const removePhoto = (index: number) => {
     setMeetingPhotos(prev => prev.filter((_, i) => i !== index));
   };
 
+  const conflicts = useMemo(() => {
+    if (!date || !time) return [];
+    return findOccurrenceConflicts(meetings, buildMeetingSchedule(date, time).starts_at, duration, editMeeting?.id);
+  }, [meetings, date, time, duration, editMeeting?.id]);
+
+  const busyConflicts = useMemo(() => {
+    if (!date || !time) return [];
+    return findBusyConflicts(busyBlocks, buildMeetingSchedule(date, time).starts_at, duration);
+  }, [busyBlocks, date, time, duration]);
+
+  // Slots that clash with the user's own calendar are labelled in the picker
+  const busySlots = useMemo(() => {
+    if (!date) return new Set<string>();
+    return new Set(TIME_SLOTS.filter(slot =>
+      findBusyConflicts(busyBlocks, buildMeetingSchedule(date, slot).starts_at, duration).length > 0
+    ));
+  }, [busyBlocks, date, duration]);
+
   const handleSubmit = async () => {
     if (!title.trim()) {
       toast({
@@ -183,21 +223,37 @@ export function MeetingForm({ open, onOpenChange, editMeeting, prefillData }: Me
 
     setLoading(true);
 
-    try {
-      // Combine description, notes, and photos into a structured description
-      const fullDescription = JSON.stringify({
-        description: description || "",
-        notes: notes || "",
-        photos: meetingPhotos
-      });
+    // Video meetings get their link when saved; leaving video mode drops it
+    const modeFields = {
+      meeting_mode: mode,
+      location: mode === "video" ? null : location.trim() || null,
+      ...(mode !== "video" ? { conference_url: null } : {})
+    };
 
-      if (editMeeting) {
+    try {
+      if (editingOccurrence) {
+        await updateOccurrence(editMeeting!, occurrence!, {
+          title,
+          description: description.trim() || null,
+          agenda: agenda.trim() || null,
+          ...buildMeetingSchedule(date, time),
+          duration_minutes: duration,
+          ...modeFields,
+          connection_id: selectedConnection || null
+        });
+        toast({
+          title: "Occurrence updated",
+          description: "Only this occurrence was changed"
+        });
+      } else if (editMeeting) {
         await updateMeeting(editMeeting.id, {
           title,
-          description: fullDescription,
-          meeting_date: date.toISOString().split("T")[0],
-          meeting_time: time,
-          location: location || null,
+          description: description.trim() || null,
+          agenda: agenda.trim() || null,
+          ...buildMeetingSchedule(date, time),
+          duration_minutes: duration,
+          recurrence_rule: recurrence,
+          ...modeFields,
           connection_id: selectedConnection || null
         });
         toast({
@@ -207,10 +263,15 @@ export function MeetingForm({ open, onOpenChange, editMeeting, prefillData }: Me
       } else {
         await createMeeting({
           title,
-          description: fullDescription,
-          meeting_date: date.toISOString().split("T")[0],
-          meeting_time: time,
-          location,
+          description: description.trim() || undefined,
+          agenda: agenda.trim() || undefined,
+          notes: notes.trim() || undefined,
+          photo_paths: meetingPhotos.map(p => p.path),
+          ...buildMeetingSchedule(date, time),
+          duration_minutes: duration,
+          recurrence_rule: recurrence,
+          meeting_mode: mode,
+          location: modeFields.location || undefined,
           connection_id: selectedConnection || undefined,
           participants,
           parent_meeting_id: prefillData?.parent_meeting_id
@@ -237,8 +298,12 @@ export function MeetingForm({ open, onOpenChange, editMeeting, prefillData }: Me
   const resetForm = () => {
     setTitle("");
     setDescription("");
+    setAgenda("");
     setDate(new Date());
     setTime("");
+    setDuration(DEFAULT_DURATION_MINUTES);
+    setRecurrence(null);
+    setMode("in_person");
     setLocation("");
     setParticipants([]);
     setSelectedConnection("");
@@ -251,7 +316,7 @@ export function MeetingForm({ open, onOpenChange, editMeeting, prefillData }: Me
       <DialogContent className="sm:max-w-[500px] bg-card border-border max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="text-foreground">
-            {editMeeting ? "Edit Meeting" : "Schedule Meeting"}
+            {editingOccurrence ? "Edit Occurrence" : editMeeting ? "Edit Meeting" : "Schedule Meeting"}
           </DialogTitle>
         </DialogHeader>
 
@@ -314,9 +379,10 @@ export function MeetingForm({ open, onOpenChange, editMeeting, prefillData }: Me
                   <SelectValue placeholder="Select time" />
                 </SelectTrigger>
                 <SelectContent className="bg-card border-border max-h-[200px]">
-                  {timeSlots.map((slot) => (
+                  {TIME_SLOTS.map((slot) => (
                     <SelectItem key={slot} value={slot} className="text-foreground">
                       {slot}
+                      {busySlots.has(slot) && <span className="ml-2 text-xs text-muted-foreground">Busy</span>}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -324,20 +390,66 @@ export function MeetingForm({ open, onOpenChange, editMeeting, prefillData }: Me
             </div>
           </div>
 
-          {/* Location */}
+          <DurationPicker value={duration} onChange={setDuration} />
+
+          {!editingOccurrence && (
+            <RecurrencePicker value={recurrence} onChange={setRecurrence} start={date} />
+          )}
+
+          <MeetingConflictWarning conflicts={conflicts} busyBlocks={busyConflicts} />
+
+          {/* Meeting mode */}
           <div className="space-y-2">
-            <Label className="text-foreground flex items-center gap-1">
-              <MapPin className="h-3.5 w-3.5" />
-              Location
-            </Label>
-            <Input
-              value={location}
-              onChange={(e) => setLocation(e.target.value)}
-              placeholder="Meeting location or video link"
-              className="bg-secondary border-border text-foreground"
-            />
+            <Label className="text-foreground">Meeting type</Label>
+            <Select value={mode} onValueChange={(value) => setMode(value as MeetingMode)}>
+              <SelectTrigger className="bg-secondary border-border text-foreground">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-card border-border">
+                {(Object.keys(MEETING_MODE_LABELS) as MeetingMode[]).map((value) => (
+                  <SelectItem key={value} value={value} className="text-foreground">
+                    {MEETING_MODE_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
 
+          {/* Location, dial-in number or video link */}
+          {mode === "video" ? (
+            <div className="flex items-start gap-2 p-3 bg-secondary rounded-lg text-sm">
+              <Video className="h-4 w-4 text-primary mt-0.5 shrink-0" />
+              {editMeeting?.meeting_mode === "video" && editMeeting.conference_url ? (
+                <a
+                  href={editMeeting.conference_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary hover:underline break-all"
+                >
+                  {getConferenceProvider(editMeeting.conference_url)}: {editMeeting.conference_url}
+                </a>
+              ) : (
+                <p className="text-muted-foreground">
+                  A video link is created when you save: Google Meet if your Google Calendar is connected, otherwise Jitsi Meet.
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label className="text-foreground flex items-center gap-1">
+                {mode === "phone" ? <Phone className="h-3.5 w-3.5" /> : <MapPin className="h-3.5 w-3.5" />}
+                {mode === "phone" ? "Phone number" : "Location"}
+              </Label>
+              <Input
+                type={mode === "phone" ? "tel" : "text"}
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                placeholder={mode === "phone" ? "Number participants should call" : "Address or venue"}
+                className="bg-secondary border-border text-foreground"
+              />
+            </div>
+          )}
+
           {/* Participants */}
           <div className="space-y-2">
             <Label className="text-foreground flex items-center gap-1">
@@ -433,106 +545,121 @@ export function MeetingForm({ open, onOpenChange, editMeeting, prefillData }: Me
             )}
           </div>
 
-          {/* Description & Notes (Consolidated) */}
+          {/* Description & Agenda */}
           <div className="space-y-2">
             <Label className="text-foreground flex items-center gap-1">
               <FileText className="h-3.5 w-3.5" />
-              Description & Notes
+              Description & Agenda
             </Label>
             <Textarea
               value={description}
               onChange={(e) => setDescription(e.target.value)}
-              placeholder="Meeting description and agenda..."
+              placeholder="What is this meeting about?"
               className="bg-secondary border-border text-foreground min-h-[80px]"
             />
             <Textarea
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-              placeholder="Additional notes for participants..."
+              value={agenda}
+              onChange={(e) => setAgenda(e.target.value)}
+              placeholder="Agenda..."
               className="bg-secondary border-border text-foreground min-h-[60px]"
             />
           </div>
 
+          {/* Notes and photos are managed on the meeting page once it exists */}
+          {!editMeeting && (
+            <div className="space-y-2">
+              <Label className="text-foreground">Notes</Label>
+              <Textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Private notes, only visible to you..."
+                className="bg-secondary border-border text-foreground min-h-[60px]"
+              />
+            </div>
+          )}
+
           {/* Photo Upload */}
-          <div className="space-y-2">
-            <Label className="text-foreground flex items-center gap-1">
-              <Image className="h-3.5 w-3.5" />
-              Photos & Media
-            </Label>
-            
-            {/* Existing photos */}
-            {meetingPhotos.length > 0 && (
-              <div className="flex flex-wrap gap-2 mb-2">
-                {meetingPhotos.map((url, index) => (
-                  <div key={index} className="relative group">
-                    <img 
-                      src={url} 
-                      alt={`Meeting photo ${index + 1}`}
-                      className="h-16 w-16 object-cover rounded-lg border border-border"
-                    />
-                    <button
-                      onClick={() => removePhoto(index)}
-                      className="absolute -top-1 -right-1 p-1 bg-destructive rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
-                    >
-                      <X className="h-3 w-3 text-destructive-foreground" />
-                    </button>
-                  </div>
-                ))}
-              </div>
-            )}
-            
-            {meetingPhotos.length < 5 && (
-              <div className="flex gap-2">
-                <input
-                  type="file"
-                  accept="image/*"
-                  id="meeting-photo-upload"
-                  className="hidden"
-                  onChange={async (e) => {
-                    const file = e.target.files?.[0];
-                    if (!file) return;
-                    
-                    try {
-                      const { data: { user } } = await supabase.auth.getUser();
-                      if (!user) throw new Error("Not authenticated");
-                      
-                      const fileName = `${user.id}/temp/photo-${Date.now()}.${file.name.split(".").pop()}`;
-                      
-                      const { error: uploadError } = await supabase.storage
-                        .from("meeting-media")
-                        .upload(fileName, file, { contentType: file.type });
-                      
-                      if (uploadError) throw uploadError;
-                      
-                      const { data: signedUrlData } = await supabase.storage
-                        .from("meeting-media")
-                        .createSignedUrl(fileName, 31536000);
+          {!editMeeting && (
+            <div className="space-y-2">
+              <Label className="text-foreground flex items-center gap-1">
+                <Image className="h-3.5 w-3.5" />
+                Photos & Media
+              </Label>
+              
+              {/* Existing photos */}
+              {meetingPhotos.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {meetingPhotos.map((photo, index) => (
+                    <div key={photo.path} className="relative group">
+                      <img 
+                        src={photo.url} 
+                        alt={`Meeting photo ${index + 1}`}
+                        className="h-16 w-16 object-cover rounded-lg border border-border"
+                      />
+                      <button
+                        onClick={() => removePhoto(index)}
+                        className="absolute -top-1 -right-1 p-1 bg-destructive rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                      >
+                        <X className="h-3 w-3 text-destructive-foreground" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              
+              {meetingPhotos.length < 5 && (
+                <div className="flex gap-2">
+                  <input
+                    type="file"
+                    accept="image/*"
+                    id="meeting-photo-upload"
+                    className="hidden"
+                    onChange={async (e) => {
+                      const file = e.target.files?.[0];
+                      if (!file) return;
                       
-                      if (signedUrlData?.signedUrl) {
-                        setMeetingPhotos(prev => [...prev, signedUrlData.signedUrl]);
+                      try {
+                        const { data: { user } } = await supabase.auth.getUser();
+                        if (!user) throw new Error("Not authenticated");
+                        
+                        const fileName = `${user.id}/temp/photo-${Date.now()}.${file.name.split(".").pop()}`;
+                        
+                        const { error: uploadError } = await supabase.storage
+                          .from("meeting-media")
+                          .upload(fileName, file, { contentType: file.type });
+                        
+                        if (uploadError) throw uploadError;
+                        
+                        const { data: signedUrlData } = await supabase.storage
+                          .from("meeting-media")
+                          .createSignedUrl(fileName, 60 * 60);
+                        
+                        if (signedUrlData?.signedUrl) {
+                          setMeetingPhotos(prev => [...prev, { path: fileName, url: signedUrlData.signedUrl }]);
+                        }
+                      } catch (error: any) {
+                        toast({
+                          title: "Upload failed",
+                          description: error.message,
+                          variant: "destructive"
+                        });
                       }
-                    } catch (error: any) {
-                      toast({
-                        title: "Upload failed",
-                        description: error.message,
-                        variant: "destructive"
-                      });
-                    }
-                    e.target.value = "";
-                  }}
-                />
-                <Button
-                  type="button"
-                  variant="outline"
-                  onClick={() => document.getElementById('meeting-photo-upload')?.click()}
-                  className="flex-1 border-border text-foreground"
-                >
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Photo ({meetingPhotos.length}/5)
-                </Button>
-              </div>
-            )}
-          </div>
+                      e.target.value = "";
+                    }}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => document.getElementById('meeting-photo-upload')?.click()}
+                    className="flex-1 border-border text-foreground"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Photo ({meetingPhotos.length}/5)
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
 
           {/* Submit */}
           <Button
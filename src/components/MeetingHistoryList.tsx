@@ -0,0 +1,99 @@
+import { useNavigate } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Calendar, Clock, MapPin, ChevronRight, Repeat } from "lucide-react";
+import { formatMeetingDate, formatMeetingTime } from "@/lib/meetingTime";
+import { getMeetingPath, getOccurrenceKey } from "@/lib/recurrence";
+import type { Meeting } from "@/types/database";
+
+const statusColors: Record<string, string> = {
+  pending: "bg-yellow-500/20 text-yellow-400",
+  confirmed: "bg-green-500/20 text-green-400",
+  declined: "bg-red-500/20 text-red-400",
+  cancelled: "bg-muted text-muted-foreground",
+  rescheduled: "bg-blue-500/20 text-blue-400"
+};
+
+type MeetingSummary = Pick<Meeting, "id" | "title" | "starts_at" | "time_zone" | "location" | "status"> & {
+  // Set for occurrences of a recurring series
+  occurrence_start?: string | null;
+};
+
+interface MeetingHistoryListProps {
+  meetings: MeetingSummary[];
+  emptyMessage?: string;
+}
+
+// Rendered in the order given; month headers make long lists easier to scan
+export function MeetingHistoryList({ meetings, emptyMessage = "No past meetings yet" }: MeetingHistoryListProps) {
+  const navigate = useNavigate();
+
+  if (meetings.length === 0) {
+    return (
+      <Card className="bg-card border-border p-6 text-center">
+        <p className="text-muted-foreground">{emptyMessage}</p>
+      </Card>
+    );
+  }
+
+  const groups: { month: string; meetings: MeetingSummary[] }[] = [];
+  for (const meeting of meetings) {
+    const month = formatMeetingDate(meeting, "MMMM yyyy");
+    const last = groups[groups.length - 1];
+    if (last?.month === month) {
+      last.meetings.push(meeting);
+    } else {
+      groups.push({ month, meetings: [meeting] });
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {groups.map(group => (
+        <div key={group.month} className="space-y-2">
+          <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{group.month}</p>
+          {group.meetings.map(meeting => (
+            <Card
+              key={getOccurrenceKey(meeting)}
+              className="bg-card border-border p-4 cursor-pointer hover:bg-card/80 hover:border-primary/50 transition-all"
+              onClick={() => navigate(getMeetingPath(meeting))}
+            >
+              <div className="flex items-center justify-between">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <p className="font-medium text-foreground truncate">
+                      {meeting.title || "Meeting"}
+                    </p>
+                    {meeting.occurrence_start && (
+                      <Repeat className="h-3 w-3 flex-shrink-0 text-muted-foreground" aria-label="Recurring" />
+                    )}
+                    <Badge className={`${statusColors[meeting.status || 'pending']} border-0 text-xs`}>
+                      {meeting.status || 'pending'}
+                    </Badge>
+                  </div>
+                  <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                    <div className="flex items-center gap-1">
+                      <Calendar className="h-3 w-3" />
+                      <span>{formatMeetingDate(meeting, "P")}</span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      <span>{formatMeetingTime(meeting)}</span>
+                    </div>
+                    {meeting.location && (
+                      <div className="flex items-center gap-1">
+                        <MapPin className="h-3 w-3" />
+                        <span className="truncate max-w-[100px]">{meeting.location}</span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+                <ChevronRight className="h-5 w-5 text-muted-foreground" />
+              </div>
+            </Card>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Plus, X, StickyNote } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+import type { MeetingNote } from "@/types/database";
+
+interface MeetingNotesProps {
+  meetingId: string;
+}
+
+type TextNote = Pick<MeetingNote, "id" | "text_note" | "created_at">;
+
+// Written notes on a meeting; voice notes live in the same table and are shown by VoiceRecorder
+export function MeetingNotes({ meetingId }: MeetingNotesProps) {
+  const [notes, setNotes] = useState<TextNote[]>([]);
+  const [draft, setDraft] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadNotes();
+  }, [meetingId]);
+
+  const loadNotes = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('meeting_notes')
+        .select('id, text_note, created_at')
+        .eq('meeting_id', meetingId)
+        .not('text_note', 'is', null)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setNotes(data || []);
+    } catch (error) {
+      console.error('Error loading notes:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addNote = async () => {
+    if (!draft.trim()) return;
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('meeting_notes')
+        .insert({ meeting_id: meetingId, text_note: draft.trim() })
+        .select('id, text_note, created_at')
+        .single();
+
+      if (error) throw error;
+
+      setNotes(prev => [...prev, data]);
+      setDraft("");
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeNote = async (noteId: string) => {
+    try {
+      const { error } = await supabase
+        .from('meeting_notes')
+        .delete()
+        .eq('id', noteId);
+
+      if (error) throw error;
+      setNotes(prev => prev.filter(n => n.id !== noteId));
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-card border border-border rounded-xl p-4 flex items-center justify-center">
+        <LoadingSpinner size="sm" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-4 space-y-4">
+      <h4 className="text-sm font-medium text-foreground">Notes</h4>
+
+      {notes.length > 0 ? (
+        <div className="space-y-2">
+          {notes.map(note => (
+            <div key={note.id} className="flex items-start gap-2 rounded-lg bg-secondary p-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-foreground whitespace-pre-wrap break-words">{note.text_note}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {format(new Date(note.created_at), "MMM d, yyyy 'at' h:mm a")}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => removeNote(note.id)}
+                className="h-7 w-7 flex-shrink-0"
+                aria-label="Delete note"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-2 text-muted-foreground">
+          <StickyNote className="h-8 w-8 mx-auto mb-2 opacity-50" />
+          <p className="text-sm">No notes added yet</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Add a note..."
+          className="bg-secondary border-border text-foreground min-h-[60px]"
+        />
+        <Button
+          onClick={addNote}
+          disabled={saving || !draft.trim()}
+          variant="outline"
+          className="w-full border-primary text-primary"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Note
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,15 @@
 import { useState } from "react";
 import { Check, X, Clock } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import {
   Dialog,
   DialogContent,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { TimeProposalForm } from "@/components/TimeProposalForm";
 import { useToast } from "@/hooks/use-toast";
-import { useMeetings } from "@/hooks/useMeetings";
-import type { MeetingStatus } from "@/types/database";
+import { supabase } from "@/integrations/supabase/client";
 
 interface MeetingResponseDialogProps {
   open: boolean;
@@ -22,6 +20,16 @@ interface MeetingResponseDialogProps {
   meetingTime: string;
 }
 
+async function getFunctionError(error: Error & { context?: Response }): Promise<string> {
+  try {
+    const body = await error.context?.json();
+    if (body?.error) return body.error;
+  } catch {
+    // Fall through to the generic message
+  }
+  return error.message || "Something went wrong. Please try again.";
+}
+
 export function MeetingResponseDialog({
   open,
   onOpenChange,
@@ -31,24 +39,24 @@ export function MeetingResponseDialog({
   meetingTime
 }: MeetingResponseDialogProps) {
   const [showSuggestTime, setShowSuggestTime] = useState(false);
-  const [suggestedDate, setSuggestedDate] = useState("");
-  const [suggestedTime, setSuggestedTime] = useState("");
   const [loading, setLoading] = useState(false);
 
-  const { updateParticipantResponse } = useMeetings();
   const { toast } = useToast();
 
-  const handleResponse = async (response: MeetingStatus, suggestedTimeStr?: string) => {
+  // Answers go through meeting-response, which checks this account is the one invited
+  const handleResponse = async (action: "accept" | "decline") => {
     setLoading(true);
     try {
-      await updateParticipantResponse(participantId, response, suggestedTimeStr);
+      const { error } = await supabase.functions.invoke("meeting-response", {
+        body: { action, participantId }
+      });
+
+      if (error) throw new Error(await getFunctionError(error));
+
       toast({
-        title: response === "confirmed" ? "Meeting accepted" : 
-               response === "declined" ? "Meeting declined" : 
-               "New time suggested",
-        description: response === "confirmed" ? "You've confirmed your attendance" :
-                     response === "declined" ? "The organizer has been notified" :
-                     "Your suggested time has been sent to the organizer"
+        title: action === "accept" ? "Meeting accepted" : "Meeting declined",
+        description: action === "accept" ? "You've confirmed your attendance" :
+                     "The organizer has been notified"
       });
       onOpenChange(false);
     } catch (error: any) {
@@ -62,18 +70,6 @@ export function MeetingResponseDialog({
     }
   };
 
-  const handleSuggestNewTime = () => {
-    if (!suggestedDate || !suggestedTime) {
-      toast({
-        title: "Missing information",
-        description: "Please select both a date and time",
-        variant: "destructive"
-      });
-      return;
-    }
-    handleResponse("rescheduled", `${suggestedDate} at ${suggestedTime}`);
-  };
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[400px] bg-card border-border">
@@ -98,7 +94,7 @@ export function MeetingResponseDialog({
           {!showSuggestTime ? (
             <div className="space-y-2">
               <Button
-                onClick={() => handleResponse("confirmed")}
+                onClick={() => handleResponse("accept")}
                 disabled={loading}
                 className="w-full bg-green-600 hover:bg-green-700 text-white"
               >
@@ -107,7 +103,7 @@ export function MeetingResponseDialog({
               </Button>
               
               <Button
-                onClick={() => handleResponse("declined")}
+                onClick={() => handleResponse("decline")}
                 disabled={loading}
                 variant="outline"
                 className="w-full border-red-500 text-red-500 hover:bg-red-500/10"
@@ -127,45 +123,14 @@ export function MeetingResponseDialog({
               </Button>
             </div>
           ) : (
-            <div className="space-y-4">
-              <div className="space-y-2">
-                <Label className="text-foreground">Suggested Date</Label>
-                <Input
-                  type="date"
-                  value={suggestedDate}
-                  onChange={(e) => setSuggestedDate(e.target.value)}
-                  min={new Date().toISOString().split("T")[0]}
-                  className="bg-secondary border-border text-foreground"
-                />
-              </div>
-              
-              <div className="space-y-2">
-                <Label className="text-foreground">Suggested Time</Label>
-                <Input
-                  type="time"
-                  value={suggestedTime}
-                  onChange={(e) => setSuggestedTime(e.target.value)}
-                  className="bg-secondary border-border text-foreground"
-                />
-              </div>
-
-              <div className="flex gap-2">
-                <Button
-                  onClick={() => setShowSuggestTime(false)}
-                  variant="outline"
-                  className="flex-1 border-border"
-                >
-                  Back
-                </Button>
-                <Button
-                  onClick={handleSuggestNewTime}
-                  disabled={loading}
-                  className="flex-1 bg-primary text-primary-foreground"
-                >
-                  Send Suggestion
-                </Button>
-              </div>
-            </div>
+            <TimeProposalForm
+              participantId={participantId}
+              onSubmitted={() => {
+                setShowSuggestTime(false);
+                onOpenChange(false);
+              }}
+              onCancel={() => setShowSuggestTime(false)}
+            />
           )}
         </div>
       </DialogContent>
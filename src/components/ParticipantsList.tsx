@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Check, X, Clock, UserPlus, MoreHorizontal } from "lucide-react";
+import { Check, X, Clock, UserPlus, MoreHorizontal, CalendarClock, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -8,13 +8,19 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
 import { useMeetings } from "@/hooks/useMeetings";
-import type { MeetingParticipant, MeetingStatus } from "@/types/database";
+import { formatMeetingDate, formatMeetingTime } from "@/lib/meetingTime";
+import type { MeetingParticipant, MeetingStatus, MeetingTimeProposal } from "@/types/database";
 
 interface ParticipantsListProps {
   meetingId: string;
   isOrganizer: boolean;
+  // Used to show how long proposed times would run
+  durationMinutes?: number;
   onAddParticipant?: () => void;
+  // Called after the meeting moved to a proposed time
+  onRescheduled?: () => void;
 }
 
 const statusColors: Record<MeetingStatus, string> = {
@@ -36,20 +42,29 @@ const statusIcons: Record<MeetingStatus, React.ReactNode> = {
 export function ParticipantsList({ 
   meetingId, 
   isOrganizer, 
-  onAddParticipant 
+  durationMinutes,
+  onAddParticipant,
+  onRescheduled
 }: ParticipantsListProps) {
   const [participants, setParticipants] = useState<MeetingParticipant[]>([]);
+  const [proposals, setProposals] = useState<MeetingTimeProposal[]>([]);
   const [loading, setLoading] = useState(true);
-  const { getMeetingParticipants, removeParticipant } = useMeetings();
+  const [acceptingId, setAcceptingId] = useState<string | null>(null);
+  const { getMeetingParticipants, removeParticipant, getTimeProposals, acceptTimeProposal, dismissTimeProposal } = useMeetings();
+  const { toast } = useToast();
 
   useEffect(() => {
     fetchParticipants();
-  }, [meetingId]);
+  }, [meetingId, isOrganizer]);
 
   const fetchParticipants = async () => {
     setLoading(true);
-    const data = await getMeetingParticipants(meetingId);
+    const [data, proposalData] = await Promise.all([
+      getMeetingParticipants(meetingId),
+      isOrganizer ? getTimeProposals(meetingId) : Promise.resolve([])
+    ]);
     setParticipants(data);
+    setProposals(proposalData);
     setLoading(false);
   };
 
@@ -58,6 +73,40 @@ export function ParticipantsList({
     fetchParticipants();
   };
 
+  const handleAcceptProposal = async (proposal: MeetingTimeProposal) => {
+    setAcceptingId(proposal.id);
+    try {
+      await acceptTimeProposal(proposal);
+      toast({
+        title: "Meeting rescheduled",
+        description: "Everyone has been sent the new time"
+      });
+      await fetchParticipants();
+      onRescheduled?.();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    } finally {
+      setAcceptingId(null);
+    }
+  };
+
+  const handleDismissProposal = async (proposalId: string) => {
+    try {
+      await dismissTimeProposal(proposalId);
+      setProposals(prev => prev.filter(p => p.id !== proposalId));
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-4">
@@ -91,54 +140,104 @@ export function ParticipantsList({
         </p>
       ) : (
         <div className="space-y-2">
-          {participants.map((participant) => (
-            <div 
-              key={participant.id}
-              className="flex items-center justify-between p-3 bg-card-surface rounded-lg"
-            >
-              <div className="flex-1 min-w-0">
-                <p className="text-sm font-medium text-foreground truncate">
-                  {participant.name || "No name"}
-                </p>
-                <p className="text-xs text-muted-foreground truncate">
-                  {participant.email}
-                </p>
-              </div>
+          {participants.map((participant) => {
+            const participantProposals = proposals.filter(p => p.participant_id === participant.id);
+
+            return (
+              <div 
+                key={participant.id}
+                className="p-3 bg-card-surface rounded-lg space-y-2"
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">
+                      {participant.name || "No name"}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {participant.email}
+                    </p>
+                  </div>
 
-              <div className="flex items-center gap-2">
-                <Badge className={`${statusColors[participant.response]} border-0`}>
-                  <span className="flex items-center gap-1">
-                    {statusIcons[participant.response]}
-                    {participant.response}
-                  </span>
-                </Badge>
-
-                {isOrganizer && (
-                  <DropdownMenu>
-                    <DropdownMenuTrigger asChild>
-                      <Button variant="ghost" size="icon" className="h-8 w-8">
-                        <MoreHorizontal className="h-4 w-4" />
-                      </Button>
-                    </DropdownMenuTrigger>
-                    <DropdownMenuContent className="bg-card border-border">
-                      <DropdownMenuItem 
-                        onClick={() => handleRemove(participant.id)}
-                        className="text-red-500 focus:text-red-500"
-                      >
-                        Remove participant
-                      </DropdownMenuItem>
-                    </DropdownMenuContent>
-                  </DropdownMenu>
+                  <div className="flex items-center gap-2">
+                    <Badge className={`${statusColors[participant.response]} border-0`}>
+                      <span className="flex items-center gap-1">
+                        {statusIcons[participant.response]}
+                        {participant.response}
+                      </span>
+                    </Badge>
+
+                    {isOrganizer && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-8 w-8">
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent className="bg-card border-border">
+                          <DropdownMenuItem 
+                            onClick={() => handleRemove(participant.id)}
+                            className="text-red-500 focus:text-red-500"
+                          >
+                            Remove participant
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </div>
+                </div>
+
+                {/* Suggestions from before structured proposals */}
+                {participant.suggested_time && participantProposals.length === 0 && (
+                  <p className="text-xs text-primary">
+                    Suggested: {participant.suggested_time}
+                  </p>
                 )}
-              </div>
 
-              {participant.suggested_time && (
-                <p className="text-xs text-primary mt-1">
-                  Suggested: {participant.suggested_time}
-                </p>
-              )}
-            </div>
-          ))}
+                {participantProposals.length > 0 && (
+                  <div className="space-y-2 pt-1">
+                    <p className="text-xs text-muted-foreground">Suggested times</p>
+                    {participantProposals.map(proposal => {
+                      const proposed = { starts_at: proposal.starts_at, time_zone: null, duration_minutes: durationMinutes };
+                      return (
+                        <div key={proposal.id} className="flex items-center justify-between gap-2 rounded-md bg-secondary px-3 py-2">
+                          <div className="flex items-center gap-2 min-w-0 text-sm text-foreground">
+                            <CalendarClock className="h-4 w-4 text-primary flex-shrink-0" />
+                            <span className="truncate">
+                              {formatMeetingDate(proposed, "EEE, MMM d")} · {formatMeetingTime(proposed)}
+                            </span>
+                          </div>
+                          <div className="flex items-center gap-1 flex-shrink-0">
+                            <Button
+                              size="sm"
+                              onClick={() => handleAcceptProposal(proposal)}
+                              disabled={!!acceptingId}
+                              className="h-7 bg-primary text-primary-foreground"
+                            >
+                              {acceptingId === proposal.id && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                              Use this time
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDismissProposal(proposal.id)}
+                              disabled={!!acceptingId}
+                              className="h-7 w-7"
+                              aria-label="Dismiss suggestion"
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                    {participantProposals[0].note && (
+                      <p className="text-xs text-muted-foreground italic">"{participantProposals[0].note}"</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
         </div>
       )}
     </div>
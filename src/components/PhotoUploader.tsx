@@ -4,15 +4,19 @@ import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { LoadingSpinner } from "@/components/LoadingSpinner";
+import type { MeetingMedia } from "@/types/database";
 
 interface PhotoUploaderProps {
   meetingId: string;
-  existingPhotos?: string[];
-  onPhotosChange?: (urls: string[]) => void;
 }
 
-export function PhotoUploader({ meetingId, existingPhotos = [], onPhotosChange }: PhotoUploaderProps) {
-  const [photos, setPhotos] = useState<string[]>(existingPhotos);
+// Signed URLs are only needed while the page is open
+const PHOTO_URL_TTL_SECONDS = 60 * 60;
+
+type Photo = Pick<MeetingMedia, "id" | "storage_path"> & { url: string };
+
+export function PhotoUploader({ meetingId }: PhotoUploaderProps) {
+  const [photos, setPhotos] = useState<Photo[]>([]);
   const [uploading, setUploading] = useState(false);
   const [loading, setLoading] = useState(true);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -27,17 +31,25 @@ export function PhotoUploader({ meetingId, existingPhotos = [], onPhotosChange }
   const loadExistingPhotos = async () => {
     try {
       const { data, error } = await supabase
-        .from('meeting_notes')
-        .select('photo_urls')
+        .from('meeting_media')
+        .select('id, storage_path')
         .eq('meeting_id', meetingId)
-        .order('created_at', { ascending: false })
-        .limit(1);
+        .eq('media_type', 'photo')
+        .order('created_at', { ascending: true });
 
       if (error) throw error;
+      if (!data || data.length === 0) return;
 
-      if (data && data.length > 0 && data[0].photo_urls) {
-        setPhotos(data[0].photo_urls);
-      }
+      const { data: signedUrls, error: urlError } = await supabase.storage
+        .from("meeting-media")
+        .createSignedUrls(data.map(p => p.storage_path), PHOTO_URL_TTL_SECONDS);
+
+      if (urlError) throw urlError;
+
+      setPhotos(data.flatMap((photo, index) => {
+        const url = signedUrls?.[index]?.signedUrl;
+        return url ? [{ ...photo, url }] : [];
+      }));
     } catch (error) {
       console.error('Error loading existing photos:', error);
     } finally {
@@ -70,22 +82,22 @@ export function PhotoUploader({ meetingId, existingPhotos = [], onPhotosChange }
 
       if (uploadError) throw uploadError;
 
+      const { data: media, error: mediaError } = await supabase
+        .from('meeting_media')
+        .insert({ meeting_id: meetingId, storage_path: fileName })
+        .select('id, storage_path')
+        .single();
+
+      if (mediaError) throw mediaError;
+
       // Use signed URL for private bucket instead of public URL
       const { data: signedUrlData, error: urlError } = await supabase.storage
         .from("meeting-media")
-        .createSignedUrl(fileName, 31536000); // 1 year expiry
+        .createSignedUrl(fileName, PHOTO_URL_TTL_SECONDS);
 
       if (urlError) throw urlError;
 
-      const newPhotos = [...photos, signedUrlData.signedUrl];
-      setPhotos(newPhotos);
-      
-      // Save to database
-      await savePhotosToDatabase(newPhotos);
-      
-      if (onPhotosChange) {
-        onPhotosChange(newPhotos);
-      }
+      setPhotos(prev => [...prev, { ...media, url: signedUrlData.signedUrl }]);
 
       toast({
         title: "Photo uploaded",
@@ -102,33 +114,6 @@ export function PhotoUploader({ meetingId, existingPhotos = [], onPhotosChange }
     }
   };
 
-  const savePhotosToDatabase = async (photoUrls: string[]) => {
-    try {
-      // Check if a note already exists for this meeting
-      const { data: existingNote } = await supabase
-        .from('meeting_notes')
-        .select('id')
-        .eq('meeting_id', meetingId)
-        .limit(1);
-
-      if (existingNote && existingNote.length > 0) {
-        // Update existing note
-        await supabase
-          .from('meeting_notes')
-          .update({ photo_urls: photoUrls })
-          .eq('id', existingNote[0].id);
-      } else {
-        // Create new note
-        await supabase.from('meeting_notes').insert({
-          meeting_id: meetingId,
-          photo_urls: photoUrls,
-        });
-      }
-    } catch (error) {
-      console.error('Error saving photos to database:', error);
-    }
-  };
-
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -137,21 +122,34 @@ export function PhotoUploader({ meetingId, existingPhotos = [], onPhotosChange }
     e.target.value = "";
   };
 
-  const removePhoto = async (url: string) => {
-    const newPhotos = photos.filter(p => p !== url);
-    setPhotos(newPhotos);
-    
-    // Update database
-    await savePhotosToDatabase(newPhotos);
-    
-    if (onPhotosChange) {
-      onPhotosChange(newPhotos);
-    }
+  const removePhoto = async (photo: Photo) => {
+    try {
+      const { error } = await supabase
+        .from('meeting_media')
+        .delete()
+        .eq('id', photo.id);
+
+      if (error) throw error;
+
+      setPhotos(prev => prev.filter(p => p.id !== photo.id));
+
+      // The record is what the app reads; a leftover file is harmless
+      const { error: storageError } = await supabase.storage
+        .from("meeting-media")
+        .remove([photo.storage_path]);
+      if (storageError) console.error('Error deleting photo file:', storageError);
 
-    toast({
-      title: "Photo removed",
-      description: "The photo has been deleted"
-    });
+      toast({
+        title: "Photo removed",
+        description: "The photo has been deleted"
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
   };
 
   if (loading) {
@@ -174,15 +172,15 @@ export function PhotoUploader({ meetingId, existingPhotos = [], onPhotosChange }
       {/* Photo Grid */}
       {photos.length > 0 && (
         <div className="grid grid-cols-3 gap-2">
-          {photos.map((url, index) => (
-            <div key={index} className="relative aspect-square">
+          {photos.map((photo, index) => (
+            <div key={photo.id} className="relative aspect-square">
               <img
-                src={url}
+                src={photo.url}
                 alt={`Meeting photo ${index + 1}`}
                 className="w-full h-full object-cover rounded-lg"
               />
               <button
-                onClick={() => removePhoto(url)}
+                onClick={() => removePhoto(photo)}
                 className="absolute top-1 right-1 p-1 bg-black/50 rounded-full"
               >
                 <X className="h-3 w-3 text-white" />
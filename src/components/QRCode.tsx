@@ -1,4 +1,6 @@
-import { useState, useEffect } from "react";
+import { useMemo } from "react";
+import { getQrLayout } from "@/lib/qrCode";
+import type { QrErrorCorrectionLevel } from "@/types/database";
 
 interface QRCodeProps {
   url: string;
@@ -8,62 +10,58 @@ interface QRCodeProps {
     foreground?: string;
     background?: string;
   };
+  errorCorrection?: QrErrorCorrectionLevel;
+  // Quiet zone in modules
+  margin?: number;
+  logoUrl?: string | null;
 }
 
-export const QRCode = ({ url, size = 300, className = "", customColors }: QRCodeProps) => {
-  const [imageLoaded, setImageLoaded] = useState(false);
-  const [imageSrc, setImageSrc] = useState<string | null>(null);
-  
-  // Use custom colors or default neon green on black - no paywall
-  const fgColor = customColors?.foreground 
-    ? customColors.foreground.replace("#", "") 
-    : "00ff4d";
-  const bgColor = customColors?.background 
-    ? customColors.background.replace("#", "") 
-    : "000000";
-  
-  const qrUrl = `https://api.qrserver.com/v1/create-qr-code/?size=${size}x${size}&data=${encodeURIComponent(url)}&bgcolor=${bgColor}&color=${fgColor}`;
-  
-  // Preload image for instant display
-  useEffect(() => {
-    setImageLoaded(false);
-    const img = new Image();
-    img.onload = () => {
-      setImageSrc(qrUrl);
-      setImageLoaded(true);
-    };
-    img.onerror = () => {
-      // Still show the image even if preload fails
-      setImageSrc(qrUrl);
-      setImageLoaded(true);
-    };
-    img.src = qrUrl;
-  }, [qrUrl]);
-  
+// Generated on-device so codes render offline and profile URLs never leave the app
+export const QRCode = ({
+  url,
+  size = 300,
+  className = "",
+  customColors,
+  errorCorrection = "M",
+  margin = 4,
+  logoUrl,
+}: QRCodeProps) => {
+  // Default neon green on black - no paywall
+  const fgColor = customColors?.foreground || "#00ff4d";
+  const bgColor = customColors?.background || "#000000";
+
+  const layout = useMemo(
+    () => getQrLayout(url, { errorCorrection, margin, logoUrl }),
+    [url, errorCorrection, margin, logoUrl]
+  );
+
   return (
-    <div 
-      className={`p-4 rounded-lg ${className}`}
-      style={{ backgroundColor: `#${bgColor}` }}
+    <div
+      className={`rounded-lg overflow-hidden ${className}`}
+      style={{ backgroundColor: bgColor }}
     >
-      {!imageLoaded ? (
-        // Skeleton placeholder while loading
-        <div 
-          className="w-full h-full animate-pulse rounded"
-          style={{ 
-            aspectRatio: '1/1',
-            backgroundColor: `#${fgColor}20`,
-            minWidth: size > 200 ? 140 : size,
-            minHeight: size > 200 ? 140 : size
-          }}
-        />
-      ) : (
-        <img 
-          src={imageSrc || qrUrl} 
-          alt="QR Code" 
-          className="w-full h-full"
-          style={{ imageRendering: 'pixelated' }}
-        />
-      )}
+      <svg
+        viewBox={`0 0 ${layout.size} ${layout.size}`}
+        width={size}
+        height={size}
+        className="w-full h-full block"
+        shapeRendering="crispEdges"
+        role="img"
+        aria-label="QR Code"
+      >
+        <rect width={layout.size} height={layout.size} fill={bgColor} />
+        <path d={layout.path} fill={fgColor} />
+        {layout.logo && logoUrl && (
+          <image
+            href={logoUrl}
+            x={layout.logo.x}
+            y={layout.logo.y}
+            width={layout.logo.size}
+            height={layout.logo.size}
+            preserveAspectRatio="xMidYMid meet"
+          />
+        )}
+      </svg>
     </div>
   );
-};
\ No newline at end of file
+};
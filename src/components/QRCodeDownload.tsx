@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Download, FileCode, Image as ImageIcon, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { downloadBlob, PRINT_PNG_SIZE, renderQrPng, renderQrSvg, type QrOptions } from "@/lib/qrCode";
+
+interface QRCodeDownloadProps {
+  url: string;
+  options: QrOptions;
+  filename?: string;
+  className?: string;
+}
+
+export function QRCodeDownload({ url, options, filename = "buizly-qr", className = "" }: QRCodeDownloadProps) {
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleExport = async (format: "svg" | "png") => {
+    setExporting(true);
+    try {
+      if (format === "svg") {
+        const svg = await renderQrSvg(url, options);
+        downloadBlob(new Blob([svg], { type: "image/svg+xml" }), `${filename}.svg`);
+      } else {
+        const png = await renderQrPng(url, options, PRINT_PNG_SIZE);
+        downloadBlob(png, `${filename}.png`);
+      }
+    } catch (error: any) {
+      toast({
+        title: "Export failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={exporting} className={className}>
+          {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+          Download QR
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="center">
+        <DropdownMenuItem onClick={() => handleExport("svg")}>
+          <FileCode className="h-4 w-4 mr-2" />
+          SVG (vector, for print)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport("png")}>
+          <ImageIcon className="h-4 w-4 mr-2" />
+          PNG ({PRINT_PNG_SIZE}px)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
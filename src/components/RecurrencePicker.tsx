@@ -0,0 +1,106 @@
+import { useState, useEffect } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Repeat } from "lucide-react";
+import {
+  buildRecurrenceRule,
+  describeRecurrence,
+  getPresetLabel,
+  MAX_OCCURRENCE_COUNT,
+  parseRecurrenceRule,
+  RECURRENCE_PRESETS,
+  type RecurrencePreset,
+} from "@/lib/recurrence";
+
+interface RecurrencePickerProps {
+  value: string | null;
+  onChange: (rule: string | null) => void;
+  // First occurrence; weekly and monthly labels are based on it
+  start?: Date;
+}
+
+export function RecurrencePicker({ value, onChange, start }: RecurrencePickerProps) {
+  const { preset, count } = parseRecurrenceRule(value);
+  const [countDraft, setCountDraft] = useState(String(count || 10));
+
+  useEffect(() => {
+    if (count) setCountDraft(String(count));
+  }, [count]);
+
+  const handlePresetChange = (next: string) => {
+    if (next === "custom") return;
+    onChange(buildRecurrenceRule(next as RecurrencePreset, count));
+  };
+
+  const handleEndsChange = (ends: string) => {
+    onChange(buildRecurrenceRule(preset, ends === "count" ? Number(countDraft) || 10 : null));
+  };
+
+  const handleCountBlur = () => {
+    const clamped = Math.min(MAX_OCCURRENCE_COUNT, Math.max(2, Math.round(Number(countDraft)) || 10));
+    setCountDraft(String(clamped));
+    onChange(buildRecurrenceRule(preset, clamped));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-foreground flex items-center gap-1">
+        <Repeat className="h-3.5 w-3.5" />
+        Repeat
+      </Label>
+      <Select value={preset} onValueChange={handlePresetChange}>
+        <SelectTrigger className="bg-secondary border-border text-foreground">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-card border-border">
+          {/* Rules from elsewhere are shown but can only be replaced, not tweaked */}
+          {preset === "custom" && value && (
+            <SelectItem value="custom" className="text-foreground">
+              {describeRecurrence(value)}
+            </SelectItem>
+          )}
+          {RECURRENCE_PRESETS.map((option) => (
+            <SelectItem key={option} value={option} className="text-foreground">
+              {getPresetLabel(option, start)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {preset !== "none" && preset !== "custom" && (
+        <div className="flex gap-2">
+          <Select value={count ? "count" : "never"} onValueChange={handleEndsChange}>
+            <SelectTrigger className="bg-secondary border-border text-foreground">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-card border-border">
+              <SelectItem value="never" className="text-foreground">Never ends</SelectItem>
+              <SelectItem value="count" className="text-foreground">Ends after</SelectItem>
+            </SelectContent>
+          </Select>
+          {count !== null && (
+            <div className="relative w-40 flex-shrink-0">
+              <Input
+                type="number"
+                min={2}
+                max={MAX_OCCURRENCE_COUNT}
+                value={countDraft}
+                onChange={(e) => setCountDraft(e.target.value)}
+                onBlur={handleCountBlur}
+                className="bg-secondary border-border text-foreground pr-24"
+                aria-label="Number of occurrences"
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">occurrences</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -18,7 +18,7 @@ import {
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useSearch } from "@/hooks/useSearch";
 import { useNavigate } from "react-router-dom";
-import { format } from "date-fns";
+import { formatMeetingDate, formatMeetingTime } from "@/lib/meetingTime";
 
 export function SearchDialog() {
   const [open, setOpen] = useState(false);
@@ -213,7 +213,7 @@ export function SearchDialog() {
                             {meeting.title || "Untitled Meeting"}
                           </p>
                           <p className="text-sm text-muted-foreground">
-                            {format(new Date(meeting.meeting_date), "MMM d, yyyy")} at {meeting.meeting_time}
+                            {formatMeetingDate(meeting, "MMM d, yyyy")} at {formatMeetingTime(meeting)}
                           </p>
                           {meeting.location && (
                             <p className="text-xs text-muted-foreground">
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { Plus, X, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { getLocalTimeZone } from "@/lib/meetingTime";
+
+const MAX_PROPOSALS = 3;
+
+interface TimeProposalFormProps {
+  // From an invitation link; signed-in participants pass participantId instead
+  token?: string;
+  participantId?: string;
+  onSubmitted: () => void;
+  onCancel: () => void;
+}
+
+async function getFunctionError(error: Error & { context?: Response }): Promise<string> {
+  try {
+    const body = await error.context?.json();
+    if (body?.error) return body.error;
+  } catch {
+    // Fall through to the generic message
+  }
+  return error.message || "Something went wrong. Please try again.";
+}
+
+// "2026-10-18T14:30" in the browser's zone, for datetime-local's min
+function toLocalInputValue(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+// Lets a participant suggest up to three other start times, in their own time zone
+export function TimeProposalForm({ token, participantId, onSubmitted, onCancel }: TimeProposalFormProps) {
+  const [times, setTimes] = useState<string[]>([""]);
+  const [note, setNote] = useState("");
+  const [sending, setSending] = useState(false);
+  const { toast } = useToast();
+
+  const updateTime = (index: number, value: string) => {
+    setTimes(prev => prev.map((t, i) => (i === index ? value : t)));
+  };
+
+  const handleSubmit = async () => {
+    const filled = times.filter(Boolean);
+    if (filled.length === 0) {
+      toast({
+        title: "Missing information",
+        description: "Please pick at least one date and time",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSending(true);
+    try {
+      // datetime-local values have no zone, so they're read in the browser's
+      const { error } = await supabase.functions.invoke("meeting-response", {
+        body: {
+          action: "propose",
+          token,
+          participantId,
+          startTimes: filled.map(t => new Date(t).toISOString()),
+          note: note.trim() || undefined
+        }
+      });
+
+      if (error) throw new Error(await getFunctionError(error));
+
+      toast({
+        title: "New time suggested",
+        description: filled.length === 1
+          ? "Your suggested time has been sent to the organizer"
+          : "Your suggested times have been sent to the organizer"
+      });
+      onSubmitted();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label className="text-foreground">Suggested times</Label>
+        {times.map((time, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              type="datetime-local"
+              value={time}
+              onChange={(e) => updateTime(index, e.target.value)}
+              min={toLocalInputValue(new Date())}
+              className="bg-secondary border-border text-foreground"
+            />
+            {times.length > 1 && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setTimes(prev => prev.filter((_, i) => i !== index))}
+                aria-label="Remove time"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+        {times.length < MAX_PROPOSALS && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setTimes(prev => [...prev, ""])}
+            className="text-primary"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add another time
+          </Button>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Times are in your time zone ({getLocalTimeZone().replace(/_/g, " ")})
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-foreground">Note (optional)</Label>
+        <Textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          maxLength={500}
+          placeholder="Anything the organizer should know"
+          className="bg-secondary border-border text-foreground"
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          onClick={onCancel}
+          variant="outline"
+          className="flex-1 border-border"
+        >
+          Back
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          disabled={sending}
+          className="flex-1 bg-primary text-primary-foreground"
+        >
+          {sending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Send Suggestion
+        </Button>
+      </div>
+    </div>
+  );
+}
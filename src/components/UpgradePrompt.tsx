@@ -12,7 +12,7 @@ interface UpgradePromptProps {
   // Dialog mode props
   open?: boolean;
   onOpenChange?: (open: boolean) => void;
-  feature?: "connections" | "analytics" | "qr_customization" | "general";
+  feature?: "connections" | "analytics" | "qr_customization" | "team" | "crm_export" | "lead_capture" | "custom_url" | "general";
 }
 
 const featureMessages = {
@@ -25,8 +25,24 @@ const featureMessages = {
     description: "Track who views your digital business card with detailed analytics.",
   },
   qr_customization: {
-    title: "Custom QR Codes",
-    description: "Personalize your QR code with custom colors and branding.",
+    title: "Custom Branding",
+    description: "Personalize your card and QR code with premium templates, custom colors and your logo.",
+  },
+  team: {
+    title: "Team Workspaces",
+    description: "Invite your team and share a contact pool with the Business plan.",
+  },
+  crm_export: {
+    title: "CRM Export",
+    description: "Export your connections to CSV, HubSpot or Salesforce with the Business plan.",
+  },
+  lead_capture: {
+    title: "Lead Capture Forms",
+    description: "Add a custom form to your public profile and turn visitors into connections with the Business plan.",
+  },
+  custom_url: {
+    title: "Custom Profile URL",
+    description: "Claim a memorable link like buizly.vercel.app/@yourname for your card and QR code.",
   },
   general: {
     title: "Upgrade to Pro",
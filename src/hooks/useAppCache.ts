@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import type { Database } from '@/integrations/supabase/types';
+import { getLocalTimeZone } from '@/lib/meetingTime';
 
 type Profile = Database["public"]["Tables"]["profiles"]["Row"];
 type Connection = Database["public"]["Tables"]["connections"]["Row"];
@@ -71,11 +72,15 @@ async function refreshCache(force = false) {
       return;
     }
 
+    // Meetings created before time zones were tracked are anchored to this browser's zone
+    const { error: localizeError } = await supabase.rpc('localize_legacy_meetings', { p_time_zone: getLocalTimeZone() });
+    if (localizeError) console.error('Error localizing meetings:', localizeError);
+
     // Parallel fetch all data - fastest possible load
     const [profileResult, connectionsResult, meetingsResult] = await Promise.all([
       supabase.from('profiles').select('*').eq('id', user.id).single(),
       supabase.from('connections').select('*').eq('user_id', user.id).order('created_at', { ascending: false }),
-      supabase.from('meetings').select('*').or(`user_id.eq.${user.id},organizer_id.eq.${user.id}`).order('meeting_date', { ascending: true }),
+      supabase.from('meetings').select('*').or(`user_id.eq.${user.id},organizer_id.eq.${user.id}`).order('starts_at', { ascending: true }),
     ]);
 
     globalCache.profile = profileResult.data;
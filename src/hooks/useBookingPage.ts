@@ -0,0 +1,137 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { getLocalTimeZone } from '@/lib/meetingTime';
+import type { Json } from '@/integrations/supabase/types';
+import type { BookingAvailabilityWindow, BookingMeetingType, BookingPage } from '@/types/database';
+
+export const DEFAULT_AVAILABILITY: BookingAvailabilityWindow[] = [1, 2, 3, 4, 5].map(day => ({
+  day,
+  start: '09:00',
+  end: '17:00',
+}));
+
+export const DEFAULT_MEETING_TYPES: BookingMeetingType[] = [
+  { id: 'intro-call', title: 'Intro call', duration_minutes: 30, description: null, location: null },
+];
+
+export type BookingPageDraft = Pick<
+  BookingPage,
+  | 'is_enabled'
+  | 'title'
+  | 'description'
+  | 'availability'
+  | 'meeting_types'
+  | 'buffer_before_minutes'
+  | 'buffer_after_minutes'
+  | 'min_notice_minutes'
+  | 'max_days_ahead'
+>;
+
+export const DEFAULT_BOOKING_PAGE: BookingPageDraft = {
+  is_enabled: false,
+  title: 'Book a meeting',
+  description: null,
+  availability: DEFAULT_AVAILABILITY,
+  meeting_types: DEFAULT_MEETING_TYPES,
+  buffer_before_minutes: 0,
+  buffer_after_minutes: 0,
+  min_notice_minutes: 240,
+  max_days_ahead: 30,
+};
+
+export function toBookingPage(
+  row: Omit<BookingPage, 'availability' | 'meeting_types'> & { availability: Json; meeting_types: Json }
+): BookingPage {
+  return {
+    ...row,
+    availability: (row.availability as unknown as BookingAvailabilityWindow[]) || [],
+    meeting_types: (row.meeting_types as unknown as BookingMeetingType[]) || [],
+  };
+}
+
+export function useBookingPage() {
+  const [bookingPage, setBookingPage] = useState<BookingPage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchBookingPage = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('booking_pages')
+        .select('*')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setBookingPage(data ? toBookingPage(data) : null);
+    } catch (error) {
+      console.error('Error fetching booking page:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Availability is saved in the zone the owner is in when they save
+  const saveBookingPage = useCallback(async (draft: BookingPageDraft) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      if (draft.meeting_types.length === 0) {
+        throw new Error('Add at least one meeting type');
+      }
+      if (draft.meeting_types.some(t => !t.title.trim())) {
+        throw new Error('Every meeting type needs a name');
+      }
+      if (draft.availability.some(w => w.end <= w.start)) {
+        throw new Error('Each availability window must end after it starts');
+      }
+
+      const { data, error } = await supabase
+        .from('booking_pages')
+        .upsert(
+          {
+            ...draft,
+            availability: draft.availability as unknown as Json,
+            meeting_types: draft.meeting_types as unknown as Json,
+            time_zone: getLocalTimeZone(),
+            user_id: user.id,
+          },
+          { onConflict: 'user_id' }
+        )
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setBookingPage(toBookingPage(data));
+      toast({
+        title: 'Booking page saved',
+        description: draft.is_enabled ? 'Visitors can now book time from your public profile' : 'Your booking page is saved as a draft',
+      });
+      return { success: true };
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return { success: false };
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchBookingPage();
+  }, [fetchBookingPage]);
+
+  return {
+    bookingPage,
+    loading,
+    saveBookingPage,
+    refetch: fetchBookingPage,
+  };
+}
@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { BusyBlock } from '@/types/database';
+
+// The server skips feed refreshes more frequent than this too
+const ICAL_SYNC_INTERVAL_MS = 15 * 60 * 1000;
+let lastIcalSync = 0;
+
+/**
+ * Busy times from the user's iCal feed, for warning about overlaps. The feed
+ * is refreshed in the background when stale; failures only leave the last
+ * known blocks in place.
+ */
+export function useBusyBlocks() {
+  const [blocks, setBlocks] = useState<BusyBlock[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchBlocks = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('calendar_busy_blocks')
+        .select('*')
+        .eq('user_id', user.id)
+        .gte('ends_at', new Date().toISOString())
+        .order('starts_at', { ascending: true });
+
+      if (error) throw error;
+      setBlocks((data || []) as BusyBlock[]);
+    } catch (error) {
+      console.error('Error fetching busy blocks:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const syncFeed = useCallback(async () => {
+    if (Date.now() - lastIcalSync < ICAL_SYNC_INTERVAL_MS) return;
+    lastIcalSync = Date.now();
+
+    try {
+      const { data, error } = await supabase.functions.invoke('ical-sync', {
+        body: { force: false }
+      });
+      if (error) throw error;
+      if (!data?.skipped) await fetchBlocks();
+    } catch (error) {
+      console.error('Error syncing iCal feed:', error);
+    }
+  }, [fetchBlocks]);
+
+  useEffect(() => {
+    fetchBlocks();
+    syncFeed();
+  }, [fetchBlocks, syncFeed]);
+
+  return {
+    blocks,
+    loading,
+    refetch: fetchBlocks,
+  };
+}
@@ -57,7 +57,7 @@ export function useCachedData() {
       const [profileResult, connectionsResult, meetingsResult] = await Promise.all([
         supabase.from('profiles').select('*').eq('id', user.id).single(),
         supabase.from('connections').select('*').eq('user_id', user.id).order('created_at', { ascending: false }),
-        supabase.from('meetings').select('*').or(`user_id.eq.${user.id},organizer_id.eq.${user.id}`).order('meeting_date', { ascending: true }),
+        supabase.from('meetings').select('*').or(`user_id.eq.${user.id},organizer_id.eq.${user.id}`).order('starts_at', { ascending: true }),
       ]);
 
       // Update cache
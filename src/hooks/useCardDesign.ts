@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { CardDesignDraft } from '@/lib/cardDesign';
+import type { CardDesign } from '@/types/database';
+
+const MAX_LOGO_SIZE = 2 * 1024 * 1024;
+
+/**
+ * Loads the saved card design for a user (the signed-in user when no id is given).
+ * Other users' Pro designs are hidden by RLS after a downgrade, so `design` is null for them.
+ */
+export function useCardDesign(userId?: string | null) {
+  const [design, setDesign] = useState<CardDesign | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchDesign = useCallback(async () => {
+    try {
+      let ownerId = userId;
+      if (!ownerId) {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return;
+        ownerId = user.id;
+      }
+
+      const { data, error } = await supabase
+        .from('card_designs')
+        .select('*')
+        .eq('user_id', ownerId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setDesign(data as CardDesign | null);
+    } catch (error) {
+      console.error('Error fetching card design:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  const saveDesign = useCallback(async (draft: CardDesignDraft) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('card_designs')
+        .upsert(
+          {
+            ...draft,
+            accent_color: draft.accent_color.toLowerCase(),
+            background_color: draft.background_color.toLowerCase(),
+            qr_foreground: draft.qr_foreground.toLowerCase(),
+            qr_background: draft.qr_background.toLowerCase(),
+            user_id: user.id,
+          },
+          { onConflict: 'user_id' }
+        )
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '42501') throw new Error('Custom templates, colors and logos require the Pro plan');
+        if (error.code === '23514') throw new Error('Colors must be hex values like #00ff4d');
+        throw error;
+      }
+
+      setDesign(data as CardDesign);
+      toast({
+        title: 'Customization saved',
+        description: 'Your business card has been updated',
+      });
+      return { success: true };
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return { success: false };
+    }
+  }, [toast]);
+
+  const uploadLogo = useCallback(async (file: File): Promise<string | null> => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      if (!file.type.startsWith('image/')) throw new Error('Please select an image file');
+      if (file.size > MAX_LOGO_SIZE) throw new Error('Please select an image under 2MB');
+
+      const fileExt = file.name.split('.').pop();
+      const filePath = `${user.id}/card-logo-${Date.now()}.${fileExt}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('avatars')
+        .upload(filePath, file, { contentType: file.type });
+
+      if (uploadError) throw uploadError;
+
+      const { data } = supabase.storage.from('avatars').getPublicUrl(filePath);
+      return data.publicUrl;
+    } catch (error: any) {
+      toast({
+        title: 'Upload failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return null;
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchDesign();
+  }, [fetchDesign]);
+
+  return {
+    design,
+    loading,
+    saveDesign,
+    uploadLogo,
+    refetch: fetchDesign,
+  };
+}
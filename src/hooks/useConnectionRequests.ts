@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { isConnectionLimitError } from '@/hooks/useSubscription';
 
 interface ConnectionRequest {
   id: string;
@@ -269,41 +270,12 @@ export function useConnectionRequests() {
         .eq('id', user.id)
         .single();
 
-      // Add requester to my connections with full details
-      await supabase.from('connections').insert({
-        user_id: user.id,
-        connection_name: requesterProfile.full_name,
-        connection_email: requesterProfile.email,
-        connection_title: requesterProfile.job_title,
-        connection_company: requesterProfile.company,
-        connection_phone: requesterProfile.phone,
-        connection_avatar_url: requesterProfile.avatar_url,
-        connection_linkedin: requesterProfile.linkedin_url,
-        connection_instagram: (requesterProfile as any).instagram_url,
-        connection_gallery_photos: (requesterProfile as any).gallery_photos,
+      // Adds both sides of the connection and clears the request together;
+      // if either user's quota rejects it, the request stays pending
+      const { error: acceptError } = await supabase.rpc('accept_connection_request', {
+        p_request_id: requestId
       });
-
-      // Add me to requester's connections with full details (RECIPROCAL)
-      if (myProfile) {
-        await supabase.from('connections').insert({
-          user_id: request.requester_id,
-          connection_name: myProfile.full_name,
-          connection_email: myProfile.email,
-          connection_title: myProfile.job_title,
-          connection_company: myProfile.company,
-          connection_phone: myProfile.phone,
-          connection_avatar_url: myProfile.avatar_url,
-          connection_linkedin: myProfile.linkedin_url,
-          connection_instagram: (myProfile as any).instagram_url,
-          connection_gallery_photos: (myProfile as any).gallery_photos,
-        });
-      }
-
-      // DELETE the request after acceptance (clear it from the list)
-      await supabase
-        .from('connection_requests')
-        .delete()
-        .eq('id', requestId);
+      if (acceptError) throw acceptError;
 
       // Update local caches immediately
       connectionStatusCache.set(request.requester_id, 'accepted');
@@ -371,8 +343,13 @@ export function useConnectionRequests() {
 
       toast({ title: 'Connected!', description: `You're now connected with ${requesterProfile.full_name}` });
       await fetchRequests();
+      return { success: true, limitReached: false };
     } catch (error: any) {
+      if (isConnectionLimitError(error)) {
+        return { success: false, limitReached: true };
+      }
       toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return { success: false, limitReached: false };
     }
   }, [fetchRequests, toast]);
 
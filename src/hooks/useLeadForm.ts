@@ -0,0 +1,107 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { Json } from '@/integrations/supabase/types';
+import type { LeadForm, LeadFormField } from '@/types/database';
+
+export const DEFAULT_LEAD_FORM_FIELDS: LeadFormField[] = [
+  { id: 'name', type: 'name', label: 'Full name', required: true },
+  { id: 'email', type: 'email', label: 'Email', required: true },
+  { id: 'company', type: 'company', label: 'Company', required: false },
+  { id: 'message', type: 'textarea', label: 'How can I help?', required: false },
+];
+
+export type LeadFormDraft = Pick<
+  LeadForm,
+  'is_enabled' | 'title' | 'description' | 'fields' | 'consent_required' | 'consent_text' | 'submit_label'
+>;
+
+export const DEFAULT_LEAD_FORM: LeadFormDraft = {
+  is_enabled: false,
+  title: 'Get in touch',
+  description: null,
+  fields: DEFAULT_LEAD_FORM_FIELDS,
+  consent_required: true,
+  consent_text: 'I agree to be contacted about my enquiry.',
+  submit_label: 'Send',
+};
+
+export function toLeadForm(row: Omit<LeadForm, 'fields'> & { fields: Json }): LeadForm {
+  return { ...row, fields: (row.fields as unknown as LeadFormField[]) || [] };
+}
+
+export function useLeadForm() {
+  const [form, setForm] = useState<LeadForm | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchForm = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('lead_forms')
+        .select('*')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setForm(data ? toLeadForm(data) : null);
+    } catch (error) {
+      console.error('Error fetching lead form:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const saveForm = useCallback(async (draft: LeadFormDraft) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      if (!draft.fields.some(f => f.type === 'name' || f.type === 'email')) {
+        throw new Error('Add a name or email field so you can follow up on leads');
+      }
+
+      const { data, error } = await supabase
+        .from('lead_forms')
+        .upsert(
+          { ...draft, fields: draft.fields as unknown as Json, user_id: user.id },
+          { onConflict: 'user_id' }
+        )
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '42501') throw new Error('Lead capture forms require the Business plan');
+        throw error;
+      }
+
+      setForm(toLeadForm(data));
+      toast({
+        title: 'Lead form saved',
+        description: draft.is_enabled ? 'Your form is live on your public profile' : 'Your form is saved as a draft',
+      });
+      return { success: true };
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return { success: false };
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchForm();
+  }, [fetchForm]);
+
+  return {
+    form,
+    loading,
+    saveForm,
+    refetch: fetchForm,
+  };
+}
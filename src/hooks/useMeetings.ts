@@ -1,66 +1,183 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import type { Meeting, MeetingParticipant, MeetingStatus } from '@/types/database';
+import type { Meeting, MeetingMode, MeetingParticipant, MeetingStatus, MeetingTimeProposal, TimeProposalStatus } from '@/types/database';
+import { DEFAULT_DURATION_MINUTES, formatMeetingDate, formatMeetingTime, type MeetingSchedule } from '@/lib/meetingTime';
+import { createJitsiRoomUrl } from '@/lib/conference';
 
-interface CreateMeetingData {
+interface CreateMeetingData extends MeetingSchedule {
   title: string;
   description?: string;
-  meeting_date: string;
-  meeting_time: string;
+  agenda?: string;
+  // Saved as the meeting's first note
+  notes?: string;
+  // Already uploaded to the meeting-media bucket
+  photo_paths?: string[];
+  duration_minutes?: number;
+  recurrence_rule?: string | null;
   location?: string;
+  meeting_mode?: MeetingMode;
   connection_id?: string;
   participants?: { email: string; name?: string }[];
   parent_meeting_id?: string;
 }
 
+// The server skips pulls more frequent than this too
+const GOOGLE_PULL_INTERVAL_MS = 2 * 60 * 1000;
+let lastGooglePull = 0;
+
+/**
+ * Pushes a meeting to Google Calendar. Failures are only logged: the meeting
+ * stays marked google_sync_pending and goes out with the next sync, and a
+ * conflict is stored on the meeting for the user to resolve.
+ */
+async function pushToGoogle(meetingId: string) {
+  try {
+    const { data, error } = await supabase.functions.invoke('google-calendar-sync', {
+      body: { action: 'push', meetingId }
+    });
+    if (error) throw error;
+    if (data?.status === 'conflict') {
+      console.warn(`Meeting ${meetingId} was also changed in Google Calendar`);
+    }
+  } catch (error) {
+    console.error('Error syncing meeting to Google Calendar:', error);
+  }
+}
+
+/**
+ * Creates, updates or removes a meeting's Outlook event. Outlook isn't read
+ * back, so failures are only logged and the next change to the meeting
+ * brings the event up to date.
+ */
+async function syncToOutlook(meetingId: string, action: 'push' | 'delete' = 'push') {
+  try {
+    const { error } = await supabase.functions.invoke('microsoft-calendar-sync', {
+      body: { action, meetingId }
+    });
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error syncing meeting to Outlook Calendar:', error);
+  }
+}
+
+/**
+ * Gives a video meeting without a join link a Jitsi room. Call it after the
+ * push to Google, which adds a Meet link when the calendar is connected.
+ * Returns the meeting as saved.
+ */
+async function ensureConferenceLink(meetingId: string) {
+  const { data: meeting, error } = await supabase
+    .from('meetings')
+    .select()
+    .eq('id', meetingId)
+    .single();
+
+  if (error) throw error;
+  if (meeting.meeting_mode !== 'video' || meeting.conference_url) return meeting;
+
+  const { data: updated, error: updateError } = await supabase
+    .from('meetings')
+    .update({ conference_url: createJitsiRoomUrl() })
+    .eq('id', meetingId)
+    .select()
+    .single();
+
+  if (updateError) throw updateError;
+
+  // Google gets the Jitsi link in the event description
+  if (updated.google_calendar_event_id || updated.series_id) {
+    await pushToGoogle(meetingId);
+  }
+
+  return updated;
+}
+
+// Emails a participant the meeting's saved details with accept/decline links and a calendar invite
+async function sendInvitation(meetingId: string, participantEmail: string, updated = false) {
+  try {
+    const { error } = await supabase.functions.invoke('send-meeting-invitation', {
+      body: { meetingId, participantEmail, updated }
+    });
+    if (error) throw error;
+    console.log(`Meeting invitation sent to ${participantEmail}`);
+  } catch (emailError) {
+    // Meetings are saved even if the email can't go out
+    console.error(`Failed to send invitation to ${participantEmail}:`, emailError);
+  }
+}
+
+/**
+ * Sends participants who haven't declined the meeting's latest version: an
+ * updated invitation, or a cancellation once the meeting is cancelled.
+ * Addresses in `alreadySent` are skipped and added to.
+ */
+async function sendMeetingUpdate(meetingId: string, alreadySent = new Set<string>()) {
+  try {
+    const { data: participants, error } = await supabase
+      .from('meeting_participants')
+      .select('email, response')
+      .eq('meeting_id', meetingId);
+
+    if (error) throw error;
+
+    for (const participant of participants || []) {
+      const email = participant.email.toLowerCase();
+      if (participant.response === 'declined' || alreadySent.has(email)) continue;
+      alreadySent.add(email);
+      await sendInvitation(meetingId, participant.email, true);
+    }
+  } catch (error) {
+    console.error(`Failed to send updates for meeting ${meetingId}:`, error);
+  }
+}
+
+// The series' cancellation covers its occurrences for anyone invited to both
+async function sendCancellations(meetingId: string, cancelled: { id: string }[]) {
+  const alreadySent = new Set<string>();
+  for (const row of [...cancelled].sort((a, b) => (a.id === meetingId ? -1 : b.id === meetingId ? 1 : 0))) {
+    await sendMeetingUpdate(row.id, alreadySent);
+  }
+}
+
+// Whether the change moves the meeting for participants' calendars
+function isReschedule(before: Pick<Meeting, 'starts_at' | 'duration_minutes' | 'recurrence_rule'>, updates: Partial<Meeting>): boolean {
+  return (updates.starts_at !== undefined && new Date(updates.starts_at).getTime() !== new Date(before.starts_at).getTime()) ||
+    (updates.duration_minutes !== undefined && updates.duration_minutes !== before.duration_minutes) ||
+    (updates.recurrence_rule !== undefined && (updates.recurrence_rule || null) !== (before.recurrence_rule || null));
+}
+
 export function useMeetings() {
   const [meetings, setMeetings] = useState<Meeting[]>([]);
   const [loading, setLoading] = useState(true);
 
-  // Clean up past meetings automatically
-  const cleanupPastMeetings = useCallback(async (userId: string) => {
+  // Past meetings are kept as history unless the user chose a retention period
+  const applyRetentionPolicy = useCallback(async () => {
     try {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const todayStr = today.toISOString().split('T')[0];
-
-      // Get past meetings
-      const { data: pastMeetings } = await supabase
-        .from('meetings')
-        .select('id')
-        .eq('user_id', userId)
-        .lt('meeting_date', todayStr);
-
-      if (pastMeetings && pastMeetings.length > 0) {
-        for (const meeting of pastMeetings) {
-          // Clear parent references
-          await supabase
-            .from('meetings')
-            .update({ parent_meeting_id: null })
-            .eq('parent_meeting_id', meeting.id);
-
-          // Delete participants
-          await supabase
-            .from('meeting_participants')
-            .delete()
-            .eq('meeting_id', meeting.id);
-
-          // Delete notes
-          await supabase
-            .from('meeting_notes')
-            .delete()
-            .eq('meeting_id', meeting.id);
-
-          // Delete the meeting
-          await supabase
-            .from('meetings')
-            .delete()
-            .eq('id', meeting.id);
-        }
-        console.log(`Cleaned up ${pastMeetings.length} past meetings`);
+      const { data: purged, error } = await supabase.rpc('apply_meeting_retention');
+      if (error) throw error;
+      if (purged) {
+        console.log(`Removed ${purged} meetings past the retention period`);
       }
     } catch (error) {
-      console.error('Error cleaning up past meetings:', error);
+      console.error('Error applying meeting retention:', error);
+    }
+  }, []);
+
+  // Brings in changes made in Google Calendar and pushes edits that didn't go out
+  const pullFromGoogle = useCallback(async (force = false) => {
+    if (!force && Date.now() - lastGooglePull < GOOGLE_PULL_INTERVAL_MS) return null;
+    lastGooglePull = Date.now();
+
+    try {
+      const { data, error } = await supabase.functions.invoke('google-calendar-sync', {
+        body: { action: 'pull', force }
+      });
+      if (error) throw error;
+      return data as { skipped?: boolean; updated?: number; pushed?: number; conflicts?: number };
+    } catch (error) {
+      console.error('Error syncing Google Calendar:', error);
+      if (force) throw error;
+      return null;
     }
   }, []);
 
@@ -69,14 +186,14 @@ export function useMeetings() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      // Clean up past meetings first
-      await cleanupPastMeetings(user.id);
+      await applyRetentionPolicy();
+      await pullFromGoogle();
 
       const { data, error } = await supabase
         .from('meetings')
         .select('*')
         .or(`user_id.eq.${user.id},organizer_id.eq.${user.id}`)
-        .order('meeting_date', { ascending: true });
+        .order('starts_at', { ascending: true });
 
       if (error) throw error;
 
@@ -91,20 +208,13 @@ export function useMeetings() {
     } finally {
       setLoading(false);
     }
-  }, [cleanupPastMeetings]);
+  }, [applyRetentionPolicy, pullFromGoogle]);
 
   const createMeeting = useCallback(async (meetingData: CreateMeetingData) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      // Get organizer profile
-      const { data: organizerProfile } = await supabase
-        .from('profiles')
-        .select('full_name, email')
-        .eq('id', user.id)
-        .single();
-
       const { data: meeting, error: meetingError } = await supabase
         .from('meetings')
         .insert({
@@ -112,9 +222,15 @@ export function useMeetings() {
           organizer_id: user.id,
           title: meetingData.title,
           description: meetingData.description || null,
+          agenda: meetingData.agenda || null,
           meeting_date: meetingData.meeting_date,
           meeting_time: meetingData.meeting_time,
+          starts_at: meetingData.starts_at,
+          time_zone: meetingData.time_zone,
+          duration_minutes: meetingData.duration_minutes || DEFAULT_DURATION_MINUTES,
+          recurrence_rule: meetingData.recurrence_rule || null,
           location: meetingData.location || null,
+          meeting_mode: meetingData.meeting_mode || 'in_person',
           connection_id: meetingData.connection_id || null,
           parent_meeting_id: meetingData.parent_meeting_id || null,
           status: 'pending' as MeetingStatus
@@ -124,6 +240,22 @@ export function useMeetings() {
 
       if (meetingError) throw meetingError;
 
+      if (meetingData.notes) {
+        const { error: noteError } = await supabase
+          .from('meeting_notes')
+          .insert({ meeting_id: meeting.id, text_note: meetingData.notes });
+
+        if (noteError) throw noteError;
+      }
+
+      if (meetingData.photo_paths && meetingData.photo_paths.length > 0) {
+        const { error: mediaError } = await supabase
+          .from('meeting_media')
+          .insert(meetingData.photo_paths.map(path => ({ meeting_id: meeting.id, storage_path: path })));
+
+        if (mediaError) throw mediaError;
+      }
+
       // Add participants if provided
       if (meetingData.participants && meetingData.participants.length > 0) {
         const participantsToInsert = meetingData.participants.map(p => ({
@@ -138,88 +270,83 @@ export function useMeetings() {
           .insert(participantsToInsert);
 
         if (participantsError) throw participantsError;
-
-        // Send email invitations to all participants
-        for (const participant of meetingData.participants) {
-          try {
-            await supabase.functions.invoke('send-meeting-invitation', {
-              body: {
-                meetingId: meeting.id,
-                participantEmail: participant.email,
-                participantName: participant.name,
-                meetingTitle: meetingData.title,
-                meetingDate: meetingData.meeting_date,
-                meetingTime: meetingData.meeting_time,
-                meetingLocation: meetingData.location,
-                meetingDescription: meetingData.description,
-                organizerName: organizerProfile?.full_name || 'A Buizly user',
-                organizerEmail: organizerProfile?.email || user.email,
-              }
-            });
-            console.log(`Meeting invitation sent to ${participant.email}`);
-          } catch (emailError) {
-            console.error(`Failed to send invitation to ${participant.email}:`, emailError);
-            // Don't fail the meeting creation if email fails
-          }
-        }
       }
 
-      // Check if Google Calendar is connected and create event
+      // Check which calendars are connected and create events there. Google
+      // goes first so a video meeting's Meet link reaches Outlook and the invitations.
+      let savedMeeting = meeting;
       try {
         const { data: settings } = await supabase
           .from('user_settings')
-          .select('google_calendar_connected')
+          .select('google_calendar_connected, outlook_calendar_connected')
           .eq('user_id', user.id)
           .single();
 
         if (settings?.google_calendar_connected) {
-          const meetingDateTime = new Date(`${meetingData.meeting_date}T${meetingData.meeting_time}`);
-          const endDateTime = new Date(meetingDateTime.getTime() + 60 * 60 * 1000);
-
-          const attendees = meetingData.participants?.map(p => p.email) || [];
-
-          const { data: calendarData } = await supabase.functions.invoke('google-create-event', {
-            body: {
-              title: meetingData.title,
-              description: meetingData.description || '',
-              startDateTime: meetingDateTime.toISOString(),
-              endDateTime: endDateTime.toISOString(),
-              location: meetingData.location || '',
-              attendees
-            }
-          });
+          await pushToGoogle(meeting.id);
+        }
 
-          if (calendarData?.eventId) {
-            await supabase
-              .from('meetings')
-              .update({ google_calendar_event_id: calendarData.eventId })
-              .eq('id', meeting.id);
-          }
+        savedMeeting = await ensureConferenceLink(meeting.id);
+
+        if (settings?.outlook_calendar_connected) {
+          await syncToOutlook(meeting.id);
         }
       } catch (calendarError) {
         console.error('Error creating calendar event:', calendarError);
       }
 
+      // Send email invitations to all participants
+      for (const participant of meetingData.participants || []) {
+        await sendInvitation(savedMeeting.id, participant.email);
+      }
+
       await fetchMeetings();
-      return meeting;
+      return savedMeeting;
     } catch (error) {
       console.error('Error creating meeting:', error);
       throw error;
     }
   }, [fetchMeetings]);
 
+  // Participants get an updated invitation when the meeting is rescheduled, unless the caller sends its own
   const updateMeeting = useCallback(async (
     meetingId: string, 
-    updates: Partial<Meeting>
+    updates: Partial<Meeting>,
+    notifyParticipants = true
   ) => {
     try {
-      const { error } = await supabase
+      const { data: before, error: fetchError } = await supabase
+        .from('meetings')
+        .select('starts_at, duration_minutes, recurrence_rule, conference_url')
+        .eq('id', meetingId)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      const { data: saved, error } = await supabase
         .from('meetings')
         .update(updates)
-        .eq('id', meetingId);
+        .eq('id', meetingId)
+        .select()
+        .single();
 
       if (error) throw error;
 
+      if (saved.google_calendar_event_id || saved.series_id) {
+        await pushToGoogle(meetingId);
+      }
+
+      const updated = await ensureConferenceLink(meetingId);
+      const linkChanged = (updated.conference_url || null) !== (before.conference_url || null);
+
+      if (updated.outlook_event_id || updated.series_id) {
+        await syncToOutlook(meetingId);
+      }
+
+      if (notifyParticipants && (isReschedule(before, updates) || linkChanged)) {
+        await sendMeetingUpdate(updated.id);
+      }
+
       await fetchMeetings();
     } catch (error) {
       console.error('Error updating meeting:', error);
@@ -227,15 +354,28 @@ export function useMeetings() {
     }
   }, [fetchMeetings]);
 
+  // Cancelling a series also cancels its individually edited occurrences
   const cancelMeeting = useCallback(async (meetingId: string) => {
     try {
-      const { error } = await supabase
+      const { data: cancelled, error } = await supabase
         .from('meetings')
         .update({ status: 'cancelled' as MeetingStatus })
-        .eq('id', meetingId);
+        .or(`id.eq.${meetingId},series_id.eq.${meetingId}`)
+        .select();
 
       if (error) throw error;
 
+      // Removing the series event in Google removes its edited instances too
+      const meeting = cancelled?.find(m => m.id === meetingId);
+      if (meeting && (meeting.google_calendar_event_id || meeting.series_id)) {
+        await pushToGoogle(meetingId);
+      }
+      if (meeting && (meeting.outlook_event_id || meeting.series_id)) {
+        await syncToOutlook(meetingId);
+      }
+
+      await sendCancellations(meetingId, cancelled || []);
+
       await fetchMeetings();
     } catch (error) {
       console.error('Error cancelling meeting:', error);
@@ -243,8 +383,153 @@ export function useMeetings() {
     }
   }, [fetchMeetings]);
 
+  // Cancels a single occurrence of a series by recording it as an exception
+  const cancelOccurrence = useCallback(async (seriesId: string, occurrenceStart: string) => {
+    try {
+      const { data: series, error: fetchError } = await supabase
+        .from('meetings')
+        .select('recurrence_exceptions, google_calendar_event_id, outlook_event_id')
+        .eq('id', seriesId)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      const { error } = await supabase
+        .from('meetings')
+        .update({ recurrence_exceptions: [...(series.recurrence_exceptions || []), occurrenceStart] })
+        .eq('id', seriesId);
+
+      if (error) throw error;
+
+      if (series.google_calendar_event_id) {
+        await pushToGoogle(seriesId);
+      }
+      if (series.outlook_event_id) {
+        await syncToOutlook(seriesId);
+      }
+
+      // The updated series invite carries the new EXDATE, which removes the occurrence
+      await sendMeetingUpdate(seriesId);
+
+      await fetchMeetings();
+    } catch (error) {
+      console.error('Error cancelling occurrence:', error);
+      throw error;
+    }
+  }, [fetchMeetings]);
+
+  /**
+   * Edits a single occurrence of a series by saving it as its own meeting row
+   * that replaces the occurrence. Participants are carried over.
+   */
+  const updateOccurrence = useCallback(async (
+    series: Meeting,
+    occurrenceStart: string,
+    updates: Partial<Meeting>
+  ) => {
+    try {
+      const { data: override, error } = await supabase
+        .from('meetings')
+        .insert({
+          user_id: series.user_id,
+          organizer_id: series.organizer_id,
+          connection_id: series.connection_id,
+          title: series.title,
+          description: series.description,
+          agenda: series.agenda,
+          location: series.location,
+          meeting_mode: series.meeting_mode,
+          conference_url: series.conference_url,
+          duration_minutes: series.duration_minutes,
+          status: series.status,
+          parent_meeting_id: series.parent_meeting_id,
+          meeting_date: series.meeting_date,
+          meeting_time: series.meeting_time,
+          starts_at: occurrenceStart,
+          time_zone: series.time_zone,
+          ...updates,
+          recurrence_rule: null,
+          series_id: series.id,
+          original_starts_at: occurrenceStart
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const { data: participants } = await supabase
+        .from('meeting_participants')
+        .select('email, name, user_id, response')
+        .eq('meeting_id', series.id);
+
+      if (participants && participants.length > 0) {
+        const { error: participantsError } = await supabase
+          .from('meeting_participants')
+          .insert(participants.map(p => ({ ...p, meeting_id: override.id })));
+
+        if (participantsError) throw participantsError;
+      }
+
+      // Updates this occurrence's instance of the series event
+      if (series.google_calendar_event_id) {
+        await pushToGoogle(override.id);
+      }
+
+      const saved = await ensureConferenceLink(override.id);
+
+      if (series.outlook_event_id) {
+        await syncToOutlook(override.id);
+      }
+      const linkChanged = (saved.conference_url || null) !== (series.conference_url || null);
+
+      if (linkChanged || isReschedule({ starts_at: occurrenceStart, duration_minutes: series.duration_minutes, recurrence_rule: null }, updates)) {
+        await sendMeetingUpdate(saved.id);
+      }
+
+      await fetchMeetings();
+      return saved;
+    } catch (error) {
+      console.error('Error updating occurrence:', error);
+      throw error;
+    }
+  }, [fetchMeetings]);
+
   const deleteMeeting = useCallback(async (meetingId: string) => {
     try {
+      // Remove the calendar events while the meeting still records their ids
+      const { data: meeting } = await supabase
+        .from('meetings')
+        .select('google_calendar_event_id, outlook_event_id, series_id')
+        .eq('id', meetingId)
+        .single();
+
+      if (meeting?.google_calendar_event_id || meeting?.series_id) {
+        try {
+          const { error: calendarError } = await supabase.functions.invoke('google-calendar-sync', {
+            body: { action: 'delete', meetingId }
+          });
+          if (calendarError) throw calendarError;
+        } catch (calendarError) {
+          console.error('Error deleting calendar event:', calendarError);
+        }
+      }
+
+      if (meeting?.outlook_event_id || meeting?.series_id) {
+        await syncToOutlook(meetingId, 'delete');
+      }
+
+      // Participants' calendars only drop the event on a cancellation, which
+      // needs the meeting to still exist; already cancelled ones got theirs
+      const { data: cancelled, error: cancelError } = await supabase
+        .from('meetings')
+        .update({ status: 'cancelled' as MeetingStatus })
+        .or(`id.eq.${meetingId},series_id.eq.${meetingId}`)
+        .or('status.is.null,status.neq.cancelled')
+        .select('id');
+
+      if (cancelError) throw cancelError;
+      await sendCancellations(meetingId, cancelled || []);
+
       // First, clear parent_meeting_id references for child meetings
       await supabase
         .from('meetings')
@@ -278,6 +563,30 @@ export function useMeetings() {
     }
   }, [fetchMeetings]);
 
+  // Pulls from Google now, ignoring the background interval
+  const syncGoogleCalendar = useCallback(async () => {
+    const result = await pullFromGoogle(true);
+    await fetchMeetings();
+    return result;
+  }, [pullFromGoogle, fetchMeetings]);
+
+  // Settles a meeting changed both here and in Google by keeping one version
+  const resolveGoogleConflict = useCallback(async (meetingId: string, keep: 'buizly' | 'google') => {
+    try {
+      const { data, error } = await supabase.functions.invoke('google-calendar-sync', {
+        body: { action: 'resolve', meetingId, keep }
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      await fetchMeetings();
+    } catch (error) {
+      console.error('Error resolving calendar conflict:', error);
+      throw error;
+    }
+  }, [fetchMeetings]);
+
   const getMeetingParticipants = useCallback(async (meetingId: string) => {
     try {
       const { data, error } = await supabase
@@ -321,38 +630,113 @@ export function useMeetings() {
     }
   }, []);
 
-  const updateParticipantResponse = useCallback(async (
-    participantId: string,
-    response: MeetingStatus,
-    suggestedTime?: string
-  ) => {
+  const removeParticipant = useCallback(async (participantId: string) => {
     try {
       const { error } = await supabase
         .from('meeting_participants')
-        .update({
-          response,
-          responded_at: new Date().toISOString(),
-          suggested_time: suggestedTime || null
-        })
+        .delete()
         .eq('id', participantId);
 
       if (error) throw error;
     } catch (error) {
-      console.error('Error updating participant response:', error);
+      console.error('Error removing participant:', error);
       throw error;
     }
   }, []);
 
-  const removeParticipant = useCallback(async (participantId: string) => {
+  const getTimeProposals = useCallback(async (meetingId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('meeting_time_proposals')
+        .select('*')
+        .eq('meeting_id', meetingId)
+        .eq('status', 'pending')
+        .order('starts_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(item => ({
+        ...item,
+        status: item.status as TimeProposalStatus
+      })) as MeetingTimeProposal[];
+    } catch (error) {
+      console.error('Error fetching time proposals:', error);
+      return [];
+    }
+  }, []);
+
+  /**
+   * Moves the meeting to a proposed time. Whoever proposed it is marked as
+   * attending; everyone else is asked to confirm again, by notification if
+   * they have an account and by a fresh invitation email.
+   */
+  const acceptTimeProposal = useCallback(async (proposal: MeetingTimeProposal) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      // Moves the meeting, resets everyone's response and settles the
+      // proposals in one transaction
+      const { error: acceptError } = await supabase.rpc('accept_meeting_time_proposal', {
+        p_proposal_id: proposal.id
+      });
+      if (acceptError) throw acceptError;
+
+      const { data: saved, error: meetingError } = await supabase
+        .from('meetings')
+        .select('google_calendar_event_id, series_id')
+        .eq('id', proposal.meeting_id)
+        .single();
+      if (meetingError) throw meetingError;
+
+      if (saved.google_calendar_event_id || saved.series_id) {
+        await pushToGoogle(proposal.meeting_id);
+      }
+      const meeting = await ensureConferenceLink(proposal.meeting_id);
+      if (meeting.outlook_event_id || meeting.series_id) {
+        await syncToOutlook(proposal.meeting_id);
+      }
+
+      const participants = await getMeetingParticipants(proposal.meeting_id);
+      const when = `${formatMeetingDate(meeting, 'EEE, MMM d')}, ${formatMeetingTime(meeting)}`;
+      // The meeting has moved either way; one failed email mustn't stop the rest
+      for (const participant of participants.filter(p => p.response !== 'declined')) {
+        try {
+          if (participant.user_id && participant.user_id !== user.id) {
+            const { error: notifyError } = await supabase.functions.invoke('create-notification', {
+              body: {
+                user_id: participant.user_id,
+                type: 'meeting_rescheduled',
+                title: 'Meeting rescheduled',
+                message: `"${meeting.title || 'Meeting'}" moved to ${when}`,
+                data: { meeting_id: meeting.id }
+              }
+            });
+            if (notifyError) throw notifyError;
+          }
+          await sendInvitation(meeting.id, participant.email, true);
+        } catch (recipientError) {
+          console.error(`Error notifying ${participant.email} of the new time:`, recipientError);
+        }
+      }
+
+      await fetchMeetings();
+    } catch (error) {
+      console.error('Error accepting time proposal:', error);
+      throw error;
+    }
+  }, [getMeetingParticipants, fetchMeetings]);
+
+  const dismissTimeProposal = useCallback(async (proposalId: string) => {
     try {
       const { error } = await supabase
-        .from('meeting_participants')
-        .delete()
-        .eq('id', participantId);
+        .from('meeting_time_proposals')
+        .update({ status: 'dismissed' })
+        .eq('id', proposalId);
 
       if (error) throw error;
     } catch (error) {
-      console.error('Error removing participant:', error);
+      console.error('Error dismissing time proposal:', error);
       throw error;
     }
   }, []);
@@ -367,11 +751,17 @@ export function useMeetings() {
     createMeeting,
     updateMeeting,
     cancelMeeting,
+    cancelOccurrence,
+    updateOccurrence,
     deleteMeeting,
     getMeetingParticipants,
     addParticipant,
-    updateParticipantResponse,
     removeParticipant,
+    getTimeProposals,
+    acceptTimeProposal,
+    dismissTimeProposal,
+    syncGoogleCalendar,
+    resolveGoogleConflict,
     refetch: fetchMeetings
   };
 }
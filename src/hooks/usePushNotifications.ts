@@ -11,6 +11,42 @@ interface PushNotificationHook {
   unsubscribe: () => Promise<boolean>;
 }
 
+// Public VAPID key matching the server's; without it only in-app notifications are shown
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+function urlBase64ToUint8Array(base64String: string): Uint8Array {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(base64);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+}
+
+// Stores the browser's push subscription so reminders can reach it while the app is closed
+async function savePushSubscription(registration: ServiceWorkerRegistration) {
+  if (!VAPID_PUBLIC_KEY) return;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return;
+
+  const subscription = await registration.pushManager.getSubscription() ||
+    await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY)
+    });
+
+  const keys = subscription.toJSON().keys || {};
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .upsert({
+      user_id: user.id,
+      endpoint: subscription.endpoint,
+      p256dh: keys.p256dh || '',
+      auth: keys.auth || ''
+    }, { onConflict: 'endpoint', ignoreDuplicates: true });
+
+  if (error) throw error;
+}
+
 export function usePushNotifications(): PushNotificationHook {
   const [isSupported, setIsSupported] = useState(false);
   const [permission, setPermission] = useState<NotificationPermission>('default');
@@ -91,7 +127,7 @@ export function usePushNotifications(): PushNotificationHook {
       }
 
       // Wait for the service worker to be ready
-      await navigator.serviceWorker.ready;
+      await savePushSubscription(await navigator.serviceWorker.ready);
       
       setIsSubscribed(true);
       toast({
@@ -121,6 +157,10 @@ export function usePushNotifications(): PushNotificationHook {
       const subscription = await registration.pushManager.getSubscription();
       
       if (subscription) {
+        await supabase
+          .from('push_subscriptions')
+          .delete()
+          .eq('endpoint', subscription.endpoint);
         await subscription.unsubscribe();
       }
       
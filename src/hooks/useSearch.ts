@@ -57,16 +57,17 @@ export function useSearch() {
 
       if (query.trim()) {
         meetingsQuery = meetingsQuery.or(
-          `title.ilike.%${query}%,description.ilike.%${query}%,location.ilike.%${query}%`
+          `title.ilike.%${query}%,description.ilike.%${query}%,agenda.ilike.%${query}%,location.ilike.%${query}%`
         );
       }
 
+      // Filter dates are days in the viewer's zone
       if (filters?.dateFrom) {
-        meetingsQuery = meetingsQuery.gte('meeting_date', filters.dateFrom);
+        meetingsQuery = meetingsQuery.gte('starts_at', new Date(`${filters.dateFrom}T00:00:00`).toISOString());
       }
 
       if (filters?.dateTo) {
-        meetingsQuery = meetingsQuery.lte('meeting_date', filters.dateTo);
+        meetingsQuery = meetingsQuery.lte('starts_at', new Date(`${filters.dateTo}T23:59:59.999`).toISOString());
       }
 
       if (filters?.location) {
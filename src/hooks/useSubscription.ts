@@ -3,7 +3,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 
 export type SubscriptionPlan = "free" | "pro" | "business";
-export type SubscriptionStatus = "active" | "cancelled" | "past_due" | "trialing" | "expired";
+export type SubscriptionStatus = "active" | "cancelled" | "past_due" | "trialing" | "expired" | "incomplete";
 
 export interface Subscription {
   id: string;
@@ -12,6 +12,7 @@ export interface Subscription {
   status: SubscriptionStatus;
   stripe_customer_id: string | null;
   stripe_subscription_id: string | null;
+  stripe_price_id: string | null;
   current_period_start: string | null;
   current_period_end: string | null;
   cancel_at_period_end: boolean;
@@ -35,7 +36,10 @@ export interface PlanFeatures {
   connectionLimit: number | "unlimited";
   hasAnalytics: boolean;
   hasCustomBranding: boolean;
+  hasCustomProfileUrl: boolean;
   hasTeamWorkspaces: boolean;
+  hasCrmExport: boolean;
+  hasLeadCapture: boolean;
   teamMemberLimit: number;
 }
 
@@ -53,7 +57,10 @@ export const PLAN_FEATURES: Record<SubscriptionPlan, PlanFeatures> = {
     connectionLimit: 5,
     hasAnalytics: false,
     hasCustomBranding: false,
+    hasCustomProfileUrl: false,
     hasTeamWorkspaces: false,
+    hasCrmExport: false,
+    hasLeadCapture: false,
     teamMemberLimit: 0,
   },
   pro: {
@@ -72,7 +79,10 @@ export const PLAN_FEATURES: Record<SubscriptionPlan, PlanFeatures> = {
     connectionLimit: "unlimited",
     hasAnalytics: true,
     hasCustomBranding: true,
+    hasCustomProfileUrl: true,
     hasTeamWorkspaces: false,
+    hasCrmExport: false,
+    hasLeadCapture: false,
     teamMemberLimit: 0,
   },
   business: {
@@ -91,11 +101,21 @@ export const PLAN_FEATURES: Record<SubscriptionPlan, PlanFeatures> = {
     connectionLimit: "unlimited",
     hasAnalytics: true,
     hasCustomBranding: true,
+    hasCustomProfileUrl: true,
     hasTeamWorkspaces: true,
+    hasCrmExport: true,
+    hasLeadCapture: true,
     teamMemberLimit: 5,
   },
 };
 
+// Raised by the enforce_connection_limit trigger on connections inserts
+export const CONNECTION_LIMIT_ERROR = "CONNECTION_LIMIT_REACHED";
+
+export function isConnectionLimitError(error: unknown): boolean {
+  return (error as { message?: string } | null)?.message === CONNECTION_LIMIT_ERROR;
+}
+
 export function useSubscription() {
   const { toast } = useToast();
   const [subscription, setSubscription] = useState<Subscription | null>(null);
@@ -188,39 +208,57 @@ export function useSubscription() {
     return Math.max(0, 5 - currentConnections);
   };
 
-  const incrementConnectionCount = async () => {
+  const upgradePlan = async (newPlan: SubscriptionPlan) => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      const { data, error } = await supabase.rpc("increment_connection_count", {
-        p_user_id: user.id,
+      const { data, error } = await supabase.functions.invoke("create-checkout-session", {
+        body: { plan: newPlan },
       });
 
       if (error) throw error;
-      
-      // Refresh usage after incrementing
-      await fetchUsage();
-    } catch (error: any) {
-      console.error("Error incrementing connection count:", error);
+
+      if (data?.url) {
+        window.location.href = data.url;
+        return;
+      }
+
+      // Existing subscribers are switched in place; the webhook syncs the new plan
+      toast({
+        title: "Plan updated",
+        description: `You're now on ${PLAN_FEATURES[newPlan].name}. Changes may take a moment to appear.`,
+      });
+      await fetchSubscription();
+    } catch (error) {
+      console.error("Error starting checkout:", error);
+      toast({
+        title: "Error",
+        description: "Unable to start checkout. Please try again.",
+        variant: "destructive",
+      });
     }
   };
 
-  const upgradePlan = async (newPlan: SubscriptionPlan) => {
-    // This is a placeholder for Stripe integration
-    // In production, this would redirect to Stripe checkout
-    toast({
-      title: "Upgrade Coming Soon",
-      description: "Stripe integration will be added to handle payments.",
-    });
+  const openBillingPortal = async (flow?: "cancel") => {
+    try {
+      const { data, error } = await supabase.functions.invoke("create-portal-session", {
+        body: { flow },
+      });
+
+      if (error) throw error;
+      if (!data?.url) throw new Error("No portal URL returned");
+
+      window.location.href = data.url;
+    } catch (error) {
+      console.error("Error opening billing portal:", error);
+      toast({
+        title: "Error",
+        description: "Unable to open billing portal. Please try again.",
+        variant: "destructive",
+      });
+    }
   };
 
   const cancelSubscription = async () => {
-    // Placeholder for cancellation logic
-    toast({
-      title: "Cancel Coming Soon",
-      description: "Stripe integration will be added to handle cancellations.",
-    });
+    await openBillingPortal("cancel");
   };
 
   const getCurrentPlan = (): SubscriptionPlan => {
@@ -242,9 +280,9 @@ export function useSubscription() {
     loading,
     canAddConnection,
     getConnectionsRemaining,
-    incrementConnectionCount,
     upgradePlan,
     cancelSubscription,
+    openBillingPortal,
     getCurrentPlan,
     getPlanFeatures,
     hasFeature,
@@ -0,0 +1,435 @@
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { PLAN_FEATURES } from '@/hooks/useSubscription';
+import type {
+  Connection,
+  Workspace,
+  WorkspaceConnection,
+  WorkspaceInvite,
+  WorkspaceInviteStatus,
+  WorkspaceMember,
+  WorkspaceRole,
+} from '@/types/database';
+
+export function useWorkspaces() {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invites, setInvites] = useState<WorkspaceInvite[]>([]);
+  const [myInvites, setMyInvites] = useState<WorkspaceInvite[]>([]);
+  const [sharedConnections, setSharedConnections] = useState<WorkspaceConnection[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const activeWorkspace = workspaces.find(w => w.id === activeWorkspaceId) || null;
+  const myRole: WorkspaceRole | null = members.find(m => m.user_id === currentUserId)?.role ?? null;
+  const canManage = myRole === 'owner' || myRole === 'admin';
+  const memberLimit = PLAN_FEATURES.business.teamMemberLimit;
+  const pendingInvites = invites.filter(i => i.status === 'pending');
+  const seatsRemaining = Math.max(0, memberLimit - members.length - pendingInvites.length);
+
+  const fetchWorkspaces = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      setCurrentUserId(user.id);
+
+      // RLS only returns workspaces I'm a member of, and invites match the login email
+      const [workspacesResult, invitesResult] = await Promise.all([
+        supabase
+          .from('workspaces')
+          .select('*')
+          .order('created_at', { ascending: true }),
+        user.email
+          ? supabase
+              .from('workspace_invites')
+              .select('*')
+              .eq('email', user.email.toLowerCase())
+              .eq('status', 'pending')
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+
+      if (workspacesResult.error) throw workspacesResult.error;
+
+      const list = workspacesResult.data || [];
+      setWorkspaces(list);
+      setActiveWorkspaceId(prev =>
+        prev && list.some(w => w.id === prev) ? prev : list[0]?.id ?? null
+      );
+
+      // Invitees can't read the workspace row until they join
+      setMyInvites((invitesResult.data || []).map(i => ({
+        ...i,
+        role: i.role as WorkspaceRole,
+        status: i.status as WorkspaceInviteStatus,
+      })));
+    } catch (error) {
+      console.error('Error fetching workspaces:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchWorkspaceDetails = useCallback(async (workspaceId: string) => {
+    try {
+      const [membersResult, invitesResult, sharedResult] = await Promise.all([
+        supabase
+          .from('workspace_members')
+          .select('*')
+          .eq('workspace_id', workspaceId)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('workspace_invites')
+          .select('*')
+          .eq('workspace_id', workspaceId)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('workspace_connections')
+          .select('*')
+          .eq('workspace_id', workspaceId)
+          .order('created_at', { ascending: false }),
+      ]);
+
+      if (membersResult.error) throw membersResult.error;
+
+      const memberRows = membersResult.data || [];
+      const sharedRows = sharedResult.data || [];
+
+      // Fetch member profiles and shared connections in parallel
+      const [profilesResult, connectionsResult] = await Promise.all([
+        memberRows.length > 0
+          ? supabase
+              .from('profiles')
+              .select('id, full_name, avatar_url, job_title, email')
+              .in('id', memberRows.map(m => m.user_id))
+          : Promise.resolve({ data: [], error: null }),
+        sharedRows.length > 0
+          ? supabase
+              .from('connections')
+              .select('*')
+              .in('id', sharedRows.map(s => s.connection_id))
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+
+      const profileMap = new Map((profilesResult.data || []).map(p => [p.id, p]));
+      const connectionMap = new Map((connectionsResult.data || []).map(c => [c.id, c as Connection]));
+
+      setMembers(memberRows.map(m => ({
+        ...m,
+        role: m.role as WorkspaceRole,
+        profile: profileMap.get(m.user_id),
+      })));
+
+      setInvites((invitesResult.data || []).map(i => ({
+        ...i,
+        role: i.role as WorkspaceRole,
+        status: i.status as WorkspaceInviteStatus,
+      })));
+
+      setSharedConnections(sharedRows.map(s => ({
+        ...s,
+        connection: connectionMap.get(s.connection_id),
+        shared_by_name: profileMap.get(s.shared_by)?.full_name,
+      })));
+    } catch (error) {
+      console.error('Error fetching workspace details:', error);
+    }
+  }, []);
+
+  const createWorkspace = useCallback(async (name: string) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('workspaces')
+        .insert({ name: name.trim(), owner_id: user.id })
+        .select()
+        .single();
+
+      if (error) {
+        // RLS rejects the insert when the owner isn't on the Business plan
+        if (error.code === '42501') {
+          throw new Error('Team workspaces require the Business plan');
+        }
+        throw error;
+      }
+
+      toast({ title: 'Workspace created', description: `${data.name} is ready for your team` });
+      setActiveWorkspaceId(data.id);
+      await fetchWorkspaces();
+      return { success: true, workspace: data };
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return { success: false };
+    }
+  }, [fetchWorkspaces, toast]);
+
+  const inviteMember = useCallback(async (email: string, role: WorkspaceRole = 'member') => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+      if (!activeWorkspace) throw new Error('No workspace selected');
+
+      const normalizedEmail = email.trim().toLowerCase();
+
+      if (members.some(m => m.profile?.email?.toLowerCase() === normalizedEmail)) {
+        toast({ title: 'Already a member', description: `${normalizedEmail} is already on your team` });
+        return { success: false };
+      }
+
+      if (seatsRemaining <= 0) {
+        throw new Error(`Team member limit reached (${memberLimit} members)`);
+      }
+
+      // Clear any previous declined/revoked invite so the address can be invited again
+      await supabase
+        .from('workspace_invites')
+        .delete()
+        .eq('workspace_id', activeWorkspace.id)
+        .eq('email', normalizedEmail)
+        .neq('status', 'pending');
+
+      const { error } = await supabase
+        .from('workspace_invites')
+        .insert({
+          workspace_id: activeWorkspace.id,
+          email: normalizedEmail,
+          role,
+          invited_by: user.id,
+        });
+
+      if (error) {
+        if (error.code === '23505') throw new Error('An invite is already pending for this email');
+        if (error.code === '42501') throw new Error(`Team member limit reached (${memberLimit} members)`);
+        throw error;
+      }
+
+      try {
+        // The email function reads the names and link from the stored invite
+        await supabase.functions.invoke('send-email', {
+          body: {
+            type: 'workspaceInvite',
+            to: normalizedEmail,
+            payload: { workspaceId: activeWorkspace.id },
+          },
+        });
+      } catch (emailError) {
+        console.error('Failed to send workspace invite email:', emailError);
+      }
+
+      toast({ title: 'Invite sent!', description: `${normalizedEmail} has been invited` });
+      await fetchWorkspaceDetails(activeWorkspace.id);
+      return { success: true };
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return { success: false };
+    }
+  }, [activeWorkspace, members, seatsRemaining, memberLimit, fetchWorkspaceDetails, toast]);
+
+  const revokeInvite = useCallback(async (inviteId: string) => {
+    try {
+      const { error } = await supabase
+        .from('workspace_invites')
+        .update({ status: 'revoked', responded_at: new Date().toISOString() })
+        .eq('id', inviteId);
+
+      if (error) throw error;
+
+      toast({ title: 'Invite revoked' });
+      if (activeWorkspaceId) await fetchWorkspaceDetails(activeWorkspaceId);
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  }, [activeWorkspaceId, fetchWorkspaceDetails, toast]);
+
+  const respondToInvite = useCallback(async (inviteId: string, accept: boolean) => {
+    try {
+      if (accept) {
+        const { data: workspaceId, error } = await supabase.rpc('accept_workspace_invite', {
+          p_invite_id: inviteId,
+        });
+        if (error) throw error;
+        setActiveWorkspaceId(workspaceId);
+      } else {
+        const { error } = await supabase.rpc('decline_workspace_invite', {
+          p_invite_id: inviteId,
+        });
+        if (error) throw error;
+      }
+
+      toast({ title: accept ? 'Joined workspace!' : 'Invite declined' });
+      await fetchWorkspaces();
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  }, [fetchWorkspaces, toast]);
+
+  const updateMemberRole = useCallback(async (memberId: string, role: WorkspaceRole) => {
+    try {
+      const { error } = await supabase
+        .from('workspace_members')
+        .update({ role })
+        .eq('id', memberId);
+
+      if (error) throw error;
+
+      toast({ title: 'Role updated' });
+      if (activeWorkspaceId) await fetchWorkspaceDetails(activeWorkspaceId);
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  }, [activeWorkspaceId, fetchWorkspaceDetails, toast]);
+
+  const removeMember = useCallback(async (memberId: string) => {
+    try {
+      const { error } = await supabase
+        .from('workspace_members')
+        .delete()
+        .eq('id', memberId);
+
+      if (error) throw error;
+
+      toast({ title: 'Member removed' });
+      if (activeWorkspaceId) await fetchWorkspaceDetails(activeWorkspaceId);
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  }, [activeWorkspaceId, fetchWorkspaceDetails, toast]);
+
+  const leaveWorkspace = useCallback(async () => {
+    try {
+      const membership = members.find(m => m.user_id === currentUserId);
+      if (!membership) return;
+
+      const { error } = await supabase
+        .from('workspace_members')
+        .delete()
+        .eq('id', membership.id);
+
+      if (error) throw error;
+
+      toast({ title: 'You left the workspace' });
+      setActiveWorkspaceId(null);
+      await fetchWorkspaces();
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  }, [members, currentUserId, fetchWorkspaces, toast]);
+
+  const shareConnection = useCallback(async (connectionId: string) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+      if (!activeWorkspace) throw new Error('Join or create a team workspace first');
+
+      const { error } = await supabase
+        .from('workspace_connections')
+        .insert({
+          workspace_id: activeWorkspace.id,
+          connection_id: connectionId,
+          shared_by: user.id,
+        });
+
+      if (error) {
+        if (error.code === '23505') {
+          toast({ title: 'Already shared', description: `This contact is already in ${activeWorkspace.name}` });
+          return { success: false };
+        }
+        throw error;
+      }
+
+      toast({ title: 'Shared with team', description: `Added to ${activeWorkspace.name}` });
+      await fetchWorkspaceDetails(activeWorkspace.id);
+      return { success: true };
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return { success: false };
+    }
+  }, [activeWorkspace, fetchWorkspaceDetails, toast]);
+
+  const unshareConnection = useCallback(async (sharedId: string) => {
+    try {
+      const { error } = await supabase
+        .from('workspace_connections')
+        .delete()
+        .eq('id', sharedId);
+
+      if (error) throw error;
+
+      toast({ title: 'Removed from team pool' });
+      if (activeWorkspaceId) await fetchWorkspaceDetails(activeWorkspaceId);
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  }, [activeWorkspaceId, fetchWorkspaceDetails, toast]);
+
+  useEffect(() => {
+    fetchWorkspaces();
+  }, [fetchWorkspaces]);
+
+  // Load details and keep them live for the active workspace
+  useEffect(() => {
+    if (!activeWorkspaceId) {
+      setMembers([]);
+      setInvites([]);
+      setSharedConnections([]);
+      return;
+    }
+
+    fetchWorkspaceDetails(activeWorkspaceId);
+
+    const refresh = () => fetchWorkspaceDetails(activeWorkspaceId);
+    const channel = supabase
+      .channel(`workspace-${activeWorkspaceId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'workspace_members', filter: `workspace_id=eq.${activeWorkspaceId}` },
+        refresh
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'workspace_invites', filter: `workspace_id=eq.${activeWorkspaceId}` },
+        refresh
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'workspace_connections', filter: `workspace_id=eq.${activeWorkspaceId}` },
+        refresh
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [activeWorkspaceId, fetchWorkspaceDetails]);
+
+  return {
+    workspaces,
+    activeWorkspace,
+    setActiveWorkspaceId,
+    members,
+    invites,
+    pendingInvites,
+    myInvites,
+    sharedConnections,
+    myRole,
+    canManage,
+    memberLimit,
+    seatsRemaining,
+    currentUserId,
+    loading,
+    createWorkspace,
+    inviteMember,
+    revokeInvite,
+    respondToInvite,
+    updateMemberRole,
+    removeMember,
+    leaveWorkspace,
+    shareConnection,
+    unshareConnection,
+    refetch: fetchWorkspaces,
+  };
+}
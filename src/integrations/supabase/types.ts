@@ -14,6 +14,207 @@ export type Database = {
   }
   public: {
     Tables: {
+      booking_pages: {
+        Row: {
+          availability: Json
+          buffer_after_minutes: number
+          buffer_before_minutes: number
+          created_at: string
+          description: string | null
+          id: string
+          is_enabled: boolean
+          max_days_ahead: number
+          meeting_types: Json
+          min_notice_minutes: number
+          time_zone: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          availability?: Json
+          buffer_after_minutes?: number
+          buffer_before_minutes?: number
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_enabled?: boolean
+          max_days_ahead?: number
+          meeting_types?: Json
+          min_notice_minutes?: number
+          time_zone?: string
+          title?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          availability?: Json
+          buffer_after_minutes?: number
+          buffer_before_minutes?: number
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_enabled?: boolean
+          max_days_ahead?: number
+          meeting_types?: Json
+          min_notice_minutes?: number
+          time_zone?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_pages_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_pages_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles_public"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_pages_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles_search"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_busy_blocks: {
+        Row: {
+          all_day: boolean
+          created_at: string
+          ends_at: string
+          id: string
+          starts_at: string
+          summary: string | null
+          uid: string | null
+          user_id: string
+        }
+        Insert: {
+          all_day?: boolean
+          created_at?: string
+          ends_at: string
+          id?: string
+          starts_at: string
+          summary?: string | null
+          uid?: string | null
+          user_id: string
+        }
+        Update: {
+          all_day?: boolean
+          created_at?: string
+          ends_at?: string
+          id?: string
+          starts_at?: string
+          summary?: string | null
+          uid?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_busy_blocks_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "calendar_busy_blocks_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles_public"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "calendar_busy_blocks_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles_search"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      card_designs: {
+        Row: {
+          accent_color: string
+          background_color: string
+          created_at: string
+          font_family: string
+          id: string
+          logo_url: string | null
+          qr_background: string
+          qr_error_correction: string
+          qr_foreground: string
+          qr_margin: number
+          qr_show_logo: boolean
+          template_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          accent_color?: string
+          background_color?: string
+          created_at?: string
+          font_family?: string
+          id?: string
+          logo_url?: string | null
+          qr_background?: string
+          qr_error_correction?: string
+          qr_foreground?: string
+          qr_margin?: number
+          qr_show_logo?: boolean
+          template_id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          accent_color?: string
+          background_color?: string
+          created_at?: string
+          font_family?: string
+          id?: string
+          logo_url?: string | null
+          qr_background?: string
+          qr_error_correction?: string
+          qr_foreground?: string
+          qr_margin?: number
+          qr_show_logo?: boolean
+          template_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "card_designs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "card_designs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles_public"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "card_designs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles_search"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       connection_requests: {
         Row: {
           created_at: string
@@ -95,9 +296,13 @@ export type Database = {
           connection_name: string
           connection_phone: string | null
           connection_title: string | null
+          consent_given_at: string | null
           created_at: string
           id: string
+          lead_form_data: Json | null
+          lead_form_id: string | null
           notes: string | null
+          source: string
           user_id: string
         }
         Insert: {
@@ -110,9 +315,13 @@ export type Database = {
           connection_name: string
           connection_phone?: string | null
           connection_title?: string | null
+          consent_given_at?: string | null
           created_at?: string
           id?: string
+          lead_form_data?: Json | null
+          lead_form_id?: string | null
           notes?: string | null
+          source?: string
           user_id: string
         }
         Update: {
@@ -125,9 +334,13 @@ export type Database = {
           connection_name?: string
           connection_phone?: string | null
           connection_title?: string | null
+          consent_given_at?: string | null
           created_at?: string
           id?: string
+          lead_form_data?: Json | null
+          lead_form_id?: string | null
           notes?: string | null
+          source?: string
           user_id?: string
         }
         Relationships: [
@@ -152,6 +365,109 @@ export type Database = {
             referencedRelation: "profiles_search"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "connections_lead_form_id_fkey"
+            columns: ["lead_form_id"]
+            isOneToOne: false
+            referencedRelation: "lead_forms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_forms: {
+        Row: {
+          consent_required: boolean
+          consent_text: string
+          created_at: string
+          description: string | null
+          fields: Json
+          id: string
+          is_enabled: boolean
+          submit_label: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          consent_required?: boolean
+          consent_text?: string
+          created_at?: string
+          description?: string | null
+          fields?: Json
+          id?: string
+          is_enabled?: boolean
+          submit_label?: string
+          title?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          consent_required?: boolean
+          consent_text?: string
+          created_at?: string
+          description?: string | null
+          fields?: Json
+          id?: string
+          is_enabled?: boolean
+          submit_label?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_forms_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_forms_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles_public"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_forms_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles_search"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meeting_media: {
+        Row: {
+          created_at: string
+          id: string
+          media_type: string
+          meeting_id: string
+          storage_path: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          media_type?: string
+          meeting_id: string
+          storage_path: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          media_type?: string
+          meeting_id?: string
+          storage_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meeting_media_meeting_id_fkey"
+            columns: ["meeting_id"]
+            isOneToOne: false
+            referencedRelation: "meetings"
+            referencedColumns: ["id"]
+          },
         ]
       }
       meeting_notes: {
@@ -160,7 +476,6 @@ export type Database = {
           created_at: string
           id: string
           meeting_id: string
-          photo_urls: string[] | null
           text_note: string | null
         }
         Insert: {
@@ -168,7 +483,6 @@ export type Database = {
           created_at?: string
           id?: string
           meeting_id: string
-          photo_urls?: string[] | null
           text_note?: string | null
         }
         Update: {
@@ -176,7 +490,6 @@ export type Database = {
           created_at?: string
           id?: string
           meeting_id?: string
-          photo_urls?: string[] | null
           text_note?: string | null
         }
         Relationships: [
@@ -189,6 +502,35 @@ export type Database = {
           },
         ]
       }
+      meeting_occurrence_reminders: {
+        Row: {
+          meeting_id: string
+          occurrence_starts_at: string
+          reminder_type: string
+          sent_at: string
+        }
+        Insert: {
+          meeting_id: string
+          occurrence_starts_at: string
+          reminder_type: string
+          sent_at?: string
+        }
+        Update: {
+          meeting_id?: string
+          occurrence_starts_at?: string
+          reminder_type?: string
+          sent_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meeting_occurrence_reminders_meeting_id_fkey"
+            columns: ["meeting_id"]
+            isOneToOne: false
+            referencedRelation: "meetings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       meeting_participants: {
         Row: {
           created_at: string | null
@@ -254,59 +596,187 @@ export type Database = {
           },
         ]
       }
+      meeting_response_tokens: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          participant_id: string
+          used_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          id?: string
+          participant_id: string
+          used_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          participant_id?: string
+          used_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meeting_response_tokens_participant_id_fkey"
+            columns: ["participant_id"]
+            isOneToOne: false
+            referencedRelation: "meeting_participants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meeting_time_proposals: {
+        Row: {
+          created_at: string
+          id: string
+          meeting_id: string
+          note: string | null
+          participant_id: string
+          starts_at: string
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          meeting_id: string
+          note?: string | null
+          participant_id: string
+          starts_at: string
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          meeting_id?: string
+          note?: string | null
+          participant_id?: string
+          starts_at?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meeting_time_proposals_meeting_id_fkey"
+            columns: ["meeting_id"]
+            isOneToOne: false
+            referencedRelation: "meetings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meeting_time_proposals_participant_id_fkey"
+            columns: ["participant_id"]
+            isOneToOne: false
+            referencedRelation: "meeting_participants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       meetings: {
         Row: {
+          agenda: string | null
+          booking_page_id: string | null
+          conference_url: string | null
           connection_id: string | null
           created_at: string
           description: string | null
+          duration_minutes: number
           follow_up_sent: boolean
+          google_calendar_etag: string | null
           google_calendar_event_id: string | null
+          google_sync_conflict: Json | null
+          google_sync_pending: boolean
+          ics_sequence: number
           id: string
           location: string | null
           meeting_date: string
+          meeting_mode: Database["public"]["Enums"]["meeting_mode"]
           meeting_time: string
           organizer_id: string | null
+          original_starts_at: string | null
+          outlook_event_id: string | null
           parent_meeting_id: string | null
+          recurrence_exceptions: string[]
+          recurrence_rule: string | null
           reminder_1h_sent: boolean | null
           reminder_24h_sent: boolean | null
+          series_id: string | null
+          starts_at: string
           status: Database["public"]["Enums"]["meeting_status"] | null
+          time_zone: string | null
           title: string | null
+          updated_at: string
           user_id: string
         }
         Insert: {
+          agenda?: string | null
+          booking_page_id?: string | null
+          conference_url?: string | null
           connection_id?: string | null
           created_at?: string
           description?: string | null
+          duration_minutes?: number
           follow_up_sent?: boolean
+          google_calendar_etag?: string | null
           google_calendar_event_id?: string | null
+          google_sync_conflict?: Json | null
+          google_sync_pending?: boolean
+          ics_sequence?: number
           id?: string
           location?: string | null
           meeting_date: string
+          meeting_mode?: Database["public"]["Enums"]["meeting_mode"]
           meeting_time: string
           organizer_id?: string | null
+          original_starts_at?: string | null
+          outlook_event_id?: string | null
           parent_meeting_id?: string | null
+          recurrence_exceptions?: string[]
+          recurrence_rule?: string | null
           reminder_1h_sent?: boolean | null
           reminder_24h_sent?: boolean | null
+          series_id?: string | null
+          starts_at: string
           status?: Database["public"]["Enums"]["meeting_status"] | null
+          time_zone?: string | null
           title?: string | null
+          updated_at?: string
           user_id: string
         }
         Update: {
+          agenda?: string | null
+          booking_page_id?: string | null
+          conference_url?: string | null
           connection_id?: string | null
           created_at?: string
           description?: string | null
+          duration_minutes?: number
           follow_up_sent?: boolean
+          google_calendar_etag?: string | null
           google_calendar_event_id?: string | null
+          google_sync_conflict?: Json | null
+          google_sync_pending?: boolean
+          ics_sequence?: number
           id?: string
           location?: string | null
           meeting_date?: string
+          meeting_mode?: Database["public"]["Enums"]["meeting_mode"]
           meeting_time?: string
           organizer_id?: string | null
+          original_starts_at?: string | null
+          outlook_event_id?: string | null
           parent_meeting_id?: string | null
+          recurrence_exceptions?: string[]
+          recurrence_rule?: string | null
           reminder_1h_sent?: boolean | null
           reminder_24h_sent?: boolean | null
+          series_id?: string | null
+          starts_at?: string
           status?: Database["public"]["Enums"]["meeting_status"] | null
+          time_zone?: string | null
           title?: string | null
+          updated_at?: string
           user_id?: string
         }
         Relationships: [
@@ -363,7 +833,21 @@ export type Database = {
             foreignKeyName: "meetings_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
-            referencedRelation: "profiles_search"
+            referencedRelation: "profiles_search"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meetings_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "meetings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meetings_booking_page_id_fkey"
+            columns: ["booking_page_id"]
+            isOneToOne: false
+            referencedRelation: "booking_pages"
             referencedColumns: ["id"]
           },
         ]
@@ -525,6 +1009,46 @@ export type Database = {
           },
         ]
       }
+      profile_slug_history: {
+        Row: {
+          created_at: string
+          profile_id: string
+          slug: string
+        }
+        Insert: {
+          created_at?: string
+          profile_id: string
+          slug: string
+        }
+        Update: {
+          created_at?: string
+          profile_id?: string
+          slug?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profile_slug_history_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profile_slug_history_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles_public"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profile_slug_history_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles_search"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profile_views: {
         Row: {
           created_at: string
@@ -592,6 +1116,7 @@ export type Database = {
           linkedin_url: string | null
           phone: string | null
           qr_code_url: string | null
+          slug: string | null
           updated_at: string
           website: string | null
         }
@@ -609,6 +1134,7 @@ export type Database = {
           linkedin_url?: string | null
           phone?: string | null
           qr_code_url?: string | null
+          slug?: string | null
           updated_at?: string
           website?: string | null
         }
@@ -626,11 +1152,79 @@ export type Database = {
           linkedin_url?: string | null
           phone?: string | null
           qr_code_url?: string | null
+          slug?: string | null
           updated_at?: string
           website?: string | null
         }
         Relationships: []
       }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          p256dh: string
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          p256dh: string
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          p256dh?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "push_subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles_public"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "push_subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles_search"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stripe_webhook_events: {
+        Row: {
+          created_at: string
+          id: string
+          type: string
+        }
+        Insert: {
+          created_at?: string
+          id: string
+          type: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          type?: string
+        }
+        Relationships: []
+      }
       subscriptions: {
         Row: {
           cancel_at_period_end: boolean | null
@@ -642,6 +1236,7 @@ export type Database = {
           plan: Database["public"]["Enums"]["subscription_plan"]
           status: Database["public"]["Enums"]["subscription_status"]
           stripe_customer_id: string | null
+          stripe_price_id: string | null
           stripe_subscription_id: string | null
           updated_at: string
           user_id: string
@@ -656,6 +1251,7 @@ export type Database = {
           plan?: Database["public"]["Enums"]["subscription_plan"]
           status?: Database["public"]["Enums"]["subscription_status"]
           stripe_customer_id?: string | null
+          stripe_price_id?: string | null
           stripe_subscription_id?: string | null
           updated_at?: string
           user_id: string
@@ -670,6 +1266,7 @@ export type Database = {
           plan?: Database["public"]["Enums"]["subscription_plan"]
           status?: Database["public"]["Enums"]["subscription_status"]
           stripe_customer_id?: string | null
+          stripe_price_id?: string | null
           stripe_subscription_id?: string | null
           updated_at?: string
           user_id?: string
@@ -749,12 +1346,18 @@ export type Database = {
       }
       user_settings: {
         Row: {
+          calendar_feed_token: string | null
           created_at: string | null
           email_notifications: boolean | null
           google_calendar_connected: boolean | null
+          google_last_synced_at: string | null
           google_refresh_token: string | null
+          google_sync_token: string | null
+          ical_last_synced_at: string | null
+          ical_sync_error: string | null
           ical_url: string | null
           id: string
+          meeting_retention_days: number | null
           onboarding_completed: boolean | null
           outlook_calendar_connected: boolean | null
           outlook_refresh_token: string | null
@@ -765,12 +1368,18 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          calendar_feed_token?: string | null
           created_at?: string | null
           email_notifications?: boolean | null
           google_calendar_connected?: boolean | null
+          google_last_synced_at?: string | null
           google_refresh_token?: string | null
+          google_sync_token?: string | null
+          ical_last_synced_at?: string | null
+          ical_sync_error?: string | null
           ical_url?: string | null
           id?: string
+          meeting_retention_days?: number | null
           onboarding_completed?: boolean | null
           outlook_calendar_connected?: boolean | null
           outlook_refresh_token?: string | null
@@ -781,12 +1390,18 @@ export type Database = {
           user_id: string
         }
         Update: {
+          calendar_feed_token?: string | null
           created_at?: string | null
           email_notifications?: boolean | null
           google_calendar_connected?: boolean | null
+          google_last_synced_at?: string | null
           google_refresh_token?: string | null
+          google_sync_token?: string | null
+          ical_last_synced_at?: string | null
+          ical_sync_error?: string | null
           ical_url?: string | null
           id?: string
+          meeting_retention_days?: number | null
           onboarding_completed?: boolean | null
           outlook_calendar_connected?: boolean | null
           outlook_refresh_token?: string | null
@@ -820,6 +1435,227 @@ export type Database = {
           },
         ]
       }
+      workspace_connections: {
+        Row: {
+          connection_id: string
+          created_at: string
+          id: string
+          shared_by: string
+          workspace_id: string
+        }
+        Insert: {
+          connection_id: string
+          created_at?: string
+          id?: string
+          shared_by: string
+          workspace_id: string
+        }
+        Update: {
+          connection_id?: string
+          created_at?: string
+          id?: string
+          shared_by?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_connections_connection_id_fkey"
+            columns: ["connection_id"]
+            isOneToOne: false
+            referencedRelation: "connections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspace_connections_shared_by_fkey"
+            columns: ["shared_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspace_connections_shared_by_fkey"
+            columns: ["shared_by"]
+            isOneToOne: false
+            referencedRelation: "profiles_public"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspace_connections_shared_by_fkey"
+            columns: ["shared_by"]
+            isOneToOne: false
+            referencedRelation: "profiles_search"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspace_connections_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_invites: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          invited_by: string
+          responded_at: string | null
+          role: Database["public"]["Enums"]["workspace_role"]
+          status: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          invited_by: string
+          responded_at?: string | null
+          role?: Database["public"]["Enums"]["workspace_role"]
+          status?: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string
+          responded_at?: string | null
+          role?: Database["public"]["Enums"]["workspace_role"]
+          status?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_invites_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspace_invites_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles_public"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspace_invites_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles_search"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspace_invites_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["workspace_role"]
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["workspace_role"]
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["workspace_role"]
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspace_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles_public"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspace_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles_search"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          owner_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          owner_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          owner_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspaces_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspaces_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles_public"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspaces_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles_search"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       profiles_public: {
@@ -972,24 +1808,81 @@ export type Database = {
       }
     }
     Functions: {
+      accept_connection_request: {
+        Args: { p_request_id: string }
+        Returns: undefined
+      }
+      accept_meeting_time_proposal: {
+        Args: { p_proposal_id: string }
+        Returns: undefined
+      }
+      accept_workspace_invite: {
+        Args: { p_invite_id: string }
+        Returns: string
+      }
+      apply_meeting_retention: { Args: never; Returns: number }
       can_add_connection: { Args: { p_user_id: string }; Returns: boolean }
+      can_add_workspace_member: {
+        Args: { p_workspace_id: string }
+        Returns: boolean
+      }
+      can_create_workspace: { Args: never; Returns: boolean }
       can_view_profile: { Args: { profile_id: string }; Returns: boolean }
+      decline_workspace_invite: {
+        Args: { p_invite_id: string }
+        Returns: undefined
+      }
+      get_connection_limit: { Args: { p_user_id: string }; Returns: number }
       get_current_month_usage: { Args: { p_user_id: string }; Returns: number }
       get_profile_visibility: {
         Args: { target_user_id: string }
         Returns: string
       }
       get_user_oauth_token: { Args: { token_type: string }; Returns: string }
-      increment_connection_count: {
-        Args: { p_user_id: string }
+      get_workspace_member_limit: {
+        Args: { p_workspace_id: string }
+        Returns: number
+      }
+      get_workspace_role: {
+        Args: { p_workspace_id: string }
+        Returns: Database["public"]["Enums"]["workspace_role"]
+      }
+      has_custom_branding: { Args: { p_user_id: string }; Returns: boolean }
+      has_custom_profile_url: { Args: { p_user_id: string }; Returns: boolean }
+      has_lead_capture: { Args: { p_user_id: string }; Returns: boolean }
+      is_free_card_design: {
+        Args: {
+          p_accent_color: string
+          p_background_color: string
+          p_logo_url: string
+          p_qr_background: string
+          p_qr_foreground: string
+          p_template_id: string
+        }
+        Returns: boolean
+      }
+      is_reserved_slug: { Args: { p_slug: string }; Returns: boolean }
+      is_workspace_member: {
+        Args: { p_workspace_id: string }
+        Returns: boolean
+      }
+      localize_legacy_meetings: {
+        Args: { p_time_zone: string }
         Returns: number
       }
+      parse_meeting_time: { Args: { p_time: string }; Returns: string }
+      resolve_profile_slug: {
+        Args: { p_slug: string }
+        Returns: { profile_id: string; slug: string }[]
+      }
+      rotate_calendar_feed_token: { Args: never; Returns: string }
       set_user_oauth_token: {
         Args: { token_type: string; token_value: string }
         Returns: undefined
       }
     }
     Enums: {
+      meeting_mode: "in_person" | "phone" | "video"
       meeting_status:
         | "pending"
         | "confirmed"
@@ -1015,6 +1908,8 @@ export type Database = {
         | "past_due"
         | "trialing"
         | "expired"
+        | "incomplete"
+      workspace_role: "owner" | "admin" | "member"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -1142,6 +2037,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      meeting_mode: ["in_person", "phone", "video"],
       meeting_status: [
         "pending",
         "confirmed",
@@ -1169,7 +2065,9 @@ export const Constants = {
         "past_due",
         "trialing",
         "expired",
+        "incomplete",
       ],
+      workspace_role: ["owner", "admin", "member"],
     },
   },
 } as const
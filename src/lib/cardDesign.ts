@@ -0,0 +1,98 @@
+import type { QrOptions } from '@/lib/qrCode';
+import type { CardDesign, CardFontId, CardTemplateId } from '@/types/database';
+
+export type CardDesignDraft = Pick<
+  CardDesign,
+  | 'template_id'
+  | 'accent_color'
+  | 'background_color'
+  | 'qr_foreground'
+  | 'qr_background'
+  | 'qr_error_correction'
+  | 'qr_margin'
+  | 'qr_show_logo'
+  | 'font_family'
+  | 'logo_url'
+>;
+
+export interface CardTemplate {
+  id: CardTemplateId;
+  name: string;
+  primary: string;
+  background: string;
+  pro: boolean;
+}
+
+// Free templates mirror is_free_card_design() in the database
+export const CARD_TEMPLATES: CardTemplate[] = [
+  { id: 'default', name: 'Classic', primary: '#00ff4d', background: '#000000', pro: false },
+  { id: 'ocean', name: 'Ocean', primary: '#00d4ff', background: '#0a1628', pro: true },
+  { id: 'sunset', name: 'Sunset', primary: '#ff6b35', background: '#1a0a05', pro: true },
+  { id: 'royal', name: 'Royal', primary: '#a855f7', background: '#0d0015', pro: true },
+  { id: 'gold', name: 'Executive', primary: '#fbbf24', background: '#1a1500', pro: true },
+  { id: 'minimal', name: 'Minimal', primary: '#000000', background: '#ffffff', pro: false },
+];
+
+export const CARD_FONTS: { id: CardFontId; name: string; css: string }[] = [
+  { id: 'default', name: 'Default', css: 'inherit' },
+  { id: 'serif', name: 'Serif', css: 'Georgia, "Times New Roman", serif' },
+  { id: 'mono', name: 'Mono', css: 'ui-monospace, SFMono-Regular, Menlo, monospace' },
+  { id: 'rounded', name: 'Rounded', css: 'ui-rounded, "SF Pro Rounded", "Nunito", system-ui, sans-serif' },
+];
+
+export function designFromTemplate(
+  template: CardTemplate
+): Pick<CardDesignDraft, 'template_id' | 'accent_color' | 'background_color' | 'qr_foreground' | 'qr_background'> {
+  return {
+    template_id: template.id,
+    accent_color: template.primary,
+    background_color: template.background,
+    qr_foreground: template.primary,
+    qr_background: template.background,
+  };
+}
+
+export const DEFAULT_CARD_DESIGN: CardDesignDraft = {
+  ...designFromTemplate(CARD_TEMPLATES[0]),
+  qr_error_correction: 'M',
+  qr_margin: 4,
+  qr_show_logo: false,
+  font_family: 'default',
+  logo_url: null,
+};
+
+export function getQrOptions(design: CardDesignDraft): QrOptions {
+  return {
+    foreground: design.qr_foreground,
+    background: design.qr_background,
+    errorCorrection: design.qr_error_correction,
+    margin: design.qr_margin,
+    logoUrl: design.qr_show_logo ? design.logo_url : null,
+  };
+}
+
+export function getCardFont(fontId: CardFontId): string {
+  return (CARD_FONTS.find(f => f.id === fontId) || CARD_FONTS[0]).css;
+}
+
+export function isFreeCardDesign(design: CardDesignDraft): boolean {
+  const template = CARD_TEMPLATES.find(t => t.id === design.template_id);
+  if (!template || template.pro || design.logo_url) return false;
+
+  const stock = designFromTemplate(template);
+  return (
+    design.accent_color === stock.accent_color &&
+    design.background_color === stock.background_color &&
+    design.qr_foreground === stock.qr_foreground &&
+    design.qr_background === stock.qr_background
+  );
+}
+
+/**
+ * The design other people see. Pro-only designs fall back to the default
+ * once the owner no longer has custom branding, matching the public RLS policy.
+ */
+export function resolveCardDesign(design: CardDesignDraft | null, hasCustomBranding: boolean): CardDesignDraft {
+  if (design && (hasCustomBranding || isFreeCardDesign(design))) return design;
+  return DEFAULT_CARD_DESIGN;
+}
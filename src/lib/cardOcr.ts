@@ -0,0 +1,182 @@
+export type ScannedField = 'name' | 'title' | 'email' | 'phone' | 'company';
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+export interface ScannedValue {
+  value: string;
+  // 0-1, OCR confidence weighted by how sure the parser is about the field
+  confidence: number;
+}
+
+export type ScannedCard = Partial<Record<ScannedField, ScannedValue>>;
+
+export interface OcrLine {
+  text: string;
+  // 0-100 as reported by the OCR engine
+  confidence: number;
+  height: number;
+}
+
+const EMAIL_REGEX = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i;
+const PHONE_REGEX = /(\+?\d[\d\s().-]{6,}\d)/;
+const URL_REGEX = /(https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(com|net|org|io|co|app|dev)\b/i;
+const PHONE_LABEL_REGEX = /^(t|tel|phone|p|m|mob|mobile|cell|c|o|office|direct)\b[.:]?\s*/i;
+const FAX_REGEX = /\bfax\b|^f[.:]/i;
+
+const TITLE_KEYWORDS = [
+  'ceo', 'cto', 'cfo', 'coo', 'cmo', 'vp', 'founder', 'co-founder', 'owner', 'president', 'director',
+  'manager', 'head', 'lead', 'chief', 'officer', 'partner', 'principal', 'engineer', 'developer',
+  'designer', 'consultant', 'analyst', 'specialist', 'coordinator', 'associate', 'executive',
+  'representative', 'advisor', 'architect', 'scientist', 'sales', 'marketing', 'recruiter', 'attorney',
+];
+
+const COMPANY_SUFFIXES = [
+  'inc', 'inc.', 'llc', 'ltd', 'ltd.', 'limited', 'gmbh', 'corp', 'corp.', 'corporation', 'co.', 'company',
+  'group', 'holdings', 'solutions', 'technologies', 'systems', 'labs', 'studio', 'agency', 'partners', 'plc', 'ag', 'sa', 'pty',
+];
+
+// Free mail domains say nothing about where someone works
+const FREE_MAIL_DOMAINS = ['gmail', 'yahoo', 'hotmail', 'outlook', 'icloud', 'aol', 'proton', 'protonmail', 'live', 'msn'];
+
+export function getConfidenceLevel(confidence: number): ConfidenceLevel {
+  if (confidence >= 0.8) return 'high';
+  if (confidence >= 0.5) return 'medium';
+  return 'low';
+}
+
+function score(line: OcrLine, weight: number): number {
+  return Math.max(0, Math.min(1, (line.confidence / 100) * weight));
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[\s,|]+/).filter(Boolean);
+}
+
+function looksLikeName(text: string): boolean {
+  const parts = text.split(/\s+/);
+  if (parts.length < 2 || parts.length > 4) return false;
+  if (/\d|@/.test(text)) return false;
+  return parts.every(p => /^[A-Z][a-zA-Z'’.-]*$/.test(p) || /^[A-Z'’.-]+$/.test(p));
+}
+
+function hasTitleKeyword(text: string): boolean {
+  return words(text).some(w => TITLE_KEYWORDS.includes(w.replace(/[^a-z-]/g, '')));
+}
+
+function hasCompanySuffix(text: string): boolean {
+  return words(text).some(w => COMPANY_SUFFIXES.includes(w));
+}
+
+function companyFromEmail(email: string): string | null {
+  const domain = email.split('@')[1]?.split('.')[0];
+  if (!domain || FREE_MAIL_DOMAINS.includes(domain.toLowerCase())) return null;
+  return domain.charAt(0).toUpperCase() + domain.slice(1);
+}
+
+/**
+ * Turns recognized lines into contact fields. Card layouts vary wildly, so the
+ * structured fields (email, phone) are trusted more than name/title/company guesses.
+ */
+export function parseCardText(input: OcrLine[]): ScannedCard {
+  const lines = input
+    .map(l => ({ ...l, text: l.text.replace(/\s+/g, ' ').trim() }))
+    .filter(l => l.text.length > 1);
+  const result: ScannedCard = {};
+  const used = new Set<OcrLine>();
+
+  for (const line of lines) {
+    const match = line.text.match(EMAIL_REGEX);
+    if (match && !result.email) {
+      result.email = { value: match[0].toLowerCase(), confidence: score(line, 1) };
+      used.add(line);
+    }
+  }
+
+  for (const line of lines) {
+    if (used.has(line) || FAX_REGEX.test(line.text) || result.phone) continue;
+    const match = line.text.replace(PHONE_LABEL_REGEX, '').match(PHONE_REGEX);
+    if (match && match[1].replace(/\D/g, '').length >= 7) {
+      result.phone = { value: match[1].trim(), confidence: score(line, PHONE_LABEL_REGEX.test(line.text) ? 1 : 0.9) };
+      used.add(line);
+    }
+  }
+
+  const remaining = lines.filter(l => !used.has(l) && !URL_REGEX.test(l.text) && !PHONE_REGEX.test(l.text));
+
+  // The name is usually the most prominent line that reads like "First Last"
+  const nameCandidates = remaining
+    .filter(l => looksLikeName(l.text) && !hasTitleKeyword(l.text) && !hasCompanySuffix(l.text))
+    .sort((a, b) => b.height - a.height);
+  if (nameCandidates[0]) {
+    result.name = { value: nameCandidates[0].text, confidence: score(nameCandidates[0], 0.85) };
+    used.add(nameCandidates[0]);
+  }
+
+  const titleLine = remaining.find(l => !used.has(l) && hasTitleKeyword(l.text));
+  if (titleLine) {
+    result.title = { value: titleLine.text, confidence: score(titleLine, 0.8) };
+    used.add(titleLine);
+  }
+
+  const companyLine = remaining.find(l => !used.has(l) && hasCompanySuffix(l.text));
+  if (companyLine) {
+    result.company = { value: companyLine.text, confidence: score(companyLine, 0.85) };
+    used.add(companyLine);
+  } else if (result.email) {
+    const fromEmail = companyFromEmail(result.email.value);
+    if (fromEmail) result.company = { value: fromEmail, confidence: result.email.confidence * 0.45 };
+  }
+
+  return result;
+}
+
+// Phone photos are far larger than OCR needs; downscaling speeds up recognition and upload
+export async function resizeImage(file: Blob, maxSize = 1600): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not read image'))), 'image/jpeg', 0.9);
+  });
+}
+
+// Copied into the build by vite.config.ts. The worker runs from its own URL,
+// so the paths must be absolute rather than relative to the page.
+function tesseractAssetUrl(file = ''): string {
+  return new URL(`${import.meta.env.BASE_URL}tesseract/${file}`, window.location.href).href;
+}
+
+/**
+ * Runs OCR in a WebAssembly worker. The engine is loaded on demand so it
+ * doesn't weigh down the main bundle for users who never scan a card.
+ */
+export async function recognizeCard(image: Blob, onProgress?: (progress: number) => void): Promise<ScannedCard> {
+  const { createWorker } = await import('tesseract.js');
+  const worker = await createWorker('eng', 1, {
+    workerPath: tesseractAssetUrl('worker.min.js'),
+    // A directory: tesseract picks the SIMD build when the device supports it
+    corePath: tesseractAssetUrl(),
+    langPath: tesseractAssetUrl(),
+    workerBlobURL: false,
+    logger: message => {
+      if (message.status === 'recognizing text') onProgress?.(message.progress);
+    },
+  });
+
+  try {
+    const { data } = await worker.recognize(image);
+    return parseCardText(
+      data.lines.map(line => ({
+        text: line.text,
+        confidence: line.confidence,
+        height: line.bbox.y1 - line.bbox.y0,
+      }))
+    );
+  } finally {
+    await worker.terminate();
+  }
+}
@@ -0,0 +1,23 @@
+import type { MeetingMode } from '@/types/database';
+
+// Self-hosted Jitsi deployments set VITE_JITSI_BASE_URL; the public server works out of the box
+const JITSI_BASE_URL = ((import.meta.env.VITE_JITSI_BASE_URL as string | undefined) || 'https://meet.jit.si').replace(/\/+$/, '');
+
+export const MEETING_MODE_LABELS: Record<MeetingMode, string> = {
+  in_person: 'In person',
+  phone: 'Phone call',
+  video: 'Video call',
+};
+
+// Room names are the only access control on Jitsi, so they must not be guessable
+export function createJitsiRoomUrl(): string {
+  return `${JITSI_BASE_URL}/Buizly-${crypto.randomUUID()}`;
+}
+
+export function getConferenceProvider(url: string): string {
+  try {
+    return new URL(url).hostname === 'meet.google.com' ? 'Google Meet' : 'Jitsi Meet';
+  } catch {
+    return 'Video call';
+  }
+}
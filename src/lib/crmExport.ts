@@ -0,0 +1,187 @@
+import { format as formatDate } from 'date-fns';
+import type { Connection, Meeting } from '@/types/database';
+
+export type DateFilter = 'all' | 'week' | 'month' | 'year';
+export type CrmExportFormat = 'csv' | 'hubspot' | 'salesforce';
+
+export interface ConnectionFilters {
+  dateFilter: DateFilter;
+  companyFilter: string;
+}
+
+export type ExportMeeting = Pick<Meeting, 'id' | 'connection_id' | 'title' | 'starts_at' | 'status'>;
+
+interface ExportRow {
+  firstName: string;
+  lastName: string;
+  fullName: string;
+  title: string;
+  company: string;
+  email: string;
+  phone: string;
+  linkedin: string;
+  notes: string;
+  meetings: string;
+  createdAt: string;
+}
+
+interface FormatLayout {
+  label: string;
+  columns: { header: string; value: (row: ExportRow) => string }[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_FILTER_DAYS: Record<Exclude<DateFilter, 'all'>, number> = {
+  week: 7,
+  month: 30,
+  year: 365,
+};
+
+/**
+ * Same date and company rules as the Network page filters, so an export
+ * contains exactly the connections the user is looking at.
+ */
+export function applyConnectionFilters<T extends Pick<Connection, 'created_at' | 'connection_company'>>(
+  connections: T[],
+  { dateFilter, companyFilter }: ConnectionFilters
+): T[] {
+  let filtered = [...connections];
+
+  if (dateFilter !== 'all') {
+    const cutoff = new Date(Date.now() - DATE_FILTER_DAYS[dateFilter] * DAY_MS);
+    filtered = filtered.filter(c => new Date(c.created_at) > cutoff);
+  }
+
+  if (companyFilter !== 'all') {
+    filtered = filtered.filter(c => c.connection_company === companyFilter);
+  }
+
+  return filtered;
+}
+
+export const CRM_EXPORT_LAYOUTS: Record<CrmExportFormat, FormatLayout> = {
+  csv: {
+    label: 'CSV',
+    columns: [
+      { header: 'Name', value: r => r.fullName },
+      { header: 'Title', value: r => r.title },
+      { header: 'Company', value: r => r.company },
+      { header: 'Email', value: r => r.email },
+      { header: 'Phone', value: r => r.phone },
+      { header: 'LinkedIn', value: r => r.linkedin },
+      { header: 'Notes', value: r => r.notes },
+      { header: 'Meetings', value: r => r.meetings },
+      { header: 'Added', value: r => r.createdAt },
+    ],
+  },
+  // HubSpot contact import: column headers match default contact property labels
+  hubspot: {
+    label: 'HubSpot',
+    columns: [
+      { header: 'First Name', value: r => r.firstName },
+      { header: 'Last Name', value: r => r.lastName },
+      { header: 'Email', value: r => r.email },
+      { header: 'Phone Number', value: r => r.phone },
+      { header: 'Job Title', value: r => r.title },
+      { header: 'Company Name', value: r => r.company },
+      { header: 'LinkedIn URL', value: r => r.linkedin },
+      { header: 'Notes', value: r => joinLines(r.notes, r.meetings && `Meetings: ${r.meetings}`) },
+      { header: 'Lead Source', value: () => 'Buizly' },
+    ],
+  },
+  // Salesforce lead import: API field names, LastName and Company are required
+  salesforce: {
+    label: 'Salesforce',
+    columns: [
+      { header: 'FirstName', value: r => r.firstName },
+      { header: 'LastName', value: r => r.lastName },
+      { header: 'Title', value: r => r.title },
+      { header: 'Company', value: r => r.company || '[not provided]' },
+      { header: 'Email', value: r => r.email },
+      { header: 'Phone', value: r => r.phone },
+      { header: 'Website', value: r => r.linkedin },
+      {
+        header: 'Description',
+        value: r => joinLines(r.notes, r.meetings && `Meetings: ${r.meetings}`),
+      },
+      { header: 'LeadSource', value: () => 'Buizly' },
+    ],
+  },
+};
+
+function joinLines(...parts: (string | false | null | undefined)[]): string {
+  return parts.filter(Boolean).join('\n');
+}
+
+function splitName(name: string): { firstName: string; lastName: string } {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length === 1) return { firstName: '', lastName: parts[0] };
+  return { firstName: parts[0], lastName: parts.slice(1).join(' ') };
+}
+
+function formatMeeting(meeting: ExportMeeting): string {
+  const when = formatDate(new Date(meeting.starts_at), 'yyyy-MM-dd HH:mm');
+  return `${when} ${meeting.title || 'Meeting'} (${meeting.status})`;
+}
+
+// Quote per RFC 4180 and neutralise values a spreadsheet would evaluate as a formula
+function escapeCsvValue(value: string): string {
+  let safe = value ?? '';
+  // Includes phone numbers: Excel evaluates "+1-555-123-4567" as arithmetic
+  if (/^[=+\-@\t\r]/.test(safe)) safe = `'${safe}`;
+  if (/[",\n\r]/.test(safe)) return `"${safe.replace(/"/g, '""')}"`;
+  return safe;
+}
+
+export function buildCrmExport(
+  connections: Connection[],
+  meetings: ExportMeeting[],
+  format: CrmExportFormat
+): string {
+  const meetingsByConnection = new Map<string, ExportMeeting[]>();
+  meetings.forEach(m => {
+    if (!m.connection_id) return;
+    const list = meetingsByConnection.get(m.connection_id) || [];
+    list.push(m);
+    meetingsByConnection.set(m.connection_id, list);
+  });
+
+  const { columns } = CRM_EXPORT_LAYOUTS[format];
+  const lines = [columns.map(c => escapeCsvValue(c.header)).join(',')];
+
+  connections.forEach(connection => {
+    const linked = (meetingsByConnection.get(connection.id) || [])
+      .sort((a, b) => a.starts_at.localeCompare(b.starts_at));
+
+    const row: ExportRow = {
+      ...splitName(connection.connection_name),
+      fullName: connection.connection_name,
+      title: connection.connection_title || '',
+      company: connection.connection_company || '',
+      email: connection.connection_email || '',
+      phone: connection.connection_phone || '',
+      linkedin: connection.connection_linkedin || '',
+      notes: connection.notes || '',
+      meetings: linked.map(formatMeeting).join('; '),
+      createdAt: connection.created_at.slice(0, 10),
+    };
+
+    lines.push(columns.map(c => escapeCsvValue(c.value(row))).join(','));
+  });
+
+  return lines.join('\r\n');
+}
+
+export function downloadCsv(content: string, filename: string) {
+  // BOM keeps Excel from mangling non-ASCII names
+  const blob = new Blob(['\uFEFF' + content], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
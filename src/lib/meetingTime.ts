@@ -0,0 +1,150 @@
+import { format } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import type { BusyBlock, Meeting } from '@/types/database';
+
+type ScheduledMeeting = Pick<Meeting, 'starts_at' | 'time_zone'> & Partial<Pick<Meeting, 'duration_minutes'>>;
+
+export interface MeetingSchedule {
+  starts_at: string;
+  time_zone: string;
+  // Organizer's wall-clock date/time; the database derives these too
+  meeting_date: string;
+  meeting_time: string;
+}
+
+export const TIME_SLOTS = [
+  "09:00 AM", "09:30 AM", "10:00 AM", "10:30 AM", "11:00 AM", "11:30 AM",
+  "12:00 PM", "12:30 PM", "01:00 PM", "01:30 PM", "02:00 PM", "02:30 PM",
+  "03:00 PM", "03:30 PM", "04:00 PM", "04:30 PM", "05:00 PM", "05:30 PM"
+];
+
+export const DEFAULT_DURATION_MINUTES = 60;
+export const MIN_DURATION_MINUTES = 5;
+export const MAX_DURATION_MINUTES = 24 * 60;
+export const DURATION_OPTIONS = [15, 30, 45, 60, 90];
+
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// "01:30 PM" -> "13:30"
+export function timeSlotTo24Hour(slot: string): string {
+  const [timePart, modifier] = slot.trim().split(/\s+/);
+  const [rawHours, minutes] = timePart.split(':');
+  let hours = rawHours;
+  if (modifier?.toUpperCase() === 'PM' && hours !== '12') hours = String(parseInt(hours) + 12);
+  if (modifier?.toUpperCase() === 'AM' && hours === '12') hours = '00';
+  return `${hours.padStart(2, '0')}:${minutes}`;
+}
+
+/**
+ * Turns a picked calendar day and time slot, as seen in `timeZone`, into the
+ * absolute start time plus the organizer's wall-clock fields.
+ */
+export function buildMeetingSchedule(day: Date, slot: string, timeZone = getLocalTimeZone()): MeetingSchedule {
+  const meetingDate = format(day, 'yyyy-MM-dd');
+  const meetingTime = timeSlotTo24Hour(slot);
+  const startsAt = fromZonedTime(`${meetingDate}T${meetingTime}:00`, timeZone);
+
+  return {
+    starts_at: startsAt.toISOString(),
+    time_zone: timeZone,
+    meeting_date: meetingDate,
+    meeting_time: meetingTime,
+  };
+}
+
+// The viewer's local time slot for a meeting, for prefilling edit forms
+export function getLocalTimeSlot(meeting: ScheduledMeeting): string {
+  return format(new Date(meeting.starts_at), 'hh:mm a');
+}
+
+// The viewer's local calendar day, e.g. for grouping or "is it in the past" checks
+export function getLocalMeetingDate(meeting: ScheduledMeeting): string {
+  return format(new Date(meeting.starts_at), 'yyyy-MM-dd');
+}
+
+export function formatMeetingDate(meeting: ScheduledMeeting, pattern = 'EEEE, MMMM d, yyyy'): string {
+  return format(new Date(meeting.starts_at), pattern);
+}
+
+export function getMeetingEnd(meeting: ScheduledMeeting): Date {
+  const duration = meeting.duration_minutes || DEFAULT_DURATION_MINUTES;
+  return new Date(new Date(meeting.starts_at).getTime() + duration * 60 * 1000);
+}
+
+// 90 -> "1h 30m"
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (!hours) return `${rest}m`;
+  return rest ? `${hours}h ${rest}m` : `${hours}h`;
+}
+
+function formatRange(meeting: ScheduledMeeting, timeZone: string): string {
+  const start = formatInTimeZone(new Date(meeting.starts_at), timeZone, 'h:mm a');
+  const end = formatInTimeZone(getMeetingEnd(meeting), timeZone, 'h:mm a zzz');
+  return `${start} – ${end}`;
+}
+
+// Always shows the zone so nobody has to guess whose 9 AM it is
+export function formatMeetingTime(meeting: ScheduledMeeting): string {
+  return formatRange(meeting, getLocalTimeZone());
+}
+
+// The organizer's own time, when it differs from the viewer's zone
+export function formatOrganizerTime(meeting: ScheduledMeeting): string | null {
+  if (!meeting.time_zone || meeting.time_zone === getLocalTimeZone()) return null;
+  const day = formatInTimeZone(new Date(meeting.starts_at), meeting.time_zone, 'EEE');
+  return `${day} ${formatRange(meeting, meeting.time_zone)} (${meeting.time_zone})`;
+}
+
+/**
+ * Meetings that overlap the given slot. Cancelled and declined meetings don't
+ * block time; `excludeId` skips the meeting being edited.
+ */
+export function findConflicts<T extends ScheduledMeeting & Pick<Meeting, 'id' | 'status'>>(
+  meetings: T[],
+  startsAt: string,
+  durationMinutes: number,
+  excludeId?: string
+): T[] {
+  const start = new Date(startsAt).getTime();
+  const end = start + durationMinutes * 60 * 1000;
+
+  return meetings.filter(m => {
+    if (m.id === excludeId || m.status === 'cancelled' || m.status === 'declined') return false;
+    const otherStart = new Date(m.starts_at).getTime();
+    return otherStart < end && getMeetingEnd(m).getTime() > start;
+  });
+}
+
+type BusyTime = Pick<BusyBlock, 'starts_at' | 'ends_at' | 'all_day'>;
+
+// All-day blocks cover their calendar days wherever the viewer is
+export function getBusyInterval(block: BusyTime, timeZone = getLocalTimeZone()): { start: Date; end: Date } {
+  if (!block.all_day) return { start: new Date(block.starts_at), end: new Date(block.ends_at) };
+  return {
+    start: fromZonedTime(`${block.starts_at.slice(0, 10)}T00:00:00`, timeZone),
+    end: fromZonedTime(`${block.ends_at.slice(0, 10)}T00:00:00`, timeZone),
+  };
+}
+
+// Busy blocks from the user's calendar feed that overlap the given slot
+export function findBusyConflicts<T extends BusyTime>(blocks: T[], startsAt: string, durationMinutes: number): T[] {
+  const start = new Date(startsAt).getTime();
+  const end = start + durationMinutes * 60 * 1000;
+
+  return blocks.filter(block => {
+    const busy = getBusyInterval(block);
+    return busy.start.getTime() < end && busy.end.getTime() > start;
+  });
+}
+
+export function formatBusyTime(block: BusyTime): string {
+  if (block.all_day) return 'All day';
+  const timeZone = getLocalTimeZone();
+  const start = formatInTimeZone(new Date(block.starts_at), timeZone, 'h:mm a');
+  const end = formatInTimeZone(new Date(block.ends_at), timeZone, 'h:mm a zzz');
+  return `${start} – ${end}`;
+}
@@ -0,0 +1,28 @@
+interface ProfileLink {
+  id: string;
+  slug?: string | null;
+}
+
+// Printed QR codes always point at production, not whatever host rendered them
+export const PUBLIC_APP_URL = 'https://buizly.vercel.app';
+
+export function getProfilePath(profile: ProfileLink): string {
+  return profile.slug ? `/@${profile.slug}` : `/u/${profile.id}`;
+}
+
+export function getProfileUrl(profile: ProfileLink, origin = window.location.origin): string {
+  return `${origin}${getProfilePath(profile)}`;
+}
+
+// Booking pages always use the id route so the link keeps working if the slug changes
+export function getBookingPath(userId: string): string {
+  return `/u/${userId}/book`;
+}
+
+// Maps database errors from handle_profile_slug_change to user-facing messages
+export function getSlugErrorMessage(error: { code?: string; message?: string }): string {
+  if (error.code === '23505' || error.message === 'SLUG_TAKEN') return 'This URL is already taken';
+  if (error.message === 'SLUG_RESERVED') return 'This URL is reserved';
+  if (error.message === 'SLUG_REQUIRES_UPGRADE') return 'Custom profile URLs are a Pro feature';
+  return error.message || 'Could not save your profile URL';
+}
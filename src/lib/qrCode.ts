@@ -0,0 +1,158 @@
+import QRCodeGenerator from 'qrcode';
+import type { QrErrorCorrectionLevel } from '@/types/database';
+
+export interface QrOptions {
+  foreground?: string;
+  background?: string;
+  errorCorrection?: QrErrorCorrectionLevel;
+  // Quiet zone in modules; scanners expect 4 on print
+  margin?: number;
+  logoUrl?: string | null;
+}
+
+export interface QrLayout {
+  // Side length in modules, including the quiet zone
+  size: number;
+  path: string;
+  logo: { x: number; y: number; size: number } | null;
+  errorCorrection: QrErrorCorrectionLevel;
+}
+
+export const QR_ERROR_CORRECTION_LEVELS: { id: QrErrorCorrectionLevel; name: string; description: string }[] = [
+  { id: 'L', name: 'Low', description: 'Smallest code, ~7% recoverable' },
+  { id: 'M', name: 'Medium', description: 'Good default, ~15% recoverable' },
+  { id: 'Q', name: 'Quartile', description: 'Recommended with a logo, ~25% recoverable' },
+  { id: 'H', name: 'High', description: 'Best for print and logos, ~30% recoverable' },
+];
+
+// A center logo hides modules, so it needs the redundancy of Q or H and is sized to stay
+// well inside what that level can recover
+const LOGO_SIZE_RATIO: Record<'Q' | 'H', number> = { Q: 0.18, H: 0.24 };
+
+export const PRINT_PNG_SIZE = 2048;
+
+export function getQrLayout(text: string, options: QrOptions = {}): QrLayout {
+  const margin = Math.max(0, Math.min(10, Math.round(options.margin ?? 4)));
+  let errorCorrection = options.errorCorrection || 'M';
+  if (options.logoUrl && (errorCorrection === 'L' || errorCorrection === 'M')) {
+    errorCorrection = 'Q';
+  }
+
+  const { modules } = QRCodeGenerator.create(text, { errorCorrectionLevel: errorCorrection });
+  const count = modules.size;
+
+  // Clear a square in the middle (plus one module of padding) for the logo
+  let logo: QrLayout['logo'] = null;
+  let cleared = { start: -1, end: -1 };
+  if (options.logoUrl) {
+    let logoModules = Math.floor(count * LOGO_SIZE_RATIO[errorCorrection as 'Q' | 'H']);
+    if ((count - logoModules) % 2 !== 0) logoModules += 1;
+    const start = (count - logoModules) / 2;
+    cleared = { start: start - 1, end: start + logoModules + 1 };
+    logo = { x: start + margin, y: start + margin, size: logoModules };
+  }
+
+  let path = '';
+  for (let row = 0; row < count; row++) {
+    for (let col = 0; col < count; col++) {
+      if (!modules.get(row, col)) continue;
+      if (row >= cleared.start && row < cleared.end && col >= cleared.start && col < cleared.end) continue;
+      path += `M${col + margin} ${row + margin}h1v1h-1z`;
+    }
+  }
+
+  return { size: count + margin * 2, path, logo, errorCorrection };
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+// Inline remote images so exported files still show the logo offline
+async function toDataUrl(url: string): Promise<string | null> {
+  if (url.startsWith('data:')) return url;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return await new Promise(resolve => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => resolve(null);
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return null;
+  }
+}
+
+export async function renderQrSvg(text: string, options: QrOptions = {}): Promise<string> {
+  const layout = getQrLayout(text, options);
+  const foreground = options.foreground || '#000000';
+  const background = options.background || '#ffffff';
+  const logoHref = layout.logo && options.logoUrl ? await toDataUrl(options.logoUrl) : null;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${layout.size} ${layout.size}" shape-rendering="crispEdges">`,
+    `<rect width="${layout.size}" height="${layout.size}" fill="${escapeAttribute(background)}"/>`,
+    `<path d="${layout.path}" fill="${escapeAttribute(foreground)}"/>`,
+    logoHref && layout.logo
+      ? `<image href="${escapeAttribute(logoHref)}" x="${layout.logo.x}" y="${layout.logo.y}" width="${layout.logo.size}" height="${layout.logo.size}" preserveAspectRatio="xMidYMid meet"/>`
+      : '',
+    '</svg>',
+  ].join('');
+}
+
+function loadImage(src: string): Promise<HTMLImageElement | null> {
+  return new Promise(resolve => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(null);
+    img.src = src;
+  });
+}
+
+export async function renderQrPng(text: string, options: QrOptions = {}, pixelSize = PRINT_PNG_SIZE): Promise<Blob> {
+  const layout = getQrLayout(text, options);
+  // Modules stay whole pixels so edges are crisp; the leftover pixels widen the quiet zone
+  const scale = Math.max(1, Math.floor(pixelSize / layout.size));
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = Math.max(pixelSize, layout.size * scale);
+  const offset = Math.floor((canvas.width - layout.size * scale) / 2);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported on this device');
+
+  ctx.fillStyle = options.background || '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = options.foreground || '#000000';
+  ctx.translate(offset, offset);
+  ctx.scale(scale, scale);
+  ctx.fill(new Path2D(layout.path));
+
+  if (layout.logo && options.logoUrl) {
+    const logoHref = await toDataUrl(options.logoUrl);
+    const img = logoHref ? await loadImage(logoHref) : null;
+    if (img) {
+      const { x, y, size } = layout.logo;
+      const ratio = Math.min(size / img.width, size / img.height);
+      const w = img.width * ratio;
+      const h = img.height * ratio;
+      ctx.drawImage(img, x + (size - w) / 2, y + (size - h) / 2, w, h);
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not export QR code'))), 'image/png');
+  });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,151 @@
+import { PUBLIC_APP_URL } from '@/lib/profileUrl';
+
+export interface ScannedContact {
+  name: string;
+  title?: string;
+  email?: string;
+  phone?: string;
+  company?: string;
+  website?: string;
+  notes?: string;
+}
+
+export type QrPayload =
+  | { type: 'profile'; userId: string }
+  | { type: 'profile_slug'; slug: string }
+  | { type: 'contact'; contact: ScannedContact }
+  | { type: 'unknown'; text: string };
+
+const UUID_PATTERN = '[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}';
+const DEEP_LINK_REGEX = new RegExp(`^buizly://profile/(${UUID_PATTERN})/?$`, 'i');
+const PROFILE_PATH_REGEX = new RegExp(`^/(?:u|connect|contact)/(${UUID_PATTERN})/?$`, 'i');
+const SLUG_PATH_REGEX = /^\/@([a-z0-9][a-z0-9-]{1,28}[a-z0-9])\/?$/i;
+
+// Only our own hosts count as Buizly profiles; any other site could copy the path format
+function isBuizlyHost(host: string): boolean {
+  return host === new URL(PUBLIC_APP_URL).host || host === window.location.host;
+}
+
+function parseProfileUrl(text: string): QrPayload | null {
+  const deepLink = text.match(DEEP_LINK_REGEX);
+  if (deepLink) return { type: 'profile', userId: deepLink[1].toLowerCase() };
+
+  let url: URL;
+  let path: string;
+  try {
+    url = new URL(text);
+    path = decodeURIComponent(url.pathname);
+  } catch {
+    return null;
+  }
+  if (!/^https?:$/.test(url.protocol) || !isBuizlyHost(url.host)) return null;
+
+  const profile = path.match(PROFILE_PATH_REGEX);
+  if (profile) return { type: 'profile', userId: profile[1].toLowerCase() };
+
+  const slug = path.match(SLUG_PATH_REGEX);
+  if (slug) return { type: 'profile_slug', slug: slug[1].toLowerCase() };
+
+  return null;
+}
+
+function unescapeVCard(value: string): string {
+  return value.replace(/\\n/gi, '\n').replace(/\\([,;:\\])/g, '$1').trim();
+}
+
+// vCard 2.1/3.0/4.0: fold continuation lines, then read the first value of each property
+function parseVCard(text: string): ScannedContact | null {
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const props = new Map<string, string>();
+
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    // "item1.EMAIL;TYPE=work" -> "EMAIL"
+    const key = line.slice(0, colon).split(';')[0].split('.').pop()!.toUpperCase();
+    if (!props.has(key)) props.set(key, line.slice(colon + 1));
+  }
+
+  let name = unescapeVCard(props.get('FN') || '');
+  if (!name && props.has('N')) {
+    const [last, first] = props.get('N')!.split(';').map(unescapeVCard);
+    name = [first, last].filter(Boolean).join(' ');
+  }
+  if (!name) return null;
+
+  return {
+    name,
+    title: unescapeVCard(props.get('TITLE') || '') || undefined,
+    email: unescapeVCard(props.get('EMAIL') || '') || undefined,
+    phone: unescapeVCard(props.get('TEL') || '').replace(/^tel:/i, '') || undefined,
+    company: unescapeVCard((props.get('ORG') || '').split(';')[0]) || undefined,
+    website: unescapeVCard(props.get('URL') || '') || undefined,
+    notes: unescapeVCard(props.get('NOTE') || '') || undefined,
+  };
+}
+
+// MECARD:N:Doe,John;TEL:123;EMAIL:a@b.com;; with backslash escapes
+function parseMeCard(text: string): ScannedContact | null {
+  const props = new Map<string, string>();
+  const body = text.slice('MECARD:'.length);
+  let key = '';
+  let value = '';
+  let readingKey = true;
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '\\' && i + 1 < body.length) {
+      if (readingKey) key += body[++i];
+      else value += body[++i];
+    } else if (readingKey && char === ':') {
+      readingKey = false;
+    } else if (readingKey && char === ';') {
+      // Stray separator without a value
+      key = '';
+    } else if (!readingKey && char === ';') {
+      const name = key.trim().toUpperCase();
+      if (name && !props.has(name)) props.set(name, value.trim());
+      key = '';
+      value = '';
+      readingKey = true;
+    } else if (readingKey) {
+      key += char;
+    } else {
+      value += char;
+    }
+  }
+
+  const rawName = props.get('N') || '';
+  const [last, first] = rawName.split(',').map(s => s.trim());
+  const name = rawName.includes(',') ? [first, last].filter(Boolean).join(' ') : rawName;
+  if (!name) return null;
+
+  return {
+    name,
+    title: props.get('TITLE') || undefined,
+    email: props.get('EMAIL') || undefined,
+    phone: props.get('TEL') || undefined,
+    company: props.get('ORG') || undefined,
+    website: props.get('URL') || undefined,
+    notes: props.get('NOTE') || undefined,
+  };
+}
+
+export function parseQrPayload(raw: string): QrPayload {
+  const text = raw.trim();
+
+  const profile = parseProfileUrl(text);
+  if (profile) return profile;
+
+  if (/^BEGIN:VCARD/i.test(text)) {
+    const contact = parseVCard(text);
+    if (contact) return { type: 'contact', contact };
+  }
+
+  if (/^MECARD:/i.test(text)) {
+    const contact = parseMeCard(text);
+    if (contact) return { type: 'contact', contact };
+  }
+
+  return { type: 'unknown', text };
+}
@@ -0,0 +1,191 @@
+import { RRule } from 'rrule';
+import { format } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { findConflicts } from '@/lib/meetingTime';
+import type { Meeting } from '@/types/database';
+
+type SeriesFields = Pick<
+  Meeting,
+  'id' | 'starts_at' | 'time_zone' | 'recurrence_rule' | 'recurrence_exceptions' | 'series_id' | 'original_starts_at'
+>;
+
+// An entry in an expanded meeting list. `occurrence_start` identifies which
+// occurrence of a series this is; it is null for ordinary meetings.
+export type MeetingOccurrence<T> = T & { occurrence_start: string | null };
+
+export type RecurrencePreset = 'none' | 'daily' | 'weekdays' | 'weekly' | 'biweekly' | 'monthly' | 'custom';
+
+const PRESET_RULES: Record<Exclude<RecurrencePreset, 'none' | 'custom'>, string> = {
+  daily: 'FREQ=DAILY',
+  weekdays: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR',
+  weekly: 'FREQ=WEEKLY',
+  biweekly: 'FREQ=WEEKLY;INTERVAL=2',
+  monthly: 'FREQ=MONTHLY',
+};
+
+export const RECURRENCE_PRESETS: RecurrencePreset[] = ['none', 'daily', 'weekdays', 'weekly', 'biweekly', 'monthly'];
+
+export const MAX_OCCURRENCE_COUNT = 365;
+
+// Callers always pass a bounded range; this only guards against absurd ones
+const MAX_EXPANDED_OCCURRENCES = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weekly and monthly rules follow the first meeting's weekday/day of month
+export function getPresetLabel(preset: RecurrencePreset, start?: Date): string {
+  switch (preset) {
+    case 'none': return 'Does not repeat';
+    case 'daily': return 'Every day';
+    case 'weekdays': return 'Every weekday (Mon–Fri)';
+    case 'weekly': return start ? `Weekly on ${format(start, 'EEEE')}` : 'Weekly';
+    case 'biweekly': return start ? `Every 2 weeks on ${format(start, 'EEEE')}` : 'Every 2 weeks';
+    case 'monthly': return start ? `Monthly on day ${format(start, 'd')}` : 'Monthly';
+    case 'custom': return 'Custom';
+  }
+}
+
+export function buildRecurrenceRule(preset: RecurrencePreset, count?: number | null): string | null {
+  if (preset === 'none' || preset === 'custom') return null;
+  return count ? `${PRESET_RULES[preset]};COUNT=${count}` : PRESET_RULES[preset];
+}
+
+// Rules this app didn't write (e.g. synced from a calendar) come back as 'custom'
+export function parseRecurrenceRule(rule: string | null): { preset: RecurrencePreset; count: number | null } {
+  if (!rule) return { preset: 'none', count: null };
+
+  const countMatch = rule.match(/;COUNT=(\d+)/);
+  const base = rule.replace(/;COUNT=\d+/, '');
+  const preset = (Object.keys(PRESET_RULES) as (keyof typeof PRESET_RULES)[])
+    .find(key => PRESET_RULES[key] === base);
+
+  return {
+    preset: preset || 'custom',
+    count: countMatch ? Number(countMatch[1]) : null,
+  };
+}
+
+// "FREQ=WEEKLY;COUNT=10" -> "Repeats every week for 10 times"
+export function describeRecurrence(rule: string): string {
+  try {
+    return `Repeats ${RRule.fromString(rule).toText()}`;
+  } catch {
+    return 'Repeats';
+  }
+}
+
+// rrule works on floating dates: the organizer's wall-clock time encoded as UTC.
+// Expanding in that space keeps a weekly 9 AM meeting at 9 AM across DST changes.
+function toFloating(date: Date, timeZone: string): Date {
+  return new Date(formatInTimeZone(date, timeZone, "yyyy-MM-dd'T'HH:mm:ss'Z'"));
+}
+
+function fromFloating(date: Date, timeZone: string): Date {
+  return fromZonedTime(date.toISOString().slice(0, 19), timeZone);
+}
+
+/**
+ * Start times (ISO) of a series' occurrences in [from, to), skipping
+ * cancelled ones. Occurrences replaced by an override row are still included.
+ */
+export function getOccurrenceStarts(series: SeriesFields, from: Date, to: Date): string[] {
+  if (!series.recurrence_rule) return [];
+
+  const timeZone = series.time_zone || 'UTC';
+  let rule: RRule;
+  try {
+    rule = new RRule({
+      ...RRule.parseString(series.recurrence_rule),
+      dtstart: toFloating(new Date(series.starts_at), timeZone),
+    });
+  } catch (error) {
+    console.error('Invalid recurrence rule:', series.recurrence_rule, error);
+    return [];
+  }
+
+  const cancelled = new Set((series.recurrence_exceptions || []).map(d => new Date(d).getTime()));
+
+  // Floating bounds are off by the zone offset, so widen by a day and filter exactly below
+  const candidates = rule.between(
+    toFloating(new Date(from.getTime() - DAY_MS), timeZone),
+    toFloating(new Date(to.getTime() + DAY_MS), timeZone),
+    true,
+    (_, count) => count < MAX_EXPANDED_OCCURRENCES
+  );
+
+  return candidates
+    .map(date => fromFloating(date, timeZone))
+    .filter(date => date >= from && date < to && !cancelled.has(date.getTime()))
+    .map(date => date.toISOString());
+}
+
+// Whether `start` is a live (not cancelled) occurrence of the series
+export function isOccurrenceOf(series: SeriesFields, start: string): boolean {
+  const time = new Date(start).getTime();
+  if (Number.isNaN(time)) return false;
+  return getOccurrenceStarts(series, new Date(time), new Date(time + 1)).length > 0;
+}
+
+/**
+ * Replaces each series with its occurrences in [from, to) and drops ordinary
+ * meetings outside the range. Occurrences that were edited individually are
+ * represented by their override rows instead. Sorted by start time.
+ */
+export function expandMeetings<T extends SeriesFields>(meetings: T[], from: Date, to: Date): MeetingOccurrence<T>[] {
+  const overridden = new Set(
+    meetings
+      .filter(m => m.series_id && m.original_starts_at)
+      .map(m => `${m.series_id}|${new Date(m.original_starts_at!).getTime()}`)
+  );
+
+  const expanded: MeetingOccurrence<T>[] = [];
+  for (const meeting of meetings) {
+    if (!meeting.recurrence_rule) {
+      const start = new Date(meeting.starts_at);
+      if (start >= from && start < to) expanded.push({ ...meeting, occurrence_start: null });
+      continue;
+    }
+
+    for (const start of getOccurrenceStarts(meeting, from, to)) {
+      if (overridden.has(`${meeting.id}|${new Date(start).getTime()}`)) continue;
+      expanded.push({ ...meeting, starts_at: start, occurrence_start: start });
+    }
+  }
+
+  return expanded.sort((a, b) => new Date(a.starts_at).getTime() - new Date(b.starts_at).getTime());
+}
+
+/**
+ * Meetings from `from` on. Series are expanded `seriesDays` ahead; one-off
+ * meetings are included however far out they are.
+ */
+export function expandUpcoming<T extends SeriesFields>(meetings: T[], from: Date, seriesDays = 90): MeetingOccurrence<T>[] {
+  const horizon = meetings.reduce(
+    (latest, m) => m.recurrence_rule ? latest : Math.max(latest, new Date(m.starts_at).getTime() + 1),
+    from.getTime() + seriesDays * DAY_MS
+  );
+  return expandMeetings(meetings, from, new Date(horizon));
+}
+
+// findConflicts, but also checking occurrences of recurring series near the slot
+export function findOccurrenceConflicts<T extends SeriesFields & Pick<Meeting, 'status' | 'duration_minutes'>>(
+  meetings: T[],
+  startsAt: string,
+  durationMinutes: number,
+  excludeId?: string
+): MeetingOccurrence<T>[] {
+  const start = new Date(startsAt).getTime();
+  // Meetings last at most a day, so nothing further away can overlap
+  const nearby = expandMeetings(meetings, new Date(start - DAY_MS), new Date(start + durationMinutes * 60 * 1000));
+  return findConflicts(nearby, startsAt, durationMinutes, excludeId);
+}
+
+export function getMeetingPath(meeting: { id: string; occurrence_start?: string | null }): string {
+  return meeting.occurrence_start
+    ? `/meeting/${meeting.id}?occurrence=${encodeURIComponent(meeting.occurrence_start)}`
+    : `/meeting/${meeting.id}`;
+}
+
+// List keys: every occurrence of a series shares the series id
+export function getOccurrenceKey(meeting: { id: string; occurrence_start?: string | null }): string {
+  return meeting.occurrence_start ? `${meeting.id}:${meeting.occurrence_start}` : meeting.id;
+}
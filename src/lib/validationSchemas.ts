@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import type { LeadFormField } from '@/types/database';
+import { validateLeadField } from '../../supabase/functions/_shared/leadFieldRules.ts';
 
 // Auth validation schemas
 export const loginSchema = z.object({
@@ -24,6 +26,45 @@ export const connectFormSchema = z.object({
   message: z.string().trim().max(500, 'Message is too long').optional().or(z.literal('')),
 });
 
+// Lead capture form, built from the owner's field list. The rules are shared
+// with submit-lead-form so both sides accept the same values.
+export function buildLeadFormSchema(fields: LeadFormField[], consentRequired: boolean) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  fields.forEach(field => {
+    shape[field.id] = z.string().optional().transform((raw, ctx) => {
+      const { value, error } = validateLeadField(field, raw);
+      if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+      return value;
+    });
+  });
+
+  shape.consent = consentRequired
+    ? z.literal(true, { errorMap: () => ({ message: 'Please accept to continue' }) })
+    : z.boolean().optional();
+
+  return z.object(shape);
+}
+
+// Custom profile URL (/@slug). Mirrors is_reserved_slug() in the database
+export const RESERVED_SLUGS = [
+  'admin', 'analytics', 'api', 'app', 'auth', 'billing', 'buizly', 'capture',
+  'connect', 'connection', 'contact', 'dashboard', 'discover', 'help', 'home',
+  'login', 'logout', 'meeting', 'meeting-response', 'network', 'oauth2callback',
+  'profile', 'root', 'schedule', 'settings', 'signup', 'subscription', 'support',
+  'team', 'www',
+];
+
+export const slugSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(3, 'Must be at least 3 characters')
+  .max(30, 'Must be 30 characters or less')
+  .regex(/^[a-z0-9-]+$/, 'Use only letters, numbers and hyphens')
+  .regex(/^[a-z0-9].*[a-z0-9]$/, 'Must start and end with a letter or number')
+  .refine(slug => !RESERVED_SLUGS.includes(slug), 'This URL is reserved');
+
 // Meeting scheduling
 export const meetingSchema = z.object({
   title: z.string().trim().min(1, 'Title is required').max(200, 'Title is too long'),
@@ -36,4 +77,5 @@ export const meetingSchema = z.object({
 export type LoginFormData = z.infer<typeof loginSchema>;
 export type SignupFormData = z.infer<typeof signupSchema>;
 export type ConnectFormData = z.infer<typeof connectFormSchema>;
+export type LeadFormData = Record<string, string | boolean | undefined>;
 export type MeetingFormData = z.infer<typeof meetingSchema>;
@@ -0,0 +1,319 @@
+import { useEffect, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { addDays, format, startOfDay } from "date-fns";
+import { formatInTimeZone } from "date-fns-tz";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Calendar } from "@/components/ui/calendar";
+import { ArrowLeft, CheckCircle2, Clock, Loader2, MapPin } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { ProfileCardSkeleton } from "@/components/skeletons/ProfileCardSkeleton";
+import { OptimizedAvatar } from "@/components/OptimizedAvatar";
+import { toBookingPage } from "@/hooks/useBookingPage";
+import { formatDuration, getLocalTimeZone } from "@/lib/meetingTime";
+import type { BookingMeetingType, BookingPage } from "@/types/database";
+
+interface Owner {
+  full_name: string;
+  avatar_url: string | null;
+  job_title: string | null;
+}
+
+// Non-2xx responses from book-meeting carry a user-facing { error } message
+async function getFunctionError(error: Error & { context?: Response }): Promise<string> {
+  try {
+    const body = await error.context?.json();
+    if (body?.error) return body.error;
+  } catch {
+    // Fall through to the generic message
+  }
+  return error.message || "Something went wrong. Please try again.";
+}
+
+export default function BookMeeting() {
+  const { userId } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const timeZone = getLocalTimeZone();
+
+  const [owner, setOwner] = useState<Owner | null>(null);
+  const [page, setPage] = useState<BookingPage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [meetingType, setMeetingType] = useState<BookingMeetingType | null>(null);
+  const [day, setDay] = useState<Date | undefined>();
+  const [slots, setSlots] = useState<string[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [selectedSlot, setSelectedSlot] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [note, setNote] = useState("");
+  const [booking, setBooking] = useState(false);
+  const [bookedAt, setBookedAt] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+    loadPage();
+  }, [userId]);
+
+  useEffect(() => {
+    if (!meetingType || !day) return;
+    loadSlots(meetingType, day);
+  }, [meetingType, day]);
+
+  const loadPage = async () => {
+    try {
+      // RLS only exposes enabled booking pages to visitors
+      const [profileResult, pageResult] = await Promise.all([
+        supabase.from("profiles").select("full_name, avatar_url, job_title").eq("id", userId).maybeSingle(),
+        supabase.from("booking_pages").select("*").eq("user_id", userId).eq("is_enabled", true).maybeSingle(),
+      ]);
+
+      setOwner(profileResult.data);
+      if (pageResult.data) {
+        const bookingPage = toBookingPage(pageResult.data);
+        setPage(bookingPage);
+        if (bookingPage.meeting_types.length === 1) setMeetingType(bookingPage.meeting_types[0]);
+      }
+    } catch (error) {
+      console.error("Error loading booking page:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Slots for the visitor's local day, so the times line up with the calendar they picked from
+  const loadSlots = async (type: BookingMeetingType, date: Date) => {
+    setLoadingSlots(true);
+    setSelectedSlot(null);
+    try {
+      const from = startOfDay(date);
+      const { data, error } = await supabase.functions.invoke("book-meeting", {
+        body: {
+          action: "slots",
+          ownerId: userId,
+          meetingTypeId: type.id,
+          from: from.toISOString(),
+          to: addDays(from, 1).toISOString(),
+        },
+      });
+
+      if (error) throw new Error(await getFunctionError(error));
+      setSlots(data?.slots || []);
+    } catch (error: any) {
+      setSlots([]);
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingSlots(false);
+    }
+  };
+
+  const handleBook = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!meetingType || !selectedSlot) return;
+
+    if (!name.trim() || !email.trim()) {
+      toast({
+        title: "Missing details",
+        description: "Please enter your name and email",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setBooking(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("book-meeting", {
+        body: {
+          action: "book",
+          ownerId: userId,
+          meetingTypeId: meetingType.id,
+          startsAt: selectedSlot,
+          name: name.trim(),
+          email: email.trim(),
+          note: note.trim() || undefined,
+        },
+      });
+
+      if (error) throw new Error(await getFunctionError(error));
+      setBookedAt(data.startsAt);
+    } catch (error: any) {
+      toast({
+        title: "Booking failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      // The slot may have just been taken; show what is still free
+      if (day) loadSlots(meetingType, day);
+    } finally {
+      setBooking(false);
+    }
+  };
+
+  if (loading) return <ProfileCardSkeleton />;
+
+  if (!page || !owner) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <Card className="bg-card border-border p-8 text-center max-w-md">
+          <h1 className="text-2xl font-bold text-foreground mb-4">Booking Page Not Available</h1>
+          <Button onClick={() => navigate(`/u/${userId}`)} className="bg-primary text-primary-foreground">View Profile</Button>
+        </Card>
+      </div>
+    );
+  }
+
+  const today = startOfDay(new Date());
+  const lastDay = addDays(today, page.max_days_ahead);
+  const zoneLabel = formatInTimeZone(new Date(), timeZone, "zzz");
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="bg-gradient-to-b from-primary/20 to-background pt-12 pb-20 px-4">
+        <div className="max-w-lg mx-auto text-center">
+          <OptimizedAvatar src={owner.avatar_url} alt={owner.full_name} size="xl" className="mx-auto mb-4 border-4 border-primary" />
+          <h1 className="text-3xl font-bold text-foreground">{page.title}</h1>
+          <p className="text-muted-foreground mt-1">with {owner.full_name}{owner.job_title ? `, ${owner.job_title}` : ""}</p>
+          {page.description && <p className="text-foreground mt-3">{page.description}</p>}
+        </div>
+      </div>
+
+      <div className="max-w-lg mx-auto px-4 -mt-8 space-y-6 pb-12">
+        {bookedAt && meetingType ? (
+          <Card className="bg-card border-border p-8 text-center">
+            <CheckCircle2 className="h-10 w-10 text-primary mx-auto mb-3" />
+            <h2 className="text-lg font-semibold text-foreground">You're booked!</h2>
+            <p className="text-foreground mt-2">{meetingType.title} with {owner.full_name}</p>
+            <p className="text-muted-foreground text-sm mt-1">
+              {format(new Date(bookedAt), "EEEE, MMMM d 'at' h:mm a")} ({zoneLabel})
+            </p>
+            <p className="text-muted-foreground text-sm mt-3">A calendar invitation has been sent to {email.trim()}.</p>
+            <Button onClick={() => navigate(`/u/${userId}`)} variant="outline" className="mt-6 border-primary text-primary">
+              Back to Profile
+            </Button>
+          </Card>
+        ) : (
+          <>
+            {/* Meeting type */}
+            <Card className="bg-card border-border p-6 space-y-3">
+              <h3 className="text-sm font-medium text-muted-foreground uppercase">Meeting Type</h3>
+              {page.meeting_types.map(type => (
+                <button
+                  key={type.id}
+                  type="button"
+                  onClick={() => setMeetingType(type)}
+                  className={`w-full text-left p-4 rounded-lg border transition-colors ${
+                    meetingType?.id === type.id ? "border-primary bg-primary/10" : "border-border bg-secondary"
+                  }`}
+                >
+                  <p className="font-medium text-foreground">{type.title}</p>
+                  <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground mt-1">
+                    <span className="flex items-center gap-1"><Clock className="h-3.5 w-3.5" />{formatDuration(type.duration_minutes)}</span>
+                    {type.location && <span className="flex items-center gap-1"><MapPin className="h-3.5 w-3.5" />{type.location}</span>}
+                  </div>
+                  {type.description && <p className="text-sm text-muted-foreground mt-2">{type.description}</p>}
+                </button>
+              ))}
+            </Card>
+
+            {/* Day and time */}
+            {meetingType && (
+              <Card className="bg-card border-border p-6 space-y-4">
+                <h3 className="text-sm font-medium text-muted-foreground uppercase">Pick a Time</h3>
+                <Calendar
+                  mode="single"
+                  selected={day}
+                  onSelect={setDay}
+                  disabled={(date) => date < today || date > lastDay}
+                  className="mx-auto"
+                />
+                {day && (
+                  <div className="space-y-2">
+                    <p className="text-sm text-muted-foreground">
+                      {format(day, "EEEE, MMMM d")} · times in {zoneLabel}
+                    </p>
+                    {loadingSlots ? (
+                      <div className="flex justify-center py-4">
+                        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                      </div>
+                    ) : slots.length === 0 ? (
+                      <p className="text-sm text-muted-foreground text-center py-4">No free times on this day</p>
+                    ) : (
+                      <div className="grid grid-cols-3 gap-2">
+                        {slots.map(slot => (
+                          <Button
+                            key={slot}
+                            type="button"
+                            variant={selectedSlot === slot ? "default" : "outline"}
+                            onClick={() => setSelectedSlot(slot)}
+                            className={selectedSlot === slot ? "bg-primary text-primary-foreground" : "border-border"}
+                          >
+                            {format(new Date(slot), "h:mm a")}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </Card>
+            )}
+
+            {/* Visitor details */}
+            {selectedSlot && (
+              <Card className="bg-card border-border p-6">
+                <form onSubmit={handleBook} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="booking-name" className="text-foreground">Name</Label>
+                    <Input
+                      id="booking-name"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      maxLength={100}
+                      className="bg-secondary border-border text-foreground"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="booking-email" className="text-foreground">Email</Label>
+                    <Input
+                      id="booking-email"
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      maxLength={255}
+                      className="bg-secondary border-border text-foreground"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="booking-note" className="text-foreground">Note (optional)</Label>
+                    <Textarea
+                      id="booking-note"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      maxLength={1000}
+                      rows={3}
+                      className="bg-secondary border-border text-foreground"
+                    />
+                  </div>
+                  <Button type="submit" disabled={booking} className="w-full bg-primary text-primary-foreground py-6">
+                    {booking ? <Loader2 className="h-5 w-5 animate-spin" /> : `Book ${format(new Date(selectedSlot), "EEE, MMM d 'at' h:mm a")}`}
+                  </Button>
+                </form>
+              </Card>
+            )}
+          </>
+        )}
+
+        <Button variant="ghost" onClick={() => navigate(`/u/${userId}`)} className="w-full text-muted-foreground">
+          <ArrowLeft className="h-4 w-4 mr-2" />Back to {owner.full_name.split(" ")[0]}'s profile
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useLocation } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Layout } from "@/components/Layout";
 import { Button } from "@/components/ui/button";
@@ -8,16 +8,22 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { useSubscription } from "@/hooks/useSubscription";
+import { useSubscription, isConnectionLimitError } from "@/hooks/useSubscription";
 import { UpgradePrompt } from "@/components/UpgradePrompt";
 import { ConnectionLimitBadge } from "@/components/ConnectionLimitBadge";
 import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { CardScanner, ConfidenceBadge } from "@/components/CardScanner";
+import { getConfidenceLevel, type ConfidenceLevel, type ScannedCard, type ScannedField } from "@/lib/cardOcr";
+import type { ScannedContact } from "@/lib/qrPayload";
 import { Mic, MicOff, Play, Pause, Trash2, Clock } from "lucide-react";
 import { useAppCache } from "@/hooks/useAppCache";
 
 export default function Capture() {
   const { isAuthenticated, initialized } = useAppCache();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Contact details decoded from a vCard/MeCard QR code on the Scan page
+  const scannedContact = (location.state as { scannedContact?: ScannedContact } | null)?.scannedContact;
   
   // Redirect to auth if not authenticated
   useEffect(() => {
@@ -30,15 +36,19 @@ export default function Capture() {
   const [loading, setLoading] = useState(false);
   const [showUpgrade, setShowUpgrade] = useState(false);
   const { toast } = useToast();
-  const { canAddConnection, incrementConnectionCount, getConnectionsRemaining, getCurrentPlan } = useSubscription();
+  const { canAddConnection, refreshUsage, getConnectionsRemaining, getCurrentPlan } = useSubscription();
 
   // Form state
-  const [name, setName] = useState("");
-  const [title, setTitle] = useState("");
-  const [email, setEmail] = useState("");
-  const [phone, setPhone] = useState("");
-  const [company, setCompany] = useState("");
-  const [notes, setNotes] = useState("");
+  const [name, setName] = useState(scannedContact?.name || "");
+  const [title, setTitle] = useState(scannedContact?.title || "");
+  const [email, setEmail] = useState(scannedContact?.email || "");
+  const [phone, setPhone] = useState(scannedContact?.phone || "");
+  const [company, setCompany] = useState(scannedContact?.company || "");
+  const [notes, setNotes] = useState(scannedContact?.notes || "");
+
+  // Business card scan state
+  const [cardImage, setCardImage] = useState<Blob | null>(null);
+  const [scanConfidence, setScanConfidence] = useState<Partial<Record<ScannedField, ConfidenceLevel>>>({});
 
   // Voice recording state
   const [isRecording, setIsRecording] = useState(false);
@@ -136,6 +146,44 @@ export default function Capture() {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const fieldSetters: Record<ScannedField, (value: string) => void> = {
+    name: setName,
+    title: setTitle,
+    email: setEmail,
+    phone: setPhone,
+    company: setCompany,
+  };
+
+  const handleScanned = (card: ScannedCard, image: Blob) => {
+    const confidence: Partial<Record<ScannedField, ConfidenceLevel>> = {};
+    (Object.keys(card) as ScannedField[]).forEach(field => {
+      fieldSetters[field](card[field]!.value);
+      confidence[field] = getConfidenceLevel(card[field]!.confidence);
+    });
+    setScanConfidence(confidence);
+    setCardImage(image);
+  };
+
+  const clearScan = () => {
+    setCardImage(null);
+    setScanConfidence({});
+  };
+
+  // Once the user edits a scanned field it no longer needs a confidence hint
+  const updateField = (field: ScannedField, value: string) => {
+    fieldSetters[field](value);
+    if (scanConfidence[field]) {
+      setScanConfidence(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const fieldLabel = (field: ScannedField, htmlFor: string, text: string) => (
+    <Label htmlFor={htmlFor} className="text-foreground flex items-center justify-between">
+      {text}
+      {scanConfidence[field] && <ConfidenceBadge level={scanConfidence[field]!} />}
+    </Label>
+  );
+
   const handleStepOne = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -185,8 +233,8 @@ export default function Capture() {
 
       if (connectionError) throw connectionError;
 
-      // Increment connection count for usage tracking
-      await incrementConnectionCount();
+      // Usage is counted by the database on insert
+      await refreshUsage();
 
       // Upload voice note if exists
       if (audioBlob && connectionData) {
@@ -200,6 +248,24 @@ export default function Capture() {
         }
       }
 
+      // Keep the scanned card with the connection's photos. The private bucket
+      // path is stored rather than a URL; ConnectionDetail signs it.
+      if (cardImage && connectionData) {
+        const fileName = `${user.id}/${connectionData.id}_${Date.now()}.jpg`;
+        const { error: uploadError } = await supabase.storage
+          .from('card-scans')
+          .upload(fileName, cardImage, { contentType: 'image/jpeg' });
+
+        if (uploadError) {
+          console.error('Card image upload error:', uploadError);
+        } else {
+          await supabase
+            .from("connections")
+            .update({ connection_gallery_photos: [fileName] })
+            .eq("id", connectionData.id);
+        }
+      }
+
       toast({
         title: "Connection saved!",
         description: "Your new connection has been added to your network.",
@@ -207,6 +273,10 @@ export default function Capture() {
 
       navigate("/network");
     } catch (error: any) {
+      if (isConnectionLimitError(error)) {
+        setShowUpgrade(true);
+        return;
+      }
       toast({
         title: "Error",
         description: error.message,
@@ -227,7 +297,7 @@ export default function Capture() {
           <div>
             <h1 className="text-2xl font-bold text-foreground mb-2">Add Connection</h1>
             <p className="text-muted-foreground text-sm">
-              {step === 1 ? "Enter contact details" : "Add notes & voice memo"}
+              {step === 1 ? "Scan a card or enter contact details" : "Add notes & voice memo"}
             </p>
           </div>
           {isFree && <ConnectionLimitBadge />}
@@ -241,12 +311,14 @@ export default function Capture() {
 
         {step === 1 ? (
           <form onSubmit={handleStepOne} className="space-y-6">
+            <CardScanner onScanned={handleScanned} onClear={clearScan} />
+
             <div className="space-y-2">
-              <Label htmlFor="name" className="text-foreground">Name *</Label>
+              {fieldLabel("name", "name", "Name *")}
               <Input
                 id="name"
                 value={name}
-                onChange={(e) => setName(e.target.value)}
+                onChange={(e) => updateField("name", e.target.value)}
                 required
                 className="bg-secondary border-border text-foreground"
                 placeholder="John Doe"
@@ -254,23 +326,23 @@ export default function Capture() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="title" className="text-foreground">Title</Label>
+              {fieldLabel("title", "title", "Title")}
               <Input
                 id="title"
                 value={title}
-                onChange={(e) => setTitle(e.target.value)}
+                onChange={(e) => updateField("title", e.target.value)}
                 className="bg-secondary border-border text-foreground"
                 placeholder="Product Manager"
               />
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="email" className="text-foreground">Email *</Label>
+              {fieldLabel("email", "email", "Email *")}
               <Input
                 id="email"
                 type="email"
                 value={email}
-                onChange={(e) => setEmail(e.target.value)}
+                onChange={(e) => updateField("email", e.target.value)}
                 required
                 className="bg-secondary border-border text-foreground"
                 placeholder="john@example.com"
@@ -278,12 +350,12 @@ export default function Capture() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="phone" className="text-foreground">Phone</Label>
+              {fieldLabel("phone", "phone", "Phone")}
               <Input
                 id="phone"
                 type="tel"
                 value={phone}
-                onChange={(e) => setPhone(e.target.value)}
+                onChange={(e) => updateField("phone", e.target.value)}
                 className="bg-secondary border-border text-foreground"
                 placeholder="+1 (555) 000-0000"
               />
@@ -299,11 +371,11 @@ export default function Capture() {
         ) : (
           <form onSubmit={handleSubmit} className="space-y-6">
             <div className="space-y-2">
-              <Label htmlFor="company" className="text-foreground">Company</Label>
+              {fieldLabel("company", "company", "Company")}
               <Input
                 id="company"
                 value={company}
-                onChange={(e) => setCompany(e.target.value)}
+                onChange={(e) => updateField("company", e.target.value)}
                 className="bg-secondary border-border text-foreground"
                 placeholder="Acme Inc."
               />
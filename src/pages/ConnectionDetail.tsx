@@ -7,7 +7,9 @@ import { Card } from "@/components/ui/card";
 import { Mail, Phone, Briefcase, Calendar, ArrowLeft, Instagram } from "lucide-react";
 import { ConnectionDetailSkeleton } from "@/components/skeletons/PageSkeletons";
 import { OptimizedAvatar } from "@/components/OptimizedAvatar";
+import { MeetingHistoryList } from "@/components/MeetingHistoryList";
 import type { Database } from "@/integrations/supabase/types";
+import type { Meeting } from "@/types/database";
 
 type Connection = Database["public"]["Tables"]["connections"]["Row"] & {
   connection_avatar_url?: string;
@@ -16,9 +18,17 @@ type Connection = Database["public"]["Tables"]["connections"]["Row"] & {
   connection_gallery_photos?: string[];
 };
 
+// Signed URLs are only needed while the page is open
+const CARD_SCAN_URL_TTL_SECONDS = 60 * 60;
+
+// Scanned cards are stored as a path in the private card-scans bucket
+const isCardScanPath = (photo: string) => !/^https?:\/\//.test(photo);
+
 export default function ConnectionDetail() {
   const { id } = useParams();
   const [connection, setConnection] = useState<Connection | null>(null);
+  const [meetings, setMeetings] = useState<Meeting[]>([]);
+  const [galleryPhotos, setGalleryPhotos] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
 
@@ -36,6 +46,7 @@ export default function ConnectionDetail() {
 
       if (error) throw error;
       setConnection(data as Connection);
+      await Promise.all([loadMeetings(data as Connection), loadGalleryPhotos(data.connection_gallery_photos || [])]);
     } catch (error) {
       console.error("Error loading connection:", error);
     } finally {
@@ -43,6 +54,59 @@ export default function ConnectionDetail() {
     }
   };
 
+  const loadGalleryPhotos = async (photos: string[]) => {
+    const paths = photos.filter(isCardScanPath);
+    if (paths.length === 0) {
+      setGalleryPhotos(photos);
+      return;
+    }
+
+    const { data, error } = await supabase.storage
+      .from("card-scans")
+      .createSignedUrls(paths, CARD_SCAN_URL_TTL_SECONDS);
+
+    if (error) {
+      console.error("Error loading card scan:", error);
+    }
+    const signed = new Map((data || []).map(d => [d.path, d.signedUrl]));
+    setGalleryPhotos(photos
+      .map(photo => isCardScanPath(photo) ? signed.get(photo) : photo)
+      .filter((photo): photo is string => Boolean(photo)));
+  };
+
+  // Meetings linked to this connection, plus any where they were invited by email
+  const loadMeetings = async (conn: Connection) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const meetingIds = new Set<string>();
+      if (conn.connection_email) {
+        const { data: participations } = await supabase
+          .from("meeting_participants")
+          .select("meeting_id")
+          .eq("email", conn.connection_email);
+        participations?.forEach(p => meetingIds.add(p.meeting_id));
+      }
+
+      const filter = meetingIds.size > 0
+        ? `connection_id.eq.${conn.id},id.in.(${Array.from(meetingIds).join(",")})`
+        : `connection_id.eq.${conn.id}`;
+
+      const { data, error } = await supabase
+        .from("meetings")
+        .select("*")
+        .or(filter)
+        .order("starts_at", { ascending: false });
+
+      if (error) throw error;
+      // Participants can read meetings they were invited to; only show ones this user runs
+      setMeetings(((data || []) as Meeting[]).filter(m => m.user_id === user.id || m.organizer_id === user.id));
+    } catch (error) {
+      console.error("Error loading meeting history:", error);
+    }
+  };
+
   if (loading) {
     return (
       <Layout>
@@ -95,10 +159,10 @@ export default function ConnectionDetail() {
         </div>
 
         {/* Gallery Photos - Horizontal row */}
-        {connection.connection_gallery_photos && connection.connection_gallery_photos.length > 0 && (
+        {galleryPhotos.length > 0 && (
           <Card className="bg-card border-border p-4">
             <div className="flex gap-3 overflow-x-auto pb-2">
-              {connection.connection_gallery_photos.map((photo, index) => (
+              {galleryPhotos.map((photo, index) => (
                 <img
                   key={index}
                   src={photo}
@@ -176,6 +240,15 @@ export default function ConnectionDetail() {
           </Card>
         )}
 
+        {/* Meeting History */}
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold text-foreground">Meeting History</h2>
+          <MeetingHistoryList
+            meetings={meetings}
+            emptyMessage={`No meetings with ${connection.connection_name} yet`}
+          />
+        </div>
+
         {/* Action Button */}
         <Button
           onClick={() => navigate(`/schedule?connection=${connection.id}`)}
@@ -5,6 +5,9 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Mail, Phone, Briefcase, Globe, Download, ExternalLink } from "lucide-react";
+import { isConnectionLimitError } from "@/hooks/useSubscription";
+import { UpgradePrompt } from "@/components/UpgradePrompt";
+import { getProfileUrl } from "@/lib/profileUrl";
 import type { Database } from "@/integrations/supabase/types";
 
 type Profile = Database["public"]["Tables"]["profiles"]["Row"];
@@ -15,6 +18,7 @@ export default function Contact() {
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
   const [isLoggedIn, setIsLoggedIn] = useState(false);
+  const [showUpgrade, setShowUpgrade] = useState(false);
 
   useEffect(() => {
     checkAuth();
@@ -54,6 +58,7 @@ TEL:${profile.phone || ''}
 TITLE:${profile.job_title || ''}
 ORG:${profile.company || ''}
 URL:${profile.website || ''}
+URL;TYPE=Buizly:${getProfileUrl(profile)}
 NOTE:${profile.bio || ''}
 END:VCARD`;
 
@@ -76,7 +81,7 @@ END:VCARD`;
         return;
       }
 
-      await supabase.from("connections").insert({
+      const { error } = await supabase.from("connections").insert({
         user_id: user.id,
         connection_name: profile.full_name,
         connection_email: profile.email,
@@ -85,8 +90,14 @@ END:VCARD`;
         connection_company: profile.company,
       });
 
+      if (error) throw error;
+
       navigate("/network");
     } catch (error) {
+      if (isConnectionLimitError(error)) {
+        setShowUpgrade(true);
+        return;
+      }
       console.error("Error saving connection:", error);
     }
   };
@@ -212,6 +223,12 @@ END:VCARD`;
           )}
         </div>
       </Card>
+
+      <UpgradePrompt
+        open={showUpgrade}
+        onOpenChange={setShowUpgrade}
+        feature="connections"
+      />
     </div>
   );
 }
@@ -5,14 +5,22 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { QRCode } from "@/components/QRCode";
+import { QRCodeDownload } from "@/components/QRCodeDownload";
 import { Users, Calendar, TrendingUp, MapPin, Clock, ChevronRight, Filter, UserPlus } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { startOfDay } from "date-fns";
 import { useConnectionRequests } from "@/hooks/useConnectionRequests";
 import { useAppCache } from "@/hooks/useAppCache";
 import { useRealtimeSubscription } from "@/hooks/useRealtimeSubscription";
 import { useUserSettings } from "@/hooks/useUserSettings";
 import { OptimizedAvatar } from "@/components/OptimizedAvatar";
 import { ProfileOnboarding } from "@/components/ProfileOnboarding";
+import { useCardDesign } from "@/hooks/useCardDesign";
+import { useSubscription } from "@/hooks/useSubscription";
+import { getProfileUrl, PUBLIC_APP_URL } from "@/lib/profileUrl";
+import { getQrOptions, resolveCardDesign } from "@/lib/cardDesign";
+import { formatMeetingDate, formatMeetingTime } from "@/lib/meetingTime";
+import { expandUpcoming, getMeetingPath, getOccurrenceKey } from "@/lib/recurrence";
 import type { MeetingStatus } from "@/types/database";
 
 const statusColors: Record<string, string> = {
@@ -32,6 +40,9 @@ export default function Dashboard() {
   const { incomingRequests, refetch: refetchRequests } = useConnectionRequests();
   const { profile, connections: allConnections, meetings: allMeetings, loading, isAuthenticated, initialized, refetch } = useAppCache();
   const { settings, loading: settingsLoading } = useUserSettings();
+  const { design } = useCardDesign();
+  const { hasFeature } = useSubscription();
+  const cardDesign = resolveCardDesign(design, hasFeature("hasCustomBranding"));
 
   // Set up realtime subscription
   useRealtimeSubscription({
@@ -55,11 +66,11 @@ export default function Dashboard() {
     }
   }, [settings, isAuthenticated]);
 
-  // Filter upcoming meetings (not cancelled, future dates)
+  // Filter upcoming meetings (not cancelled, from today on in the viewer's zone),
+  // with recurring series shown as their next occurrences
   const upcomingMeetings = useMemo(() => {
-    const today = new Date().toISOString().split('T')[0];
-    return allMeetings
-      .filter(m => m.meeting_date >= today && m.status !== 'cancelled')
+    return expandUpcoming(allMeetings, startOfDay(new Date()))
+      .filter(m => m.status !== 'cancelled')
       .slice(0, 5)
       .map(m => ({
         ...m,
@@ -160,11 +171,22 @@ export default function Dashboard() {
         <div className="flex flex-col items-center space-y-6">
           <div className="bg-card border border-border rounded-2xl p-4">
             <QRCode 
-              url={`https://buizly.vercel.app/u/${profile?.id}`}
+              url={profile ? getProfileUrl(profile, PUBLIC_APP_URL) : PUBLIC_APP_URL}
               size={140}
               className="rounded-lg"
+              customColors={{ foreground: cardDesign.qr_foreground, background: cardDesign.qr_background }}
+              errorCorrection={cardDesign.qr_error_correction}
+              margin={cardDesign.qr_margin}
+              logoUrl={cardDesign.qr_show_logo ? cardDesign.logo_url : null}
             />
             <p className="text-xs text-muted-foreground text-center mt-3 font-medium">Scan to view my card</p>
+            {profile && (
+              <QRCodeDownload
+                url={getProfileUrl(profile, PUBLIC_APP_URL)}
+                options={getQrOptions(cardDesign)}
+                className="w-full mt-3"
+              />
+            )}
           </div>
           
           <div className="flex items-center gap-4">
@@ -237,9 +259,9 @@ export default function Dashboard() {
             <div className="space-y-3">
               {upcomingMeetings.map((meeting) => (
                 <Card
-                  key={meeting.id}
+                  key={getOccurrenceKey(meeting)}
                   className="bg-card border-border p-4 cursor-pointer hover:bg-card/80 hover:border-primary/50 transition-all"
-                  onClick={() => navigate(`/meeting/${meeting.id}`)}
+                  onClick={() => navigate(getMeetingPath(meeting))}
                 >
                   <div className="flex items-center justify-between">
                     <div className="flex-1">
@@ -254,11 +276,11 @@ export default function Dashboard() {
                       <div className="flex items-center gap-4 text-sm text-muted-foreground">
                         <div className="flex items-center gap-1">
                           <Calendar className="h-3 w-3" />
-                          <span>{new Date(meeting.meeting_date).toLocaleDateString()}</span>
+                          <span>{formatMeetingDate(meeting, "P")}</span>
                         </div>
                         <div className="flex items-center gap-1">
                           <Clock className="h-3 w-3" />
-                          <span>{meeting.meeting_time}</span>
+                          <span>{formatMeetingTime(meeting)}</span>
                         </div>
                         {meeting.location && (
                           <div className="flex items-center gap-1">
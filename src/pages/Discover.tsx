@@ -7,12 +7,14 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { Search, UserPlus, Users, Building, ArrowRight, Check, X, Clock, UserCheck, Lock } from "lucide-react";
+import { Search, UserPlus, Users, Building, ArrowRight, Check, X, Clock, UserCheck, Lock, QrCode } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { useConnectionRequests } from "@/hooks/useConnectionRequests";
 import { useProfileSearch, type SearchableProfile } from "@/hooks/useProfileSearch";
 import { useAppCache } from "@/hooks/useAppCache";
+import { isConnectionLimitError } from "@/hooks/useSubscription";
+import { UpgradePrompt } from "@/components/UpgradePrompt";
 
 export default function Discover() {
   const { isAuthenticated, initialized } = useAppCache();
@@ -51,6 +53,7 @@ export default function Discover() {
     name: "", email: "", phone: "", title: "", company: "", notes: ""
   });
   const [savingManual, setSavingManual] = useState(false);
+  const [showUpgrade, setShowUpgrade] = useState(false);
 
   // INSTANT search as user types - no debounce for immediate feedback
   useEffect(() => {
@@ -72,6 +75,13 @@ export default function Discover() {
     }
   };
 
+  const handleAcceptRequest = async (requestId: string) => {
+    const result = await acceptRequest(requestId);
+    if (result.limitReached) {
+      setShowUpgrade(true);
+    }
+  };
+
   const handleManualAdd = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!manualForm.name || !manualForm.email) {
@@ -129,6 +139,10 @@ export default function Discover() {
       setManualForm({ name: "", email: "", phone: "", title: "", company: "", notes: "" });
       navigate("/network");
     } catch (error: any) {
+      if (isConnectionLimitError(error)) {
+        setShowUpgrade(true);
+        return;
+      }
       toast({ title: "Error", description: error.message, variant: "destructive" });
     } finally {
       setSavingManual(false);
@@ -145,9 +159,18 @@ export default function Discover() {
   return (
     <Layout>
       <div className="max-w-2xl mx-auto p-6 space-y-6">
-        <div>
-          <h1 className="text-2xl font-bold text-foreground mb-2">Add People</h1>
-          <p className="text-muted-foreground text-sm">Find and connect with professionals</p>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground mb-2">Add People</h1>
+            <p className="text-muted-foreground text-sm">Find and connect with professionals</p>
+          </div>
+          <Button
+            onClick={() => navigate("/scan")}
+            className="bg-primary text-primary-foreground hover:bg-primary/90 flex-shrink-0"
+          >
+            <QrCode className="h-4 w-4 mr-2" />
+            Scan
+          </Button>
         </div>
 
         <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as any)}>
@@ -406,7 +429,7 @@ export default function Discover() {
                         </div>
                         <div className="flex gap-1.5">
                           <Button
-                            onClick={() => acceptRequest(request.id)}
+                            onClick={() => handleAcceptRequest(request.id)}
                             size="sm"
                             className="bg-green-600 hover:bg-green-700 text-white h-8 px-3"
                           >
@@ -569,6 +592,12 @@ export default function Discover() {
           </TabsContent>
         </Tabs>
       </div>
+
+      <UpgradePrompt
+        open={showUpgrade}
+        onOpenChange={setShowUpgrade}
+        feature="connections"
+      />
     </Layout>
   );
 }
@@ -1,20 +1,32 @@
 import { useState, useEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Layout } from "@/components/Layout";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { ParticipantsList } from "@/components/ParticipantsList";
 import { VoiceRecorder } from "@/components/VoiceRecorder";
 import { PhotoUploader } from "@/components/PhotoUploader";
+import { MeetingNotes } from "@/components/MeetingNotes";
 import { MeetingForm } from "@/components/MeetingForm";
+import { GoogleSyncConflictCard } from "@/components/GoogleSyncConflictCard";
 import { MeetingDetailSkeleton } from "@/components/skeletons/PageSkeletons";
 import { useToast } from "@/hooks/use-toast";
 import { useMeetings } from "@/hooks/useMeetings";
 import { 
   ArrowLeft, Calendar, Clock, MapPin, Edit, Trash2, 
-  UserPlus, Copy, ExternalLink 
+  UserPlus, Copy, ExternalLink, Repeat, Phone, Video
 } from "lucide-react";
+import { formatMeetingDate, formatMeetingTime, formatOrganizerTime, getMeetingEnd } from "@/lib/meetingTime";
+import { describeRecurrence } from "@/lib/recurrence";
+import { getConferenceProvider } from "@/lib/conference";
 import type { Meeting, MeetingStatus } from "@/types/database";
 
 const statusColors: Record<MeetingStatus, string> = {
@@ -27,19 +39,32 @@ const statusColors: Record<MeetingStatus, string> = {
 
 export default function MeetingDetail() {
   const { id } = useParams();
+  const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { cancelMeeting, deleteMeeting } = useMeetings();
+  const { cancelMeeting, cancelOccurrence, deleteMeeting, resolveGoogleConflict } = useMeetings();
   
   const [meeting, setMeeting] = useState<Meeting | null>(null);
   const [loading, setLoading] = useState(true);
   const [showEditForm, setShowEditForm] = useState(false);
+  const [showEditScope, setShowEditScope] = useState(false);
+  const [editOccurrence, setEditOccurrence] = useState<string | null>(null);
   const [showFollowUpForm, setShowFollowUpForm] = useState(false);
   const [isOrganizer, setIsOrganizer] = useState(false);
 
+  // Occurrences of a recurring series are addressed by their original start time
+  const occurrenceParam = searchParams.get("occurrence");
+  const occurrenceStart = meeting?.recurrence_rule && occurrenceParam ? occurrenceParam : null;
+  const occurrenceCancelled = !!occurrenceStart && !!meeting?.recurrence_exceptions.some(
+    d => new Date(d).getTime() === new Date(occurrenceStart).getTime()
+  );
+  const shownMeeting: Meeting | null = meeting && occurrenceStart
+    ? { ...meeting, starts_at: occurrenceStart, status: occurrenceCancelled ? "cancelled" : meeting.status }
+    : meeting;
+
   useEffect(() => {
     fetchMeeting();
-  }, [id]);
+  }, [id, occurrenceParam]);
 
   const fetchMeeting = async () => {
     try {
@@ -58,6 +83,21 @@ export default function MeetingDetail() {
         return;
       }
 
+      // An occurrence that was edited on its own lives in its own row
+      if (data.recurrence_rule && occurrenceParam) {
+        const { data: override } = await supabase
+          .from("meetings")
+          .select("id")
+          .eq("series_id", data.id)
+          .eq("original_starts_at", occurrenceParam)
+          .maybeSingle();
+
+        if (override) {
+          navigate(`/meeting/${override.id}`, { replace: true });
+          return;
+        }
+      }
+
       setMeeting({
         ...data,
         status: (data.status || "pending") as MeetingStatus
@@ -73,7 +113,41 @@ export default function MeetingDetail() {
   const handleCancel = async () => {
     if (!meeting) return;
     await cancelMeeting(meeting.id);
-    toast({ title: "Meeting cancelled" });
+    toast({ title: meeting.recurrence_rule ? "Series cancelled" : "Meeting cancelled" });
+    fetchMeeting();
+  };
+
+  const handleCancelOccurrence = async () => {
+    if (!meeting || !occurrenceStart) return;
+    await cancelOccurrence(meeting.id, occurrenceStart);
+    toast({ title: "Occurrence cancelled", description: "The rest of the series is unchanged" });
+    fetchMeeting();
+  };
+
+  // Occurrences of a series ask whether to edit just this one or all of them
+  const handleEdit = () => {
+    if (occurrenceStart) {
+      setShowEditScope(true);
+    } else {
+      setEditOccurrence(null);
+      setShowEditForm(true);
+    }
+  };
+
+  const openEditForm = (occurrence: string | null) => {
+    setShowEditScope(false);
+    setEditOccurrence(occurrence);
+    setShowEditForm(true);
+  };
+
+  // Refetch on close; editing a single occurrence moves it to its own row
+  const handleEditFormChange = (open: boolean) => {
+    setShowEditForm(open);
+    if (!open) fetchMeeting();
+  };
+
+  const handleResolveConflict = async (meetingId: string, keep: "buizly" | "google") => {
+    await resolveGoogleConflict(meetingId, keep);
     fetchMeeting();
   };
 
@@ -85,29 +159,30 @@ export default function MeetingDetail() {
   };
 
   const generateCalendarLink = () => {
-    if (!meeting) return "";
-    const start = new Date(`${meeting.meeting_date}T${convertTo24Hour(meeting.meeting_time)}`);
-    const end = new Date(start.getTime() + 60 * 60 * 1000);
+    if (!meeting || !shownMeeting) return "";
+    const start = new Date(shownMeeting.starts_at);
+    const end = getMeetingEnd(shownMeeting);
     
     const params = new URLSearchParams({
       action: "TEMPLATE",
       text: meeting.title || "Meeting",
       dates: `${formatGoogleDate(start)}/${formatGoogleDate(end)}`,
-      details: meeting.description || "",
-      location: meeting.location || ""
+      details: [
+        meeting.description,
+        meeting.agenda && `Agenda:\n${meeting.agenda}`,
+        meeting.conference_url && `Join video call: ${meeting.conference_url}`
+      ].filter(Boolean).join("\n\n"),
+      location: meeting.location || meeting.conference_url || "",
+      ctz: meeting.time_zone || "UTC"
     });
+    // Viewing the series itself adds the whole series
+    if (meeting.recurrence_rule && !occurrenceStart) {
+      params.set("recur", `RRULE:${meeting.recurrence_rule}`);
+    }
     
     return `https://calendar.google.com/calendar/render?${params.toString()}`;
   };
 
-  const convertTo24Hour = (time: string) => {
-    const [timePart, modifier] = time.split(" ");
-    let [hours, minutes] = timePart.split(":");
-    if (modifier === "PM" && hours !== "12") hours = String(parseInt(hours) + 12);
-    if (modifier === "AM" && hours === "12") hours = "00";
-    return `${hours.padStart(2, "0")}:${minutes}:00`;
-  };
-
   const formatGoogleDate = (date: Date) => {
     return date.toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
   };
@@ -120,7 +195,7 @@ export default function MeetingDetail() {
     );
   }
 
-  if (!meeting) return null;
+  if (!meeting || !shownMeeting) return null;
 
   return (
     <Layout title="Meeting Details">
@@ -129,6 +204,10 @@ export default function MeetingDetail() {
           <ArrowLeft className="h-4 w-4 mr-2" /> Back
         </Button>
 
+        {isOrganizer && meeting.google_sync_conflict && (
+          <GoogleSyncConflictCard meeting={meeting} onResolve={handleResolveConflict} />
+        )}
+
         {/* Meeting Header */}
         <div className="bg-card border border-border rounded-2xl p-6">
           <div className="flex items-start justify-between mb-4">
@@ -136,12 +215,12 @@ export default function MeetingDetail() {
               <h1 className="text-2xl font-bold text-foreground">
                 {meeting.title || "Untitled Meeting"}
               </h1>
-              <Badge className={`${statusColors[meeting.status]} border-0 mt-2`}>
-                {meeting.status}
+              <Badge className={`${statusColors[shownMeeting.status]} border-0 mt-2`}>
+                {shownMeeting.status}
               </Badge>
             </div>
-            {isOrganizer && (
-              <Button variant="ghost" size="icon" onClick={() => setShowEditForm(true)}>
+            {isOrganizer && !occurrenceCancelled && (
+              <Button variant="ghost" size="icon" onClick={handleEdit}>
                 <Edit className="h-4 w-4" />
               </Button>
             )}
@@ -150,24 +229,69 @@ export default function MeetingDetail() {
           <div className="space-y-3 text-muted-foreground">
             <div className="flex items-center gap-2">
               <Calendar className="h-4 w-4" />
-              <span>{new Date(meeting.meeting_date).toLocaleDateString("en-US", {
-                weekday: "long", year: "numeric", month: "long", day: "numeric"
-              })}</span>
+              <span>{formatMeetingDate(shownMeeting)}</span>
             </div>
             <div className="flex items-center gap-2">
               <Clock className="h-4 w-4" />
-              <span>{meeting.meeting_time}</span>
+              <span>{formatMeetingTime(shownMeeting)}</span>
             </div>
+            {formatOrganizerTime(shownMeeting) && (
+              <p className="text-xs pl-6">Organizer's time: {formatOrganizerTime(shownMeeting)}</p>
+            )}
+            {meeting.recurrence_rule && (
+              <div className="flex items-center gap-2">
+                <Repeat className="h-4 w-4" />
+                <span>
+                  {describeRecurrence(meeting.recurrence_rule)}
+                  {occurrenceStart && ` · from ${formatMeetingDate(meeting, "PP")}`}
+                </span>
+              </div>
+            )}
+            {meeting.series_id && (
+              <button
+                onClick={() => navigate(`/meeting/${meeting.series_id}`)}
+                className="flex items-center gap-2 text-sm text-primary hover:underline"
+              >
+                <Repeat className="h-4 w-4" />
+                Rescheduled occurrence of a recurring series
+              </button>
+            )}
             {meeting.location && (
               <div className="flex items-center gap-2">
-                <MapPin className="h-4 w-4" />
-                <span>{meeting.location}</span>
+                {meeting.meeting_mode === "phone" ? <Phone className="h-4 w-4" /> : <MapPin className="h-4 w-4" />}
+                {meeting.meeting_mode === "phone" ? (
+                  <a href={`tel:${meeting.location.replace(/[^\d+]/g, "")}`} className="text-primary hover:underline">
+                    {meeting.location}
+                  </a>
+                ) : (
+                  <span>{meeting.location}</span>
+                )}
+              </div>
+            )}
+            {meeting.conference_url && (
+              <div className="flex items-center gap-2">
+                <Video className="h-4 w-4" />
+                <a
+                  href={meeting.conference_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary hover:underline"
+                >
+                  Join on {getConferenceProvider(meeting.conference_url)}
+                </a>
               </div>
             )}
           </div>
 
           {meeting.description && (
-            <p className="mt-4 text-foreground">{meeting.description}</p>
+            <p className="mt-4 text-foreground whitespace-pre-wrap">{meeting.description}</p>
+          )}
+
+          {meeting.agenda && (
+            <div className="mt-4">
+              <h4 className="text-sm font-medium text-foreground mb-1">Agenda</h4>
+              <p className="text-sm text-muted-foreground whitespace-pre-wrap">{meeting.agenda}</p>
+            </div>
           )}
 
           <Button
@@ -181,9 +305,17 @@ export default function MeetingDetail() {
 
         {/* Participants */}
         <div className="bg-card border border-border rounded-2xl p-6">
-          <ParticipantsList meetingId={meeting.id} isOrganizer={isOrganizer} />
+          <ParticipantsList
+            meetingId={meeting.id}
+            isOrganizer={isOrganizer}
+            durationMinutes={meeting.duration_minutes}
+            onRescheduled={fetchMeeting}
+          />
         </div>
 
+        {/* Notes */}
+        <MeetingNotes meetingId={meeting.id} />
+
         {/* Voice Notes */}
         <VoiceRecorder meetingId={meeting.id} />
 
@@ -199,22 +331,62 @@ export default function MeetingDetail() {
             Schedule Follow-Up Meeting
           </Button>
 
+          {isOrganizer && occurrenceStart && !occurrenceCancelled && meeting.status !== "cancelled" && (
+            <Button onClick={handleCancelOccurrence} variant="outline" className="w-full border-red-500 text-red-500">
+              Cancel This Occurrence
+            </Button>
+          )}
+
           {isOrganizer && meeting.status !== "cancelled" && (
             <Button onClick={handleCancel} variant="outline" className="w-full border-red-500 text-red-500">
-              Cancel Meeting
+              {meeting.recurrence_rule ? "Cancel Entire Series" : "Cancel Meeting"}
             </Button>
           )}
         </div>
       </div>
 
-      <MeetingForm open={showEditForm} onOpenChange={setShowEditForm} editMeeting={meeting} />
+      <Dialog open={showEditScope} onOpenChange={setShowEditScope}>
+        <DialogContent className="sm:max-w-[400px] bg-card border-border">
+          <DialogHeader>
+            <DialogTitle className="text-foreground">Edit recurring meeting</DialogTitle>
+            <DialogDescription>
+              Change only the meeting on {formatMeetingDate(shownMeeting, "PPP")}, or every meeting in the series?
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Button
+              onClick={() => openEditForm(occurrenceStart)}
+              className="w-full bg-primary text-primary-foreground"
+            >
+              This occurrence
+            </Button>
+            <Button
+              onClick={() => openEditForm(null)}
+              variant="outline"
+              className="w-full border-border"
+            >
+              Entire series
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <MeetingForm
+        open={showEditForm}
+        onOpenChange={handleEditFormChange}
+        editMeeting={meeting}
+        occurrence={editOccurrence}
+      />
       <MeetingForm 
         open={showFollowUpForm} 
         onOpenChange={setShowFollowUpForm}
         prefillData={{
           title: `Follow-up: ${meeting.title}`,
           description: meeting.description || undefined,
+          agenda: meeting.agenda || undefined,
           location: meeting.location || undefined,
+          // The follow-up gets its own video link
+          meeting_mode: meeting.meeting_mode,
           parent_meeting_id: meeting.id
         }}
       />
@@ -1,96 +1,100 @@
 import { useEffect, useState } from "react";
-import { useParams, useSearchParams, useNavigate } from "react-router-dom";
+import { useSearchParams, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Calendar, Clock, MapPin, Check, X, Loader2 } from "lucide-react";
+import { Calendar, Clock, MapPin, Phone, Video, Check, X, Loader2 } from "lucide-react";
+import { TimeProposalForm } from "@/components/TimeProposalForm";
+import { formatMeetingDate, formatMeetingTime } from "@/lib/meetingTime";
 import type { Meeting, MeetingStatus } from "@/types/database";
 
+// What the meeting-response function shares with an invited participant
+type InvitedMeeting = Pick<
+  Meeting,
+  "id" | "title" | "description" | "agenda" | "location" | "meeting_mode" | "conference_url" | "starts_at" | "time_zone" | "duration_minutes" | "status"
+>;
+
+async function getFunctionError(error: Error & { context?: Response }): Promise<string> {
+  try {
+    const body = await error.context?.json();
+    if (body?.error) return body.error;
+  } catch {
+    // Fall through to the generic message
+  }
+  return error.message || "Something went wrong. Please try again.";
+}
+
 export default function MeetingResponse() {
-  const { id } = useParams();
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
-  
+
   const action = searchParams.get("action");
-  const [meeting, setMeeting] = useState<Meeting | null>(null);
+  const token = searchParams.get("token");
+  const [meeting, setMeeting] = useState<InvitedMeeting | null>(null);
+  const [response, setResponse] = useState<MeetingStatus | null>(null);
   const [loading, setLoading] = useState(true);
   const [processing, setProcessing] = useState(false);
+  // Each link answers once; after that the page only shows the answer
+  const [used, setUsed] = useState(false);
   const [completed, setCompleted] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [showProposal, setShowProposal] = useState(false);
+  const [proposed, setProposed] = useState(false);
 
   useEffect(() => {
     loadMeeting();
-    // Auto-process if action is provided
-    if (action === "accept" || action === "decline") {
-      handleResponse(action === "accept" ? "confirmed" : "declined");
-    }
-  }, [id, action]);
+  }, [token, action]);
 
   const loadMeeting = async () => {
-    if (!id) {
-      setError("Invalid meeting link");
+    if (!token) {
+      setError("This link is invalid. Ask the organizer to send the invitation again.");
       setLoading(false);
       return;
     }
 
     try {
-      const { data, error } = await supabase
-        .from("meetings")
-        .select("*")
-        .eq("id", id)
-        .maybeSingle();
-
-      if (error) throw error;
-      if (!data) {
-        setError("Meeting not found");
-        return;
-      }
+      const { data, error } = await supabase.functions.invoke("meeting-response", {
+        body: { action: "view", token }
+      });
+
+      if (error) throw new Error(await getFunctionError(error));
 
       setMeeting({
-        ...data,
-        status: (data.status || "pending") as MeetingStatus
+        ...data.meeting,
+        status: (data.meeting.status || "pending") as MeetingStatus
       });
+      setResponse(data.participant.response);
+      setUsed(data.used);
+
+      // Accept/decline buttons in the email answer straight away
+      if (!data.used && data.meeting.status !== "cancelled" && (action === "accept" || action === "decline")) {
+        await handleResponse(action);
+      }
     } catch (err: any) {
-      setError("Unable to load meeting details");
+      setError(err.message);
     } finally {
       setLoading(false);
     }
   };
 
-  const handleResponse = async (status: "confirmed" | "declined") => {
-    if (!id || processing || completed) return;
+  const handleResponse = async (responseAction: "accept" | "decline") => {
+    if (!token || processing || completed) return;
 
     setProcessing(true);
     setError(null);
 
     try {
-      // Update the meeting status
-      const { error: updateError } = await supabase
-        .from("meetings")
-        .update({ status })
-        .eq("id", id);
-
-      if (updateError) throw updateError;
-
-      // Find and update participant response if email matches
-      const participantEmail = searchParams.get("email");
-      if (participantEmail) {
-        await supabase
-          .from("meeting_participants")
-          .update({ 
-            response: status,
-            responded_at: new Date().toISOString()
-          })
-          .eq("meeting_id", id)
-          .eq("email", participantEmail);
-      }
+      const { data, error } = await supabase.functions.invoke("meeting-response", {
+        body: { action: responseAction, token }
+      });
 
+      if (error) throw new Error(await getFunctionError(error));
+
+      setResponse(data.response);
+      setUsed(true);
       setCompleted(true);
-      if (meeting) {
-        setMeeting({ ...meeting, status });
-      }
     } catch (err: any) {
-      setError("Failed to process your response. Please try again.");
+      setError(err.message);
     } finally {
       setProcessing(false);
     }
@@ -118,6 +122,8 @@ export default function MeetingResponse() {
     );
   }
 
+  const canRespond = !used && !showProposal && !proposed && meeting && meeting.status !== "cancelled";
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center p-4">
       <Card className="bg-card border-border p-8 max-w-lg w-full space-y-6">
@@ -129,19 +135,19 @@ export default function MeetingResponse() {
         {/* Status Message */}
         {completed && (
           <div className={`text-center p-4 rounded-lg ${
-            meeting?.status === "confirmed" 
-              ? "bg-green-500/20 text-green-500" 
+            response === "confirmed"
+              ? "bg-green-500/20 text-green-500"
               : "bg-red-500/20 text-red-500"
           }`}>
             <div className="flex items-center justify-center gap-2">
-              {meeting?.status === "confirmed" ? (
+              {response === "confirmed" ? (
                 <Check className="h-5 w-5" />
               ) : (
                 <X className="h-5 w-5" />
               )}
               <span className="font-medium">
-                {meeting?.status === "confirmed" 
-                  ? "Meeting Accepted!" 
+                {response === "confirmed"
+                  ? "Meeting Accepted!"
                   : "Meeting Declined"}
               </span>
             </div>
@@ -159,37 +165,77 @@ export default function MeetingResponse() {
               <div className="flex items-center gap-3 text-foreground">
                 <Calendar className="h-4 w-4 text-primary" />
                 <span>
-                  {new Date(meeting.meeting_date).toLocaleDateString("en-US", {
-                    weekday: "long",
-                    year: "numeric",
-                    month: "long",
-                    day: "numeric"
-                  })}
+                  {formatMeetingDate(meeting)}
                 </span>
               </div>
               <div className="flex items-center gap-3 text-foreground">
                 <Clock className="h-4 w-4 text-primary" />
-                <span>{meeting.meeting_time}</span>
+                <span>{formatMeetingTime(meeting)}</span>
               </div>
               {meeting.location && (
                 <div className="flex items-center gap-3 text-foreground">
-                  <MapPin className="h-4 w-4 text-primary" />
+                  {meeting.meeting_mode === "phone" ? (
+                    <Phone className="h-4 w-4 text-primary" />
+                  ) : (
+                    <MapPin className="h-4 w-4 text-primary" />
+                  )}
                   <span>{meeting.location}</span>
                 </div>
               )}
+              {meeting.conference_url && meeting.status !== "cancelled" && (
+                <div className="flex items-center gap-3 text-foreground">
+                  <Video className="h-4 w-4 text-primary" />
+                  <a
+                    href={meeting.conference_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-primary hover:underline break-all"
+                  >
+                    Join video call
+                  </a>
+                </div>
+              )}
             </div>
 
             {meeting.description && (
               <p className="text-muted-foreground text-sm">{meeting.description}</p>
             )}
+
+            {meeting.agenda && (
+              <div>
+                <h3 className="text-sm font-medium text-foreground mb-1">Agenda</h3>
+                <p className="text-muted-foreground text-sm whitespace-pre-wrap">{meeting.agenda}</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {proposed && (
+          <div className="text-center p-4 rounded-lg bg-blue-500/20 text-blue-500">
+            <div className="flex items-center justify-center gap-2">
+              <Clock className="h-5 w-5" />
+              <span className="font-medium">Suggestion sent to the organizer</span>
+            </div>
           </div>
         )}
 
-        {/* Action Buttons - only show if not completed */}
-        {!completed && meeting && meeting.status === "pending" && (
+        {showProposal && token && (
+          <TimeProposalForm
+            token={token}
+            onSubmitted={() => {
+              setShowProposal(false);
+              setProposed(true);
+              setUsed(true);
+            }}
+            onCancel={() => setShowProposal(false)}
+          />
+        )}
+
+        {/* Action Buttons - only while the link is unused */}
+        {canRespond && (
           <div className="flex gap-3">
             <Button
-              onClick={() => handleResponse("confirmed")}
+              onClick={() => handleResponse("accept")}
               disabled={processing}
               className="flex-1 bg-primary text-primary-foreground"
             >
@@ -203,7 +249,7 @@ export default function MeetingResponse() {
               )}
             </Button>
             <Button
-              onClick={() => handleResponse("declined")}
+              onClick={() => handleResponse("decline")}
               disabled={processing}
               variant="outline"
               className="flex-1 border-red-500 text-red-500 hover:bg-red-500/10"
@@ -215,14 +261,33 @@ export default function MeetingResponse() {
         )}
 
         {/* Already Responded */}
-        {!completed && meeting && meeting.status !== "pending" && (
+        {used && !completed && !proposed && (
           <div className="text-center p-4 bg-secondary rounded-lg">
             <p className="text-muted-foreground">
-              This meeting is already {meeting.status}
+              You've already responded to this invitation{response && response !== "pending" ? ` (${response})` : ""}
             </p>
           </div>
         )}
 
+        {meeting?.status === "cancelled" && (
+          <div className="text-center p-4 bg-secondary rounded-lg">
+            <p className="text-muted-foreground">This meeting has been cancelled</p>
+          </div>
+        )}
+
+        {/* Invited participants can counter with other times */}
+        {canRespond && (
+          <Button
+            onClick={() => setShowProposal(true)}
+            disabled={processing}
+            variant="ghost"
+            className="w-full text-primary hover:bg-primary/10"
+          >
+            <Clock className="h-4 w-4 mr-2" />
+            Suggest another time
+          </Button>
+        )}
+
         {/* Error */}
         {error && (
           <p className="text-red-500 text-center text-sm">{error}</p>
@@ -5,7 +5,7 @@ import { Layout } from "@/components/Layout";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Search, Trash2, MoreVertical, Calendar, Tag, Plug } from "lucide-react";
+import { Search, Trash2, MoreVertical, Calendar, Tag, Plug, Download } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
@@ -19,8 +19,9 @@ import { OptimizedAvatar } from "@/components/OptimizedAvatar";
 import { PlugModal } from "@/components/PlugModal";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { PlugsList } from "@/components/PlugsList";
-
-type DateFilter = "all" | "week" | "month" | "year";
+import { useWorkspaces } from "@/hooks/useWorkspaces";
+import { CrmExportDialog } from "@/components/CrmExportDialog";
+import { applyConnectionFilters, type DateFilter } from "@/lib/crmExport";
 
 export default function Network() {
   const [searchQuery, setSearchQuery] = useState("");
@@ -28,12 +29,15 @@ export default function Network() {
   const [companyFilter, setCompanyFilter] = useState<string>("all");
   const [deleteId, setDeleteId] = useState<string | null>(null);
   const [showUpgrade, setShowUpgrade] = useState(false);
+  const [upgradeFeature, setUpgradeFeature] = useState<"connections" | "crm_export">("connections");
+  const [showExport, setShowExport] = useState(false);
   const [showPlugModal, setShowPlugModal] = useState(false);
   const [activeTab, setActiveTab] = useState<"network" | "plugs">("network");
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { canAddConnection, getCurrentPlan } = useSubscription();
+  const { canAddConnection, getCurrentPlan, hasFeature } = useSubscription();
   const { connections, loading, isAuthenticated, initialized, refetch } = useAppCache();
+  const { activeWorkspace, sharedConnections, shareConnection } = useWorkspaces();
 
   // Set up realtime subscription
   useRealtimeSubscription({
@@ -49,12 +53,22 @@ export default function Network() {
 
   const handleAddConnection = () => {
     if (!canAddConnection()) {
+      setUpgradeFeature("connections");
       setShowUpgrade(true);
       return;
     }
     navigate("/capture");
   };
 
+  const handleExport = () => {
+    if (!hasFeature("hasCrmExport")) {
+      setUpgradeFeature("crm_export");
+      setShowUpgrade(true);
+      return;
+    }
+    setShowExport(true);
+  };
+
   const handleDelete = async () => {
     if (!deleteId) return;
     
@@ -146,29 +160,8 @@ export default function Network() {
       );
     }
 
-    // Date filter
-    const now = new Date();
-    switch (dateFilter) {
-      case "week":
-        const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        filtered = filtered.filter(c => new Date(c.created_at) > weekAgo);
-        break;
-      case "month":
-        const monthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        filtered = filtered.filter(c => new Date(c.created_at) > monthAgo);
-        break;
-      case "year":
-        const yearAgo = new Date(now.getTime() - 365 * 24 * 60 * 60 * 1000);
-        filtered = filtered.filter(c => new Date(c.created_at) > yearAgo);
-        break;
-    }
-
-    // Company filter
-    if (companyFilter !== "all") {
-      filtered = filtered.filter(c => c.connection_company === companyFilter);
-    }
-
-    return filtered;
+    // Date and company filters (shared with CRM export)
+    return applyConnectionFilters(filtered, { dateFilter, companyFilter });
   }, [connections, searchQuery, dateFilter, companyFilter]);
 
   const isFree = getCurrentPlan() === "free";
@@ -200,6 +193,15 @@ export default function Network() {
           </div>
           <div className="flex items-center gap-2">
             {isFree && <ConnectionLimitBadge />}
+            <Button
+              onClick={handleExport}
+              variant="outline"
+              size="icon"
+              className="border-border"
+              title="Export connections"
+            >
+              <Download className="h-4 w-4" />
+            </Button>
             <Button
               onClick={() => setShowPlugModal(true)}
               variant="outline"
@@ -331,7 +333,12 @@ export default function Network() {
                       size="md"
                     />
                     <div className="flex-1 min-w-0">
-                      <p className="font-semibold text-foreground">{connection.connection_name}</p>
+                      <p className="font-semibold text-foreground">
+                        {connection.connection_name}
+                        {connection.source === "lead_form" && (
+                          <span className="ml-2 text-xs font-normal text-primary bg-primary/10 rounded-full px-2 py-0.5">Lead</span>
+                        )}
+                      </p>
                       {connection.connection_title && (
                         <p className="text-sm text-primary">{connection.connection_title}</p>
                       )}
@@ -354,6 +361,11 @@ export default function Network() {
                       <DropdownMenuItem onClick={() => navigate(`/schedule?connection=${connection.id}`)}>
                         Schedule Meeting
                       </DropdownMenuItem>
+                      {activeWorkspace && !sharedConnections.some(s => s.connection_id === connection.id) && (
+                        <DropdownMenuItem onClick={() => shareConnection(connection.id)}>
+                          Share with {activeWorkspace.name}
+                        </DropdownMenuItem>
+                      )}
                       <DropdownMenuItem 
                         onClick={() => setDeleteId(connection.id)}
                         className="text-destructive"
@@ -410,7 +422,18 @@ export default function Network() {
       <UpgradePrompt 
         open={showUpgrade} 
         onOpenChange={setShowUpgrade}
-        feature="connections"
+        feature={upgradeFeature}
+      />
+
+      <CrmExportDialog
+        open={showExport}
+        onOpenChange={setShowExport}
+        connections={filteredConnections}
+        filterSummary={[
+          dateFilter !== "all" && `Past ${dateFilter}`,
+          companyFilter !== "all" && companyFilter,
+          searchQuery && `"${searchQuery}"`,
+        ].filter(Boolean).join(", ")}
       />
 
       <PlugModal
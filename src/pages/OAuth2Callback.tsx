@@ -1,11 +1,19 @@
 import { useEffect, useState } from "react";
-import { useNavigate, useSearchParams } from "react-router-dom";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Card } from "@/components/ui/card";
 import { Loader2, CheckCircle, XCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
+// Google redirects to /oauth2callback, Microsoft to /oauth2callback/microsoft
+const PROVIDERS = {
+  google: { callbackFunction: 'google-auth-callback', path: '/oauth2callback', name: 'Google Calendar' },
+  microsoft: { callbackFunction: 'microsoft-auth-callback', path: '/oauth2callback/microsoft', name: 'Outlook Calendar' },
+};
+
 export default function OAuth2Callback() {
+  const { provider: providerParam } = useParams<{ provider?: string }>();
+  const provider = PROVIDERS[providerParam === 'microsoft' ? 'microsoft' : 'google'];
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const [status, setStatus] = useState<'loading' | 'success' | 'error'>('loading');
@@ -28,16 +36,16 @@ export default function OAuth2Callback() {
         throw new Error('No authorization code received');
       }
 
-      const redirectUri = `${window.location.origin}/oauth2callback`;
+      const redirectUri = `${window.location.origin}${provider.path}`;
 
-      const { error: callbackError } = await supabase.functions.invoke('google-auth-callback', {
+      const { error: callbackError } = await supabase.functions.invoke(provider.callbackFunction, {
         body: { code, redirectUri }
       });
 
       if (callbackError) throw callbackError;
 
       setStatus('success');
-      setMessage('Google Calendar connected successfully!');
+      setMessage(`${provider.name} connected successfully!`);
 
       // Redirect to settings after 2 seconds
       setTimeout(() => {
@@ -46,7 +54,7 @@ export default function OAuth2Callback() {
     } catch (error: any) {
       console.error('OAuth callback error:', error);
       setStatus('error');
-      setMessage(error.message || 'Failed to connect Google Calendar');
+      setMessage(error.message || `Failed to connect ${provider.name}`);
     }
   };
 
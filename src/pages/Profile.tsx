@@ -9,11 +9,18 @@ import { ProfileSkeleton } from "@/components/skeletons/PageSkeletons";
 import { useAppCache } from "@/hooks/useAppCache";
 import { OptimizedAvatar } from "@/components/OptimizedAvatar";
 import { GalleryPhotos } from "@/components/GalleryPhotos";
+import { BusinessCard } from "@/components/BusinessCard";
+import { useCardDesign } from "@/hooks/useCardDesign";
+import { useSubscription } from "@/hooks/useSubscription";
+import { getProfileUrl } from "@/lib/profileUrl";
+import { resolveCardDesign } from "@/lib/cardDesign";
 
 export default function Profile() {
   const { profile, loading, isAuthenticated, initialized } = useAppCache();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { design } = useCardDesign();
+  const { hasFeature } = useSubscription();
 
   // Redirect to auth if not authenticated
   useEffect(() => {
@@ -25,7 +32,7 @@ export default function Profile() {
   const handleShare = async () => {
     if (!profile) return;
     
-    const shareUrl = `${window.location.origin}/connect/${profile.id}`;
+    const shareUrl = getProfileUrl(profile);
     
     try {
       await navigator.share({
@@ -92,6 +99,15 @@ export default function Profile() {
           </Button>
         </div>
 
+        {/* Business Card - what people see when you share */}
+        <BusinessCard
+          design={resolveCardDesign(design, hasFeature("hasCustomBranding"))}
+          name={profile.full_name}
+          jobTitle={profile.job_title}
+          company={profile.company}
+          qrUrl={getProfileUrl(profile)}
+        />
+
         {/* Profile Card */}
         <Card className="bg-card border-border p-6">
           <div className="flex items-start gap-4">
@@ -7,9 +7,13 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, ArrowLeft, Upload, X, Plus, Linkedin, Instagram } from "lucide-react";
+import { Loader2, ArrowLeft, Upload, X, Plus, Linkedin, Instagram, Link2, Crown } from "lucide-react";
 import { OptimizedAvatar } from "@/components/OptimizedAvatar";
+import { UpgradePrompt } from "@/components/UpgradePrompt";
 import { invalidateAppCache } from "@/hooks/useAppCache";
+import { useSubscription } from "@/hooks/useSubscription";
+import { slugSchema } from "@/lib/validationSchemas";
+import { getSlugErrorMessage, PUBLIC_APP_URL } from "@/lib/profileUrl";
 import type { Database } from "@/integrations/supabase/types";
 
 type Profile = Database["public"]["Tables"]["profiles"]["Row"];
@@ -22,6 +26,9 @@ export default function ProfileEdit() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { hasFeature } = useSubscription();
+  const canUseCustomUrl = hasFeature("hasCustomProfileUrl");
+  const [showUpgrade, setShowUpgrade] = useState(false);
 
   const [fullName, setFullName] = useState("");
   const [jobTitle, setJobTitle] = useState("");
@@ -34,6 +41,8 @@ export default function ProfileEdit() {
   const [linkedinUrl, setLinkedinUrl] = useState("");
   const [instagramUrl, setInstagramUrl] = useState("");
   const [galleryPhotos, setGalleryPhotos] = useState<string[]>([]);
+  const [slug, setSlug] = useState("");
+  const [slugError, setSlugError] = useState<string | null>(null);
   const [uploadingGallery, setUploadingGallery] = useState(false);
   const galleryInputRef = useRef<HTMLInputElement>(null);
 
@@ -69,6 +78,7 @@ export default function ProfileEdit() {
       setLinkedinUrl(data.linkedin_url || "");
       setInstagramUrl((data as any).instagram_url || "");
       setGalleryPhotos((data as any).gallery_photos || []);
+      setSlug(data.slug || "");
     } catch (error: any) {
       toast({
         title: "Error loading profile",
@@ -223,6 +233,23 @@ export default function ProfileEdit() {
 
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    // Only send the slug when it changed; the database rejects new slugs on free plans
+    let slugUpdate: { slug: string | null } | undefined;
+    if (slug.trim().toLowerCase() !== (profile?.slug || "")) {
+      if (slug.trim()) {
+        const result = slugSchema.safeParse(slug);
+        if (!result.success) {
+          setSlugError(result.error.errors[0].message);
+          return;
+        }
+        slugUpdate = { slug: result.data };
+      } else {
+        slugUpdate = { slug: null };
+      }
+    }
+
+    setSlugError(null);
     setSaving(true);
 
     try {
@@ -243,10 +270,17 @@ export default function ProfileEdit() {
           linkedin_url: linkedinUrl,
           instagram_url: instagramUrl,
           gallery_photos: galleryPhotos,
+          ...slugUpdate,
         } as any)
         .eq("id", user.id);
 
-      if (error) throw error;
+      if (error) {
+        if (slugUpdate && (error.code === "23505" || error.message.startsWith("SLUG_"))) {
+          setSlugError(getSlugErrorMessage(error));
+          return;
+        }
+        throw error;
+      }
 
       invalidateAppCache();
 
@@ -408,6 +442,47 @@ export default function ProfileEdit() {
             />
           </div>
 
+          {/* Custom Profile URL Section */}
+          <div className="space-y-4 pt-4 border-t border-border">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-semibold text-foreground">Custom Profile URL</h3>
+                <p className="text-sm text-muted-foreground">Used in your QR code, shared links and emails</p>
+              </div>
+              {!canUseCustomUrl && (
+                <Button type="button" variant="outline" size="sm" onClick={() => setShowUpgrade(true)}>
+                  <Crown className="h-4 w-4 mr-1" />
+                  Pro
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="slug" className="text-foreground flex items-center gap-2">
+                <Link2 className="h-4 w-4 text-primary" />
+                {PUBLIC_APP_URL.replace(/^https?:\/\//, "")}/@
+              </Label>
+              <Input
+                id="slug"
+                value={slug}
+                onChange={(e) => {
+                  setSlug(e.target.value.toLowerCase());
+                  setSlugError(null);
+                }}
+                disabled={!canUseCustomUrl && !slug}
+                className="bg-secondary border-border text-foreground"
+                placeholder="yourname"
+                maxLength={30}
+              />
+              {slugError && <p className="text-sm text-destructive">{slugError}</p>}
+              {profile?.slug && (
+                <p className="text-xs text-muted-foreground">
+                  Links to your previous URL will keep redirecting to the new one.
+                </p>
+              )}
+            </div>
+          </div>
+
           {/* Social Links Section */}
           <div className="space-y-4 pt-4 border-t border-border">
             <h3 className="text-lg font-semibold text-foreground">Social Links</h3>
@@ -512,6 +587,12 @@ export default function ProfileEdit() {
           </Button>
         </form>
       </div>
+
+      <UpgradePrompt
+        open={showUpgrade}
+        onOpenChange={setShowUpgrade}
+        feature="custom_url"
+      />
     </Layout>
   );
 }
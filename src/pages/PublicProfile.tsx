@@ -3,11 +3,16 @@ import { useParams, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Mail, Phone, Briefcase, Globe, Download, Lock, Smartphone, Bell, Instagram } from "lucide-react";
+import { Mail, Phone, Briefcase, Globe, Download, Lock, Smartphone, Bell, Instagram, CalendarPlus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { ProfileCardSkeleton } from "@/components/skeletons/ProfileCardSkeleton";
 import { OpenAppModal } from "@/components/OpenAppModal";
 import { OptimizedAvatar } from "@/components/OptimizedAvatar";
+import { LeadCaptureForm } from "@/components/LeadCaptureForm";
+import { useCardDesign } from "@/hooks/useCardDesign";
+import { useSubscription } from "@/hooks/useSubscription";
+import { getBookingPath, getProfilePath, getProfileUrl } from "@/lib/profileUrl";
+import { getCardFont, resolveCardDesign } from "@/lib/cardDesign";
 import type { Database } from "@/integrations/supabase/types";
 
 type Profile = Database["public"]["Tables"]["profiles"]["Row"] & {
@@ -29,8 +34,9 @@ interface ProfileState {
 }
 
 export default function PublicProfile() {
-  const { userId } = useParams();
+  const { userId: userIdParam, handle } = useParams();
   const navigate = useNavigate();
+  const [userId, setUserId] = useState<string | null>(userIdParam || null);
   const { toast } = useToast();
   const [state, setState] = useState<ProfileState>({ 
     profile: null, 
@@ -42,12 +48,57 @@ export default function PublicProfile() {
   const [loading, setLoading] = useState(true);
   const [showOpenAppModal, setShowOpenAppModal] = useState(false);
   const [notificationSent, setNotificationSent] = useState(false);
+  const [hasBookingPage, setHasBookingPage] = useState(false);
+  const { design } = useCardDesign(userId);
+  const { hasFeature } = useSubscription();
+
+  // RLS already hides lapsed Pro designs from visitors; the owner still reads theirs, so check the plan too
+  const cardDesign = resolveCardDesign(design, state.currentUserId !== userId || hasFeature("hasCustomBranding"));
+
+  useEffect(() => {
+    if (userIdParam) {
+      setUserId(userIdParam);
+    } else {
+      resolveSlug();
+    }
+  }, [userIdParam, handle]);
 
   useEffect(() => {
+    if (!userId) return;
     loadProfile();
     trackView();
   }, [userId]);
 
+  // Vanity URLs (/@slug) resolve to a profile id; old slugs redirect to the current URL
+  const resolveSlug = async () => {
+    const slug = handle?.startsWith("@") ? handle.slice(1) : null;
+    if (!slug) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc("resolve_profile_slug", { p_slug: slug });
+      if (error) throw error;
+
+      const match = data?.[0];
+      if (!match) {
+        setLoading(false);
+        return;
+      }
+
+      if (match.slug !== slug) {
+        navigate(getProfilePath({ id: match.profile_id, slug: match.slug }), { replace: true });
+        return;
+      }
+
+      setUserId(match.profile_id);
+    } catch (error) {
+      console.error("Error resolving profile URL:", error);
+      setLoading(false);
+    }
+  };
+
   const loadProfile = async () => {
     if (!userId) {
       setLoading(false);
@@ -59,10 +110,12 @@ export default function PublicProfile() {
       const isAuthenticated = !!session?.user;
       const currentUserId = session?.user?.id || null;
 
-      const [basicResult, settingsResult] = await Promise.all([
+      const [basicResult, settingsResult, bookingResult] = await Promise.all([
         supabase.from("profiles").select("*").eq("id", userId).maybeSingle(),
-        supabase.from("user_settings").select("profile_visibility").eq("user_id", userId).maybeSingle()
+        supabase.from("user_settings").select("profile_visibility").eq("user_id", userId).maybeSingle(),
+        supabase.from("booking_pages").select("id").eq("user_id", userId).eq("is_enabled", true).maybeSingle()
       ]);
+      setHasBookingPage(!!bookingResult.data);
 
       if (!basicResult.data) {
         setState({ profile: null, isPrivate: false, basicInfo: null, isAuthenticated, currentUserId });
@@ -152,6 +205,7 @@ TEL:${state.profile.phone || ''}
 TITLE:${state.profile.job_title || ''}
 ORG:${state.profile.company || ''}
 URL:${state.profile.website || ''}
+URL;TYPE=Buizly:${getProfileUrl(state.profile)}
 END:VCARD`;
     const blob = new Blob([vcard], { type: 'text/vcard' });
     const url = window.URL.createObjectURL(blob);
@@ -201,12 +255,18 @@ END:VCARD`;
   }
 
   return (
-    <div className="min-h-screen bg-background">
-      <div className="bg-gradient-to-b from-primary/20 to-background pt-12 pb-20 px-4">
+    <div className="min-h-screen bg-background" style={{ fontFamily: getCardFont(cardDesign.font_family) }}>
+      <div
+        className="pt-12 pb-20 px-4"
+        style={{ backgroundImage: `linear-gradient(to bottom, ${cardDesign.accent_color}33, hsl(var(--background)))` }}
+      >
         <div className="max-w-lg mx-auto text-center">
+          {cardDesign.logo_url && (
+            <img src={cardDesign.logo_url} alt={state.profile.company || "Logo"} className="h-10 max-w-[50%] object-contain mx-auto mb-6" />
+          )}
           <OptimizedAvatar src={state.profile.avatar_url} alt={state.profile.full_name} size="xl" className="mx-auto mb-4 border-4 border-primary" />
           <h1 className="text-3xl font-bold text-foreground">{state.profile.full_name}</h1>
-          {state.profile.job_title && <p className="text-primary font-medium mt-1">{state.profile.job_title}</p>}
+          {state.profile.job_title && <p className="font-medium mt-1" style={{ color: cardDesign.accent_color }}>{state.profile.job_title}</p>}
           {state.profile.company && <p className="text-muted-foreground">{state.profile.company}</p>}
         </div>
       </div>
@@ -257,6 +317,16 @@ END:VCARD`;
           {state.profile.website && <a href={state.profile.website} target="_blank" className="flex items-center gap-3 p-3 bg-secondary rounded-lg"><Globe className="h-5 w-5 text-primary" /><span className="text-foreground truncate">{state.profile.website}</span></a>}
         </Card>
 
+        {/* Booking page link (hidden unless the owner enabled one) */}
+        {hasBookingPage && state.currentUserId !== userId && userId && (
+          <Button onClick={() => navigate(getBookingPath(userId))} className="w-full bg-primary text-primary-foreground py-6">
+            <CalendarPlus className="h-5 w-5 mr-2" />Book a meeting
+          </Button>
+        )}
+
+        {/* Lead capture form (hidden unless the owner enabled one) */}
+        {state.currentUserId !== userId && userId && <LeadCaptureForm ownerId={userId} />}
+
         <Card className="bg-card border-border p-6 space-y-3">
           <Button onClick={() => setShowOpenAppModal(true)} className="w-full bg-primary text-primary-foreground py-6"><Smartphone className="h-5 w-5 mr-2" />{state.isAuthenticated ? 'Open App' : 'Get Buizly'}</Button>
           <Button onClick={downloadVCard} variant="outline" className="w-full border-primary text-primary py-6"><Download className="h-5 w-5 mr-2" />Save Contact</Button>
@@ -0,0 +1,334 @@
+import { useState, useRef, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import jsQR from "jsqr";
+import { supabase } from "@/integrations/supabase/client";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { OptimizedAvatar } from "@/components/OptimizedAvatar";
+import { useToast } from "@/hooks/use-toast";
+import { useConnectionRequests } from "@/hooks/useConnectionRequests";
+import { useAppCache } from "@/hooks/useAppCache";
+import { parseQrPayload } from "@/lib/qrPayload";
+import { ArrowLeft, Camera, CameraOff, ImageIcon, Loader2, QrCode, UserCheck } from "lucide-react";
+
+interface ScannedProfile {
+  id: string;
+  full_name: string;
+  avatar_url: string | null;
+  job_title: string | null;
+  company: string | null;
+}
+
+type ScanStatus = "starting" | "scanning" | "processing" | "denied" | "done";
+
+// Frames are downscaled before decoding; plenty for a QR code held in front of the camera
+const MAX_DECODE_SIZE = 640;
+
+function decodeImage(
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  canvas: HTMLCanvasElement
+): string | null {
+  const scale = Math.min(1, MAX_DECODE_SIZE / Math.max(width, height));
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  // Buizly codes default to light modules on a dark background, so try inverted too
+  const code = jsQR(image.data, image.width, image.height, { inversionAttempts: "attemptBoth" });
+  return code?.data || null;
+}
+
+export default function Scan() {
+  const { isAuthenticated, initialized } = useAppCache();
+  const navigate = useNavigate();
+
+  // Redirect to auth if not authenticated
+  useEffect(() => {
+    if (initialized && !isAuthenticated) {
+      navigate("/auth", { replace: true });
+    }
+  }, [initialized, isAuthenticated, navigate]);
+
+  const { toast } = useToast();
+  const { sendRequest } = useConnectionRequests();
+  const [status, setStatus] = useState<ScanStatus>("starting");
+  const [profile, setProfile] = useState<ScannedProfile | null>(null);
+  const [requestSent, setRequestSent] = useState(false);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const busyRef = useRef(false);
+
+  const stopCamera = useCallback(() => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  }, []);
+
+  const connectToProfile = async (userId: string) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (user?.id === userId) {
+      toast({ title: "That's your own code", description: "Scan someone else's Buizly QR code" });
+      return false;
+    }
+
+    const { data } = await supabase
+      .from("profiles")
+      .select("id, full_name, avatar_url, job_title, company")
+      .eq("id", userId)
+      .maybeSingle();
+
+    if (!data) {
+      toast({ title: "Profile not found", description: "This Buizly profile no longer exists", variant: "destructive" });
+      return false;
+    }
+
+    setProfile(data);
+    const result = await sendRequest(userId);
+    setRequestSent(result.success || result.status === "pending" || result.status === "connected");
+    return true;
+  };
+
+  const handleCode = async (text: string) => {
+    const payload = parseQrPayload(text);
+
+    if (payload.type === "contact") {
+      stopCamera();
+      navigate("/capture", { state: { scannedContact: payload.contact } });
+      return true;
+    }
+
+    if (payload.type === "profile") {
+      return connectToProfile(payload.userId);
+    }
+
+    if (payload.type === "profile_slug") {
+      const { data } = await supabase.rpc("resolve_profile_slug", { p_slug: payload.slug });
+      if (data?.[0]) return connectToProfile(data[0].profile_id);
+      toast({ title: "Profile not found", description: "This Buizly profile no longer exists", variant: "destructive" });
+      return false;
+    }
+
+    toast({
+      title: "Not a Buizly code",
+      description: "Scan a Buizly profile QR code or a contact card",
+      variant: "destructive",
+    });
+    return false;
+  };
+
+  const processCode = async (text: string) => {
+    busyRef.current = true;
+    setStatus("processing");
+    try {
+      const handled = await handleCode(text);
+      if (handled) {
+        stopCamera();
+        setStatus("done");
+        return;
+      }
+    } catch (error: any) {
+      console.error("QR scan error:", error);
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+
+    // Give the user a moment to move the code away before scanning again
+    setTimeout(() => {
+      busyRef.current = false;
+      setStatus(streamRef.current ? "scanning" : "denied");
+    }, 1500);
+  };
+
+  const scanFrame = () => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (video && canvas && !busyRef.current && video.readyState === video.HAVE_ENOUGH_DATA) {
+      const text = decodeImage(video, video.videoWidth, video.videoHeight, canvas);
+      if (text) processCode(text);
+    }
+    if (streamRef.current) frameRef.current = requestAnimationFrame(scanFrame);
+  };
+
+  const startCamera = async () => {
+    busyRef.current = false;
+    setProfile(null);
+    setRequestSent(false);
+    setStatus("starting");
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setStatus("denied");
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: "environment" },
+        audio: false,
+      });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+      setStatus("scanning");
+      frameRef.current = requestAnimationFrame(scanFrame);
+    } catch (error) {
+      console.error("Camera error:", error);
+      setStatus("denied");
+    }
+  };
+
+  useEffect(() => {
+    startCamera();
+    return stopCamera;
+  }, []);
+
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !canvasRef.current || busyRef.current) return;
+
+    try {
+      const bitmap = await createImageBitmap(file);
+      const text = decodeImage(bitmap, bitmap.width, bitmap.height, canvasRef.current);
+      bitmap.close();
+
+      if (text) {
+        processCode(text);
+      } else {
+        toast({ title: "No QR code found", description: "Try a clearer photo of the code", variant: "destructive" });
+      }
+    } catch (error) {
+      console.error("QR photo error:", error);
+      toast({ title: "Error", description: "Could not read this image", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-2xl mx-auto p-6 space-y-6">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Scan QR Code</h1>
+            <p className="text-muted-foreground text-sm">Connect instantly or save a contact card</p>
+          </div>
+        </div>
+
+        <canvas ref={canvasRef} className="hidden" />
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          onChange={handlePhoto}
+          className="hidden"
+        />
+
+        {status === "done" && profile ? (
+          <Card className="bg-card border-border p-6 text-center space-y-4">
+            <OptimizedAvatar
+              src={profile.avatar_url}
+              alt={profile.full_name}
+              fallback={profile.full_name.charAt(0)}
+              size="xl"
+              className="mx-auto"
+            />
+            <div>
+              <h2 className="text-xl font-semibold text-foreground">{profile.full_name}</h2>
+              {(profile.job_title || profile.company) && (
+                <p className="text-sm text-muted-foreground">
+                  {[profile.job_title, profile.company].filter(Boolean).join(" at ")}
+                </p>
+              )}
+            </div>
+            {requestSent && (
+              <p className="flex items-center justify-center gap-2 text-sm text-primary">
+                <UserCheck className="h-4 w-4" />
+                Connection request sent
+              </p>
+            )}
+            <div className="flex gap-3">
+              <Button
+                variant="outline"
+                className="flex-1 border-border"
+                onClick={() => navigate(`/u/${profile.id}`)}
+              >
+                View Profile
+              </Button>
+              <Button
+                className="flex-1 bg-primary text-primary-foreground hover:bg-primary/90"
+                onClick={startCamera}
+              >
+                <QrCode className="h-4 w-4 mr-2" />
+                Scan Another
+              </Button>
+            </div>
+          </Card>
+        ) : (
+          <Card className="bg-card border-border overflow-hidden">
+            <div className="relative aspect-square bg-black">
+              <video
+                ref={videoRef}
+                className="w-full h-full object-cover"
+                playsInline
+                muted
+              />
+
+              {status === "scanning" && (
+                <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                  <div className="w-2/3 aspect-square border-2 border-primary rounded-2xl shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]" />
+                </div>
+              )}
+
+              {(status === "starting" || status === "processing") && (
+                <div className="absolute inset-0 flex items-center justify-center bg-black/60">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              )}
+
+              {status === "denied" && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 p-6 text-center">
+                  <CameraOff className="h-10 w-10 text-muted-foreground" />
+                  <p className="text-sm text-muted-foreground">
+                    Camera access is unavailable. Allow camera access in your browser settings, or scan from a photo.
+                  </p>
+                  <Button variant="outline" size="sm" onClick={startCamera}>
+                    <Camera className="h-4 w-4 mr-2" />
+                    Try Again
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="p-4 space-y-3">
+              <p className="text-sm text-muted-foreground text-center">
+                Point your camera at a Buizly QR code, vCard or MeCard
+              </p>
+              <Button
+                variant="outline"
+                className="w-full border-border"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={status === "processing"}
+              >
+                <ImageIcon className="h-4 w-4 mr-2" />
+                Scan from Photo
+              </Button>
+            </div>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+}
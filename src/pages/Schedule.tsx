@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Layout } from "@/components/Layout";
@@ -11,8 +11,11 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { useMeetings } from "@/hooks/useMeetings";
+import { useBusyBlocks } from "@/hooks/useBusyBlocks";
 import { ContactSearchModal } from "@/components/ContactSearchModal";
-import { Loader2, MapPin, Users, Plus, X, Search, Image, FileText, CalendarIcon, Clock } from "lucide-react";
+import { MeetingHistoryList } from "@/components/MeetingHistoryList";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2, MapPin, Users, Plus, X, Search, Image, FileText, CalendarIcon, Clock, History, CalendarClock } from "lucide-react";
 import {
   Popover,
   PopoverContent,
@@ -29,14 +32,21 @@ import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import type { Database } from "@/integrations/supabase/types";
 import { useAppCache } from "@/hooks/useAppCache";
+import { DurationPicker } from "@/components/DurationPicker";
+import { MeetingConflictWarning } from "@/components/MeetingConflictWarning";
+import { RecurrencePicker } from "@/components/RecurrencePicker";
+import {
+  buildMeetingSchedule,
+  DEFAULT_DURATION_MINUTES,
+  findBusyConflicts,
+  getLocalTimeZone,
+  TIME_SLOTS,
+} from "@/lib/meetingTime";
+import { describeRecurrence, expandMeetings, expandUpcoming, findOccurrenceConflicts } from "@/lib/recurrence";
 
 type Connection = Database["public"]["Tables"]["connections"]["Row"];
 
-const timeSlots = [
-  "09:00 AM", "09:30 AM", "10:00 AM", "10:30 AM", "11:00 AM", "11:30 AM",
-  "12:00 PM", "12:30 PM", "01:00 PM", "01:30 PM", "02:00 PM", "02:30 PM",
-  "03:00 PM", "03:30 PM", "04:00 PM", "04:30 PM", "05:00 PM", "05:30 PM"
-];
+const SCHEDULE_TABS = ["new", "upcoming", "past"];
 
 interface Participant {
   email: string;
@@ -44,8 +54,9 @@ interface Participant {
 }
 
 export default function Schedule() {
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const connectionId = searchParams.get("connection");
+  const activeTab = SCHEDULE_TABS.includes(searchParams.get("tab") || "") ? searchParams.get("tab")! : "new";
   const { isAuthenticated, initialized } = useAppCache();
   const navigate = useNavigate();
   
@@ -58,6 +69,8 @@ export default function Schedule() {
   
   const [date, setDate] = useState<Date | undefined>(new Date());
   const [selectedTime, setSelectedTime] = useState("");
+  const [duration, setDuration] = useState(DEFAULT_DURATION_MINUTES);
+  const [recurrence, setRecurrence] = useState<string | null>(null);
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [notes, setNotes] = useState("");
@@ -73,8 +86,18 @@ export default function Schedule() {
   const [uploading, setUploading] = useState(false);
   
   const { toast } = useToast();
-  const { createMeeting } = useMeetings();
-  
+  const { meetings, loading: meetingsLoading, createMeeting } = useMeetings();
+  const { blocks: busyBlocks } = useBusyBlocks();
+
+  // Recurring series are listed as their individual occurrences
+  const pastMeetings = useMemo(() => {
+    return expandMeetings(meetings, new Date(0), new Date()).reverse();
+  }, [meetings]);
+
+  const upcomingMeetings = useMemo(() => {
+    return expandUpcoming(meetings, new Date()).filter(m => m.status !== "cancelled");
+  }, [meetings]);
+
 
   useEffect(() => {
     loadConnections();
@@ -211,6 +234,34 @@ export default function Schedule() {
     setMeetingPhotos(prev => prev.filter((_, i) => i !== index));
   };
 
+  const conflicts = useMemo(() => {
+    if (!date || !selectedTime) return [];
+    return findOccurrenceConflicts(meetings, buildMeetingSchedule(date, selectedTime).starts_at, duration);
+  }, [meetings, date, selectedTime, duration]);
+
+  const busyConflicts = useMemo(() => {
+    if (!date || !selectedTime) return [];
+    return findBusyConflicts(busyBlocks, buildMeetingSchedule(date, selectedTime).starts_at, duration);
+  }, [busyBlocks, date, selectedTime, duration]);
+
+  // Slots that clash with the user's own calendar are labelled in the picker
+  const busySlots = useMemo(() => {
+    if (!date) return new Set<string>();
+    return new Set(TIME_SLOTS.filter(slot =>
+      findBusyConflicts(busyBlocks, buildMeetingSchedule(date, slot).starts_at, duration).length > 0
+    ));
+  }, [busyBlocks, date, duration]);
+
+  const handleTabChange = (tab: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (tab !== "new") {
+      params.set("tab", tab);
+    } else {
+      params.delete("tab");
+    }
+    setSearchParams(params, { replace: true });
+  };
+
   const handleSchedule = async () => {
     if (!date || !selectedTime) {
       toast({
@@ -249,8 +300,9 @@ export default function Schedule() {
       const meeting = await createMeeting({
         title: title.trim(),
         description: fullDescription,
-        meeting_date: date.toISOString().split('T')[0],
-        meeting_time: selectedTime,
+        ...buildMeetingSchedule(date, selectedTime),
+        duration_minutes: duration,
+        recurrence_rule: recurrence,
         location: location.trim() || undefined,
         connection_id: connectionId || undefined,
         participants: participants,
@@ -258,7 +310,9 @@ export default function Schedule() {
 
       toast({
         title: "Meeting scheduled!",
-        description: `Your meeting is set for ${date.toLocaleDateString()} at ${selectedTime}`,
+        description: recurrence
+          ? `Starting ${date.toLocaleDateString()} at ${selectedTime}. ${describeRecurrence(recurrence)}.`
+          : `Your meeting is set for ${date.toLocaleDateString()} at ${selectedTime}`,
       });
 
       navigate(`/meeting/${meeting.id}`);
@@ -278,268 +332,327 @@ export default function Schedule() {
       <div className="max-w-2xl mx-auto p-6 space-y-6">
         <div>
           <h1 className="text-2xl font-bold text-foreground mb-2">Schedule Meeting</h1>
-          <p className="text-muted-foreground text-sm">Set up a new meeting with your connections</p>
+          <p className="text-muted-foreground text-sm">Set up new meetings and look back on past ones</p>
         </div>
 
-        {/* Meeting Title */}
-        <div className="space-y-2">
-          <Label htmlFor="title" className="text-foreground">Meeting Title *</Label>
-          <Input
-            id="title"
-            value={title}
-            onChange={(e) => setTitle(e.target.value)}
-            placeholder="e.g., Follow-up Discussion"
-            className="bg-secondary border-border text-foreground"
-          />
-        </div>
+        <Tabs value={activeTab} onValueChange={handleTabChange}>
+          <TabsList className="grid w-full grid-cols-3 bg-secondary">
+            <TabsTrigger
+              value="new"
+              className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New
+            </TabsTrigger>
+            <TabsTrigger
+              value="upcoming"
+              className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+            >
+              <CalendarClock className="h-4 w-4 mr-2" />
+              Upcoming
+            </TabsTrigger>
+            <TabsTrigger
+              value="past"
+              className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+            >
+              <History className="h-4 w-4 mr-2" />
+              Past
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="upcoming" className="mt-4">
+            {meetingsLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <MeetingHistoryList meetings={upcomingMeetings} emptyMessage="No upcoming meetings" />
+            )}
+          </TabsContent>
+
+          <TabsContent value="past" className="mt-4">
+            {meetingsLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <MeetingHistoryList meetings={pastMeetings} />
+            )}
+          </TabsContent>
+
+          <TabsContent value="new" className="mt-4 space-y-6">
+            {/* Meeting Title */}
+            <div className="space-y-2">
+              <Label htmlFor="title" className="text-foreground">Meeting Title *</Label>
+              <Input
+                id="title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="e.g., Follow-up Discussion"
+                className="bg-secondary border-border text-foreground"
+              />
+            </div>
 
-        {/* Date & Time Row */}
-        <div className="grid grid-cols-2 gap-3">
-          {/* Date Picker with Popover */}
-          <div className="space-y-2">
-            <Label className="text-foreground flex items-center gap-1">
-              <CalendarIcon className="h-3.5 w-3.5" />
-              Date *
-            </Label>
-            <Popover open={calendarOpen} onOpenChange={setCalendarOpen}>
-              <PopoverTrigger asChild>
+            {/* Date & Time Row */}
+            <div className="grid grid-cols-2 gap-3">
+              {/* Date Picker with Popover */}
+              <div className="space-y-2">
+                <Label className="text-foreground flex items-center gap-1">
+                  <CalendarIcon className="h-3.5 w-3.5" />
+                  Date *
+                </Label>
+                <Popover open={calendarOpen} onOpenChange={setCalendarOpen}>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className={cn(
+                        "w-full justify-start text-left font-normal bg-secondary border-border",
+                        !date && "text-muted-foreground"
+                      )}
+                    >
+                      {date ? format(date, "PPP") : "Pick a date"}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0 bg-card border-border" align="start">
+                    <Calendar
+                      mode="single"
+                      selected={date}
+                      onSelect={(selectedDate) => {
+                        setDate(selectedDate);
+                        setCalendarOpen(false);
+                      }}
+                      disabled={(date) => date < new Date()}
+                      initialFocus
+                      className="pointer-events-auto"
+                    />
+                  </PopoverContent>
+                </Popover>
+              </div>
+
+              {/* Time Picker */}
+              <div className="space-y-2">
+                <Label className="text-foreground flex items-center gap-1">
+                  <Clock className="h-3.5 w-3.5" />
+                  Time *
+                </Label>
+                <Select value={selectedTime} onValueChange={setSelectedTime}>
+                  <SelectTrigger className="bg-secondary border-border text-foreground">
+                    <SelectValue placeholder="Select time" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-card border-border max-h-[200px]">
+                    {TIME_SLOTS.map((slot) => (
+                      <SelectItem key={slot} value={slot} className="text-foreground">
+                        {slot}
+                        {busySlots.has(slot) && <span className="ml-2 text-xs text-muted-foreground">Busy</span>}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground -mt-3">
+              Times are in your time zone ({getLocalTimeZone().replace(/_/g, " ")}). Participants see them in theirs.
+            </p>
+
+            <DurationPicker value={duration} onChange={setDuration} />
+
+            <RecurrencePicker value={recurrence} onChange={setRecurrence} start={date} />
+
+            <MeetingConflictWarning conflicts={conflicts} busyBlocks={busyConflicts} />
+
+            {/* Location */}
+            <div className="space-y-2">
+              <Label htmlFor="location" className="text-foreground">Location</Label>
+              <div className="relative">
+                <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="location"
+                  value={location}
+                  onChange={(e) => setLocation(e.target.value)}
+                  placeholder="Office, Zoom, Coffee Shop..."
+                  className="bg-secondary border-border text-foreground pl-10"
+                />
+              </div>
+            </div>
+
+            {/* Participants */}
+            <Card className="bg-card border-border p-4 space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Users className="h-5 w-5 text-primary" />
+                  <Label className="text-foreground">Participants</Label>
+                </div>
                 <Button
+                  type="button"
                   variant="outline"
-                  className={cn(
-                    "w-full justify-start text-left font-normal bg-secondary border-border",
-                    !date && "text-muted-foreground"
-                  )}
+                  size="sm"
+                  onClick={() => setShowContactSearch(true)}
+                  className="border-primary text-primary hover:bg-primary hover:text-primary-foreground"
                 >
-                  {date ? format(date, "PPP") : "Pick a date"}
+                  <Search className="h-4 w-4 mr-2" />
+                  From Contacts
                 </Button>
-              </PopoverTrigger>
-              <PopoverContent className="w-auto p-0 bg-card border-border" align="start">
-                <Calendar
-                  mode="single"
-                  selected={date}
-                  onSelect={(selectedDate) => {
-                    setDate(selectedDate);
-                    setCalendarOpen(false);
-                  }}
-                  disabled={(date) => date < new Date()}
-                  initialFocus
-                  className="pointer-events-auto"
+              </div>
+
+              {/* Current Participants */}
+              {participants.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {participants.map((p) => (
+                    <div
+                      key={p.email}
+                      className="flex items-center gap-2 bg-secondary rounded-full px-3 py-1"
+                    >
+                      <span className="text-sm text-foreground">{p.name || p.email}</span>
+                      <button
+                        type="button"
+                        onClick={() => removeParticipant(p.email)}
+                        className="text-muted-foreground hover:text-destructive transition-colors"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Add by Email */}
+              <div className="flex gap-2">
+                <Input
+                  value={newParticipantEmail}
+                  onChange={(e) => setNewParticipantEmail(e.target.value)}
+                  placeholder="Add email manually..."
+                  type="email"
+                  className="bg-secondary border-border text-foreground"
+                  onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), addParticipant())}
                 />
-              </PopoverContent>
-            </Popover>
-          </div>
-
-          {/* Time Picker */}
-          <div className="space-y-2">
-            <Label className="text-foreground flex items-center gap-1">
-              <Clock className="h-3.5 w-3.5" />
-              Time *
-            </Label>
-            <Select value={selectedTime} onValueChange={setSelectedTime}>
-              <SelectTrigger className="bg-secondary border-border text-foreground">
-                <SelectValue placeholder="Select time" />
-              </SelectTrigger>
-              <SelectContent className="bg-card border-border max-h-[200px]">
-                {timeSlots.map((slot) => (
-                  <SelectItem key={slot} value={slot} className="text-foreground">
-                    {slot}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-        </div>
-
-        {/* Location */}
-        <div className="space-y-2">
-          <Label htmlFor="location" className="text-foreground">Location</Label>
-          <div className="relative">
-            <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <Input
-              id="location"
-              value={location}
-              onChange={(e) => setLocation(e.target.value)}
-              placeholder="Office, Zoom, Coffee Shop..."
-              className="bg-secondary border-border text-foreground pl-10"
-            />
-          </div>
-        </div>
-
-        {/* Participants */}
-        <Card className="bg-card border-border p-4 space-y-4">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <Users className="h-5 w-5 text-primary" />
-              <Label className="text-foreground">Participants</Label>
-            </div>
-            <Button
-              type="button"
-              variant="outline"
-              size="sm"
-              onClick={() => setShowContactSearch(true)}
-              className="border-primary text-primary hover:bg-primary hover:text-primary-foreground"
-            >
-              <Search className="h-4 w-4 mr-2" />
-              From Contacts
-            </Button>
-          </div>
-
-          {/* Current Participants */}
-          {participants.length > 0 && (
-            <div className="flex flex-wrap gap-2">
-              {participants.map((p) => (
-                <div
-                  key={p.email}
-                  className="flex items-center gap-2 bg-secondary rounded-full px-3 py-1"
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={addParticipant}
+                  className="border-primary text-primary hover:bg-primary hover:text-primary-foreground flex-shrink-0"
                 >
-                  <span className="text-sm text-foreground">{p.name || p.email}</span>
-                  <button
-                    type="button"
-                    onClick={() => removeParticipant(p.email)}
-                    className="text-muted-foreground hover:text-destructive transition-colors"
-                  >
-                    <X className="h-3 w-3" />
-                  </button>
-                </div>
-              ))}
-            </div>
-          )}
-
-          {/* Add by Email */}
-          <div className="flex gap-2">
-            <Input
-              value={newParticipantEmail}
-              onChange={(e) => setNewParticipantEmail(e.target.value)}
-              placeholder="Add email manually..."
-              type="email"
-              className="bg-secondary border-border text-foreground"
-              onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), addParticipant())}
-            />
-            <Button
-              type="button"
-              variant="outline"
-              onClick={addParticipant}
-              className="border-primary text-primary hover:bg-primary hover:text-primary-foreground flex-shrink-0"
-            >
-              <Plus className="h-4 w-4" />
-            </Button>
-          </div>
-        </Card>
-
-        {/* Description & Notes (Consolidated) */}
-        <Card className="bg-card border-border p-4 space-y-4">
-          <div className="flex items-center gap-2">
-            <FileText className="h-5 w-5 text-primary" />
-            <Label className="text-foreground">Description & Notes</Label>
-          </div>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </Card>
+
+            {/* Description & Notes (Consolidated) */}
+            <Card className="bg-card border-border p-4 space-y-4">
+              <div className="flex items-center gap-2">
+                <FileText className="h-5 w-5 text-primary" />
+                <Label className="text-foreground">Description & Notes</Label>
+              </div>
           
-          <div className="space-y-3">
-            <Textarea
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              placeholder="Meeting agenda, topics to discuss..."
-              className="bg-secondary border-border text-foreground min-h-[80px]"
-            />
-            <Textarea
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-              placeholder="Additional notes for participants..."
-              className="bg-secondary border-border text-foreground min-h-[60px]"
-            />
-          </div>
-        </Card>
-
-        {/* Photo Gallery */}
-        <Card className="bg-card border-border p-4 space-y-4">
-          <div className="flex items-center gap-2">
-            <Image className="h-5 w-5 text-primary" />
-            <Label className="text-foreground">Photos & Media</Label>
-          </div>
+              <div className="space-y-3">
+                <Textarea
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="Meeting agenda, topics to discuss..."
+                  className="bg-secondary border-border text-foreground min-h-[80px]"
+                />
+                <Textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Additional notes for participants..."
+                  className="bg-secondary border-border text-foreground min-h-[60px]"
+                />
+              </div>
+            </Card>
+
+            {/* Photo Gallery */}
+            <Card className="bg-card border-border p-4 space-y-4">
+              <div className="flex items-center gap-2">
+                <Image className="h-5 w-5 text-primary" />
+                <Label className="text-foreground">Photos & Media</Label>
+              </div>
           
-          {/* Existing photos */}
-          {meetingPhotos.length > 0 && (
-            <div className="flex flex-wrap gap-2">
-              {meetingPhotos.map((url, index) => (
-                <div key={index} className="relative group">
-                  <img 
-                    src={url} 
-                    alt={`Meeting photo ${index + 1}`}
-                    className="h-16 w-16 object-cover rounded-lg border border-border"
+              {/* Existing photos */}
+              {meetingPhotos.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {meetingPhotos.map((url, index) => (
+                    <div key={index} className="relative group">
+                      <img 
+                        src={url} 
+                        alt={`Meeting photo ${index + 1}`}
+                        className="h-16 w-16 object-cover rounded-lg border border-border"
+                      />
+                      <button
+                        onClick={() => removePhoto(index)}
+                        className="absolute -top-1 -right-1 p-1 bg-destructive rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                      >
+                        <X className="h-3 w-3 text-destructive-foreground" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+          
+              {meetingPhotos.length < 5 && (
+                <div>
+                  <input
+                    type="file"
+                    accept="image/*"
+                    id="meeting-photo-upload"
+                    multiple
+                    className="hidden"
+                    onChange={handlePhotoUpload}
                   />
-                  <button
-                    onClick={() => removePhoto(index)}
-                    className="absolute -top-1 -right-1 p-1 bg-destructive rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                  <label
+                    htmlFor="meeting-photo-upload"
+                    className="flex items-center justify-center gap-2 p-4 border-2 border-dashed border-border rounded-lg cursor-pointer hover:border-primary/50 transition-colors"
                   >
-                    <X className="h-3 w-3 text-destructive-foreground" />
-                  </button>
+                    {uploading ? (
+                      <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    ) : (
+                      <>
+                        <Plus className="h-5 w-5 text-muted-foreground" />
+                        <span className="text-sm text-muted-foreground">Add photos (max 5)</span>
+                      </>
+                    )}
+                  </label>
                 </div>
-              ))}
-            </div>
-          )}
-          
-          {meetingPhotos.length < 5 && (
-            <div>
-              <input
-                type="file"
-                accept="image/*"
-                id="meeting-photo-upload"
-                multiple
-                className="hidden"
-                onChange={handlePhotoUpload}
+              )}
+            </Card>
+
+            {/* Reminder Toggle */}
+            <div className="flex items-center justify-between bg-card border border-border rounded-xl p-4">
+              <Label htmlFor="reminder" className="text-foreground">
+                Send reminder emails
+              </Label>
+              <Switch
+                id="reminder"
+                checked={sendReminder}
+                onCheckedChange={setSendReminder}
               />
-              <label
-                htmlFor="meeting-photo-upload"
-                className="flex items-center justify-center gap-2 p-4 border-2 border-dashed border-border rounded-lg cursor-pointer hover:border-primary/50 transition-colors"
-              >
-                {uploading ? (
-                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
-                ) : (
-                  <>
-                    <Plus className="h-5 w-5 text-muted-foreground" />
-                    <span className="text-sm text-muted-foreground">Add photos (max 5)</span>
-                  </>
-                )}
-              </label>
             </div>
-          )}
-        </Card>
-
-        {/* Reminder Toggle */}
-        <div className="flex items-center justify-between bg-card border border-border rounded-xl p-4">
-          <Label htmlFor="reminder" className="text-foreground">
-            Send reminder emails
-          </Label>
-          <Switch
-            id="reminder"
-            checked={sendReminder}
-            onCheckedChange={setSendReminder}
-          />
-        </div>
 
-        {/* Confirm Button */}
-        <Button
-          onClick={handleSchedule}
-          disabled={loading || !date || !selectedTime || !title.trim()}
-          className="w-full bg-primary text-primary-foreground hover:bg-primary/90 py-6 text-lg"
-        >
-          {loading ? (
-            <Loader2 className="h-5 w-5 animate-spin" />
-          ) : (
-            "Schedule Meeting"
-          )}
-        </Button>
-
-        {/* Contact Search Modal */}
-        <ContactSearchModal
-          open={showContactSearch}
-          onOpenChange={setShowContactSearch}
-          existingParticipants={participants}
-          onSelectContact={(participant) => {
-            if (!participants.some(p => p.email === participant.email)) {
-              setParticipants([...participants, participant]);
-            }
-          }}
-        />
+            {/* Confirm Button */}
+            <Button
+              onClick={handleSchedule}
+              disabled={loading || !date || !selectedTime || !title.trim()}
+              className="w-full bg-primary text-primary-foreground hover:bg-primary/90 py-6 text-lg"
+            >
+              {loading ? (
+                <Loader2 className="h-5 w-5 animate-spin" />
+              ) : (
+                "Schedule Meeting"
+              )}
+            </Button>
+
+            {/* Contact Search Modal */}
+            <ContactSearchModal
+              open={showContactSearch}
+              onOpenChange={setShowContactSearch}
+              existingParticipants={participants}
+              onSelectContact={(participant) => {
+                if (!participants.some(p => p.email === participant.email)) {
+                  setParticipants([...participants, participant]);
+                }
+              }}
+            />
+          </TabsContent>
+        </Tabs>
       </div>
     </Layout>
   );
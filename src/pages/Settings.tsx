@@ -9,7 +9,7 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { 
   User, Bell, Database, Settings as SettingsIcon, LogOut, 
-  ChevronRight, Calendar, Moon, Sun, Eye, RefreshCw, BarChart3, Linkedin, Crown, Loader2
+  ChevronRight, Calendar, Moon, Sun, Eye, RefreshCw, BarChart3, Linkedin, Crown, Loader2, Users, History
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useUserSettings } from "@/hooks/useUserSettings";
@@ -18,9 +18,21 @@ import { useSubscription } from "@/hooks/useSubscription";
 import { usePushNotifications } from "@/hooks/usePushNotifications";
 import { LinkedInImport } from "@/components/LinkedInImport";
 import { CalendarSync } from "@/components/CalendarSync";
+import { CalendarFeedSettings } from "@/components/CalendarFeedSettings";
 import { BusinessCardCustomizer } from "@/components/BusinessCardCustomizer";
+import { LeadFormBuilder } from "@/components/LeadFormBuilder";
+import { BookingPageBuilder } from "@/components/BookingPageBuilder";
 import { invalidateAppCache } from "@/hooks/useAppCache";
 
+// "forever" maps to NULL so existing users keep their full history by default
+const retentionOptions = [
+  { value: "forever", label: "Forever" },
+  { value: "730", label: "2 years" },
+  { value: "365", label: "1 year" },
+  { value: "180", label: "6 months" },
+  { value: "90", label: "90 days" },
+];
+
 export default function Settings() {
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -124,6 +136,25 @@ export default function Settings() {
     }
   };
 
+  const handleRetentionChange = async (value: string) => {
+    const days = value === "forever" ? null : Number(value);
+    try {
+      await updateSettings({ meeting_retention_days: days });
+      toast({
+        title: "Meeting history updated",
+        description: days
+          ? `Meetings older than ${retentionOptions.find(o => o.value === value)?.label.toLowerCase()} will be removed`
+          : "Past meetings will be kept forever",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update meeting history setting",
+        variant: "destructive",
+      });
+    }
+  };
+
   const connectGoogleCalendar = async () => {
     try {
       const redirectUri = `${window.location.origin}/oauth2callback`;
@@ -213,8 +244,34 @@ export default function Settings() {
           </div>
         </Card>
 
+        {/* Team Workspace (Business Feature) */}
+        <Card
+          className="bg-card border-border p-4 cursor-pointer hover:bg-card/80 transition-colors"
+          onClick={() => navigate("/team")}
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <div className="p-2 bg-primary/10 rounded-lg">
+                <Users className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <span className="text-foreground font-medium">Team Workspace</span>
+                <p className="text-sm text-muted-foreground">Invite teammates and share contacts</p>
+              </div>
+            </div>
+            <ChevronRight className="h-5 w-5 text-muted-foreground" />
+          </div>
+        </Card>
+
         {/* Business Card Customization (Pro Feature) */}
         <BusinessCardCustomizer />
+
+        {/* Lead Capture Form (Business Feature) */}
+        <LeadFormBuilder />
+
+        {/* Public Booking Page */}
+        <BookingPageBuilder />
+
         <Card
           className="bg-card border-border p-4 cursor-pointer hover:bg-card/80 transition-colors"
           onClick={() => navigate("/profile")}
@@ -291,7 +348,9 @@ export default function Settings() {
                 <p className="text-xs text-muted-foreground mt-1">
                   {settings?.google_calendar_connected 
                     ? "Google Calendar connected" 
-                    : "Sync meetings with your calendar"}
+                    : settings?.outlook_calendar_connected
+                      ? "Outlook Calendar connected"
+                      : "Sync meetings with your calendar"}
                 </p>
               </div>
             </div>
@@ -304,6 +363,9 @@ export default function Settings() {
           </div>
         </Card>
 
+        {/* Calendar Feed */}
+        <CalendarFeedSettings token={settings?.calendar_feed_token ?? null} onChange={refetch} />
+
         {/* LinkedIn Integration */}
         <Card className="bg-card border-border p-4">
           <div className="flex items-center gap-4 mb-4">
@@ -397,6 +459,29 @@ export default function Settings() {
                 </SelectContent>
               </Select>
             </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <History className="h-4 w-4 text-muted-foreground" />
+                <div>
+                  <Label htmlFor="meeting-retention" className="text-foreground">Meeting History</Label>
+                  <p className="text-xs text-muted-foreground">How long to keep past meetings and their notes</p>
+                </div>
+              </div>
+              <Select
+                value={settings?.meeting_retention_days ? String(settings.meeting_retention_days) : "forever"}
+                onValueChange={handleRetentionChange}
+              >
+                <SelectTrigger id="meeting-retention" className="w-32 bg-secondary border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {retentionOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
         </Card>
 
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Layout } from "@/components/Layout";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -7,7 +7,8 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { useSubscription, PLAN_FEATURES, SubscriptionPlan } from "@/hooks/useSubscription";
 import { LoadingSpinner } from "@/components/LoadingSpinner";
-import { Check, Crown, Zap, Building2, ArrowRight, ArrowLeft, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Check, Crown, Zap, Building2, ArrowRight, ArrowLeft, Loader2, CreditCard } from "lucide-react";
 
 export default function Subscription() {
   const navigate = useNavigate();
@@ -19,9 +20,32 @@ export default function Subscription() {
     getConnectionsRemaining,
     upgradePlan,
     cancelSubscription,
+    openBillingPortal,
+    refreshSubscription,
   } = useSubscription();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { toast } = useToast();
 
   const [upgrading, setUpgrading] = useState<SubscriptionPlan | null>(null);
+  const [openingPortal, setOpeningPortal] = useState(false);
+
+  // Returning from Stripe Checkout; the webhook may land a moment after the redirect
+  useEffect(() => {
+    const checkout = searchParams.get("checkout");
+    if (!checkout) return;
+
+    if (checkout === "success") {
+      toast({
+        title: "Payment successful",
+        description: "Your plan will be active in a few seconds.",
+      });
+      const timer = setTimeout(() => refreshSubscription(), 3000);
+      setSearchParams({}, { replace: true });
+      return () => clearTimeout(timer);
+    }
+
+    setSearchParams({}, { replace: true });
+  }, [searchParams]);
 
   const currentPlan = getCurrentPlan();
   const connectionsRemaining = getConnectionsRemaining();
@@ -32,6 +56,12 @@ export default function Subscription() {
     setUpgrading(null);
   };
 
+  const handleManageBilling = async () => {
+    setOpeningPortal(true);
+    await openBillingPortal();
+    setOpeningPortal(false);
+  };
+
   if (loading) {
     return (
       <Layout>
@@ -108,10 +138,26 @@ export default function Subscription() {
           {/* Pro/Business users */}
           {currentPlan !== "free" && subscription?.current_period_end && (
             <p className="text-sm text-muted-foreground">
-              Next billing date:{" "}
+              {subscription.cancel_at_period_end ? "Access ends on" : "Next billing date:"}{" "}
               {new Date(subscription.current_period_end).toLocaleDateString()}
             </p>
           )}
+
+          {subscription?.stripe_customer_id && (
+            <Button
+              onClick={handleManageBilling}
+              disabled={openingPortal}
+              variant="outline"
+              className="w-full mt-4 border-border"
+            >
+              {openingPortal ? (
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              ) : (
+                <CreditCard className="h-4 w-4 mr-2" />
+              )}
+              Manage Billing
+            </Button>
+          )}
         </Card>
 
         {/* Plan Options */}
@@ -174,7 +220,7 @@ export default function Subscription() {
                   </Button>
                 )}
 
-                {isCurrentPlan && plan !== "free" && (
+                {isCurrentPlan && plan !== "free" && !subscription?.cancel_at_period_end && (
                   <Button
                     onClick={cancelSubscription}
                     variant="outline"
@@ -0,0 +1,456 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowLeft, Building2, Mail, MoreVertical, Send, Users, X, Check, LogOut } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { z } from "zod";
+import { OptimizedAvatar } from "@/components/OptimizedAvatar";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { UpgradePrompt } from "@/components/UpgradePrompt";
+import { useAppCache } from "@/hooks/useAppCache";
+import { useSubscription } from "@/hooks/useSubscription";
+import { useWorkspaces } from "@/hooks/useWorkspaces";
+import { useToast } from "@/hooks/use-toast";
+import type { WorkspaceRole } from "@/types/database";
+
+const emailSchema = z.string().trim().email("Invalid email address");
+
+const roleLabels: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+};
+
+export default function Team() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { isAuthenticated, initialized } = useAppCache();
+  const { hasFeature, loading: subscriptionLoading } = useSubscription();
+  const {
+    workspaces,
+    activeWorkspace,
+    setActiveWorkspaceId,
+    members,
+    pendingInvites,
+    myInvites,
+    sharedConnections,
+    myRole,
+    canManage,
+    memberLimit,
+    seatsRemaining,
+    currentUserId,
+    loading,
+    createWorkspace,
+    inviteMember,
+    revokeInvite,
+    respondToInvite,
+    updateMemberRole,
+    removeMember,
+    leaveWorkspace,
+    unshareConnection,
+  } = useWorkspaces();
+
+  const [workspaceName, setWorkspaceName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>("member");
+  const [creating, setCreating] = useState(false);
+  const [inviting, setInviting] = useState(false);
+  const [showUpgrade, setShowUpgrade] = useState(false);
+
+  // Redirect to auth if not authenticated
+  useEffect(() => {
+    if (initialized && !isAuthenticated) {
+      navigate("/auth", { replace: true });
+    }
+  }, [initialized, isAuthenticated, navigate]);
+
+  const handleCreate = async () => {
+    if (!hasFeature("hasTeamWorkspaces")) {
+      setShowUpgrade(true);
+      return;
+    }
+    if (!workspaceName.trim()) return;
+
+    setCreating(true);
+    const result = await createWorkspace(workspaceName);
+    setCreating(false);
+    if (result.success) setWorkspaceName("");
+  };
+
+  const handleInvite = async () => {
+    const parsed = emailSchema.safeParse(inviteEmail);
+    if (!parsed.success) {
+      toast({ title: "Invalid email", description: parsed.error.errors[0].message, variant: "destructive" });
+      return;
+    }
+
+    setInviting(true);
+    const result = await inviteMember(parsed.data, inviteRole);
+    setInviting(false);
+    if (result.success) {
+      setInviteEmail("");
+      setInviteRole("member");
+    }
+  };
+
+  if (loading || subscriptionLoading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <LoadingSpinner size="md" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="max-w-2xl mx-auto p-6 pb-24 space-y-6">
+        <Button
+          variant="ghost"
+          onClick={() => navigate("/settings")}
+          className="text-foreground hover:text-primary -ml-2"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Settings
+        </Button>
+
+        <div>
+          <h1 className="text-2xl font-bold text-foreground mb-2">Team Workspace</h1>
+          <p className="text-muted-foreground text-sm">Share leads and contacts with your team</p>
+        </div>
+
+        {/* Invites addressed to me */}
+        {myInvites.length > 0 && (
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide">
+              Pending Invitations
+            </h3>
+            {myInvites.map(invite => (
+              <Card key={invite.id} className="bg-card border-primary/30 p-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 bg-primary/10 rounded-lg">
+                      <Building2 className="h-5 w-5 text-primary" />
+                    </div>
+                    <div>
+                      <p className="text-foreground font-medium">You've been invited to a team</p>
+                      <p className="text-xs text-muted-foreground">
+                        Join as {roleLabels[invite.role]} · {formatDistanceToNow(new Date(invite.created_at), { addSuffix: true })}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => respondToInvite(invite.id, false)}
+                      className="border-border"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => respondToInvite(invite.id, true)}
+                      className="bg-primary text-primary-foreground"
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Join
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {!activeWorkspace ? (
+          <Card className="bg-card border-border p-6 space-y-4">
+            <div className="flex items-center gap-4">
+              <div className="p-3 bg-primary/10 rounded-full">
+                <Users className="h-6 w-6 text-primary" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-foreground">Create a workspace</h2>
+                <p className="text-sm text-muted-foreground">
+                  Invite up to {memberLimit} members and build a shared contact pool
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                placeholder="Workspace name"
+                value={workspaceName}
+                onChange={(e) => setWorkspaceName(e.target.value)}
+                maxLength={100}
+                className="bg-secondary border-border text-foreground"
+              />
+              <Button
+                onClick={handleCreate}
+                disabled={creating || !workspaceName.trim()}
+                className="bg-primary text-primary-foreground"
+              >
+                {creating ? <LoadingSpinner size="sm" /> : "Create"}
+              </Button>
+            </div>
+            {!hasFeature("hasTeamWorkspaces") && (
+              <p className="text-xs text-muted-foreground">Team workspaces are included in the Business plan.</p>
+            )}
+          </Card>
+        ) : (
+          <>
+            <Card className="bg-card border-border p-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-4">
+                  <div className="p-2 bg-primary/10 rounded-lg">
+                    <Building2 className="h-5 w-5 text-primary" />
+                  </div>
+                  <div>
+                    {workspaces.length > 1 ? (
+                      <Select value={activeWorkspace.id} onValueChange={setActiveWorkspaceId}>
+                        <SelectTrigger className="h-8 border-0 bg-transparent p-0 text-foreground font-medium">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {workspaces.map(w => (
+                            <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <span className="text-foreground font-medium">{activeWorkspace.name}</span>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {members.length} / {memberLimit} members
+                      {myRole && ` · You are ${roleLabels[myRole].toLowerCase()}`}
+                    </p>
+                  </div>
+                </div>
+                {myRole && myRole !== "owner" && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={leaveWorkspace}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Leave
+                  </Button>
+                )}
+              </div>
+            </Card>
+
+            <Tabs defaultValue="contacts">
+              <TabsList className="grid w-full grid-cols-2 bg-secondary">
+                <TabsTrigger
+                  value="contacts"
+                  className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+                >
+                  Shared Contacts
+                </TabsTrigger>
+                <TabsTrigger
+                  value="members"
+                  className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+                >
+                  Members
+                </TabsTrigger>
+              </TabsList>
+
+              {/* Shared contact pool */}
+              <TabsContent value="contacts" className="space-y-3 mt-4">
+                {sharedConnections.length === 0 ? (
+                  <Card className="bg-card border-border p-8 text-center">
+                    <Users className="h-12 w-12 text-muted-foreground mx-auto mb-3 opacity-50" />
+                    <p className="text-foreground font-medium mb-1">No shared contacts yet</p>
+                    <p className="text-muted-foreground text-sm">
+                      Use "Share with team" on any connection in your Network
+                    </p>
+                  </Card>
+                ) : (
+                  sharedConnections.map(shared => (
+                    <Card key={shared.id} className="bg-card border-border p-4">
+                      <div className="flex items-center gap-4">
+                        <OptimizedAvatar
+                          src={shared.connection?.connection_avatar_url}
+                          alt={shared.connection?.connection_name || "Contact"}
+                          fallback={shared.connection?.connection_name?.charAt(0) || "?"}
+                          size="md"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <p className="font-semibold text-foreground">
+                            {shared.connection?.connection_name || "Unavailable contact"}
+                          </p>
+                          {shared.connection?.connection_title && (
+                            <p className="text-sm text-primary">{shared.connection.connection_title}</p>
+                          )}
+                          {shared.connection?.connection_company && (
+                            <p className="text-sm text-muted-foreground">{shared.connection.connection_company}</p>
+                          )}
+                          {shared.connection?.connection_email && (
+                            <a
+                              href={`mailto:${shared.connection.connection_email}`}
+                              className="text-xs text-muted-foreground hover:text-primary"
+                            >
+                              {shared.connection.connection_email}
+                            </a>
+                          )}
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Shared by {shared.shared_by === currentUserId ? "you" : shared.shared_by_name || "a teammate"}
+                          </p>
+                        </div>
+                        {(shared.shared_by === currentUserId || canManage) && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => unshareConnection(shared.id)}
+                            className="flex-shrink-0 text-muted-foreground"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </Card>
+                  ))
+                )}
+              </TabsContent>
+
+              {/* Members and invites */}
+              <TabsContent value="members" className="space-y-4 mt-4">
+                {canManage && (
+                  <Card className="bg-card border-border p-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <span className="text-foreground font-medium">Invite a teammate</span>
+                      <span className="text-xs text-muted-foreground">{seatsRemaining} seats left</span>
+                    </div>
+                    <div className="flex gap-2">
+                      <Input
+                        type="email"
+                        placeholder="colleague@company.com"
+                        value={inviteEmail}
+                        onChange={(e) => setInviteEmail(e.target.value)}
+                        className="bg-secondary border-border text-foreground"
+                      />
+                      <Select value={inviteRole} onValueChange={(v) => setInviteRole(v as WorkspaceRole)}>
+                        <SelectTrigger className="w-28 bg-secondary border-border">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="member">Member</SelectItem>
+                          <SelectItem value="admin">Admin</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        onClick={handleInvite}
+                        disabled={inviting || !inviteEmail.trim() || seatsRemaining === 0}
+                        className="bg-primary text-primary-foreground"
+                      >
+                        {inviting ? <LoadingSpinner size="sm" /> : <Send className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                  </Card>
+                )}
+
+                <div className="space-y-3">
+                  {members.map(member => (
+                    <Card key={member.id} className="bg-card border-border p-4">
+                      <div className="flex items-center gap-4">
+                        <OptimizedAvatar
+                          src={member.profile?.avatar_url}
+                          alt={member.profile?.full_name || "Member"}
+                          fallback={member.profile?.full_name?.charAt(0) || "?"}
+                          size="md"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <p className="font-semibold text-foreground">
+                            {member.profile?.full_name || "Team member"}
+                            {member.user_id === currentUserId && (
+                              <span className="text-muted-foreground font-normal"> (you)</span>
+                            )}
+                          </p>
+                          {member.profile?.job_title && (
+                            <p className="text-sm text-muted-foreground">{member.profile.job_title}</p>
+                          )}
+                        </div>
+                        <Badge variant="outline" className="border-primary/50 text-primary">
+                          {roleLabels[member.role]}
+                        </Badge>
+                        {canManage && member.role !== "owner" && member.user_id !== currentUserId && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon" className="flex-shrink-0">
+                                <MoreVertical className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              {myRole === "owner" && (
+                                <DropdownMenuItem
+                                  onClick={() => updateMemberRole(member.id, member.role === "admin" ? "member" : "admin")}
+                                >
+                                  {member.role === "admin" ? "Make member" : "Make admin"}
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuItem
+                                onClick={() => removeMember(member.id)}
+                                className="text-destructive"
+                              >
+                                Remove from team
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
+                      </div>
+                    </Card>
+                  ))}
+                </div>
+
+                {canManage && pendingInvites.length > 0 && (
+                  <div className="space-y-3">
+                    <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide">
+                      Pending Invites
+                    </h3>
+                    {pendingInvites.map(invite => (
+                      <Card key={invite.id} className="bg-card border-border p-4">
+                        <div className="flex items-center gap-4">
+                          <div className="p-2 bg-secondary rounded-full">
+                            <Mail className="h-4 w-4 text-muted-foreground" />
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <p className="text-foreground truncate">{invite.email}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {roleLabels[invite.role]} · sent {formatDistanceToNow(new Date(invite.created_at), { addSuffix: true })}
+                            </p>
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => revokeInvite(invite.id)}
+                            className="text-muted-foreground hover:text-destructive"
+                          >
+                            Revoke
+                          </Button>
+                        </div>
+                      </Card>
+                    ))}
+                  </div>
+                )}
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </div>
+
+      <UpgradePrompt
+        open={showUpgrade}
+        onOpenChange={setShowUpgrade}
+        feature="team"
+      />
+    </Layout>
+  );
+}
@@ -38,12 +38,12 @@ export async function sendBuizlyEmail(
 
 /**
  * Send welcome email when user signs up
+ * The profile link is built by the edge function from the sender's current slug
  */
-export async function sendWelcomeEmail(userEmail: string, userName: string, profileUrl: string) {
+export async function sendWelcomeEmail(userEmail: string, userName: string) {
   return sendBuizlyEmail("welcome", {
     to: userEmail,
     name: userName,
-    profileUrl,
   });
 }
 
@@ -70,6 +70,7 @@ export async function sendContactRequestEmail(
 
 /**
  * Send email when someone shares their digital business card
+ * The card link is built by the edge function from the sender's current slug
  */
 export async function sendCardConnectionEmail(
   recipientEmail: string,
@@ -77,8 +78,7 @@ export async function sendCardConnectionEmail(
   jobTitle?: string,
   company?: string,
   email?: string,
-  phone?: string,
-  cardUrl?: string
+  phone?: string
 ) {
   return sendBuizlyEmail("cardConnection", {
     to: recipientEmail,
@@ -87,6 +87,5 @@ export async function sendCardConnectionEmail(
     company,
     email,
     phone,
-    cardUrl: cardUrl || window.location.origin,
   });
 }
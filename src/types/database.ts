@@ -1,6 +1,11 @@
 // Extended types for the application
+import type { Json } from '@/integrations/supabase/types';
+import type { LeadFormField, LeadFormFieldType } from '../../supabase/functions/_shared/leadFieldRules.ts';
+
 export type MeetingStatus = 'pending' | 'confirmed' | 'declined' | 'cancelled' | 'rescheduled';
 
+export type MeetingMode = 'in_person' | 'phone' | 'video';
+
 export type NotificationType = 
   | 'meeting_request'
   | 'meeting_confirmed'
@@ -22,10 +27,42 @@ export interface MeetingParticipant {
   name: string | null;
   response: MeetingStatus;
   responded_at: string | null;
+  // Free-text suggestion from before structured proposals; read-only
   suggested_time: string | null;
   created_at: string;
 }
 
+export type TimeProposalStatus = 'pending' | 'accepted' | 'dismissed';
+
+// A start time a participant suggested instead of the meeting's
+export interface MeetingTimeProposal {
+  id: string;
+  meeting_id: string;
+  participant_id: string;
+  starts_at: string;
+  note: string | null;
+  status: TimeProposalStatus;
+  created_at: string;
+}
+
+// A free-text or voice note on a meeting; each row holds one of the two
+export interface MeetingNote {
+  id: string;
+  meeting_id: string;
+  text_note: string | null;
+  audio_note_url: string | null;
+  created_at: string;
+}
+
+export interface MeetingMedia {
+  id: string;
+  meeting_id: string;
+  media_type: 'photo';
+  // Path in the private meeting-media bucket
+  storage_path: string;
+  created_at: string;
+}
+
 export interface Notification {
   id: string;
   user_id: string;
@@ -49,28 +86,92 @@ export interface UserSettings {
   outlook_calendar_connected: boolean;
   outlook_refresh_token: string | null;
   ical_url: string | null;
+  // Secret in the subscribable feed URL; null when the feed is off
+  calendar_feed_token: string | null;
+  ical_last_synced_at: string | null;
+  // Why the last iCal fetch failed; null when it worked
+  ical_sync_error: string | null;
+  // Google's incremental sync token; reset on disconnect
+  google_sync_token: string | null;
+  google_last_synced_at: string | null;
+  // Days to keep past meetings; null keeps them forever
+  meeting_retention_days: number | null;
   theme: string;
   created_at: string;
   updated_at: string;
 }
 
+// A busy time from the user's iCal feed
+export interface BusyBlock {
+  id: string;
+  user_id: string;
+  uid: string | null;
+  summary: string | null;
+  starts_at: string;
+  ends_at: string;
+  // Starts/ends are UTC midnights covering those calendar days in the viewer's zone
+  all_day: boolean;
+  created_at: string;
+}
+
+export interface GoogleSyncConflict {
+  etag: string | null;
+  status: 'confirmed' | 'cancelled';
+  title: string | null;
+  starts_at: string | null;
+  duration_minutes: number | null;
+  location: string | null;
+  time_zone: string | null;
+  recurrence_rule: string | null;
+  updated_at: string | null;
+}
+
 export interface Meeting {
   id: string;
   user_id: string;
   connection_id: string | null;
+  // Organizer's wall-clock date/time, derived from starts_at and time_zone
   meeting_date: string;
   meeting_time: string;
+  starts_at: string;
+  // Organizer's IANA zone; null only for meetings not yet localized
+  time_zone: string | null;
+  duration_minutes: number;
   follow_up_sent: boolean;
   created_at: string;
   title: string | null;
   description: string | null;
+  agenda: string | null;
+  // Address for in-person meetings, dial-in number for phone meetings
   location: string | null;
+  meeting_mode: MeetingMode;
+  // Join link for video meetings (Google Meet or Jitsi)
+  conference_url: string | null;
   status: MeetingStatus;
   organizer_id: string | null;
   google_calendar_event_id: string | null;
+  // Etag of the Google event as last synced
+  google_calendar_etag: string | null;
+  // Edited in Buizly and not yet pushed to Google
+  google_sync_pending: boolean;
+  // Google's version (a GoogleSyncConflict) when both sides changed since the last sync
+  google_sync_conflict: Json | null;
+  outlook_event_id: string | null;
+  // RFC 5545 SEQUENCE for calendar exports; bumped on every schedule change
+  ics_sequence: number;
+  updated_at: string;
   reminder_24h_sent: boolean;
   reminder_1h_sent: boolean;
   parent_meeting_id: string | null;
+  // RRULE body (e.g. FREQ=WEEKLY;INTERVAL=1); set on the row that defines a series
+  recurrence_rule: string | null;
+  // Original start times of cancelled occurrences
+  recurrence_exceptions: string[];
+  // Set when this row replaces one occurrence of a series
+  series_id: string | null;
+  original_starts_at: string | null;
+  // Set when a visitor booked this meeting from the owner's booking page
+  booking_page_id: string | null;
 }
 
 export interface Connection {
@@ -81,6 +182,9 @@ export interface Connection {
   connection_email: string | null;
   connection_phone: string | null;
   connection_company: string | null;
+  connection_avatar_url?: string | null;
+  connection_linkedin?: string | null;
+  source?: string;
   notes: string | null;
   created_at: string;
 }
@@ -99,3 +203,122 @@ export interface Profile {
   created_at: string;
   updated_at: string;
 }
+
+export type WorkspaceRole = 'owner' | 'admin' | 'member';
+
+export type WorkspaceInviteStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  owner_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkspaceMember {
+  id: string;
+  workspace_id: string;
+  user_id: string;
+  role: WorkspaceRole;
+  created_at: string;
+  profile?: {
+    id: string;
+    full_name: string;
+    avatar_url: string | null;
+    job_title: string | null;
+    email?: string;
+  };
+}
+
+export interface WorkspaceInvite {
+  id: string;
+  workspace_id: string;
+  email: string;
+  role: WorkspaceRole;
+  invited_by: string;
+  status: WorkspaceInviteStatus;
+  responded_at: string | null;
+  created_at: string;
+  workspace_name?: string;
+}
+
+export interface WorkspaceConnection {
+  id: string;
+  workspace_id: string;
+  connection_id: string;
+  shared_by: string;
+  created_at: string;
+  connection?: Connection;
+  shared_by_name?: string;
+}
+
+// Shared with submit-lead-form
+export type { LeadFormField, LeadFormFieldType };
+
+export interface LeadForm {
+  id: string;
+  user_id: string;
+  is_enabled: boolean;
+  title: string;
+  description: string | null;
+  fields: LeadFormField[];
+  consent_required: boolean;
+  consent_text: string;
+  submit_label: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// A weekly availability window in the booking page owner's zone; day 0 = Sunday
+export interface BookingAvailabilityWindow {
+  day: number;
+  start: string; // "09:00"
+  end: string;   // "17:00"
+}
+
+export interface BookingMeetingType {
+  id: string;
+  title: string;
+  duration_minutes: number;
+  description: string | null;
+  location: string | null;
+}
+
+export interface BookingPage {
+  id: string;
+  user_id: string;
+  is_enabled: boolean;
+  title: string;
+  description: string | null;
+  time_zone: string;
+  availability: BookingAvailabilityWindow[];
+  meeting_types: BookingMeetingType[];
+  buffer_before_minutes: number;
+  buffer_after_minutes: number;
+  min_notice_minutes: number;
+  max_days_ahead: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CardTemplateId = 'default' | 'ocean' | 'sunset' | 'royal' | 'gold' | 'minimal';
+export type CardFontId = 'default' | 'serif' | 'mono' | 'rounded';
+export type QrErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface CardDesign {
+  id: string;
+  user_id: string;
+  template_id: CardTemplateId;
+  accent_color: string;
+  background_color: string;
+  qr_foreground: string;
+  qr_background: string;
+  qr_error_correction: QrErrorCorrectionLevel;
+  qr_margin: number;
+  qr_show_logo: boolean;
+  font_family: CardFontId;
+  logo_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
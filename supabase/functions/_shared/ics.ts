@@ -0,0 +1,295 @@
+// iCalendar (RFC 5545) writer for the meetings feed and emailed invitations.
+
+import { formatInTimeZone } from "https://esm.sh/date-fns-tz@3.2.0";
+
+export interface FeedMeeting {
+  id: string;
+  title: string | null;
+  description: string | null;
+  agenda: string | null;
+  location: string | null;
+  conference_url: string | null;
+  starts_at: string;
+  time_zone: string | null;
+  duration_minutes: number;
+  status: string | null;
+  recurrence_rule: string | null;
+  recurrence_exceptions: string[] | null;
+  series_id: string | null;
+  original_starts_at: string | null;
+  ics_sequence: number;
+  created_at: string;
+  updated_at: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// The same UID for a meeting everywhere, so calendar apps update it in place
+export function getMeetingUid(meetingId: string): string {
+  return `${meetingId}@buizly.app`;
+}
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+export function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function formatLocal(date: Date, timeZone: string): string {
+  return formatInTimeZone(date, timeZone, "yyyyMMdd'T'HHmmss");
+}
+
+function isValidTimeZone(timeZone: string | null): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// 7200000 -> "+0200"
+function formatOffset(offsetMs: number): string {
+  const minutes = Math.round(Math.abs(offsetMs) / MINUTE_MS);
+  const sign = offsetMs < 0 ? "-" : "+";
+  return `${sign}${String(Math.floor(minutes / 60)).padStart(2, "0")}${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * A VTIMEZONE for `timeZone`, built from the offset changes it has in
+ * `year` and repeated yearly (e.g. "last Sunday of March"). Zones without
+ * daylight saving get a single STANDARD block.
+ */
+export function buildTimeZone(timeZone: string, year: number): string[] {
+  // Wall-clock time read as UTC, minus the instant (all probes are on whole minutes)
+  const offsetAt = (ms: number) =>
+    new Date(formatInTimeZone(new Date(ms), timeZone, "yyyy-MM-dd'T'HH:mm:ss'Z'")).getTime() - ms;
+  const yearStart = Date.UTC(year, 0, 1);
+  const yearEnd = Date.UTC(year + 1, 0, 1);
+
+  const transitions: { at: number; from: number; to: number }[] = [];
+  let previous = offsetAt(yearStart);
+  for (let day = yearStart + DAY_MS; day <= yearEnd; day += DAY_MS) {
+    const offset = offsetAt(day);
+    if (offset === previous) continue;
+
+    // Narrow the change down to the minute
+    let low = day - DAY_MS;
+    let high = day;
+    while (high - low > MINUTE_MS) {
+      const mid = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (offsetAt(mid) === previous) low = mid;
+      else high = mid;
+    }
+    transitions.push({ at: high, from: previous, to: offset });
+    previous = offset;
+  }
+
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+  if (transitions.length === 0) {
+    const offset = formatOffset(previous);
+    lines.push("BEGIN:STANDARD", "DTSTART:19700101T000000", `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, "END:STANDARD");
+  }
+
+  for (const transition of transitions) {
+    // Written in the wall-clock time that was in effect just before the change
+    const local = new Date(transition.at + transition.from);
+    const dayOfMonth = local.getUTCDate();
+    const daysInMonth = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 0)).getUTCDate();
+    const week = dayOfMonth + 7 > daysInMonth ? -1 : Math.ceil(dayOfMonth / 7);
+    const component = transition.to > transition.from ? "DAYLIGHT" : "STANDARD";
+
+    lines.push(
+      `BEGIN:${component}`,
+      `DTSTART:${formatUtc(local).slice(0, 15)}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${local.getUTCMonth() + 1};BYDAY=${week}${WEEKDAYS[local.getUTCDay()]}`,
+      `TZOFFSETFROM:${formatOffset(transition.from)}`,
+      `TZOFFSETTO:${formatOffset(transition.to)}`,
+      `END:${component}`
+    );
+  }
+
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+// DESCRIPTION carries the agenda too, and the join link for apps that ignore CONFERENCE
+function getEventDescription(meeting: FeedMeeting): string {
+  return [
+    meeting.description,
+    meeting.agenda && `Agenda:\n${meeting.agenda}`,
+    meeting.conference_url && `Join video call: ${meeting.conference_url}`,
+  ].filter(Boolean).join("\n\n");
+}
+
+function formatDateProperty(name: string, date: Date, timeZone: string | null): string {
+  return timeZone ? `${name};TZID=${timeZone}:${formatLocal(date, timeZone)}` : `${name}:${formatUtc(date)}`;
+}
+
+// Zone for DTSTART/DTEND; overrides must use the series' zone so RECURRENCE-ID matches its occurrences
+function getEventTimeZone(meeting: FeedMeeting, series?: FeedMeeting): string | null {
+  const zoneSource = series || meeting;
+  return isValidTimeZone(zoneSource.time_zone) && zoneSource.time_zone !== "UTC" ? zoneSource.time_zone : null;
+}
+
+function buildEvent(meeting: FeedMeeting, timeZone: string | null, series?: FeedMeeting, extra: string[] = []): string[] {
+  const start = new Date(meeting.starts_at);
+  const end = new Date(start.getTime() + meeting.duration_minutes * MINUTE_MS);
+  const description = getEventDescription(meeting);
+
+  const lines = [
+    "BEGIN:VEVENT",
+    // Edited occurrences share the series' UID and say which occurrence they replace
+    `UID:${getMeetingUid(series ? series.id : meeting.id)}`,
+    `DTSTAMP:${formatUtc(new Date(meeting.updated_at))}`,
+    `CREATED:${formatUtc(new Date(meeting.created_at))}`,
+    `LAST-MODIFIED:${formatUtc(new Date(meeting.updated_at))}`,
+    `SEQUENCE:${meeting.ics_sequence}`,
+    formatDateProperty("DTSTART", start, timeZone),
+    formatDateProperty("DTEND", end, timeZone),
+    `SUMMARY:${escapeText(meeting.title || "Meeting")}`,
+  ];
+
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+  const location = meeting.location || meeting.conference_url;
+  if (location) lines.push(`LOCATION:${escapeText(location)}`);
+  // RFC 7986
+  if (meeting.conference_url) {
+    lines.push(`CONFERENCE;VALUE=URI;FEATURE=AUDIO,VIDEO;LABEL=Join video call:${meeting.conference_url}`);
+  }
+  lines.push(...extra);
+
+  if (series && meeting.original_starts_at) {
+    lines.push(formatDateProperty("RECURRENCE-ID", new Date(meeting.original_starts_at), timeZone));
+  } else if (meeting.recurrence_rule) {
+    lines.push(`RRULE:${meeting.recurrence_rule}`);
+    for (const exception of meeting.recurrence_exceptions || []) {
+      lines.push(formatDateProperty("EXDATE", new Date(exception), timeZone));
+    }
+  }
+
+  const cancelled = meeting.status === "cancelled" || meeting.status === "declined";
+  lines.push(`STATUS:${cancelled ? "CANCELLED" : "CONFIRMED"}`, "END:VEVENT");
+  return lines;
+}
+
+/**
+ * The whole feed. Edited occurrences are written as RECURRENCE-ID overrides of
+ * their series (and dropped if the series isn't in the feed); cancelled
+ * meetings stay in with STATUS:CANCELLED so subscribers remove them.
+ */
+export function buildCalendar(meetings: FeedMeeting[], calendarName: string): string {
+  const byId = new Map(meetings.map(m => [m.id, m]));
+
+  const zoneYears = new Map<string, number>();
+  const events: string[] = [];
+  for (const meeting of meetings) {
+    const series = meeting.series_id ? byId.get(meeting.series_id) : undefined;
+    if (meeting.series_id && !series) continue;
+
+    const timeZone = getEventTimeZone(meeting, series);
+    if (timeZone) {
+      const year = new Date((series || meeting).starts_at).getUTCFullYear();
+      zoneYears.set(timeZone, Math.min(zoneYears.get(timeZone) ?? year, year));
+    }
+
+    events.push(...buildEvent(meeting, timeZone, series));
+  }
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Buizly//Meetings//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    "X-PUBLISHED-TTL:PT15M",
+    "REFRESH-INTERVAL;VALUE=DURATION:PT15M",
+  ];
+  for (const [timeZone, year] of zoneYears) {
+    lines.push(...buildTimeZone(timeZone, year));
+  }
+  lines.push(...events, "END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export interface InvitationPerson {
+  name: string | null;
+  email: string;
+}
+
+// Quoted parameter values can't contain quotes or control characters
+function formatPerson(property: string, person: InvitationPerson, params: string[] = []): string {
+  const name = person.name?.replace(/["\p{Cc}]/gu, "").trim();
+  return [property, ...(name ? [`CN="${name}"`] : []), ...params].join(";") + `:mailto:${person.email}`;
+}
+
+/**
+ * An iTIP (RFC 5546) message for one attendee: METHOD:REQUEST invites or
+ * updates, METHOD:CANCEL removes the event. Calendar apps match it to the
+ * copy they already have by UID and keep the one with the highest SEQUENCE.
+ * Pass `series` when `meeting` is an edited occurrence.
+ */
+export function buildInvitation(
+  method: "REQUEST" | "CANCEL",
+  meeting: FeedMeeting,
+  organizer: InvitationPerson,
+  attendee: InvitationPerson & { response: string | null },
+  series?: FeedMeeting
+): string {
+  const timeZone = getEventTimeZone(meeting, series);
+  const partstat = attendee.response === "confirmed" ? "ACCEPTED" : attendee.response === "declined" ? "DECLINED" : "NEEDS-ACTION";
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Buizly//Meetings//EN",
+    "CALSCALE:GREGORIAN",
+    `METHOD:${method}`,
+  ];
+  if (timeZone) {
+    lines.push(...buildTimeZone(timeZone, new Date((series || meeting).starts_at).getUTCFullYear()));
+  }
+  lines.push(
+    ...buildEvent(meeting, timeZone, series, [
+      formatPerson("ORGANIZER", organizer),
+      formatPerson("ATTENDEE", attendee, ["ROLE=REQ-PARTICIPANT", `PARTSTAT=${partstat}`, "RSVP=TRUE"]),
+    ]),
+    "END:VCALENDAR"
+  );
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
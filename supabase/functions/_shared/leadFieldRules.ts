@@ -0,0 +1,53 @@
+// Lead capture field rules, checked in the browser by LeadCaptureForm and
+// again by submit-lead-form. The web app imports this file directly, so it
+// must stay free of Deno APIs and remote imports.
+
+// Standard field types map onto connection columns; text/textarea answers are kept in lead_form_data
+export type LeadFormFieldType = "name" | "email" | "phone" | "company" | "title" | "linkedin" | "text" | "textarea";
+
+export interface LeadFormField {
+  id: string;
+  type: LeadFormFieldType;
+  label: string;
+  required: boolean;
+}
+
+interface LeadFieldRule {
+  maxLength: number;
+  tooLong: string;
+  pattern?: RegExp;
+  invalid?: string;
+}
+
+export const LEAD_FIELD_RULES: Record<LeadFormFieldType, LeadFieldRule> = {
+  name: { maxLength: 100, tooLong: "Name is too long" },
+  email: {
+    maxLength: 255,
+    tooLong: "Email is too long",
+    pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+    invalid: "Invalid email address",
+  },
+  phone: { maxLength: 20, tooLong: "Phone number is too long" },
+  company: { maxLength: 100, tooLong: "Company is too long" },
+  title: { maxLength: 100, tooLong: "Title is too long" },
+  linkedin: { maxLength: 255, tooLong: "URL is too long", pattern: /^https?:\/\/\S+$/i, invalid: "Invalid URL" },
+  text: { maxLength: 200, tooLong: "Answer is too long" },
+  textarea: { maxLength: 1000, tooLong: "Answer is too long" },
+};
+
+// Returns the trimmed value, with an error message if it breaks the field's rule
+export function validateLeadField(field: LeadFormField, raw: unknown): { value: string; error?: string } {
+  const value = typeof raw === "string" ? raw.trim() : "";
+  const rule = LEAD_FIELD_RULES[field.type];
+
+  if (!value) {
+    return field.required ? { value, error: `${field.label} is required` } : { value };
+  }
+  if (value.length > rule.maxLength) {
+    return { value, error: rule.tooLong };
+  }
+  if (rule.pattern && !rule.pattern.test(value)) {
+    return { value, error: rule.invalid };
+  }
+  return { value };
+}
@@ -0,0 +1,42 @@
+// Recurring meeting expansion, as getOccurrenceStarts in src/lib/recurrence.ts
+// does it in the app: the rule runs in the organizer's wall-clock time, so a
+// weekly 09:00 meeting stays at 09:00 across DST changes.
+
+import { formatInTimeZone, fromZonedTime } from "https://esm.sh/date-fns-tz@3.2.0";
+import { RRule } from "https://esm.sh/rrule@2.8.1";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RecurringMeeting {
+  starts_at: string;
+  time_zone: string | null;
+  recurrence_rule: string;
+  recurrence_exceptions: string[] | null;
+}
+
+/**
+ * Start times (epoch ms) of the series' occurrences around `from`..`to`,
+ * without cancelled ones. The window is widened by a day on each side so no
+ * occurrence is lost to the zone shift; callers trim it to what they need.
+ * An invalid rule yields no occurrences.
+ */
+export function getOccurrenceStarts(meeting: RecurringMeeting, from: Date, to: Date): number[] {
+  const timeZone = meeting.time_zone || "UTC";
+  const toFloating = (date: Date) => new Date(formatInTimeZone(date, timeZone, "yyyy-MM-dd'T'HH:mm:ss'Z'"));
+
+  try {
+    const rule = new RRule({
+      ...RRule.parseString(meeting.recurrence_rule),
+      dtstart: toFloating(new Date(meeting.starts_at)),
+    });
+    const cancelled = new Set((meeting.recurrence_exceptions || []).map(d => new Date(d).getTime()));
+
+    return rule
+      .between(toFloating(new Date(from.getTime() - DAY_MS)), toFloating(new Date(to.getTime() + DAY_MS)), true)
+      .map(date => fromZonedTime(date.toISOString().slice(0, 19), timeZone).getTime())
+      .filter(time => !cancelled.has(time));
+  } catch {
+    console.warn("[recurrence] Skipping invalid recurrence rule:", meeting.recurrence_rule);
+    return [];
+  }
+}
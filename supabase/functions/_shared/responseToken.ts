@@ -0,0 +1,125 @@
+// Signed links that let an invited participant respond without an account.
+// A token names one row in meeting_response_tokens, which holds its expiry
+// and records when it was used, so each link works once.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const TOKEN_TTL_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface TokenPayload {
+  // meeting_response_tokens.id
+  t: string;
+  // meeting_participants.id
+  p: string;
+  // Expiry, epoch milliseconds
+  e: number;
+}
+
+export interface VerifiedToken {
+  tokenId: string;
+  participantId: string;
+  usedAt: string | null;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), char => char.charCodeAt(0));
+}
+
+async function getSigningKey(): Promise<CryptoKey> {
+  const secret = Deno.env.get("MEETING_RESPONSE_SECRET");
+  if (!secret) {
+    throw new Error("MEETING_RESPONSE_SECRET not configured");
+  }
+  return await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+/**
+ * Issues a token for a participant. Their earlier unused tokens stop working,
+ * so only the latest invitation's links can be used.
+ */
+export async function createResponseToken(supabase: SupabaseClient, participantId: string): Promise<string> {
+  const { error: revokeError } = await supabase
+    .from("meeting_response_tokens")
+    .delete()
+    .eq("participant_id", participantId)
+    .is("used_at", null);
+  if (revokeError) throw revokeError;
+
+  const expiresAt = Date.now() + TOKEN_TTL_DAYS * DAY_MS;
+  const { data, error } = await supabase
+    .from("meeting_response_tokens")
+    .insert({ participant_id: participantId, expires_at: new Date(expiresAt).toISOString() })
+    .select("id")
+    .single();
+  if (error) throw error;
+
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify({ t: data.id, p: participantId, e: expiresAt })));
+  const signature = await crypto.subtle.sign("HMAC", await getSigningKey(), new TextEncoder().encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Checks a token's signature, expiry and that it was issued and not revoked.
+ * Returns null for anything invalid; a used token is returned with usedAt set.
+ */
+export async function verifyResponseToken(supabase: SupabaseClient, token: string): Promise<VerifiedToken | null> {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  let valid: boolean;
+  let claims: TokenPayload;
+  try {
+    valid = await crypto.subtle.verify(
+      "HMAC",
+      await getSigningKey(),
+      fromBase64Url(signature),
+      new TextEncoder().encode(payload)
+    );
+    claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+  } catch (error: any) {
+    if (error.message?.includes("MEETING_RESPONSE_SECRET")) throw error;
+    return null;
+  }
+
+  if (!valid || typeof claims?.t !== "string" || typeof claims.p !== "string" || typeof claims.e !== "number") {
+    return null;
+  }
+  if (claims.e < Date.now()) return null;
+
+  const { data, error } = await supabase
+    .from("meeting_response_tokens")
+    .select("id, participant_id, expires_at, used_at")
+    .eq("id", claims.t)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data || data.participant_id !== claims.p || new Date(data.expires_at).getTime() < Date.now()) {
+    return null;
+  }
+
+  return { tokenId: data.id, participantId: data.participant_id, usedAt: data.used_at };
+}
+
+// Marks the token used; false if another request used it first
+export async function consumeResponseToken(supabase: SupabaseClient, tokenId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("meeting_response_tokens")
+    .update({ used_at: new Date().toISOString() })
+    .eq("id", tokenId)
+    .is("used_at", null)
+    .select("id");
+  if (error) throw error;
+  return !!data && data.length > 0;
+}
@@ -0,0 +1,183 @@
+// Test helpers for edge functions. Function logic takes its API clients and
+// Supabase client as arguments, so tests point the clients at a local mock
+// of the external API and pass an in-memory stand-in for the database.
+
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+type QueryResult = { data: unknown; error: { message: string } | null };
+
+// Supports the query-builder calls the functions make: filters, single rows,
+// and writes that can chain .select() to read back the affected rows
+class FakeQuery implements PromiseLike<QueryResult> {
+  private operation: "select" | "insert" | "update" | "upsert" | "delete" = "select";
+  private filters: Filter[] = [];
+  private values: Row[] = [];
+  private conflictColumn = "id";
+  private maxRows: number | null = null;
+  private rowMode: "many" | "single" | "maybeSingle" = "many";
+
+  constructor(private rows: Row[]) {}
+
+  select(_columns?: string) {
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.operation = "insert";
+    this.values = [values].flat();
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string } = {}) {
+    this.operation = "upsert";
+    this.values = [values].flat();
+    this.conflictColumn = options.onConflict || "id";
+    return this;
+  }
+
+  update(values: Row) {
+    this.operation = "update";
+    this.values = [values];
+    return this;
+  }
+
+  delete() {
+    this.operation = "delete";
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push(row => row[column] !== value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push(row => values.includes(row[column]));
+    return this;
+  }
+
+  is(column: string, value: null | boolean) {
+    this.filters.push(row => (row[column] ?? null) === value);
+    return this;
+  }
+
+  order(_column: string, _options?: unknown) {
+    return this;
+  }
+
+  limit(count: number) {
+    this.maxRows = count;
+    return this;
+  }
+
+  single() {
+    this.rowMode = "single";
+    return this;
+  }
+
+  maybeSingle() {
+    this.rowMode = "maybeSingle";
+    return this;
+  }
+
+  private matches(row: Row): boolean {
+    return this.filters.every(filter => filter(row));
+  }
+
+  private run(): QueryResult {
+    let affected: Row[];
+
+    switch (this.operation) {
+      case "insert":
+        affected = this.values.map(values => ({ id: crypto.randomUUID(), ...values }));
+        this.rows.push(...affected);
+        break;
+      case "upsert":
+        affected = this.values.map(values => {
+          const existing = this.rows.find(row => row[this.conflictColumn] === values[this.conflictColumn]);
+          if (existing) return Object.assign(existing, values);
+          const row = { id: crypto.randomUUID(), ...values };
+          this.rows.push(row);
+          return row;
+        });
+        break;
+      case "update":
+        affected = this.rows.filter(row => this.matches(row));
+        affected.forEach(row => Object.assign(row, this.values[0]));
+        break;
+      case "delete":
+        affected = this.rows.filter(row => this.matches(row));
+        affected.forEach(row => this.rows.splice(this.rows.indexOf(row), 1));
+        break;
+      default:
+        affected = this.rows.filter(row => this.matches(row));
+    }
+
+    if (this.maxRows !== null) affected = affected.slice(0, this.maxRows);
+    const data = affected.map(row => structuredClone(row));
+
+    if (this.rowMode === "many") return { data, error: null };
+    if (data.length > 1 || (data.length === 0 && this.rowMode === "single")) {
+      return { data: null, error: { message: `Expected one row, found ${data.length}` } };
+    }
+    return { data: data[0] ?? null, error: null };
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve(this.run()).then(onfulfilled, onrejected);
+  }
+}
+
+export interface FakeSupabase {
+  // Rows by table name; tests seed and inspect these directly
+  tables: Record<string, Row[]>;
+  from(table: string): FakeQuery;
+}
+
+export function createFakeSupabase(tables: Record<string, Row[]> = {}): FakeSupabase {
+  return {
+    tables,
+    from(table) {
+      tables[table] ??= [];
+      return new FakeQuery(tables[table]);
+    },
+  };
+}
+
+export interface MockServer {
+  url: string;
+  // Every request the mock received, in order
+  requests: { method: string; path: string; search: URLSearchParams; headers: Headers; body: string }[];
+}
+
+// Serves `handler` on a free local port for the length of `run`
+export async function withMockServer(
+  handler: (req: Request, url: URL) => Response | Promise<Response>,
+  run: (server: MockServer) => Promise<void>
+) {
+  const requests: MockServer["requests"] = [];
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, async req => {
+    const url = new URL(req.url);
+    const body = await req.text();
+    requests.push({ method: req.method, path: url.pathname, search: url.searchParams, headers: req.headers, body });
+    return handler(new Request(req.url, { method: req.method, headers: req.headers, body: body || undefined }), url);
+  });
+
+  try {
+    await run({ url: `http://127.0.0.1:${server.addr.port}`, requests });
+  } finally {
+    await server.shutdown();
+  }
+}
+
+export function jsonReply(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...headers } });
+}
@@ -0,0 +1,41 @@
+// AES-GCM encryption for the OAuth tokens stored in calendar_integrations.
+// Encrypted values are "enc:" + base64(iv || ciphertext).
+
+async function getEncryptionKey(): Promise<CryptoKey> {
+  const keyString = Deno.env.get("TOKEN_ENCRYPTION_KEY");
+  if (!keyString) {
+    throw new Error("TOKEN_ENCRYPTION_KEY not configured");
+  }
+
+  // Hash the key to get exactly 32 bytes for AES-256
+  const encoder = new TextEncoder();
+  const hashBuffer = await crypto.subtle.digest("SHA-256", encoder.encode(keyString));
+
+  return crypto.subtle.importKey("raw", hashBuffer, { name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+}
+
+export async function encryptToken(token: string): Promise<string> {
+  const key = await getEncryptionKey();
+  // Random IV for each encryption
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(token));
+
+  const combined = new Uint8Array(iv.length + encrypted.byteLength);
+  combined.set(iv);
+  combined.set(new Uint8Array(encrypted), iv.length);
+  return "enc:" + btoa(String.fromCharCode(...combined));
+}
+
+export async function decryptToken(encryptedToken: string): Promise<string> {
+  // Plaintext tokens predate encryption
+  if (!encryptedToken.startsWith("enc:")) return encryptedToken;
+
+  const key = await getEncryptionKey();
+  const combined = Uint8Array.from(atob(encryptedToken.substring(4)), c => c.charCodeAt(0));
+  const decrypted = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: combined.slice(0, 12) },
+    key,
+    combined.slice(12)
+  );
+  return new TextDecoder().decode(decrypted);
+}
@@ -0,0 +1,431 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { formatInTimeZone, fromZonedTime } from "https://esm.sh/date-fns-tz@3.2.0";
+import { getOccurrenceStarts } from "../_shared/recurrence.ts";
+import { decryptToken } from "../_shared/tokenCrypto.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface AvailabilityWindow {
+  day: number;
+  start: string;
+  end: string;
+}
+
+interface MeetingType {
+  id: string;
+  title: string;
+  duration_minutes: number;
+  description: string | null;
+  location: string | null;
+}
+
+interface BookingPage {
+  id: string;
+  user_id: string;
+  time_zone: string;
+  availability: AvailabilityWindow[];
+  meeting_types: MeetingType[];
+  buffer_before_minutes: number;
+  buffer_after_minutes: number;
+  min_notice_minutes: number;
+  max_days_ahead: number;
+}
+
+// "slots" lists free start times in [from, to); "book" reserves one of them
+type BookingRequest =
+  | { action: "slots"; ownerId: string; meetingTypeId: string; from: string; to: string }
+  | { action: "book"; ownerId: string; meetingTypeId: string; startsAt: string; name: string; email: string; note?: string };
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Visitors browse a week or so at a time
+const MAX_RANGE_DAYS = 42;
+
+// Rate limiting map (in production, use Redis or similar)
+const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
+
+function checkRateLimit(key: string, limit: number, windowMs: number): boolean {
+  const now = Date.now();
+  const existing = rateLimitMap.get(key);
+
+  if (!existing || now > existing.resetAt) {
+    rateLimitMap.set(key, { count: 1, resetAt: now + windowMs });
+    return true;
+  }
+
+  if (existing.count >= limit) return false;
+
+  existing.count++;
+  return true;
+}
+
+// Validate UUID format
+function validateUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== "string") return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+}
+
+async function refreshAccessToken(encryptedRefreshToken: string): Promise<string> {
+  const response = await fetch("https://oauth2.googleapis.com/token", {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: Deno.env.get("GOOGLE_OAUTH_CLIENT_ID")!,
+      client_secret: Deno.env.get("GOOGLE_OAUTH_CLIENT_SECRET")!,
+      refresh_token: await decryptToken(encryptedRefreshToken),
+      grant_type: "refresh_token",
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to refresh access token");
+  }
+
+  const data = await response.json();
+  return data.access_token;
+}
+
+// Busy times from the owner's Google Calendar; slots still work if Google is unreachable
+async function getGoogleBusy(supabase: SupabaseClient, ownerId: string, from: Date, to: Date): Promise<Interval[]> {
+  const { data: settings } = await supabase
+    .from("user_settings")
+    .select("google_calendar_connected, google_refresh_token")
+    .eq("user_id", ownerId)
+    .maybeSingle();
+
+  if (!settings?.google_calendar_connected || !settings.google_refresh_token) return [];
+
+  try {
+    const accessToken = await refreshAccessToken(settings.google_refresh_token);
+    const response = await fetch("https://www.googleapis.com/calendar/v3/freeBusy", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        timeMin: from.toISOString(),
+        timeMax: to.toISOString(),
+        items: [{ id: "primary" }],
+      }),
+    });
+
+    if (!response.ok) {
+      console.error("[book-meeting] Google free/busy error:", await response.text());
+      return [];
+    }
+
+    const data = await response.json();
+    const busy: { start: string; end: string }[] = data.calendars?.primary?.busy || [];
+    return busy.map(b => ({ start: new Date(b.start).getTime(), end: new Date(b.end).getTime() }));
+  } catch (error: any) {
+    console.error("[book-meeting] Google free/busy failed:", error.message);
+    return [];
+  }
+}
+
+// The owner's own meetings (one-off and recurring), ignoring cancelled and declined ones
+async function getMeetingBusy(supabase: SupabaseClient, ownerId: string, from: Date, to: Date): Promise<Interval[]> {
+  const columns = "starts_at, duration_minutes, time_zone, recurrence_rule, recurrence_exceptions";
+  // Meetings last at most a day, so one that started a day before `from` may still overlap
+  const [oneOffResult, seriesResult] = await Promise.all([
+    supabase
+      .from("meetings")
+      .select(columns)
+      .or(`user_id.eq.${ownerId},organizer_id.eq.${ownerId}`)
+      .not("status", "in", "(cancelled,declined)")
+      .is("recurrence_rule", null)
+      .gte("starts_at", new Date(from.getTime() - DAY_MS).toISOString())
+      .lt("starts_at", to.toISOString()),
+    supabase
+      .from("meetings")
+      .select(columns)
+      .or(`user_id.eq.${ownerId},organizer_id.eq.${ownerId}`)
+      .not("status", "in", "(cancelled,declined)")
+      .not("recurrence_rule", "is", null)
+      .lt("starts_at", to.toISOString()),
+  ]);
+
+  if (oneOffResult.error) throw oneOffResult.error;
+  if (seriesResult.error) throw seriesResult.error;
+
+  const busy: Interval[] = [];
+  for (const meeting of oneOffResult.data || []) {
+    const start = new Date(meeting.starts_at).getTime();
+    busy.push({ start, end: start + (meeting.duration_minutes || 60) * MINUTE_MS });
+  }
+  for (const series of seriesResult.data || []) {
+    for (const start of getOccurrenceStarts(series, from, to)) {
+      busy.push({ start, end: start + (series.duration_minutes || 60) * MINUTE_MS });
+    }
+  }
+  return busy;
+}
+
+// Busy times from the owner's iCal feed; all-day blocks cover those days in the page's zone
+async function getFeedBusy(supabase: SupabaseClient, page: BookingPage, from: Date, to: Date): Promise<Interval[]> {
+  const { data, error } = await supabase
+    .from("calendar_busy_blocks")
+    .select("starts_at, ends_at, all_day")
+    .eq("user_id", page.user_id)
+    .lt("starts_at", to.toISOString())
+    .gt("ends_at", new Date(from.getTime() - DAY_MS).toISOString());
+
+  if (error) throw error;
+
+  return (data || []).map(block => block.all_day
+    ? {
+        start: fromZonedTime(`${block.starts_at.slice(0, 10)}T00:00:00`, page.time_zone).getTime(),
+        end: fromZonedTime(`${block.ends_at.slice(0, 10)}T00:00:00`, page.time_zone).getTime(),
+      }
+    : { start: new Date(block.starts_at).getTime(), end: new Date(block.ends_at).getTime() }
+  );
+}
+
+function nextDay(day: string): string {
+  return new Date(new Date(`${day}T12:00:00Z`).getTime() + DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Free start times in [from, to): the owner's weekly windows, walked day by day
+ * in their zone, minus anything that overlaps a busy interval once the buffers
+ * are added around the new meeting.
+ */
+function buildSlots(page: BookingPage, durationMinutes: number, from: Date, to: Date, busy: Interval[]): string[] {
+  const now = Date.now();
+  const earliest = Math.max(from.getTime(), now + page.min_notice_minutes * MINUTE_MS);
+  const latest = Math.min(to.getTime(), now + page.max_days_ahead * DAY_MS);
+  if (earliest >= latest) return [];
+
+  const duration = durationMinutes * MINUTE_MS;
+  const before = page.buffer_before_minutes * MINUTE_MS;
+  const after = page.buffer_after_minutes * MINUTE_MS;
+  // Short meetings get quarter-hour starts, longer ones half-hour starts
+  const step = (durationMinutes >= 30 ? 30 : 15) * MINUTE_MS;
+
+  const slots: string[] = [];
+  const lastDay = formatInTimeZone(new Date(latest), page.time_zone, "yyyy-MM-dd");
+
+  for (let day = formatInTimeZone(new Date(earliest), page.time_zone, "yyyy-MM-dd"); day <= lastDay; day = nextDay(day)) {
+    const weekday = new Date(`${day}T12:00:00Z`).getUTCDay();
+
+    for (const hours of page.availability.filter(w => w.day === weekday)) {
+      const windowEnd = fromZonedTime(`${day}T${hours.end}:00`, page.time_zone).getTime();
+
+      for (
+        let start = fromZonedTime(`${day}T${hours.start}:00`, page.time_zone).getTime();
+        start + duration <= windowEnd;
+        start += step
+      ) {
+        if (start < earliest || start >= latest) continue;
+        const blockStart = start - before;
+        const blockEnd = start + duration + after;
+        if (busy.some(b => b.start < blockEnd && b.end > blockStart)) continue;
+        slots.push(new Date(start).toISOString());
+      }
+    }
+  }
+
+  return slots;
+}
+
+async function getFreeSlots(
+  supabase: SupabaseClient,
+  page: BookingPage,
+  meetingType: MeetingType,
+  from: Date,
+  to: Date
+): Promise<string[]> {
+  const bufferedFrom = new Date(from.getTime() - page.buffer_before_minutes * MINUTE_MS);
+  const bufferedTo = new Date(to.getTime() + (meetingType.duration_minutes + page.buffer_after_minutes) * MINUTE_MS);
+
+  const [meetingBusy, googleBusy, feedBusy] = await Promise.all([
+    getMeetingBusy(supabase, page.user_id, bufferedFrom, bufferedTo),
+    getGoogleBusy(supabase, page.user_id, bufferedFrom, bufferedTo),
+    getFeedBusy(supabase, page, bufferedFrom, bufferedTo),
+  ]);
+
+  return buildSlots(page, meetingType.duration_minutes, from, to, [...meetingBusy, ...googleBusy, ...feedBusy]);
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  console.log("[book-meeting] Request received");
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const ip = req.headers.get("x-forwarded-for")?.split(",")[0] ||
+               req.headers.get("cf-connecting-ip") ||
+               "unknown";
+
+    const request: BookingRequest = await req.json();
+
+    if (!request?.ownerId || !validateUUID(request.ownerId) || typeof request.meetingTypeId !== "string") {
+      return jsonResponse({ error: "Invalid request" }, 400);
+    }
+
+    // Rate limit: browsing slots is cheap, bookings are not
+    const allowed = request.action === "book"
+      ? checkRateLimit(`book:${ip}`, 5, 3600000)
+      : checkRateLimit(`slots:${ip}`, 60, 60000);
+    if (!allowed) {
+      console.warn("[book-meeting] Rate limit exceeded for IP:", ip.substring(0, 10) + "...");
+      return jsonResponse({ error: "Too many requests. Please try again later." }, 429);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: page, error: pageError } = await supabaseClient
+      .from("booking_pages")
+      .select("*")
+      .eq("user_id", request.ownerId)
+      .eq("is_enabled", true)
+      .maybeSingle();
+
+    if (pageError) throw pageError;
+    if (!page) {
+      return jsonResponse({ error: "This booking page is not available" }, 404);
+    }
+
+    const bookingPage = page as BookingPage;
+    const meetingType = (bookingPage.meeting_types || []).find(t => t.id === request.meetingTypeId);
+    if (!meetingType) {
+      return jsonResponse({ error: "This meeting type is no longer offered" }, 404);
+    }
+
+    if (request.action === "slots") {
+      const from = parseDate(request.from);
+      const to = parseDate(request.to);
+      if (!from || !to || to <= from || to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+        return jsonResponse({ error: "Invalid date range" }, 400);
+      }
+
+      const slots = await getFreeSlots(supabaseClient, bookingPage, meetingType, from, to);
+      return jsonResponse({ slots, timeZone: bookingPage.time_zone }, 200);
+    }
+
+    if (request.action !== "book") {
+      return jsonResponse({ error: "Invalid request" }, 400);
+    }
+
+    const startsAt = parseDate(request.startsAt);
+    const name = typeof request.name === "string" ? request.name.trim() : "";
+    const email = typeof request.email === "string" ? request.email.trim().toLowerCase() : "";
+    const note = typeof request.note === "string" ? request.note.trim() : "";
+
+    if (!startsAt) return jsonResponse({ error: "Invalid start time" }, 400);
+    if (!name || name.length > 100) return jsonResponse({ error: "Please enter your name" }, 400);
+    if (email.length > 255 || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return jsonResponse({ error: "Please enter a valid email address" }, 400);
+    }
+    if (note.length > 1000) return jsonResponse({ error: "Your note is too long" }, 400);
+
+    // Re-check against current meetings; the slot may have been taken since it was listed
+    const slots = await getFreeSlots(supabaseClient, bookingPage, meetingType, startsAt, new Date(startsAt.getTime() + 1));
+    if (!slots.includes(startsAt.toISOString())) {
+      return jsonResponse({ error: "This time is no longer available. Please pick another slot." }, 409);
+    }
+
+    const title = `${meetingType.title} with ${name}`;
+    const { data: meeting, error: meetingError } = await supabaseClient
+      .from("meetings")
+      .insert({
+        user_id: bookingPage.user_id,
+        organizer_id: bookingPage.user_id,
+        booking_page_id: bookingPage.id,
+        title,
+        description: meetingType.description,
+        starts_at: startsAt.toISOString(),
+        time_zone: bookingPage.time_zone,
+        meeting_date: formatInTimeZone(startsAt, bookingPage.time_zone, "yyyy-MM-dd"),
+        meeting_time: formatInTimeZone(startsAt, bookingPage.time_zone, "HH:mm"),
+        duration_minutes: meetingType.duration_minutes,
+        location: meetingType.location,
+        status: "confirmed",
+      })
+      .select()
+      .single();
+
+    // meetings_no_overlapping_bookings: another visitor booked an overlapping time first
+    if (meetingError?.code === "23P01") {
+      return jsonResponse({ error: "This time is no longer available. Please pick another slot." }, 409);
+    }
+    if (meetingError) throw meetingError;
+
+    const { error: participantError } = await supabaseClient
+      .from("meeting_participants")
+      .insert({
+        meeting_id: meeting.id,
+        email,
+        name,
+        response: "confirmed",
+        responded_at: new Date().toISOString(),
+      });
+
+    if (participantError) throw participantError;
+
+    // The visitor's message is kept as the owner's first note on the meeting
+    if (note) {
+      const { error: noteError } = await supabaseClient
+        .from("meeting_notes")
+        .insert({ meeting_id: meeting.id, text_note: note });
+      if (noteError) throw noteError;
+    }
+
+    // Same invitation email as meetings scheduled in the app
+    const { error: inviteError } = await supabaseClient.functions.invoke("send-meeting-invitation", {
+      body: {
+        meetingId: meeting.id,
+        participantEmail: email,
+      },
+    });
+    if (inviteError) {
+      // The booking stands even if the email could not be sent
+      console.error("[book-meeting] Invitation email failed:", inviteError.message);
+    }
+
+    await supabaseClient.from("notifications").insert({
+      user_id: bookingPage.user_id,
+      type: "meeting_confirmed",
+      title: "New booking",
+      message: `${name} booked "${meetingType.title}" on ${formatInTimeZone(startsAt, bookingPage.time_zone, "EEE, MMM d 'at' h:mm a")}`,
+      data: { meeting_id: meeting.id, source: "booking_page" },
+    });
+
+    console.log("[book-meeting] Meeting booked:", meeting.id);
+
+    return jsonResponse({ success: true, meetingId: meeting.id, startsAt: meeting.starts_at }, 200);
+  } catch (error: any) {
+    console.error("[book-meeting] Error:", error.message);
+    return jsonResponse({ error: "Something went wrong. Please try again." }, 500);
+  }
+};
+
+serve(handler);
@@ -0,0 +1,128 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCalendar, type FeedMeeting } from "../_shared/ics.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// One-off meetings older than this are left out of the feed
+const PAST_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MEETING_COLUMNS = "id, title, description, agenda, location, conference_url, starts_at, time_zone, duration_minutes, status, recurrence_rule, recurrence_exceptions, series_id, original_starts_at, ics_sequence, created_at, updated_at";
+
+// Rate limiting map (in production, use Redis or similar)
+const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
+
+function checkRateLimit(key: string, limit: number, windowMs: number): boolean {
+  const now = Date.now();
+  const existing = rateLimitMap.get(key);
+
+  if (!existing || now > existing.resetAt) {
+    rateLimitMap.set(key, { count: 1, resetAt: now + windowMs });
+    return true;
+  }
+
+  if (existing.count >= limit) return false;
+
+  existing.count++;
+  return true;
+}
+
+function textResponse(body: string, status: number): Response {
+  return new Response(body, { status, headers: { "Content-Type": "text/plain", ...corsHeaders } });
+}
+
+// Calendar apps poll GET /calendar-feed?token=... without any Supabase auth
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return textResponse("Method not allowed", 405);
+  }
+
+  try {
+    const ip = req.headers.get("x-forwarded-for")?.split(",")[0] ||
+               req.headers.get("cf-connecting-ip") ||
+               "unknown";
+
+    // Rate limit: 60 fetches per minute per IP
+    if (!checkRateLimit(ip, 60, 60000)) {
+      console.warn("[calendar-feed] Rate limit exceeded for IP:", ip.substring(0, 10) + "...");
+      return textResponse("Rate limit exceeded. Please try again later.", 429);
+    }
+
+    const token = new URL(req.url).searchParams.get("token") || "";
+    if (!/^[0-9a-f]{64}$/.test(token)) {
+      return textResponse("Calendar not found", 404);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: settings, error: settingsError } = await supabase
+      .from("user_settings")
+      .select("user_id")
+      .eq("calendar_feed_token", token)
+      .maybeSingle();
+
+    if (settingsError) throw settingsError;
+    // Same answer for rotated and never-issued tokens
+    if (!settings) {
+      return textResponse("Calendar not found", 404);
+    }
+
+    const userId = settings.user_id;
+    const [seriesResult, singleResult] = await Promise.all([
+      supabase
+        .from("meetings")
+        .select(MEETING_COLUMNS)
+        .or(`user_id.eq.${userId},organizer_id.eq.${userId}`)
+        .not("recurrence_rule", "is", null)
+        .in("status", ["confirmed", "cancelled"]),
+      // One-off meetings and edited occurrences of series
+      supabase
+        .from("meetings")
+        .select(MEETING_COLUMNS)
+        .or(`user_id.eq.${userId},organizer_id.eq.${userId}`)
+        .is("recurrence_rule", null)
+        .gte("starts_at", new Date(Date.now() - PAST_DAYS * DAY_MS).toISOString())
+        .order("starts_at", { ascending: true })
+        .limit(2000),
+    ]);
+
+    if (seriesResult.error) throw seriesResult.error;
+    if (singleResult.error) throw singleResult.error;
+
+    // Pending meetings aren't in the feed until confirmed. Edited occurrences
+    // follow their series instead (and are left out along with it).
+    const seriesIds = new Set((seriesResult.data || []).map(m => m.id));
+    const singles = (singleResult.data || []).filter(m =>
+      m.series_id ? seriesIds.has(m.series_id) : m.status === "confirmed" || m.status === "cancelled"
+    );
+
+    const body = buildCalendar([...(seriesResult.data || []), ...singles] as FeedMeeting[], "Buizly meetings");
+    console.log(`[calendar-feed] Served ${userId}: ${(seriesResult.data || []).length} series, ${singles.length} meetings`);
+
+    return new Response(req.method === "HEAD" ? null : body, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="buizly.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error: any) {
+    console.error("[calendar-feed] Error:", error);
+    return textResponse("Calendar unavailable", 500);
+  }
+};
+
+serve(handler);
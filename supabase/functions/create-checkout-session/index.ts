@@ -0,0 +1,190 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// CORS configuration - restrict to allowed origins for authenticated endpoints
+const allowedOrigins = [
+  'https://buizly.lovable.app',
+  'https://lovable.app',
+  'https://lovable.dev',
+  'https://buizly.vercel.app',
+  'http://localhost:3000',
+  'http://localhost:5173',
+  'http://localhost:8080',
+];
+
+const allowedOriginPatterns = [
+  /^https:\/\/[a-z0-9-]+--[a-z0-9-]+\.lovable\.app$/,
+  /^https:\/\/preview--[a-z0-9-]+\.lovable\.app$/,
+  /^https:\/\/id-preview--[a-z0-9-]+\.lovable\.app$/,
+];
+
+function getCorsHeaders(req: Request): { [key: string]: string } {
+  const origin = req.headers.get('origin') || '';
+
+  const isAllowed = allowedOrigins.includes(origin) ||
+    allowedOriginPatterns.some(pattern => pattern.test(origin));
+
+  const allowOrigin = isAllowed ? origin : 'https://buizly.lovable.app';
+
+  return {
+    'Access-Control-Allow-Origin': allowOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+}
+
+function getAppUrl(req: Request): string {
+  const origin = req.headers.get('origin') || '';
+  const isAllowed = allowedOrigins.includes(origin) ||
+    allowedOriginPatterns.some(pattern => pattern.test(origin));
+  return isAllowed ? origin : (Deno.env.get("APP_URL") || 'https://buizly.lovable.app');
+}
+
+// STRIPE_API_BASE points at stripe-mock (http://localhost:12111) in local testing
+const STRIPE_API_BASE = Deno.env.get("STRIPE_API_BASE") || "https://api.stripe.com";
+
+const PRICE_IDS: Record<string, string | undefined> = {
+  pro: Deno.env.get("STRIPE_PRICE_PRO"),
+  business: Deno.env.get("STRIPE_PRICE_BUSINESS"),
+};
+
+// Flatten nested params into Stripe's bracketed form encoding
+function toFormBody(params: Record<string, unknown>, prefix = "", body = new URLSearchParams()): URLSearchParams {
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) continue;
+    const name = prefix ? `${prefix}[${key}]` : key;
+    if (typeof value === "object") {
+      toFormBody(value as Record<string, unknown>, name, body);
+    } else {
+      body.append(name, String(value));
+    }
+  }
+  return body;
+}
+
+async function stripeRequest(method: string, path: string, params?: Record<string, unknown>) {
+  const secretKey = Deno.env.get("STRIPE_SECRET_KEY");
+  if (!secretKey) {
+    throw new Error("STRIPE_SECRET_KEY not configured");
+  }
+
+  const response = await fetch(`${STRIPE_API_BASE}/v1${path}`, {
+    method,
+    headers: {
+      "Authorization": `Bearer ${secretKey}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: params ? toFormBody(params) : undefined,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data?.error?.message || `Stripe API error (${response.status})`);
+  }
+  return data;
+}
+
+serve(async (req: Request) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(
+        JSON.stringify({ error: "Authentication required" }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 401 }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser(
+      authHeader.replace("Bearer ", "")
+    );
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid authentication" }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 401 }
+      );
+    }
+
+    const { plan } = await req.json();
+    const priceId = PRICE_IDS[plan];
+    if (!priceId) {
+      return new Response(
+        JSON.stringify({ error: "Invalid plan" }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 400 }
+      );
+    }
+
+    const { data: subscription } = await supabase
+      .from("subscriptions")
+      .select("*")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    // Existing paid subscribers switch price in place instead of paying twice
+    if (subscription?.stripe_subscription_id && ["active", "trialing", "past_due"].includes(subscription.status)) {
+      const current = await stripeRequest("GET", `/subscriptions/${subscription.stripe_subscription_id}`);
+      const itemId = current.items?.data?.[0]?.id;
+
+      await stripeRequest("POST", `/subscriptions/${subscription.stripe_subscription_id}`, {
+        items: { 0: { id: itemId, price: priceId } },
+        proration_behavior: "create_prorations",
+        cancel_at_period_end: false,
+        metadata: { user_id: user.id },
+      });
+
+      console.log(`[create-checkout-session] Switched ${user.id} to ${plan}`);
+      return new Response(
+        JSON.stringify({ updated: true }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 200 }
+      );
+    }
+
+    let customerId = subscription?.stripe_customer_id;
+    if (!customerId) {
+      const customer = await stripeRequest("POST", "/customers", {
+        email: user.email,
+        metadata: { user_id: user.id },
+      });
+      customerId = customer.id;
+
+      await supabase
+        .from("subscriptions")
+        .upsert({ user_id: user.id, stripe_customer_id: customerId }, { onConflict: "user_id" });
+    }
+
+    const appUrl = getAppUrl(req);
+    const session = await stripeRequest("POST", "/checkout/sessions", {
+      mode: "subscription",
+      customer: customerId,
+      client_reference_id: user.id,
+      line_items: { 0: { price: priceId, quantity: 1 } },
+      subscription_data: { metadata: { user_id: user.id } },
+      allow_promotion_codes: true,
+      success_url: `${appUrl}/subscription?checkout=success`,
+      cancel_url: `${appUrl}/subscription?checkout=cancelled`,
+    });
+
+    console.log(`[create-checkout-session] Created session for ${user.id} (${plan})`);
+
+    return new Response(
+      JSON.stringify({ url: session.url }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 200 }
+    );
+  } catch (error: any) {
+    console.error("[create-checkout-session] Error:", error.message);
+    return new Response(
+      JSON.stringify({ error: "Unable to start checkout. Please try again later." }),
+      { headers: { ...getCorsHeaders(req), "Content-Type": "application/json" }, status: 500 }
+    );
+  }
+});
@@ -0,0 +1,155 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// CORS configuration - restrict to allowed origins for authenticated endpoints
+const allowedOrigins = [
+  'https://buizly.lovable.app',
+  'https://lovable.app',
+  'https://lovable.dev',
+  'https://buizly.vercel.app',
+  'http://localhost:3000',
+  'http://localhost:5173',
+  'http://localhost:8080',
+];
+
+const allowedOriginPatterns = [
+  /^https:\/\/[a-z0-9-]+--[a-z0-9-]+\.lovable\.app$/,
+  /^https:\/\/preview--[a-z0-9-]+\.lovable\.app$/,
+  /^https:\/\/id-preview--[a-z0-9-]+\.lovable\.app$/,
+];
+
+function getCorsHeaders(req: Request): { [key: string]: string } {
+  const origin = req.headers.get('origin') || '';
+
+  const isAllowed = allowedOrigins.includes(origin) ||
+    allowedOriginPatterns.some(pattern => pattern.test(origin));
+
+  const allowOrigin = isAllowed ? origin : 'https://buizly.lovable.app';
+
+  return {
+    'Access-Control-Allow-Origin': allowOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+}
+
+function getAppUrl(req: Request): string {
+  const origin = req.headers.get('origin') || '';
+  const isAllowed = allowedOrigins.includes(origin) ||
+    allowedOriginPatterns.some(pattern => pattern.test(origin));
+  return isAllowed ? origin : (Deno.env.get("APP_URL") || 'https://buizly.lovable.app');
+}
+
+// STRIPE_API_BASE points at stripe-mock (http://localhost:12111) in local testing
+const STRIPE_API_BASE = Deno.env.get("STRIPE_API_BASE") || "https://api.stripe.com";
+
+// Flatten nested params into Stripe's bracketed form encoding
+function toFormBody(params: Record<string, unknown>, prefix = "", body = new URLSearchParams()): URLSearchParams {
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) continue;
+    const name = prefix ? `${prefix}[${key}]` : key;
+    if (typeof value === "object") {
+      toFormBody(value as Record<string, unknown>, name, body);
+    } else {
+      body.append(name, String(value));
+    }
+  }
+  return body;
+}
+
+async function stripeRequest(method: string, path: string, params?: Record<string, unknown>) {
+  const secretKey = Deno.env.get("STRIPE_SECRET_KEY");
+  if (!secretKey) {
+    throw new Error("STRIPE_SECRET_KEY not configured");
+  }
+
+  const response = await fetch(`${STRIPE_API_BASE}/v1${path}`, {
+    method,
+    headers: {
+      "Authorization": `Bearer ${secretKey}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: params ? toFormBody(params) : undefined,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data?.error?.message || `Stripe API error (${response.status})`);
+  }
+  return data;
+}
+
+serve(async (req: Request) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(
+        JSON.stringify({ error: "Authentication required" }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 401 }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser(
+      authHeader.replace("Bearer ", "")
+    );
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid authentication" }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 401 }
+      );
+    }
+
+    // flow: "cancel" jumps straight to the cancellation screen
+    const { flow } = await req.json().catch(() => ({}));
+
+    const { data: subscription } = await supabase
+      .from("subscriptions")
+      .select("stripe_customer_id, stripe_subscription_id")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!subscription?.stripe_customer_id) {
+      return new Response(
+        JSON.stringify({ error: "No billing account found" }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 404 }
+      );
+    }
+
+    const returnUrl = `${getAppUrl(req)}/subscription`;
+    const session = await stripeRequest("POST", "/billing_portal/sessions", {
+      customer: subscription.stripe_customer_id,
+      return_url: returnUrl,
+      flow_data: flow === "cancel" && subscription.stripe_subscription_id
+        ? {
+            type: "subscription_cancel",
+            subscription_cancel: { subscription: subscription.stripe_subscription_id },
+            after_completion: { type: "redirect", redirect: { return_url: returnUrl } },
+          }
+        : undefined,
+    });
+
+    console.log(`[create-portal-session] Created portal session for ${user.id}`);
+
+    return new Response(
+      JSON.stringify({ url: session.url }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 200 }
+    );
+  } catch (error: any) {
+    console.error("[create-portal-session] Error:", error.message);
+    return new Response(
+      JSON.stringify({ error: "Unable to open billing portal. Please try again later." }),
+      { headers: { ...getCorsHeaders(req), "Content-Type": "application/json" }, status: 500 }
+    );
+  }
+});
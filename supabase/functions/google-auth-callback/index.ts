@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.84.0";
+import { encryptToken } from "../_shared/tokenCrypto.ts";
 
 // CORS configuration - restrict to allowed origins for authenticated endpoints
 const allowedOrigins = [
@@ -50,52 +51,6 @@ function checkRateLimit(key: string, limit: number, windowMs: number): boolean {
   return true;
 }
 
-// Token encryption utilities using AES-GCM
-async function getEncryptionKey(): Promise<CryptoKey> {
-  const keyString = Deno.env.get("TOKEN_ENCRYPTION_KEY");
-  if (!keyString) {
-    throw new Error("TOKEN_ENCRYPTION_KEY not configured");
-  }
-  
-  // Use the key string to derive a proper AES key
-  const encoder = new TextEncoder();
-  const keyData = encoder.encode(keyString);
-  
-  // Hash the key to get exactly 32 bytes for AES-256
-  const hashBuffer = await crypto.subtle.digest("SHA-256", keyData);
-  
-  return crypto.subtle.importKey(
-    "raw",
-    hashBuffer,
-    { name: "AES-GCM", length: 256 },
-    false,
-    ["encrypt", "decrypt"]
-  );
-}
-
-async function encryptToken(token: string): Promise<string> {
-  const key = await getEncryptionKey();
-  const encoder = new TextEncoder();
-  const data = encoder.encode(token);
-  
-  // Generate random IV for each encryption
-  const iv = crypto.getRandomValues(new Uint8Array(12));
-  
-  const encrypted = await crypto.subtle.encrypt(
-    { name: "AES-GCM", iv },
-    key,
-    data
-  );
-  
-  // Combine IV and encrypted data, then base64 encode
-  const combined = new Uint8Array(iv.length + encrypted.byteLength);
-  combined.set(iv);
-  combined.set(new Uint8Array(encrypted), iv.length);
-  
-  // Return as base64 with prefix to identify encrypted tokens
-  return "enc:" + btoa(String.fromCharCode(...combined));
-}
-
 serve(async (req: Request) => {
   const corsHeaders = getCorsHeaders(req);
 
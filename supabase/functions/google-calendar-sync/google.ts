@@ -0,0 +1,146 @@
+// Minimal Google Calendar v3 client. The base URL and fetch are injectable so
+// the sync can run against a mocked Google API (GOOGLE_CALENDAR_API_URL).
+
+export const GOOGLE_CALENDAR_API_URL = "https://www.googleapis.com/calendar/v3";
+
+export interface GoogleEventDateTime {
+  dateTime?: string;
+  date?: string;
+  timeZone?: string;
+}
+
+// Only the parts of conferenceData Buizly reads or writes
+export interface GoogleConferenceData {
+  createRequest?: { requestId: string; conferenceSolutionKey: { type: "hangoutsMeet" } };
+  entryPoints?: { entryPointType: string; uri: string }[];
+}
+
+export interface GoogleEvent {
+  id: string;
+  etag?: string;
+  status?: "confirmed" | "tentative" | "cancelled";
+  summary?: string;
+  description?: string;
+  location?: string;
+  start?: GoogleEventDateTime;
+  end?: GoogleEventDateTime;
+  recurrence?: string[];
+  // Set on single instances of a recurring event
+  recurringEventId?: string;
+  originalStartTime?: GoogleEventDateTime;
+  attendees?: { email: string }[];
+  // null removes the conference from the event
+  conferenceData?: GoogleConferenceData | null;
+  hangoutLink?: string;
+  reminders?: { useDefault: boolean; overrides?: { method: string; minutes: number }[] };
+  updated?: string;
+}
+
+export class GoogleApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "GoogleApiError";
+  }
+}
+
+export interface GoogleCalendarApi {
+  insertEvent(event: Partial<GoogleEvent>): Promise<GoogleEvent>;
+  // With an etag the patch only applies if the event is unchanged in Google (else 412)
+  patchEvent(eventId: string, event: Partial<GoogleEvent>, etag?: string | null): Promise<GoogleEvent>;
+  getEvent(eventId: string): Promise<GoogleEvent>;
+  deleteEvent(eventId: string): Promise<void>;
+  // Changed events since `syncToken`, or a fresh listing when it is null
+  listChanges(syncToken: string | null): Promise<{ events: GoogleEvent[]; nextSyncToken: string }>;
+}
+
+interface GoogleCalendarApiOptions {
+  baseUrl?: string;
+  fetchFn?: typeof fetch;
+  calendarId?: string;
+}
+
+// How far back a fresh listing goes; older events are left alone
+const INITIAL_SYNC_DAYS = 30;
+
+export function createGoogleCalendarApi(accessToken: string, options: GoogleCalendarApiOptions = {}): GoogleCalendarApi {
+  const baseUrl = options.baseUrl || Deno.env.get("GOOGLE_CALENDAR_API_URL") || GOOGLE_CALENDAR_API_URL;
+  const fetchFn = options.fetchFn || fetch;
+  const eventsUrl = `${baseUrl}/calendars/${encodeURIComponent(options.calendarId || "primary")}/events`;
+  // Without it Google ignores conferenceData on writes
+  const writeParams = "?conferenceDataVersion=1";
+
+  const request = async (url: string, init: RequestInit = {}, etag?: string | null): Promise<Response> => {
+    const response = await fetchFn(url, {
+      ...init,
+      headers: {
+        "Authorization": `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+        ...(etag ? { "If-Match": etag } : {}),
+      },
+    });
+
+    if (!response.ok) {
+      throw new GoogleApiError(response.status, `Calendar API error: ${await response.text()}`);
+    }
+    return response;
+  };
+
+  return {
+    async insertEvent(event) {
+      const response = await request(`${eventsUrl}${writeParams}`, { method: "POST", body: JSON.stringify(event) });
+      return response.json();
+    },
+
+    async patchEvent(eventId, event, etag) {
+      const response = await request(
+        `${eventsUrl}/${encodeURIComponent(eventId)}${writeParams}`,
+        { method: "PATCH", body: JSON.stringify(event) },
+        etag
+      );
+      return response.json();
+    },
+
+    async getEvent(eventId) {
+      const response = await request(`${eventsUrl}/${encodeURIComponent(eventId)}`);
+      return response.json();
+    },
+
+    async deleteEvent(eventId) {
+      try {
+        await request(`${eventsUrl}/${encodeURIComponent(eventId)}`, { method: "DELETE" });
+      } catch (error) {
+        // Already gone from Google
+        if (error instanceof GoogleApiError && (error.status === 404 || error.status === 410)) return;
+        throw error;
+      }
+    },
+
+    async listChanges(syncToken) {
+      const events: GoogleEvent[] = [];
+      // Every page must repeat the first request's parameters
+      const timeMin = new Date(Date.now() - INITIAL_SYNC_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      let pageToken: string | undefined;
+
+      while (true) {
+        const params = new URLSearchParams({ maxResults: "250", showDeleted: "true" });
+        if (syncToken) {
+          params.set("syncToken", syncToken);
+        } else {
+          params.set("timeMin", timeMin);
+        }
+        if (pageToken) params.set("pageToken", pageToken);
+
+        // An expired sync token fails with 410; the caller starts over with a fresh listing
+        const response = await request(`${eventsUrl}?${params}`);
+        const page = await response.json();
+        events.push(...(page.items || []));
+
+        if (page.nextPageToken) {
+          pageToken = page.nextPageToken;
+          continue;
+        }
+        return { events, nextSyncToken: page.nextSyncToken };
+      }
+    },
+  };
+}
@@ -0,0 +1,201 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.84.0";
+import { createGoogleCalendarApi } from "./google.ts";
+import { acceptGoogleVersion, pullChanges, pushMeeting, removeMeeting, type MeetingRow } from "./sync.ts";
+import { decryptToken } from "../_shared/tokenCrypto.ts";
+
+// CORS configuration - restrict to allowed origins for authenticated endpoints
+const allowedOrigins = [
+  'https://buizly.lovable.app',
+  'https://lovable.app',
+  'https://lovable.dev',
+  'https://buizly.vercel.app',
+  'http://localhost:3000',
+  'http://localhost:5173',
+  'http://localhost:8080',
+];
+
+const allowedOriginPatterns = [
+  /^https:\/\/[a-z0-9-]+--[a-z0-9-]+\.lovable\.app$/,
+  /^https:\/\/preview--[a-z0-9-]+\.lovable\.app$/,
+  /^https:\/\/id-preview--[a-z0-9-]+\.lovable\.app$/,
+];
+
+function getCorsHeaders(req: Request): { [key: string]: string } {
+  const origin = req.headers.get('origin') || '';
+
+  const isAllowed = allowedOrigins.includes(origin) ||
+    allowedOriginPatterns.some(pattern => pattern.test(origin));
+
+  const allowOrigin = isAllowed ? origin : 'https://buizly.lovable.app';
+
+  return {
+    'Access-Control-Allow-Origin': allowOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+}
+
+type SyncRequest =
+  | { action: "push"; meetingId: string }
+  | { action: "delete"; meetingId: string }
+  | { action: "pull"; force?: boolean }
+  | { action: "resolve"; meetingId: string; keep: "buizly" | "google" };
+
+// Background pulls from the app are skipped if the last one was this recent
+const PULL_INTERVAL_MS = 2 * 60 * 1000;
+
+// Rate limiting map (in production, use Redis or similar)
+const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
+
+function checkRateLimit(key: string, limit: number, windowMs: number): boolean {
+  const now = Date.now();
+  const existing = rateLimitMap.get(key);
+
+  if (!existing || now > existing.resetAt) {
+    rateLimitMap.set(key, { count: 1, resetAt: now + windowMs });
+    return true;
+  }
+
+  if (existing.count >= limit) return false;
+
+  existing.count++;
+  return true;
+}
+
+async function refreshAccessToken(encryptedRefreshToken: string): Promise<string> {
+  const response = await fetch("https://oauth2.googleapis.com/token", {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: Deno.env.get("GOOGLE_OAUTH_CLIENT_ID")!,
+      client_secret: Deno.env.get("GOOGLE_OAUTH_CLIENT_SECRET")!,
+      refresh_token: await decryptToken(encryptedRefreshToken),
+      grant_type: "refresh_token",
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to refresh access token");
+  }
+
+  const data = await response.json();
+  return data.access_token;
+}
+
+serve(async (req: Request) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status,
+    });
+
+  try {
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader) {
+      throw new Error("No authorization header");
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser(
+      authHeader.replace("Bearer ", "")
+    );
+
+    if (userError || !user) {
+      throw new Error("Invalid user token");
+    }
+
+    if (!checkRateLimit(user.id, 120, 60000)) {
+      console.warn("[google-calendar-sync] Rate limit exceeded for user:", user.id);
+      return jsonResponse({ error: "Rate limit exceeded. Please try again later." }, 429);
+    }
+
+    const request: SyncRequest = await req.json();
+
+    const { data: settings, error: settingsError } = await supabase
+      .from("user_settings")
+      .select("google_calendar_connected, google_refresh_token, google_sync_token, google_last_synced_at")
+      .eq("user_id", user.id)
+      .single();
+
+    if (settingsError) throw settingsError;
+    if (!settings?.google_calendar_connected || !settings.google_refresh_token) {
+      return jsonResponse({ skipped: true, reason: "not_connected" });
+    }
+
+    if (request.action === "pull") {
+      const lastSynced = settings.google_last_synced_at ? new Date(settings.google_last_synced_at).getTime() : 0;
+      if (!request.force && Date.now() - lastSynced < PULL_INTERVAL_MS) {
+        return jsonResponse({ skipped: true, reason: "recently_synced" });
+      }
+    }
+
+    const api = createGoogleCalendarApi(await refreshAccessToken(settings.google_refresh_token));
+
+    if (request.action === "pull") {
+      const result = await pullChanges(api, supabase, user.id, settings.google_sync_token);
+
+      const { error: updateError } = await supabase
+        .from("user_settings")
+        .update({
+          google_sync_token: result.nextSyncToken,
+          google_last_synced_at: new Date().toISOString(),
+        })
+        .eq("user_id", user.id);
+      if (updateError) throw updateError;
+
+      console.log(`[google-calendar-sync] Synced ${user.id}: ${result.updated} updated, ${result.pushed} pushed, ${result.conflicts} conflicts`);
+      return jsonResponse({ success: true, updated: result.updated, pushed: result.pushed, conflicts: result.conflicts });
+    }
+
+    if (!["push", "delete", "resolve"].includes(request.action) || typeof request.meetingId !== "string") {
+      return jsonResponse({ error: "Invalid request" }, 400);
+    }
+
+    const { data: meeting, error: meetingError } = await supabase
+      .from("meetings")
+      .select("*")
+      .eq("id", request.meetingId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (meetingError) throw meetingError;
+    if (!meeting) {
+      return jsonResponse({ error: "Meeting not found" }, 404);
+    }
+
+    const row = meeting as MeetingRow;
+
+    if (request.action === "delete") {
+      await removeMeeting(api, supabase, row);
+      return jsonResponse({ success: true });
+    }
+
+    if (request.action === "resolve") {
+      if (request.keep === "google") {
+        await acceptGoogleVersion(supabase, row);
+        return jsonResponse({ success: true, status: "synced" });
+      }
+      if (request.keep !== "buizly") {
+        return jsonResponse({ error: "Invalid request" }, 400);
+      }
+      const result = await pushMeeting(api, supabase, row, true);
+      return jsonResponse({ success: true, ...result });
+    }
+
+    const result = await pushMeeting(api, supabase, row);
+    return jsonResponse({ success: true, ...result });
+  } catch (error: any) {
+    console.error("[google-calendar-sync] Error:", error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
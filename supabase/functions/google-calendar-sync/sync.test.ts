@@ -0,0 +1,196 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.84.0";
+import { createFakeSupabase, jsonReply, withMockServer } from "../_shared/testing.ts";
+import { createGoogleCalendarApi, type GoogleEvent } from "./google.ts";
+import { pullChanges, pushMeeting, type MeetingRow } from "./sync.ts";
+
+const EVENTS_PATH = "/calendars/primary/events";
+
+function meetingRow(overrides: Partial<MeetingRow> = {}): MeetingRow {
+  return {
+    id: "meeting-1",
+    user_id: "user-1",
+    organizer_id: "user-1",
+    connection_id: null,
+    parent_meeting_id: null,
+    title: "Quarterly review",
+    description: null,
+    agenda: null,
+    location: "Office",
+    meeting_mode: "in_person",
+    conference_url: null,
+    meeting_date: "2026-11-02",
+    meeting_time: "09:00:00",
+    starts_at: "2026-11-02T09:00:00.000Z",
+    time_zone: "UTC",
+    duration_minutes: 30,
+    status: "confirmed",
+    recurrence_rule: null,
+    recurrence_exceptions: null,
+    series_id: null,
+    original_starts_at: null,
+    google_calendar_event_id: "event-1",
+    google_calendar_etag: '"1"',
+    google_sync_pending: false,
+    google_sync_conflict: null,
+    ...overrides,
+  };
+}
+
+function googleEvent(overrides: Partial<GoogleEvent> = {}): GoogleEvent {
+  return {
+    id: "event-1",
+    etag: '"2"',
+    status: "confirmed",
+    summary: "Renamed in Google",
+    location: "Office",
+    start: { dateTime: "2026-11-02T10:00:00.000Z", timeZone: "UTC" },
+    end: { dateTime: "2026-11-02T10:30:00.000Z", timeZone: "UTC" },
+    updated: "2026-10-30T12:00:00.000Z",
+    ...overrides,
+  };
+}
+
+/**
+ * A calendar holding one event. PATCH honours If-Match the way Google does,
+ * and only `validSyncToken` is accepted; any other token has expired (410).
+ */
+function googleMock(event: GoogleEvent, validSyncToken = "current-token") {
+  let stored = { ...event };
+  let version = Number(event.etag?.replace(/"/g, "")) || 1;
+
+  return (req: Request, url: URL): Response | Promise<Response> => {
+    if (url.pathname === EVENTS_PATH && req.method === "GET") {
+      const syncToken = url.searchParams.get("syncToken");
+      if (syncToken && syncToken !== validSyncToken) {
+        return jsonReply({ error: { code: 410, message: "Sync token is no longer valid" } }, 410);
+      }
+      return jsonReply({ items: [stored], nextSyncToken: "fresh-token" });
+    }
+
+    if (url.pathname === `${EVENTS_PATH}/${stored.id}`) {
+      if (req.method === "GET") return jsonReply(stored);
+      if (req.method === "PATCH") {
+        const ifMatch = req.headers.get("If-Match");
+        if (ifMatch && ifMatch !== stored.etag) {
+          return jsonReply({ error: { code: 412, message: "Precondition Failed" } }, 412);
+        }
+        return req.json().then(patch => {
+          version++;
+          stored = { ...stored, ...patch, etag: `"${version}"` };
+          return jsonReply(stored);
+        });
+      }
+    }
+
+    return jsonReply({ error: { code: 404, message: "Not Found" } }, 404);
+  };
+}
+
+Deno.test("pullChanges starts a full sync when the sync token has expired", async () => {
+  await withMockServer(googleMock(googleEvent()), async server => {
+    const api = createGoogleCalendarApi("access-token", { baseUrl: server.url });
+    const supabase = createFakeSupabase({ meetings: [{ ...meetingRow() }] });
+
+    const result = await pullChanges(api, supabase as unknown as SupabaseClient, "user-1", "expired-token");
+
+    assertEquals(
+      server.requests.map(r => r.search.get("syncToken")),
+      ["expired-token", null]
+    );
+    assertEquals(result.nextSyncToken, "fresh-token");
+    assertEquals(result.updated, 1);
+
+    const [meeting] = supabase.tables.meetings;
+    assertEquals(meeting.title, "Renamed in Google");
+    assertEquals(meeting.starts_at, "2026-11-02T10:00:00.000Z");
+    assertEquals(meeting.google_calendar_etag, '"2"');
+  });
+});
+
+Deno.test("pullChanges keeps a valid sync token", async () => {
+  await withMockServer(googleMock(googleEvent({ etag: '"1"' })), async server => {
+    const api = createGoogleCalendarApi("access-token", { baseUrl: server.url });
+    const supabase = createFakeSupabase({ meetings: [{ ...meetingRow() }] });
+
+    const result = await pullChanges(api, supabase as unknown as SupabaseClient, "user-1", "current-token");
+
+    assertEquals(server.requests.map(r => r.search.get("syncToken")), ["current-token"]);
+    // Our own last write comes back with the stored etag and is left alone
+    assertEquals(result.updated, 0);
+    assertEquals(supabase.tables.meetings[0].title, "Quarterly review");
+  });
+});
+
+Deno.test("pullChanges records a conflict for a meeting with unpushed edits", async () => {
+  await withMockServer(googleMock(googleEvent()), async server => {
+    const api = createGoogleCalendarApi("access-token", { baseUrl: server.url });
+    const supabase = createFakeSupabase({ meetings: [{ ...meetingRow({ google_sync_pending: true }) }] });
+
+    const result = await pullChanges(api, supabase as unknown as SupabaseClient, "user-1", "current-token");
+
+    assertEquals(result.conflicts, 1);
+    const [meeting] = supabase.tables.meetings;
+    assertEquals(meeting.title, "Quarterly review");
+    assertEquals((meeting.google_sync_conflict as { title: string }).title, "Renamed in Google");
+  });
+});
+
+Deno.test("pushMeeting sends the stored etag and keeps the new one", async () => {
+  await withMockServer(googleMock(googleEvent({ etag: '"1"' })), async server => {
+    const api = createGoogleCalendarApi("access-token", { baseUrl: server.url });
+    const meeting = meetingRow({ google_sync_pending: true });
+    const supabase = createFakeSupabase({ meetings: [{ ...meeting }] });
+
+    const result = await pushMeeting(api, supabase as unknown as SupabaseClient, meeting);
+
+    assertEquals(result, { status: "synced", eventId: "event-1" });
+    const patch = server.requests.find(r => r.method === "PATCH");
+    assertEquals(patch?.headers.get("If-Match"), '"1"');
+    assertEquals(supabase.tables.meetings[0].google_calendar_etag, '"2"');
+    assertEquals(supabase.tables.meetings[0].google_sync_pending, false);
+  });
+});
+
+Deno.test("pushMeeting records Google's version when the event changed there (412)", async () => {
+  await withMockServer(googleMock(googleEvent()), async server => {
+    const api = createGoogleCalendarApi("access-token", { baseUrl: server.url });
+    const meeting = meetingRow({ google_sync_pending: true });
+    const supabase = createFakeSupabase({ meetings: [{ ...meeting }] });
+
+    const result = await pushMeeting(api, supabase as unknown as SupabaseClient, meeting);
+
+    assertEquals(result.status, "conflict");
+    const [stored] = supabase.tables.meetings;
+    const conflict = stored.google_sync_conflict as { etag: string; title: string; starts_at: string };
+    assertEquals(conflict.etag, '"2"');
+    assertEquals(conflict.title, "Renamed in Google");
+    assertEquals(conflict.starts_at, "2026-11-02T10:00:00.000Z");
+    // Neither side is overwritten until the user picks one
+    assertEquals(stored.title, "Quarterly review");
+    assertEquals(stored.google_sync_pending, true);
+  });
+});
+
+Deno.test("pushMeeting with force keeps the Buizly version over Google's", async () => {
+  await withMockServer(googleMock(googleEvent()), async server => {
+    const api = createGoogleCalendarApi("access-token", { baseUrl: server.url });
+    const meeting = meetingRow({
+      google_sync_pending: true,
+      google_sync_conflict: { etag: '"2"', status: "confirmed", title: "Renamed in Google", starts_at: null,
+        duration_minutes: null, location: null, time_zone: null, recurrence_rule: null, updated_at: null },
+    });
+    const supabase = createFakeSupabase({ meetings: [{ ...meeting }] });
+
+    const result = await pushMeeting(api, supabase as unknown as SupabaseClient, meeting, true);
+
+    assertEquals(result, { status: "synced", eventId: "event-1" });
+    const patch = server.requests.find(r => r.method === "PATCH");
+    assertEquals(patch?.headers.get("If-Match"), null);
+    assertEquals(JSON.parse(patch?.body || "{}").summary, "Quarterly review");
+
+    const [stored] = supabase.tables.meetings;
+    assertEquals(stored.google_sync_conflict, null);
+    assertEquals(stored.google_calendar_etag, '"3"');
+  });
+});
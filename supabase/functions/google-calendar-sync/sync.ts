@@ -0,0 +1,506 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.84.0";
+import { GoogleApiError, type GoogleCalendarApi, type GoogleEvent } from "./google.ts";
+
+/**
+ * Two-way sync between Buizly meetings and the owner's primary Google calendar.
+ *
+ * Buizly tracks the etag Google returned for each event it last wrote or read.
+ * Edits made in Buizly set meetings.google_sync_pending (see the
+ * mark_meeting_google_sync_pending trigger) until they are pushed. A conflict
+ * is recorded, never resolved silently, when both sides changed:
+ *  - push: Google rejects the If-Match etag (412), or the event is gone
+ *  - pull: Google reports a change while the meeting still has unpushed edits
+ * The Google version is then stored in google_sync_conflict for the user to pick.
+ */
+
+export interface MeetingRow {
+  id: string;
+  user_id: string;
+  organizer_id: string | null;
+  connection_id: string | null;
+  parent_meeting_id: string | null;
+  title: string | null;
+  description: string | null;
+  agenda: string | null;
+  location: string | null;
+  meeting_mode: "in_person" | "phone" | "video";
+  conference_url: string | null;
+  meeting_date: string;
+  meeting_time: string;
+  starts_at: string;
+  time_zone: string | null;
+  duration_minutes: number;
+  status: string | null;
+  recurrence_rule: string | null;
+  recurrence_exceptions: string[] | null;
+  series_id: string | null;
+  original_starts_at: string | null;
+  google_calendar_event_id: string | null;
+  google_calendar_etag: string | null;
+  google_sync_pending: boolean;
+  google_sync_conflict: GoogleSyncConflict | null;
+}
+
+// Google's version of a meeting, kept until the user resolves the conflict
+export interface GoogleSyncConflict {
+  etag: string | null;
+  status: "confirmed" | "cancelled";
+  title: string | null;
+  starts_at: string | null;
+  duration_minutes: number | null;
+  location: string | null;
+  time_zone: string | null;
+  recurrence_rule: string | null;
+  updated_at: string | null;
+}
+
+export type PushResult =
+  | { status: "synced"; eventId: string | null }
+  | { status: "skipped" }
+  | { status: "conflict"; conflict: GoogleSyncConflict };
+
+export interface PullResult {
+  nextSyncToken: string;
+  updated: number;
+  conflicts: number;
+  pushed: number;
+}
+
+const MIN_DURATION_MINUTES = 5;
+const MAX_DURATION_MINUTES = 24 * 60;
+const RECURRENCE_RULE_PATTERN = /^FREQ=(DAILY|WEEKLY|MONTHLY|YEARLY)(;[A-Z]+=[A-Z0-9,+-]+)*$/;
+
+const DEFAULT_REMINDERS = {
+  useDefault: false,
+  overrides: [
+    { method: "email", minutes: 24 * 60 },
+    { method: "popup", minutes: 60 },
+  ],
+};
+
+// "2026-10-20T07:00:00.000Z" -> "20261020T070000Z"
+function toBasicUtc(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+}
+
+// Google's id for one instance of a recurring (timed) event
+function getInstanceId(seriesEventId: string, originalStartsAt: string): string {
+  return `${seriesEventId}_${toBasicUtc(originalStartsAt)}`;
+}
+
+function isMeetLink(url: string | null): boolean {
+  return !!url && url.startsWith("https://meet.google.com/");
+}
+
+// Google gets the description and agenda; notes and photos stay in Buizly.
+// Meet links get Google's own join button, other video links go in the text.
+function getEventDescription(meeting: Pick<MeetingRow, "description" | "agenda" | "conference_url">): string {
+  const joinLink = meeting.conference_url && !isMeetLink(meeting.conference_url) ? `Join video call: ${meeting.conference_url}` : null;
+  return [meeting.description, meeting.agenda && `Agenda:\n${meeting.agenda}`, joinLink].filter(Boolean).join("\n\n");
+}
+
+// A video meeting without a link asks Google for a Meet; anything not on Meet drops one
+function toConferenceData(meeting: MeetingRow): Pick<GoogleEvent, "conferenceData"> {
+  if (meeting.meeting_mode === "video" && !meeting.conference_url) {
+    return {
+      conferenceData: {
+        // Google creates one conference per request id, so retries reuse it
+        createRequest: { requestId: `buizly-${meeting.id}`, conferenceSolutionKey: { type: "hangoutsMeet" } },
+      },
+    };
+  }
+  if (meeting.meeting_mode === "video" && isMeetLink(meeting.conference_url)) return {};
+  return { conferenceData: null };
+}
+
+// The Meet link on an event, once Google has created the conference
+function getMeetLink(event: GoogleEvent): string | null {
+  return event.hangoutLink || event.conferenceData?.entryPoints?.find(e => e.entryPointType === "video")?.uri || null;
+}
+
+// A meeting without a join link takes the Meet link Google created or the user added there
+function toConferenceUpdates(meeting: MeetingRow, event: GoogleEvent): Record<string, unknown> {
+  const link = getMeetLink(event);
+  if (!link || meeting.conference_url) return {};
+  return { meeting_mode: "video", conference_url: link };
+}
+
+function toICalRecurrence(meeting: MeetingRow): string[] {
+  if (!meeting.recurrence_rule) return [];
+  const lines = [`RRULE:${meeting.recurrence_rule}`];
+  if (meeting.recurrence_exceptions?.length) {
+    lines.push(`EXDATE:${meeting.recurrence_exceptions.map(toBasicUtc).join(",")}`);
+  }
+  return lines;
+}
+
+export function toGoogleEvent(meeting: MeetingRow, attendees: string[]): Partial<GoogleEvent> {
+  const start = new Date(meeting.starts_at);
+  const end = new Date(start.getTime() + meeting.duration_minutes * 60 * 1000);
+  const timeZone = meeting.time_zone || "UTC";
+  const recurrence = toICalRecurrence(meeting);
+
+  return {
+    summary: meeting.title || "Meeting",
+    description: getEventDescription(meeting),
+    location: meeting.location || "",
+    // Google shows the event in this zone on the organizer's calendar
+    start: { dateTime: start.toISOString(), timeZone },
+    end: { dateTime: end.toISOString(), timeZone },
+    attendees: attendees.map(email => ({ email })),
+    ...toConferenceData(meeting),
+    ...(recurrence.length ? { recurrence } : {}),
+  };
+}
+
+export function toConflict(event: GoogleEvent): GoogleSyncConflict {
+  const startsAt = event.start?.dateTime ? new Date(event.start.dateTime) : null;
+  const endsAt = event.end?.dateTime ? new Date(event.end.dateTime) : null;
+  const duration = startsAt && endsAt ? Math.round((endsAt.getTime() - startsAt.getTime()) / 60000) : null;
+  const rule = event.recurrence?.find(line => line.startsWith("RRULE:"))?.slice("RRULE:".length) || null;
+
+  return {
+    etag: event.etag || null,
+    status: event.status === "cancelled" ? "cancelled" : "confirmed",
+    title: event.summary ?? null,
+    starts_at: startsAt ? startsAt.toISOString() : null,
+    duration_minutes: duration === null ? null : Math.min(Math.max(duration, MIN_DURATION_MINUTES), MAX_DURATION_MINUTES),
+    location: event.location ?? null,
+    time_zone: event.start?.timeZone ?? null,
+    recurrence_rule: rule && RECURRENCE_RULE_PATTERN.test(rule) ? rule : null,
+    updated_at: event.updated ?? null,
+  };
+}
+
+// The event no longer exists in Google
+function deletedConflict(): GoogleSyncConflict {
+  return {
+    etag: null,
+    status: "cancelled",
+    title: null,
+    starts_at: null,
+    duration_minutes: null,
+    location: null,
+    time_zone: null,
+    recurrence_rule: null,
+    updated_at: null,
+  };
+}
+
+// Meeting columns that take Google's version. Notes, photos and participants stay Buizly-only.
+export function toMeetingUpdates(conflict: GoogleSyncConflict, meeting: MeetingRow): Record<string, unknown> {
+  if (conflict.status === "cancelled") return { status: "cancelled" };
+
+  const updates: Record<string, unknown> = {
+    title: conflict.title ?? meeting.title,
+    location: conflict.location || null,
+  };
+  // All-day events have no time of day; the Buizly time is kept
+  if (conflict.starts_at) {
+    updates.starts_at = conflict.starts_at;
+    updates.time_zone = conflict.time_zone || meeting.time_zone;
+  }
+  if (conflict.duration_minutes) updates.duration_minutes = conflict.duration_minutes;
+  if (meeting.recurrence_rule && conflict.recurrence_rule) updates.recurrence_rule = conflict.recurrence_rule;
+  return updates;
+}
+
+async function recordConflict(supabase: SupabaseClient, meetingId: string, conflict: GoogleSyncConflict) {
+  const { error } = await supabase
+    .from("meetings")
+    .update({ google_sync_conflict: conflict })
+    .eq("id", meetingId);
+  if (error) throw error;
+}
+
+async function markSynced(supabase: SupabaseClient, meetingId: string, event: GoogleEvent | null, updates: Record<string, unknown> = {}) {
+  const { error } = await supabase
+    .from("meetings")
+    .update({
+      ...updates,
+      ...(event ? { google_calendar_event_id: event.id, google_calendar_etag: event.etag || null } : {}),
+      google_sync_pending: false,
+      google_sync_conflict: null,
+    })
+    .eq("id", meetingId);
+  if (error) throw error;
+}
+
+async function getSeriesEventId(supabase: SupabaseClient, seriesId: string): Promise<string | null> {
+  const { data } = await supabase
+    .from("meetings")
+    .select("google_calendar_event_id")
+    .eq("id", seriesId)
+    .maybeSingle();
+  return data?.google_calendar_event_id || null;
+}
+
+/**
+ * Writes a meeting to Google: creates the event, patches it (guarded by the
+ * last known etag unless `force`), or deletes it once the meeting is
+ * cancelled. Occurrence overrides patch their instance of the series event.
+ */
+export async function pushMeeting(
+  api: GoogleCalendarApi,
+  supabase: SupabaseClient,
+  meeting: MeetingRow,
+  force = false
+): Promise<PushResult> {
+  if (meeting.google_sync_conflict && !force) {
+    return { status: "conflict", conflict: meeting.google_sync_conflict };
+  }
+
+  let eventId = meeting.google_calendar_event_id;
+  if (!eventId && meeting.series_id && meeting.original_starts_at) {
+    const seriesEventId = await getSeriesEventId(supabase, meeting.series_id);
+    if (!seriesEventId) return { status: "skipped" };
+    eventId = getInstanceId(seriesEventId, meeting.original_starts_at);
+  }
+
+  if (meeting.status === "cancelled") {
+    if (eventId) await api.deleteEvent(eventId);
+    await markSynced(supabase, meeting.id, null);
+    return { status: "synced", eventId };
+  }
+
+  const { data: participants } = await supabase
+    .from("meeting_participants")
+    .select("email")
+    .eq("meeting_id", meeting.id);
+  const body = toGoogleEvent(meeting, (participants || []).map(p => p.email));
+
+  try {
+    const event = eventId
+      ? await api.patchEvent(eventId, body, force ? null : meeting.google_calendar_etag)
+      : await api.insertEvent({ ...body, reminders: DEFAULT_REMINDERS });
+
+    await markSynced(supabase, meeting.id, event, toConferenceUpdates(meeting, event));
+    return { status: "synced", eventId: event.id };
+  } catch (error) {
+    if (!(error instanceof GoogleApiError) || !eventId || ![404, 410, 412].includes(error.status)) throw error;
+
+    if (!force) {
+      // Changed (412) or deleted (404/410) in Google since the last sync
+      const conflict = error.status === 412 ? toConflict(await api.getEvent(eventId)) : deletedConflict();
+      await recordConflict(supabase, meeting.id, conflict);
+      return { status: "conflict", conflict };
+    }
+
+    // Keeping the Buizly version of a meeting deleted in Google recreates it;
+    // a deleted instance cannot be recreated on its own
+    if (error.status === 412 || meeting.series_id) throw error;
+    const event = await api.insertEvent({ ...body, reminders: DEFAULT_REMINDERS });
+    await markSynced(supabase, meeting.id, event, toConferenceUpdates(meeting, event));
+    return { status: "synced", eventId: event.id };
+  }
+}
+
+// Removes a meeting's event (or its instance of a series event) before the meeting is deleted
+export async function removeMeeting(api: GoogleCalendarApi, supabase: SupabaseClient, meeting: MeetingRow) {
+  if (meeting.google_calendar_event_id) {
+    await api.deleteEvent(meeting.google_calendar_event_id);
+  } else if (meeting.series_id && meeting.original_starts_at) {
+    const seriesEventId = await getSeriesEventId(supabase, meeting.series_id);
+    if (seriesEventId) await api.deleteEvent(getInstanceId(seriesEventId, meeting.original_starts_at));
+  }
+}
+
+// Applies the Google version kept in google_sync_conflict and clears the conflict
+export async function acceptGoogleVersion(supabase: SupabaseClient, meeting: MeetingRow) {
+  const conflict = meeting.google_sync_conflict;
+  if (!conflict) return;
+
+  const { error } = await supabase
+    .from("meetings")
+    .update({
+      ...toMeetingUpdates(conflict, meeting),
+      google_calendar_etag: conflict.etag,
+      google_sync_pending: false,
+      google_sync_conflict: null,
+    })
+    .eq("id", meeting.id);
+  if (error) throw error;
+}
+
+async function applyEventChange(
+  supabase: SupabaseClient,
+  meeting: MeetingRow,
+  event: GoogleEvent
+): Promise<"unchanged" | "updated" | "conflict"> {
+  // Our own writes come back with the etag we stored
+  if (event.etag && event.etag === meeting.google_calendar_etag) return "unchanged";
+
+  const conflict = toConflict(event);
+  if (meeting.google_sync_pending) {
+    await recordConflict(supabase, meeting.id, conflict);
+    return "conflict";
+  }
+
+  await markSynced(supabase, meeting.id, event, {
+    ...toMeetingUpdates(conflict, meeting),
+    ...toConferenceUpdates(meeting, event),
+  });
+  return "updated";
+}
+
+/**
+ * A single instance of a series changed in Google: a cancelled instance
+ * becomes a recurrence exception, an edited one becomes an override row
+ * (the same shape updateOccurrence creates in the app).
+ */
+async function applyInstanceChange(
+  supabase: SupabaseClient,
+  series: MeetingRow,
+  event: GoogleEvent
+): Promise<"unchanged" | "updated"> {
+  const originalStart = event.originalStartTime?.dateTime;
+  if (!originalStart) return "unchanged";
+  const originalStartsAt = new Date(originalStart).toISOString();
+
+  if (event.status === "cancelled") {
+    const exceptions = series.recurrence_exceptions || [];
+    if (exceptions.some(d => new Date(d).toISOString() === originalStartsAt)) return "unchanged";
+
+    const { error } = await supabase
+      .from("meetings")
+      .update({ recurrence_exceptions: [...exceptions, originalStartsAt] })
+      .eq("id", series.id);
+    if (error) throw error;
+    series.recurrence_exceptions = [...exceptions, originalStartsAt];
+    return "updated";
+  }
+
+  const { data: existing } = await supabase
+    .from("meetings")
+    .select("id")
+    .eq("series_id", series.id)
+    .eq("original_starts_at", originalStartsAt)
+    .maybeSingle();
+  if (existing) {
+    console.warn("[google-calendar-sync] Occurrence override exists without an event id:", existing.id);
+    return "unchanged";
+  }
+
+  const { data: override, error } = await supabase
+    .from("meetings")
+    .insert({
+      user_id: series.user_id,
+      organizer_id: series.organizer_id,
+      connection_id: series.connection_id,
+      parent_meeting_id: series.parent_meeting_id,
+      title: series.title,
+      description: series.description,
+      agenda: series.agenda,
+      location: series.location,
+      meeting_mode: series.meeting_mode,
+      conference_url: series.conference_url,
+      duration_minutes: series.duration_minutes,
+      status: series.status,
+      // Derived again from starts_at by the database
+      meeting_date: series.meeting_date,
+      meeting_time: series.meeting_time,
+      starts_at: originalStartsAt,
+      time_zone: series.time_zone,
+      ...toMeetingUpdates(toConflict(event), { ...series, recurrence_rule: null }),
+      series_id: series.id,
+      original_starts_at: originalStartsAt,
+      google_calendar_event_id: event.id,
+      google_calendar_etag: event.etag || null,
+    })
+    .select("id")
+    .single();
+  if (error) throw error;
+
+  const { data: participants } = await supabase
+    .from("meeting_participants")
+    .select("email, name, user_id, response")
+    .eq("meeting_id", series.id);
+  if (participants && participants.length > 0) {
+    const { error: participantsError } = await supabase
+      .from("meeting_participants")
+      .insert(participants.map(p => ({ ...p, meeting_id: override.id })));
+    if (participantsError) throw participantsError;
+  }
+
+  return "updated";
+}
+
+/**
+ * Pulls changes since the stored sync token, then pushes meetings still
+ * pending. Only events linked to Buizly meetings (or instances of linked
+ * series) are touched; the rest of the calendar is ignored.
+ */
+export async function pullChanges(
+  api: GoogleCalendarApi,
+  supabase: SupabaseClient,
+  userId: string,
+  syncToken: string | null
+): Promise<PullResult> {
+  let changes;
+  try {
+    changes = await api.listChanges(syncToken);
+  } catch (error) {
+    // Google expires sync tokens; start over with a fresh listing
+    if (!(error instanceof GoogleApiError) || error.status !== 410 || !syncToken) throw error;
+    console.log("[google-calendar-sync] Sync token expired, running a full sync");
+    changes = await api.listChanges(null);
+  }
+
+  const eventIds = [...new Set(changes.events.flatMap(e => [e.id, e.recurringEventId]).filter(Boolean))] as string[];
+  const meetingsByEventId = new Map<string, MeetingRow>();
+
+  for (let i = 0; i < eventIds.length; i += 100) {
+    const { data, error } = await supabase
+      .from("meetings")
+      .select("*")
+      .eq("user_id", userId)
+      .in("google_calendar_event_id", eventIds.slice(i, i + 100));
+    if (error) throw error;
+    for (const meeting of data || []) meetingsByEventId.set(meeting.google_calendar_event_id, meeting);
+  }
+
+  let updated = 0;
+  let conflicts = 0;
+
+  for (const event of changes.events) {
+    const meeting = meetingsByEventId.get(event.id);
+    const series = event.recurringEventId ? meetingsByEventId.get(event.recurringEventId) : undefined;
+
+    try {
+      const result = meeting
+        ? await applyEventChange(supabase, meeting, event)
+        : series?.recurrence_rule
+          ? await applyInstanceChange(supabase, series, event)
+          : "unchanged";
+
+      if (result === "updated") updated++;
+      if (result === "conflict") conflicts++;
+    } catch (error: any) {
+      // One bad event should not block the rest of the sync
+      console.error("[google-calendar-sync] Failed to apply event", event.id, error.message);
+    }
+  }
+
+  // Edits whose push failed earlier (e.g. offline) go out now that Google's side is current
+  const { data: pending, error: pendingError } = await supabase
+    .from("meetings")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("google_sync_pending", true)
+    .is("google_sync_conflict", null)
+    .limit(50);
+  if (pendingError) throw pendingError;
+
+  let pushed = 0;
+  for (const meeting of pending || []) {
+    try {
+      const result = await pushMeeting(api, supabase, meeting);
+      if (result.status === "synced") pushed++;
+      if (result.status === "conflict") conflicts++;
+    } catch (error: any) {
+      console.error("[google-calendar-sync] Failed to push meeting", meeting.id, error.message);
+    }
+  }
+
+  return { nextSyncToken: changes.nextSyncToken, updated, conflicts, pushed };
+}
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.84.0";
+import { decryptToken } from "../_shared/tokenCrypto.ts";
 
 // CORS configuration - restrict to allowed origins for authenticated endpoints
 const allowedOrigins = [
@@ -32,57 +33,6 @@ function getCorsHeaders(req: Request): { [key: string]: string } {
   };
 }
 
-// Token decryption utilities using AES-GCM
-async function getEncryptionKey(): Promise<CryptoKey> {
-  const keyString = Deno.env.get("TOKEN_ENCRYPTION_KEY");
-  if (!keyString) {
-    throw new Error("TOKEN_ENCRYPTION_KEY not configured");
-  }
-  
-  // Use the key string to derive a proper AES key
-  const encoder = new TextEncoder();
-  const keyData = encoder.encode(keyString);
-  
-  // Hash the key to get exactly 32 bytes for AES-256
-  const hashBuffer = await crypto.subtle.digest("SHA-256", keyData);
-  
-  return crypto.subtle.importKey(
-    "raw",
-    hashBuffer,
-    { name: "AES-GCM", length: 256 },
-    false,
-    ["encrypt", "decrypt"]
-  );
-}
-
-async function decryptToken(encryptedToken: string): Promise<string> {
-  // Check if token is encrypted (has enc: prefix)
-  if (!encryptedToken.startsWith("enc:")) {
-    // Return as-is for backwards compatibility with plaintext tokens
-    console.log("[google-revoke] Token not encrypted, using plaintext (legacy)");
-    return encryptedToken;
-  }
-  
-  const key = await getEncryptionKey();
-  
-  // Remove prefix and decode base64
-  const base64Data = encryptedToken.substring(4);
-  const combined = Uint8Array.from(atob(base64Data), c => c.charCodeAt(0));
-  
-  // Extract IV (first 12 bytes) and encrypted data
-  const iv = combined.slice(0, 12);
-  const encryptedData = combined.slice(12);
-  
-  const decrypted = await crypto.subtle.decrypt(
-    { name: "AES-GCM", iv },
-    key,
-    encryptedData
-  );
-  
-  const decoder = new TextDecoder();
-  return decoder.decode(decrypted);
-}
-
 serve(async (req: Request) => {
   const corsHeaders = getCorsHeaders(req);
 
@@ -139,6 +89,9 @@ serve(async (req: Request) => {
       .update({
         google_calendar_connected: false,
         google_refresh_token: null,
+        // A sync token only applies to the calendar it came from
+        google_sync_token: null,
+        google_last_synced_at: null,
         updated_at: new Date().toISOString(),
       })
       .eq("user_id", user.id);
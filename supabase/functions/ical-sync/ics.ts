@@ -0,0 +1,304 @@
+// Tolerant iCalendar (RFC 5545) reader that turns a feed into busy blocks.
+// Real-world feeds bend the spec (Windows zone names, missing DTEND, stray
+// whitespace), so anything unusable is skipped rather than failing the feed.
+
+import { fromZonedTime } from "https://esm.sh/date-fns-tz@3.2.0";
+import { RRule } from "https://esm.sh/rrule@2.8.1";
+
+export interface BusyBlock {
+  uid: string | null;
+  summary: string | null;
+  starts_at: string;
+  ends_at: string;
+  // All-day blocks hold UTC midnights; readers place them on the calendar day in their zone
+  all_day: boolean;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// A DTSTART/DTEND as written: the wall-clock time (encoded as UTC) and its zone
+interface IcsDate {
+  floating: Date;
+  timeZone: string;
+  allDay: boolean;
+}
+
+interface IcsEvent {
+  uid: string | null;
+  summary: string | null;
+  start: IcsDate;
+  durationMs: number;
+  rrule: string | null;
+  exdates: number[];
+  recurrenceId: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_OCCURRENCES_PER_EVENT = 1000;
+export const MAX_BUSY_BLOCKS = 5000;
+
+// Zone names Outlook and Exchange write instead of IANA ids
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  "UTC": "UTC",
+  "GMT Standard Time": "Europe/London",
+  "W. Europe Standard Time": "Europe/Berlin",
+  "Romance Standard Time": "Europe/Paris",
+  "Central Europe Standard Time": "Europe/Budapest",
+  "E. Europe Standard Time": "Europe/Bucharest",
+  "South Africa Standard Time": "Africa/Johannesburg",
+  "Namibia Standard Time": "Africa/Windhoek",
+  "Eastern Standard Time": "America/New_York",
+  "Central Standard Time": "America/Chicago",
+  "Mountain Standard Time": "America/Denver",
+  "Pacific Standard Time": "America/Los_Angeles",
+  "India Standard Time": "Asia/Kolkata",
+  "China Standard Time": "Asia/Shanghai",
+  "Tokyo Standard Time": "Asia/Tokyo",
+  "AUS Eastern Standard Time": "Australia/Sydney",
+};
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Unknown zones fall back to the calendar's default rather than dropping the event
+function resolveTimeZone(tzid: string | undefined, fallback: string): string {
+  if (!tzid) return fallback;
+  const name = tzid.replace(/^"|"$/g, "").trim();
+  if (WINDOWS_TIME_ZONES[name]) return WINDOWS_TIME_ZONES[name];
+  if (isValidTimeZone(name)) return name;
+  // e.g. "/mozilla.org/20050126_1/America/New_York"
+  const iana = name.match(/([A-Za-z_]+\/[A-Za-z_+-]+(?:\/[A-Za-z_+-]+)?)$/);
+  if (iana && isValidTimeZone(iana[1])) return iana[1];
+  return fallback;
+}
+
+// Long lines are folded onto continuation lines that start with a space or tab
+function unfoldLines(text: string): string[] {
+  const lines: string[] = [];
+  for (const line of text.split(/\r\n|\n|\r/)) {
+    if ((line.startsWith(" ") || line.startsWith("\t")) && lines.length > 0) {
+      lines[lines.length - 1] += line.slice(1);
+    } else if (line.trim()) {
+      lines.push(line);
+    }
+  }
+  return lines;
+}
+
+// NAME;PARAM=VALUE;PARAM="QUOTED:VALUE":VALUE
+function parseProperty(line: string): IcsProperty | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf("=");
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.trim().toUpperCase(), params, value: line.slice(colon + 1).trim() };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\n/gi, "\n").replace(/\\([,;\\])/g, "$1");
+}
+
+function parseDate(value: string, params: Record<string, string>, defaultTimeZone: string): IcsDate | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const allDay = params.VALUE === "DATE" || hours === undefined;
+  const floating = new Date(Date.UTC(
+    Number(year), Number(month) - 1, Number(day),
+    allDay ? 0 : Number(hours), allDay ? 0 : Number(minutes), allDay ? 0 : Number(seconds || 0)
+  ));
+  if (Number.isNaN(floating.getTime())) return null;
+
+  const timeZone = allDay || utc ? "UTC" : resolveTimeZone(params.TZID, defaultTimeZone);
+  return { floating, timeZone, allDay };
+}
+
+function toInstant(date: IcsDate): number {
+  if (date.timeZone === "UTC") return date.floating.getTime();
+  return fromZonedTime(date.floating.toISOString().slice(0, 19), date.timeZone).getTime();
+}
+
+// P1W, P1D, PT1H30M, P1DT2H (negative durations are ignored)
+function parseDuration(value: string): number | null {
+  const match = value.match(/^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, weeks, days, hours, minutes, seconds] = match.map(part => Number(part || 0));
+  return ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+}
+
+function buildEvent(properties: IcsProperty[], defaultTimeZone: string): IcsEvent | null {
+  const get = (name: string) => properties.find(p => p.name === name);
+
+  // Cancelled and "show as free" events don't block time
+  if (get("STATUS")?.value.toUpperCase() === "CANCELLED") return null;
+  if (get("TRANSP")?.value.toUpperCase() === "TRANSPARENT") return null;
+
+  const dtstart = get("DTSTART");
+  const start = dtstart && parseDate(dtstart.value, dtstart.params, defaultTimeZone);
+  if (!start) return null;
+
+  let durationMs: number | null = null;
+  const dtend = get("DTEND");
+  const end = dtend && parseDate(dtend.value, dtend.params, defaultTimeZone);
+  if (end) {
+    durationMs = start.allDay
+      ? end.floating.getTime() - start.floating.getTime()
+      : toInstant(end) - toInstant(start);
+  } else if (get("DURATION")) {
+    durationMs = parseDuration(get("DURATION")!.value);
+  }
+  // Without an end, an all-day event takes its day and a timed one is a point in time
+  if (durationMs === null) durationMs = start.allDay ? DAY_MS : 0;
+  if (durationMs <= 0) return null;
+
+  const exdates: number[] = [];
+  for (const exdate of properties.filter(p => p.name === "EXDATE")) {
+    for (const value of exdate.value.split(",")) {
+      const date = parseDate(value.trim(), exdate.params, start.timeZone === "UTC" ? defaultTimeZone : start.timeZone);
+      if (date) exdates.push(toInstant(date));
+    }
+  }
+
+  const recurrenceIdProp = get("RECURRENCE-ID");
+  const recurrenceId = recurrenceIdProp && parseDate(recurrenceIdProp.value, recurrenceIdProp.params, defaultTimeZone);
+
+  return {
+    uid: get("UID")?.value || null,
+    summary: get("SUMMARY") ? unescapeText(get("SUMMARY")!.value) : null,
+    start,
+    durationMs,
+    rrule: get("RRULE")?.value || null,
+    exdates,
+    recurrenceId: recurrenceId ? toInstant(recurrenceId) : null,
+  };
+}
+
+// Start instants of an event in [from, to), expanding RRULEs in wall-clock time
+function getStarts(event: IcsEvent, from: number, to: number): number[] {
+  const first = toInstant(event.start);
+  if (!event.rrule) return [first];
+
+  let rule: RRule;
+  try {
+    rule = new RRule({ ...RRule.parseString(event.rrule), dtstart: event.start.floating });
+  } catch {
+    console.warn("[ical-sync] Skipping invalid RRULE:", event.rrule);
+    return [first];
+  }
+
+  // Floating bounds are off by the zone offset, so widen by a day and filter exactly below
+  const excluded = new Set(event.exdates);
+  return rule
+    .between(new Date(from - event.durationMs - DAY_MS), new Date(to + DAY_MS), true, (_, count) => count < MAX_OCCURRENCES_PER_EVENT)
+    .map(date => toInstant({ ...event.start, floating: date }))
+    .filter(start => !excluded.has(start));
+}
+
+/**
+ * Busy blocks from an ICS feed that overlap [from, to). Recurring events are
+ * expanded; an instance moved or cancelled via RECURRENCE-ID replaces the
+ * original occurrence.
+ */
+export function parseBusyBlocks(text: string, from: Date, to: Date): { blocks: BusyBlock[]; skipped: number } {
+  const lines = unfoldLines(text);
+  if (!lines.some(line => line.toUpperCase().startsWith("BEGIN:VCALENDAR"))) {
+    throw new Error("Not an iCalendar feed");
+  }
+
+  const calendarZone = lines
+    .map(line => line.match(/^X-WR-TIMEZONE[^:]*:(.+)$/i)?.[1])
+    .find(Boolean);
+  const defaultTimeZone = resolveTimeZone(calendarZone, "UTC");
+
+  // Collect each VEVENT's own properties, ignoring nested components such as VALARM
+  const rawEvents: IcsProperty[][] = [];
+  const stack: string[] = [];
+  let current: IcsProperty[] | null = null;
+  for (const line of lines) {
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === "BEGIN") {
+      stack.push(property.value.toUpperCase());
+      if (property.value.toUpperCase() === "VEVENT") current = [];
+    } else if (property.name === "END") {
+      if (stack.pop() === "VEVENT" && current) {
+        rawEvents.push(current);
+        current = null;
+      }
+    } else if (current && stack[stack.length - 1] === "VEVENT") {
+      current.push(property);
+    }
+  }
+
+  let skipped = 0;
+  const events: IcsEvent[] = [];
+  for (const properties of rawEvents) {
+    try {
+      const event = buildEvent(properties, defaultTimeZone);
+      if (event) events.push(event);
+    } catch (error) {
+      skipped++;
+      console.warn("[ical-sync] Skipping unreadable event:", error);
+    }
+  }
+
+  // Moved or cancelled instances of a series, keyed by UID
+  const replaced = new Map<string, Set<number>>();
+  for (const properties of rawEvents) {
+    const uid = properties.find(p => p.name === "UID")?.value;
+    const recurrenceId = properties.find(p => p.name === "RECURRENCE-ID");
+    const date = recurrenceId && parseDate(recurrenceId.value, recurrenceId.params, defaultTimeZone);
+    if (!uid || !date) continue;
+    if (!replaced.has(uid)) replaced.set(uid, new Set());
+    replaced.get(uid)!.add(toInstant(date));
+  }
+
+  const blocks: BusyBlock[] = [];
+  const fromMs = from.getTime();
+  const toMs = to.getTime();
+  for (const event of events) {
+    const overrides = !event.recurrenceId && event.uid ? replaced.get(event.uid) : undefined;
+
+    for (const start of getStarts(event, fromMs, toMs)) {
+      const end = start + event.durationMs;
+      if (start >= toMs || end <= fromMs || overrides?.has(start)) continue;
+
+      blocks.push({
+        uid: event.uid,
+        summary: event.summary,
+        starts_at: new Date(start).toISOString(),
+        ends_at: new Date(end).toISOString(),
+        all_day: event.start.allDay,
+      });
+      if (blocks.length >= MAX_BUSY_BLOCKS) return { blocks, skipped };
+    }
+  }
+
+  blocks.sort((a, b) => a.starts_at.localeCompare(b.starts_at));
+  return { blocks, skipped };
+}
@@ -0,0 +1,307 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.84.0";
+import { parseBusyBlocks } from "./ics.ts";
+
+// CORS configuration - restrict to allowed origins for authenticated endpoints
+const allowedOrigins = [
+  'https://buizly.lovable.app',
+  'https://lovable.app',
+  'https://lovable.dev',
+  'https://buizly.vercel.app',
+  'http://localhost:3000',
+  'http://localhost:5173',
+  'http://localhost:8080',
+];
+
+const allowedOriginPatterns = [
+  /^https:\/\/[a-z0-9-]+--[a-z0-9-]+\.lovable\.app$/,
+  /^https:\/\/preview--[a-z0-9-]+\.lovable\.app$/,
+  /^https:\/\/id-preview--[a-z0-9-]+\.lovable\.app$/,
+];
+
+function getCorsHeaders(req: Request): { [key: string]: string } {
+  const origin = req.headers.get('origin') || '';
+
+  const isAllowed = allowedOrigins.includes(origin) ||
+    allowedOriginPatterns.some(pattern => pattern.test(origin));
+
+  const allowOrigin = isAllowed ? origin : 'https://buizly.lovable.app';
+
+  return {
+    'Access-Control-Allow-Origin': allowOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+}
+
+// Background syncs from the app are skipped if the last one was this recent
+const SYNC_INTERVAL_MS = 15 * 60 * 1000;
+const FETCH_TIMEOUT_MS = 15 * 1000;
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+// Busy blocks are kept for this window around now
+const PAST_DAYS = 1;
+const FUTURE_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rate limiting map (in production, use Redis or similar)
+const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
+
+function checkRateLimit(key: string, limit: number, windowMs: number): boolean {
+  const now = Date.now();
+  const existing = rateLimitMap.get(key);
+
+  if (!existing || now > existing.resetAt) {
+    rateLimitMap.set(key, { count: 1, resetAt: now + windowMs });
+    return true;
+  }
+
+  if (existing.count >= limit) return false;
+
+  existing.count++;
+  return true;
+}
+
+const MAX_REDIRECTS = 3;
+
+const PRIVATE_IPV4 = /^(0\.|10\.|127\.|169\.254\.|172\.(1[6-9]|2\d|3[01])\.|192\.168\.|192\.0\.0\.|100\.(6[4-9]|[7-9]\d|1[01]\d|12[0-7])\.|198\.1[89]\.|2(2[4-9]|[3-5]\d)\.)/;
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges
+function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase();
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(ip)) return PRIVATE_IPV4.test(ip);
+  if (!ip.includes(":")) return false;
+
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return PRIVATE_IPV4.test(mapped[1]);
+  return ip === "::" || ip === "::1" || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith("ff") || ip.startsWith("::ffff:");
+}
+
+// Feeds are public calendar URLs; never reach into local or private networks
+function checkFeedUrl(url: URL) {
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error("The iCal feed URL must be an http(s) or webcal link");
+  }
+  const host = url.hostname;
+  if (
+    host === "localhost" || host.endsWith(".localhost") || host.endsWith(".local") || host.endsWith(".internal") ||
+    isPrivateAddress(host) || host.startsWith("[")
+  ) {
+    throw new Error("The iCal feed URL must be publicly reachable");
+  }
+}
+
+// A public name can still point at a private address
+async function checkResolvedHost(url: URL) {
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(url.hostname)) return;
+
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(url.hostname, "A"),
+    Deno.resolveDns(url.hostname, "AAAA"),
+  ]);
+  const addresses = lookups.flatMap(result => result.status === "fulfilled" ? result.value : []);
+  if (addresses.length === 0) {
+    throw new Error("The iCal feed URL could not be reached");
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error("The iCal feed URL must be publicly reachable");
+  }
+}
+
+// webcal:// is how calendar apps share feeds; it is plain HTTP(S) underneath
+function toFeedUrl(icalUrl: string): URL {
+  let url: URL;
+  try {
+    url = new URL(icalUrl.trim().replace(/^webcals?:\/\//i, "https://"));
+  } catch {
+    throw new Error("The iCal feed URL is not valid");
+  }
+
+  checkFeedUrl(url);
+  return url;
+}
+
+// Redirects are followed by hand so every hop gets the same checks as the feed URL
+async function fetchFeed(feedUrl: URL): Promise<string> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    let url = feedUrl;
+    let response: Response;
+    for (let hop = 0; ; hop++) {
+      await checkResolvedHost(url);
+      response = await fetch(url, {
+        headers: { "Accept": "text/calendar, */*" },
+        redirect: "manual",
+        signal: controller.signal,
+      });
+
+      const location = response.headers.get("location");
+      if (response.status < 300 || response.status >= 400 || !location) break;
+
+      await response.body?.cancel();
+      if (hop >= MAX_REDIRECTS) throw new Error("The iCal feed redirected too many times");
+      try {
+        url = new URL(location, url);
+      } catch {
+        throw new Error("The iCal feed redirected to an invalid URL");
+      }
+      checkFeedUrl(url);
+    }
+
+    if (!response.ok) {
+      throw new Error(`The iCal feed returned ${response.status}`);
+    }
+    if (Number(response.headers.get("content-length") || 0) > MAX_FEED_BYTES) {
+      throw new Error("The iCal feed is too large");
+    }
+
+    const text = await response.text();
+    if (text.length > MAX_FEED_BYTES) {
+      throw new Error("The iCal feed is too large");
+    }
+    return text;
+  } catch (error: any) {
+    if (error.name === "AbortError") throw new Error("The iCal feed took too long to respond");
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Re-reads a user's feed and replaces their stored busy blocks. On failure the
+ * previous blocks are kept and the error is saved for the settings screen.
+ */
+async function syncFeed(supabase: SupabaseClient, userId: string, icalUrl: string): Promise<{ blocks: number; skipped: number }> {
+  try {
+    const now = Date.now();
+    const text = await fetchFeed(toFeedUrl(icalUrl));
+    const { blocks, skipped } = parseBusyBlocks(text, new Date(now - PAST_DAYS * DAY_MS), new Date(now + FUTURE_DAYS * DAY_MS));
+
+    const { error: deleteError } = await supabase.from("calendar_busy_blocks").delete().eq("user_id", userId);
+    if (deleteError) throw deleteError;
+
+    for (let i = 0; i < blocks.length; i += 500) {
+      const { error: insertError } = await supabase
+        .from("calendar_busy_blocks")
+        .insert(blocks.slice(i, i + 500).map(block => ({ ...block, user_id: userId })));
+      if (insertError) throw insertError;
+    }
+
+    const { error: updateError } = await supabase
+      .from("user_settings")
+      .update({ ical_last_synced_at: new Date().toISOString(), ical_sync_error: null })
+      .eq("user_id", userId);
+    if (updateError) throw updateError;
+
+    return { blocks: blocks.length, skipped };
+  } catch (error: any) {
+    await supabase
+      .from("user_settings")
+      .update({ ical_last_synced_at: new Date().toISOString(), ical_sync_error: error.message })
+      .eq("user_id", userId);
+    throw error;
+  }
+}
+
+serve(async (req: Request) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status,
+    });
+
+  try {
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader) {
+      throw new Error("No authorization header");
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const token = authHeader.replace("Bearer ", "");
+
+    // Scheduled runs use the service role and refresh every stale feed
+    if (token === Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+      const { data: feeds, error: feedsError } = await supabase
+        .from("user_settings")
+        .select("user_id, ical_url")
+        .not("ical_url", "is", null)
+        .or(`ical_last_synced_at.is.null,ical_last_synced_at.lt.${new Date(Date.now() - SYNC_INTERVAL_MS).toISOString()}`)
+        .limit(100);
+      if (feedsError) throw feedsError;
+
+      let failed = 0;
+      for (const feed of feeds || []) {
+        try {
+          await syncFeed(supabase, feed.user_id, feed.ical_url);
+        } catch (error: any) {
+          failed++;
+          console.error("[ical-sync] Feed failed for user:", feed.user_id, error.message);
+        }
+      }
+
+      console.log(`[ical-sync] Synced ${(feeds || []).length - failed} feeds, ${failed} failed`);
+      return jsonResponse({ success: true, synced: (feeds || []).length - failed, failed });
+    }
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !user) {
+      throw new Error("Invalid user token");
+    }
+
+    if (!checkRateLimit(user.id, 20, 60000)) {
+      console.warn("[ical-sync] Rate limit exceeded for user:", user.id);
+      return jsonResponse({ error: "Rate limit exceeded. Please try again later." }, 429);
+    }
+
+    const { force } = await req.json().catch(() => ({ force: false }));
+
+    const { data: settings, error: settingsError } = await supabase
+      .from("user_settings")
+      .select("ical_url, ical_last_synced_at")
+      .eq("user_id", user.id)
+      .single();
+
+    if (settingsError) throw settingsError;
+
+    if (!settings.ical_url) {
+      // The feed was removed; its blocks go with it
+      const { error: deleteError } = await supabase.from("calendar_busy_blocks").delete().eq("user_id", user.id);
+      if (deleteError) throw deleteError;
+      return jsonResponse({ skipped: true, reason: "no_feed" });
+    }
+
+    if (!force) {
+      const lastSynced = settings.ical_last_synced_at ? new Date(settings.ical_last_synced_at).getTime() : 0;
+      if (Date.now() - lastSynced < SYNC_INTERVAL_MS) {
+        return jsonResponse({ skipped: true, reason: "recently_synced" });
+      }
+    }
+
+    let result: { blocks: number; skipped: number };
+    try {
+      result = await syncFeed(supabase, user.id, settings.ical_url);
+    } catch (error: any) {
+      // Unreachable or unreadable feeds are the user's to fix, so say why
+      console.warn("[ical-sync] Feed failed for user:", user.id, error.message);
+      return jsonResponse({ error: error.message }, 422);
+    }
+
+    console.log(`[ical-sync] Synced ${user.id}: ${result.blocks} busy blocks, ${result.skipped} events skipped`);
+    return jsonResponse({ success: true, blocks: result.blocks, skipped: result.skipped });
+  } catch (error: any) {
+    console.error("[ical-sync] Error:", error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
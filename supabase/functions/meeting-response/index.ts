@@ -0,0 +1,273 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { formatInTimeZone } from "https://esm.sh/date-fns-tz@3.2.0";
+import { consumeResponseToken, verifyResponseToken } from "../_shared/responseToken.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+/**
+ * "view" shows the meeting behind a link; the others answer the invitation.
+ * Participants are identified by an invitation `token`, or by `participantId`
+ * when signed in as that participant.
+ */
+interface MeetingResponseRequest {
+  action: "view" | "accept" | "decline" | "propose";
+  token?: string;
+  participantId?: string;
+  // ISO timestamps, for "propose"
+  startTimes?: string[];
+  note?: string;
+}
+
+interface Participant {
+  id: string;
+  meeting_id: string;
+  user_id: string | null;
+  email: string;
+  name: string | null;
+  response: string | null;
+}
+
+const MAX_PROPOSALS = 3;
+const MAX_DAYS_AHEAD = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rate limiting map (in production, use Redis or similar)
+const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
+
+function checkRateLimit(key: string, limit: number, windowMs: number): boolean {
+  const now = Date.now();
+  const existing = rateLimitMap.get(key);
+
+  if (!existing || now > existing.resetAt) {
+    rateLimitMap.set(key, { count: 1, resetAt: now + windowMs });
+    return true;
+  }
+
+  if (existing.count >= limit) return false;
+
+  existing.count++;
+  return true;
+}
+
+function validateUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+}
+
+// Signed-in participants can answer from the app; their account must be the one invited
+async function authorizeSignedIn(supabase: SupabaseClient, req: Request, participant: Participant): Promise<boolean> {
+  const token = req.headers.get("authorization")?.replace("Bearer ", "");
+  if (!token) return false;
+
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) return false;
+
+  return participant.user_id === user.id || participant.email.toLowerCase() === user.email?.toLowerCase();
+}
+
+// Saves up to three suggested start times, replacing the participant's open ones
+async function saveProposals(
+  supabase: SupabaseClient,
+  participant: Participant,
+  starts: number[],
+  note: string
+) {
+  const { error: deleteError } = await supabase
+    .from("meeting_time_proposals")
+    .delete()
+    .eq("participant_id", participant.id)
+    .eq("status", "pending");
+  if (deleteError) throw deleteError;
+
+  const { error: insertError } = await supabase
+    .from("meeting_time_proposals")
+    .insert(starts.sort((a, b) => a - b).map(t => ({
+      meeting_id: participant.meeting_id,
+      participant_id: participant.id,
+      starts_at: new Date(t).toISOString(),
+      note: note || null,
+    })));
+  if (insertError) throw insertError;
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  console.log("[meeting-response] Request received");
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const ip = req.headers.get("x-forwarded-for")?.split(",")[0] ||
+               req.headers.get("cf-connecting-ip") ||
+               "unknown";
+
+    if (!checkRateLimit(ip, 30, 60000)) {
+      console.warn("[meeting-response] Rate limit exceeded for IP:", ip.substring(0, 10) + "...");
+      return jsonResponse({ error: "Too many requests. Please try again later." }, 429);
+    }
+
+    const request: MeetingResponseRequest = await req.json();
+    if (!["view", "accept", "decline", "propose"].includes(request?.action)) {
+      return jsonResponse({ error: "Invalid request" }, 400);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    let participantId: string;
+    let tokenId: string | null = null;
+    let tokenUsed = false;
+
+    if (typeof request.token === "string" && request.token) {
+      const verified = await verifyResponseToken(supabaseClient, request.token);
+      if (!verified) {
+        return jsonResponse({ error: "This link is invalid or has expired. Ask the organizer to send the invitation again." }, 403);
+      }
+      participantId = verified.participantId;
+      tokenId = verified.tokenId;
+      tokenUsed = !!verified.usedAt;
+    } else if (typeof request.participantId === "string" && validateUUID(request.participantId)) {
+      participantId = request.participantId;
+    } else {
+      return jsonResponse({ error: "Invalid request" }, 400);
+    }
+
+    const { data: participant, error: participantError } = await supabaseClient
+      .from("meeting_participants")
+      .select("id, meeting_id, user_id, email, name, response")
+      .eq("id", participantId)
+      .maybeSingle();
+
+    if (participantError) throw participantError;
+    if (!participant || (!tokenId && !(await authorizeSignedIn(supabaseClient, req, participant)))) {
+      return jsonResponse({ error: "You can't respond to this meeting" }, 403);
+    }
+
+    const { data: meeting, error: meetingError } = await supabaseClient
+      .from("meetings")
+      .select("id, user_id, organizer_id, title, description, agenda, location, meeting_mode, conference_url, starts_at, time_zone, duration_minutes, recurrence_rule, status")
+      .eq("id", participant.meeting_id)
+      .single();
+
+    if (meetingError) throw meetingError;
+
+    if (request.action === "view") {
+      return jsonResponse({
+        meeting: {
+          id: meeting.id,
+          title: meeting.title,
+          description: meeting.description,
+          agenda: meeting.agenda,
+          location: meeting.location,
+          meeting_mode: meeting.meeting_mode,
+          conference_url: meeting.conference_url,
+          starts_at: meeting.starts_at,
+          time_zone: meeting.time_zone,
+          duration_minutes: meeting.duration_minutes,
+          recurrence_rule: meeting.recurrence_rule,
+          status: meeting.status,
+        },
+        participant: { name: participant.name, response: participant.response },
+        used: tokenUsed,
+      }, 200);
+    }
+
+    if (meeting.status === "cancelled") {
+      return jsonResponse({ error: "This meeting has been cancelled" }, 409);
+    }
+
+    let starts: number[] = [];
+    const note = typeof request.note === "string" ? request.note.trim() : "";
+    if (request.action === "propose") {
+      const now = Date.now();
+      const startTimes = Array.isArray(request.startTimes) ? request.startTimes : [];
+      starts = [...new Set(startTimes.map(t => new Date(t).getTime()))];
+      if (starts.length === 0 || starts.length > MAX_PROPOSALS) {
+        return jsonResponse({ error: `Suggest between 1 and ${MAX_PROPOSALS} times` }, 400);
+      }
+      if (starts.some(t => isNaN(t) || t <= now || t > now + MAX_DAYS_AHEAD * DAY_MS)) {
+        return jsonResponse({ error: "Suggested times must be in the future" }, 400);
+      }
+      if (note.length > 500) return jsonResponse({ error: "Your note is too long" }, 400);
+    }
+
+    // Each emailed link answers once; claiming it first settles races between clicks
+    if (tokenId && !(await consumeResponseToken(supabaseClient, tokenId))) {
+      return jsonResponse({ error: "You've already responded using this link" }, 409);
+    }
+
+    const response = request.action === "accept" ? "confirmed" : request.action === "decline" ? "declined" : "rescheduled";
+    const { error: updateError } = await supabaseClient
+      .from("meeting_participants")
+      .update({ response, responded_at: new Date().toISOString(), suggested_time: null })
+      .eq("id", participant.id);
+
+    if (updateError) throw updateError;
+
+    const organizerId = meeting.organizer_id || meeting.user_id;
+    const who = participant.name || participant.email;
+    const title = meeting.title || "Meeting";
+
+    if (request.action === "propose") {
+      await saveProposals(supabaseClient, participant, starts, note);
+
+      const firstTime = formatInTimeZone(new Date(Math.min(...starts)), meeting.time_zone || "UTC", "EEE, MMM d 'at' h:mm a");
+      await supabaseClient.from("notifications").insert({
+        user_id: organizerId,
+        type: "meeting_rescheduled",
+        title: "New time proposed",
+        message: starts.length === 1
+          ? `${who} suggested ${firstTime} for "${title}"`
+          : `${who} suggested ${starts.length} times for "${title}"`,
+        data: { meeting_id: meeting.id, participant_id: participant.id },
+      });
+
+      console.log(`[meeting-response] ${starts.length} times proposed for meeting ${meeting.id}`);
+      return jsonResponse({ success: true, response, proposed: starts.length }, 200);
+    }
+
+    // The meeting is on once someone accepts, and off only when nobody is still coming
+    if (response === "confirmed" && meeting.status === "pending") {
+      await supabaseClient.from("meetings").update({ status: "confirmed" }).eq("id", meeting.id);
+    } else if (response === "declined") {
+      const { count } = await supabaseClient
+        .from("meeting_participants")
+        .select("id", { count: "exact", head: true })
+        .eq("meeting_id", meeting.id)
+        .neq("response", "declined");
+      if (count === 0) {
+        await supabaseClient.from("meetings").update({ status: "declined" }).eq("id", meeting.id);
+      }
+    }
+
+    await supabaseClient.from("notifications").insert({
+      user_id: organizerId,
+      type: response === "confirmed" ? "meeting_confirmed" : "meeting_declined",
+      title: response === "confirmed" ? "Meeting accepted" : "Meeting declined",
+      message: `${who} ${response === "confirmed" ? "accepted" : "declined"} "${title}"`,
+      data: { meeting_id: meeting.id, participant_id: participant.id },
+    });
+
+    console.log(`[meeting-response] Participant ${participant.id} ${response} meeting ${meeting.id}`);
+    return jsonResponse({ success: true, response }, 200);
+  } catch (error: any) {
+    console.error("[meeting-response] Error:", error.message);
+    return jsonResponse({ error: "Something went wrong. Please try again." }, 500);
+  }
+};
+
+serve(handler);
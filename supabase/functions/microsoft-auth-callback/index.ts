@@ -0,0 +1,208 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.84.0";
+import { encryptToken } from "../_shared/tokenCrypto.ts";
+
+// CORS configuration - restrict to allowed origins for authenticated endpoints
+const allowedOrigins = [
+  'https://buizly.lovable.app',
+  'https://lovable.app',
+  'https://lovable.dev',
+  'https://buizly.vercel.app',
+  'http://localhost:3000',
+  'http://localhost:5173',
+  'http://localhost:8080',
+];
+
+const allowedOriginPatterns = [
+  /^https:\/\/[a-z0-9-]+--[a-z0-9-]+\.lovable\.app$/,
+  /^https:\/\/preview--[a-z0-9-]+\.lovable\.app$/,
+  /^https:\/\/id-preview--[a-z0-9-]+\.lovable\.app$/,
+];
+
+function getCorsHeaders(req: Request): { [key: string]: string } {
+  const origin = req.headers.get('origin') || '';
+  
+  const isAllowed = allowedOrigins.includes(origin) || 
+    allowedOriginPatterns.some(pattern => pattern.test(origin));
+  
+  const allowOrigin = isAllowed ? origin : 'https://buizly.lovable.app';
+  
+  return {
+    'Access-Control-Allow-Origin': allowOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+}
+
+// Rate limiting map (in production, use Redis or similar)
+const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
+
+function checkRateLimit(key: string, limit: number, windowMs: number): boolean {
+  const now = Date.now();
+  const existing = rateLimitMap.get(key);
+  
+  if (!existing || now > existing.resetAt) {
+    rateLimitMap.set(key, { count: 1, resetAt: now + windowMs });
+    return true;
+  }
+  
+  if (existing.count >= limit) return false;
+  
+  existing.count++;
+  return true;
+}
+
+serve(async (req: Request) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get IP for rate limiting
+    const ip = req.headers.get("x-forwarded-for")?.split(",")[0] || 
+               req.headers.get("cf-connecting-ip") || 
+               "unknown";
+
+    // Rate limit: 10 attempts per hour per IP
+    if (!checkRateLimit(ip, 10, 3600000)) {
+      console.warn("[microsoft-auth-callback] Rate limit exceeded for IP:", ip.substring(0, 10) + "...");
+      return new Response(
+        JSON.stringify({ error: "Rate limit exceeded. Please try again later." }),
+        { status: 429, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const { code, redirectUri } = await req.json();
+    
+    if (!code || typeof code !== 'string') {
+      return new Response(
+        JSON.stringify({ error: "Authorization code is required" }),
+        { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    if (!redirectUri || typeof redirectUri !== 'string') {
+      return new Response(
+        JSON.stringify({ error: "Redirect URI is required" }),
+        { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const clientId = Deno.env.get("MICROSOFT_OAUTH_CLIENT_ID");
+    const clientSecret = Deno.env.get("MICROSOFT_OAUTH_CLIENT_SECRET");
+    const authority = Deno.env.get("MICROSOFT_OAUTH_AUTHORITY") || "https://login.microsoftonline.com/common";
+    
+    if (!clientId || !clientSecret) {
+      console.error("[microsoft-auth-callback] OAuth credentials not configured");
+      return new Response(
+        JSON.stringify({ error: "OAuth configuration error" }),
+        { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    // Exchange code for tokens
+    const tokenResponse = await fetch(`${authority}/oauth2/v2.0/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        code,
+        client_id: clientId,
+        client_secret: clientSecret,
+        redirect_uri: redirectUri,
+        grant_type: "authorization_code",
+        scope: "offline_access User.Read Calendars.ReadWrite",
+      }),
+    });
+
+    if (!tokenResponse.ok) {
+      const error = await tokenResponse.text();
+      console.error("[microsoft-auth-callback] Token exchange failed:", error);
+      return new Response(
+        JSON.stringify({ error: "Failed to exchange authorization code" }),
+        { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const tokens = await tokenResponse.json();
+    
+    // Get user from auth header
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization required" }),
+        { status: 401, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser(
+      authHeader.replace("Bearer ", "")
+    );
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token" }),
+        { status: 401, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    // SECURITY: Encrypt refresh token before storing
+    let encryptedToken = null;
+    if (tokens.refresh_token) {
+      try {
+        encryptedToken = await encryptToken(tokens.refresh_token);
+        console.log("[microsoft-auth-callback] Token encrypted successfully");
+      } catch (encError) {
+        console.error("[microsoft-auth-callback] Encryption error:", encError);
+        // Fall back to plaintext if encryption fails (for backwards compatibility)
+        // In production, you should fail here instead
+        encryptedToken = tokens.refresh_token;
+      }
+    }
+
+    // Store encrypted refresh token in user_settings
+    const { error: updateError } = await supabase
+      .from("user_settings")
+      .update({
+        outlook_calendar_connected: true,
+        outlook_refresh_token: encryptedToken,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("user_id", user.id);
+
+    if (updateError) {
+      console.error("[microsoft-auth-callback] Update error:", updateError);
+      return new Response(
+        JSON.stringify({ error: "Failed to save connection" }),
+        { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    console.log("[microsoft-auth-callback] Successfully connected Outlook Calendar for user:", user.id);
+
+    return new Response(
+      JSON.stringify({ 
+        success: true,
+        accessToken: tokens.access_token,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+  } catch (error: any) {
+    console.error("[microsoft-auth-callback] Error:", error.message);
+    return new Response(
+      JSON.stringify({ error: "An unexpected error occurred" }),
+      {
+        headers: { ...getCorsHeaders(req), "Content-Type": "application/json" },
+        status: 500,
+      }
+    );
+  }
+});
@@ -0,0 +1,122 @@
+// Minimal Microsoft Graph calendar client. The base URL and fetch are
+// injectable so the sync can run against a local Graph mock
+// (MICROSOFT_GRAPH_API_URL).
+
+export const MICROSOFT_GRAPH_API_URL = "https://graph.microsoft.com/v1.0";
+
+// Graph takes a wall-clock time plus the zone it is in
+export interface GraphDateTime {
+  dateTime: string;
+  timeZone: string;
+}
+
+export interface GraphRecurrence {
+  pattern: {
+    type: "daily" | "weekly" | "absoluteMonthly" | "absoluteYearly";
+    interval: number;
+    daysOfWeek?: string[];
+    dayOfMonth?: number;
+    month?: number;
+    firstDayOfWeek?: string;
+  };
+  range: {
+    type: "noEnd" | "numbered" | "endDate";
+    startDate: string;
+    numberOfOccurrences?: number;
+    endDate?: string;
+    recurrenceTimeZone?: string;
+  };
+}
+
+export interface GraphEvent {
+  id?: string;
+  webLink?: string;
+  subject: string;
+  body?: { contentType: "text" | "html"; content: string };
+  start: GraphDateTime;
+  end: GraphDateTime;
+  location?: { displayName: string };
+  attendees?: { emailAddress: { address: string; name?: string }; type: "required" | "optional" }[];
+  recurrence?: GraphRecurrence;
+  isReminderOn?: boolean;
+  reminderMinutesBeforeStart?: number;
+}
+
+export class GraphApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "GraphApiError";
+  }
+}
+
+export interface GraphCalendarApi {
+  createEvent(event: GraphEvent): Promise<GraphEvent>;
+  updateEvent(eventId: string, event: Partial<GraphEvent>): Promise<GraphEvent>;
+  deleteEvent(eventId: string): Promise<void>;
+  // The instance of a recurring event that was originally scheduled at `originalStart`
+  findInstance(seriesEventId: string, originalStart: Date): Promise<string | null>;
+}
+
+interface GraphCalendarApiOptions {
+  baseUrl?: string;
+  fetchFn?: typeof fetch;
+}
+
+export function createGraphCalendarApi(accessToken: string, options: GraphCalendarApiOptions = {}): GraphCalendarApi {
+  const baseUrl = options.baseUrl || Deno.env.get("MICROSOFT_GRAPH_API_URL") || MICROSOFT_GRAPH_API_URL;
+  const fetchFn = options.fetchFn || fetch;
+
+  const eventsUrl = `${baseUrl}/me/events`;
+
+  const request = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const response = await fetchFn(url, {
+      ...init,
+      headers: {
+        "Authorization": `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      throw new GraphApiError(response.status, `Graph API error: ${await response.text()}`);
+    }
+    return response;
+  };
+
+  return {
+    async createEvent(event) {
+      const response = await request(eventsUrl, { method: "POST", body: JSON.stringify(event) });
+      return response.json();
+    },
+
+    async updateEvent(eventId, event) {
+      const response = await request(`${eventsUrl}/${encodeURIComponent(eventId)}`, {
+        method: "PATCH",
+        body: JSON.stringify(event),
+      });
+      return response.json();
+    },
+
+    async deleteEvent(eventId) {
+      try {
+        await request(`${eventsUrl}/${encodeURIComponent(eventId)}`, { method: "DELETE" });
+      } catch (error) {
+        // Already gone from Outlook
+        if (error instanceof GraphApiError && (error.status === 404 || error.status === 410)) return;
+        throw error;
+      }
+    },
+
+    async findInstance(seriesEventId, originalStart) {
+      const params = new URLSearchParams({
+        startDateTime: originalStart.toISOString(),
+        endDateTime: new Date(originalStart.getTime() + 60 * 1000).toISOString(),
+        $select: "id,originalStart",
+      });
+      const response = await request(`${eventsUrl}/${encodeURIComponent(seriesEventId)}/instances?${params}`);
+      const data: { value?: { id: string; originalStart?: string }[] } = await response.json();
+      const instance = data.value?.find(e => e.originalStart && new Date(e.originalStart).getTime() === originalStart.getTime());
+      return instance?.id || null;
+    },
+  };
+}
@@ -0,0 +1,163 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.84.0";
+import { createGraphCalendarApi } from "./graph.ts";
+import { getSeriesEventId, MEETING_COLUMNS, pushMeeting, removeMeeting, type MeetingRow } from "./sync.ts";
+import { decryptToken, encryptToken } from "../_shared/tokenCrypto.ts";
+
+// CORS configuration - restrict to allowed origins for authenticated endpoints
+const allowedOrigins = [
+  'https://buizly.lovable.app',
+  'https://lovable.app',
+  'https://lovable.dev',
+  'https://buizly.vercel.app',
+  'http://localhost:3000',
+  'http://localhost:5173',
+  'http://localhost:8080',
+];
+
+const allowedOriginPatterns = [
+  /^https:\/\/[a-z0-9-]+--[a-z0-9-]+\.lovable\.app$/,
+  /^https:\/\/preview--[a-z0-9-]+\.lovable\.app$/,
+  /^https:\/\/id-preview--[a-z0-9-]+\.lovable\.app$/,
+];
+
+function getCorsHeaders(req: Request): { [key: string]: string } {
+  const origin = req.headers.get('origin') || '';
+
+  const isAllowed = allowedOrigins.includes(origin) ||
+    allowedOriginPatterns.some(pattern => pattern.test(origin));
+
+  const allowOrigin = isAllowed ? origin : 'https://buizly.lovable.app';
+
+  return {
+    'Access-Control-Allow-Origin': allowOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+}
+
+/**
+ * Keeps a meeting's Outlook event in step with Buizly: "push" creates or
+ * updates it (and removes it once the meeting is cancelled), "delete" removes
+ * it before the meeting is deleted. Edited occurrences update their instance
+ * of the series event. Unlike Google, nothing is pulled back from Outlook.
+ */
+interface SyncRequest {
+  action?: "push" | "delete";
+  meetingId: string;
+}
+
+// Microsoft rotates refresh tokens, so the new one is returned for storing
+async function refreshAccessToken(encryptedRefreshToken: string): Promise<{ accessToken: string; refreshToken: string | null }> {
+  const authority = Deno.env.get("MICROSOFT_OAUTH_AUTHORITY") || "https://login.microsoftonline.com/common";
+
+  const response = await fetch(`${authority}/oauth2/v2.0/token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: Deno.env.get("MICROSOFT_OAUTH_CLIENT_ID")!,
+      client_secret: Deno.env.get("MICROSOFT_OAUTH_CLIENT_SECRET")!,
+      refresh_token: await decryptToken(encryptedRefreshToken),
+      grant_type: "refresh_token",
+      scope: "offline_access User.Read Calendars.ReadWrite",
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to refresh access token");
+  }
+
+  const data = await response.json();
+  return { accessToken: data.access_token, refreshToken: data.refresh_token || null };
+}
+
+function jsonResponse(body: unknown, corsHeaders: Record<string, string>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+}
+
+serve(async (req: Request) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader) {
+      throw new Error("No authorization header");
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser(
+      authHeader.replace("Bearer ", "")
+    );
+
+    if (userError || !user) {
+      throw new Error("Invalid user token");
+    }
+
+    const request: SyncRequest = await req.json();
+    const action = request?.action || "push";
+    if (!["push", "delete"].includes(action) || !request.meetingId || typeof request.meetingId !== "string") {
+      return jsonResponse({ error: "Invalid request" }, corsHeaders, 400);
+    }
+
+    const { data, error: meetingError } = await supabase
+      .from("meetings")
+      .select(MEETING_COLUMNS)
+      .eq("id", request.meetingId)
+      .eq("user_id", user.id)
+      .single();
+
+    if (meetingError || !data) {
+      throw new Error("Meeting not found");
+    }
+    const meeting = data as MeetingRow;
+
+    // Edited occurrences live on as an instance of the series event
+    const seriesEventId = !meeting.outlook_event_id && meeting.series_id
+      ? await getSeriesEventId(supabase, meeting.series_id)
+      : null;
+
+    // Only new meetings get an event created; the rest must already have one
+    const removing = action === "delete" || meeting.status === "cancelled";
+    if (!meeting.outlook_event_id && !seriesEventId && (removing || meeting.series_id)) {
+      return jsonResponse({ status: "skipped" }, corsHeaders);
+    }
+
+    const { data: settings, error: settingsError } = await supabase
+      .from("user_settings")
+      .select("outlook_refresh_token")
+      .eq("user_id", user.id)
+      .single();
+
+    if (settingsError || !settings?.outlook_refresh_token) {
+      throw new Error("Outlook Calendar not connected");
+    }
+
+    const { accessToken, refreshToken } = await refreshAccessToken(settings.outlook_refresh_token);
+    if (refreshToken) {
+      await supabase
+        .from("user_settings")
+        .update({ outlook_refresh_token: await encryptToken(refreshToken) })
+        .eq("user_id", user.id);
+    }
+
+    const api = createGraphCalendarApi(accessToken);
+    const result = action === "delete"
+      ? await removeMeeting(api, supabase, meeting, seriesEventId)
+      : await pushMeeting(api, supabase, meeting, seriesEventId);
+
+    return jsonResponse(result, corsHeaders);
+  } catch (error: any) {
+    console.error("[microsoft-calendar-sync] Error syncing Outlook Calendar event:", error);
+    return jsonResponse({ error: error.message }, getCorsHeaders(req), 500);
+  }
+});
@@ -0,0 +1,211 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.84.0";
+import { createFakeSupabase, jsonReply, withMockServer } from "../_shared/testing.ts";
+import { createGraphCalendarApi, type GraphEvent } from "./graph.ts";
+import { pushMeeting, removeMeeting, type MeetingRow } from "./sync.ts";
+
+const EVENTS_PATH = "/me/events";
+
+function meetingRow(overrides: Partial<MeetingRow> = {}): MeetingRow {
+  return {
+    id: "meeting-1",
+    title: "Quarterly review",
+    description: "Numbers for Q3",
+    agenda: null,
+    location: "Office",
+    conference_url: null,
+    starts_at: "2026-11-02T09:00:00.000Z",
+    time_zone: "Europe/Berlin",
+    duration_minutes: 30,
+    status: "confirmed",
+    recurrence_rule: null,
+    recurrence_exceptions: null,
+    series_id: null,
+    original_starts_at: null,
+    outlook_event_id: null,
+    ...overrides,
+  };
+}
+
+/**
+ * An Outlook calendar. `instances` lists each series event's occurrences by
+ * original start, as /events/{id}/instances reports them.
+ */
+function graphMock(events: Record<string, Partial<GraphEvent>> = {}, instances: Record<string, { id: string; originalStart: string }[]> = {}) {
+  let nextId = 1;
+
+  const handler = async (req: Request, url: URL): Promise<Response> => {
+    if (url.pathname === EVENTS_PATH && req.method === "POST") {
+      const id = `created-${nextId++}`;
+      events[id] = { ...(await req.json()), id, webLink: `https://outlook.office.com/calendar/item/${id}` };
+      return jsonReply(events[id], 201);
+    }
+
+    const instancesMatch = url.pathname.match(/^\/me\/events\/([^/]+)\/instances$/);
+    if (instancesMatch && req.method === "GET") {
+      const start = new Date(url.searchParams.get("startDateTime") || "").getTime();
+      const end = new Date(url.searchParams.get("endDateTime") || "").getTime();
+      const value = (instances[decodeURIComponent(instancesMatch[1])] || [])
+        .filter(i => new Date(i.originalStart).getTime() >= start && new Date(i.originalStart).getTime() < end);
+      return jsonReply({ value });
+    }
+
+    const eventMatch = url.pathname.match(/^\/me\/events\/([^/]+)$/);
+    const id = eventMatch && decodeURIComponent(eventMatch[1]);
+    if (!id || !events[id]) {
+      return jsonReply({ error: { code: "ErrorItemNotFound", message: "The specified object was not found in the store." } }, 404);
+    }
+    if (req.method === "PATCH") {
+      events[id] = { ...events[id], ...(await req.json()) };
+      return jsonReply(events[id]);
+    }
+    if (req.method === "DELETE") {
+      delete events[id];
+      return new Response(null, { status: 204 });
+    }
+    return jsonReply({ error: { code: "BadRequest" } }, 400);
+  };
+
+  return { events, handler };
+}
+
+Deno.test("pushMeeting creates an event for a new meeting and stores its id", async () => {
+  const graph = graphMock();
+  await withMockServer(graph.handler, async server => {
+    const api = createGraphCalendarApi("access-token", { baseUrl: server.url });
+    const meeting = meetingRow();
+    const supabase = createFakeSupabase({
+      meetings: [{ ...meeting }],
+      meeting_participants: [{ meeting_id: "meeting-1", email: "ada@example.com", name: "Ada" }],
+    });
+
+    const result = await pushMeeting(api, supabase as unknown as SupabaseClient, meeting, null);
+
+    assertEquals(result, {
+      status: "synced",
+      eventId: "created-1",
+      eventLink: "https://outlook.office.com/calendar/item/created-1",
+    });
+    assertEquals(supabase.tables.meetings[0].outlook_event_id, "created-1");
+
+    const created = graph.events["created-1"];
+    assertEquals(created.subject, "Quarterly review");
+    // Wall-clock time in the meeting's zone
+    assertEquals(created.start, { dateTime: "2026-11-02T10:00:00", timeZone: "Europe/Berlin" });
+    assertEquals(created.end, { dateTime: "2026-11-02T10:30:00", timeZone: "Europe/Berlin" });
+    assertEquals(created.attendees, [{ emailAddress: { address: "ada@example.com", name: "Ada" }, type: "required" }]);
+  });
+});
+
+Deno.test("pushMeeting updates the existing event in place", async () => {
+  const graph = graphMock({ "event-1": { id: "event-1", subject: "Quarterly review" } });
+  await withMockServer(graph.handler, async server => {
+    const api = createGraphCalendarApi("access-token", { baseUrl: server.url });
+    const meeting = meetingRow({ title: "Quarterly review (moved)", starts_at: "2026-11-03T13:00:00.000Z", outlook_event_id: "event-1" });
+    const supabase = createFakeSupabase({ meetings: [{ ...meeting }] });
+
+    const result = await pushMeeting(api, supabase as unknown as SupabaseClient, meeting, null);
+
+    assertEquals(result.status, "synced");
+    assertEquals(server.requests.map(r => `${r.method} ${r.path}`), ["PATCH /me/events/event-1"]);
+    assertEquals(graph.events["event-1"].subject, "Quarterly review (moved)");
+    assertEquals(graph.events["event-1"].start, { dateTime: "2026-11-03T14:00:00", timeZone: "Europe/Berlin" });
+    assertEquals(supabase.tables.meetings[0].outlook_event_id, "event-1");
+  });
+});
+
+Deno.test("pushMeeting recreates an event that was deleted in Outlook", async () => {
+  const graph = graphMock();
+  await withMockServer(graph.handler, async server => {
+    const api = createGraphCalendarApi("access-token", { baseUrl: server.url });
+    const meeting = meetingRow({ outlook_event_id: "deleted-in-outlook" });
+    const supabase = createFakeSupabase({ meetings: [{ ...meeting }] });
+
+    const result = await pushMeeting(api, supabase as unknown as SupabaseClient, meeting, null);
+
+    assertEquals(server.requests.map(r => r.method), ["PATCH", "POST"]);
+    assertEquals(result.status === "synced" && result.eventId, "created-1");
+    assertEquals(supabase.tables.meetings[0].outlook_event_id, "created-1");
+  });
+});
+
+Deno.test("pushMeeting deletes the event once the meeting is cancelled", async () => {
+  const graph = graphMock({ "event-1": { id: "event-1", subject: "Quarterly review" } });
+  await withMockServer(graph.handler, async server => {
+    const api = createGraphCalendarApi("access-token", { baseUrl: server.url });
+    const meeting = meetingRow({ status: "cancelled", outlook_event_id: "event-1" });
+    const supabase = createFakeSupabase({ meetings: [{ ...meeting }] });
+
+    const result = await pushMeeting(api, supabase as unknown as SupabaseClient, meeting, null);
+
+    assertEquals(result, { status: "synced", eventId: "event-1" });
+    assertEquals(server.requests.map(r => `${r.method} ${r.path}`), ["DELETE /me/events/event-1"]);
+    assertEquals(graph.events["event-1"], undefined);
+  });
+});
+
+Deno.test("pushMeeting updates an edited occurrence through its instance of the series", async () => {
+  const graph = graphMock(
+    { "series-1": { id: "series-1" }, "instance-2": { id: "instance-2", subject: "Standup" } },
+    { "series-1": [
+      { id: "instance-1", originalStart: "2026-11-02T09:00:00Z" },
+      { id: "instance-2", originalStart: "2026-11-03T09:00:00Z" },
+    ] }
+  );
+  await withMockServer(graph.handler, async server => {
+    const api = createGraphCalendarApi("access-token", { baseUrl: server.url });
+    const override = meetingRow({
+      id: "override-1",
+      title: "Standup (moved)",
+      starts_at: "2026-11-03T11:00:00.000Z",
+      series_id: "series-meeting",
+      original_starts_at: "2026-11-03T09:00:00.000Z",
+    });
+    const supabase = createFakeSupabase({ meetings: [{ ...override }] });
+
+    const result = await pushMeeting(api, supabase as unknown as SupabaseClient, override, "series-1");
+
+    assertEquals(result.status === "synced" && result.eventId, "instance-2");
+    assertEquals(graph.events["instance-2"].subject, "Standup (moved)");
+    assertEquals(supabase.tables.meetings[0].outlook_event_id, "instance-2");
+  });
+});
+
+Deno.test("pushMeeting removes cancelled occurrences from a recurring event", async () => {
+  const graph = graphMock(
+    { "series-1": { id: "series-1" }, "instance-2": { id: "instance-2" } },
+    { "series-1": [{ id: "instance-2", originalStart: "2026-11-09T09:00:00Z" }] }
+  );
+  await withMockServer(graph.handler, async server => {
+    const api = createGraphCalendarApi("access-token", { baseUrl: server.url });
+    const meeting = meetingRow({
+      recurrence_rule: "FREQ=WEEKLY;COUNT=4",
+      recurrence_exceptions: ["2026-11-09T09:00:00.000Z"],
+      outlook_event_id: "series-1",
+    });
+    const supabase = createFakeSupabase({ meetings: [{ ...meeting }] });
+
+    await pushMeeting(api, supabase as unknown as SupabaseClient, meeting, null);
+
+    assertEquals(graph.events["series-1"].recurrence?.pattern, {
+      type: "weekly", interval: 1, daysOfWeek: ["monday"], firstDayOfWeek: "monday",
+    });
+    assertEquals(graph.events["instance-2"], undefined);
+  });
+});
+
+Deno.test("removeMeeting deletes the event, and one already gone is not an error", async () => {
+  const graph = graphMock({ "event-1": { id: "event-1" } });
+  await withMockServer(graph.handler, async server => {
+    const api = createGraphCalendarApi("access-token", { baseUrl: server.url });
+    const supabase = createFakeSupabase();
+
+    const first = await removeMeeting(api, supabase as unknown as SupabaseClient, meetingRow({ outlook_event_id: "event-1" }), null);
+    const again = await removeMeeting(api, supabase as unknown as SupabaseClient, meetingRow({ outlook_event_id: "event-1" }), null);
+
+    assertEquals(first, { status: "synced", eventId: "event-1" });
+    assertEquals(again, { status: "synced", eventId: "event-1" });
+    assertEquals(server.requests.map(r => r.method), ["DELETE", "DELETE"]);
+    assertEquals(graph.events["event-1"], undefined);
+  });
+});
@@ -0,0 +1,223 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.84.0";
+import { formatInTimeZone } from "https://esm.sh/date-fns-tz@3.2.0";
+import { GraphApiError, type GraphCalendarApi, type GraphEvent, type GraphRecurrence } from "./graph.ts";
+
+/**
+ * Writes Buizly meetings to the owner's Outlook calendar. The id Graph
+ * returns is kept in meetings.outlook_event_id; an edited occurrence keeps
+ * the id of its instance of the series event.
+ */
+
+export const MEETING_COLUMNS = "id, title, description, agenda, location, conference_url, starts_at, time_zone, duration_minutes, status, recurrence_rule, recurrence_exceptions, series_id, original_starts_at, outlook_event_id";
+
+export interface MeetingRow {
+  id: string;
+  title: string | null;
+  description: string | null;
+  agenda: string | null;
+  location: string | null;
+  conference_url: string | null;
+  starts_at: string;
+  time_zone: string | null;
+  duration_minutes: number;
+  status: string | null;
+  recurrence_rule: string | null;
+  recurrence_exceptions: string[] | null;
+  series_id: string | null;
+  original_starts_at: string | null;
+  outlook_event_id: string | null;
+}
+
+export type SyncResult =
+  | { status: "synced"; eventId: string | null; eventLink?: string }
+  | { status: "skipped" };
+
+const GRAPH_DAYS: Record<string, string> = {
+  SU: "sunday", MO: "monday", TU: "tuesday", WE: "wednesday", TH: "thursday", FR: "friday", SA: "saturday",
+};
+
+// Event body: the description, the agenda under its own heading, then the join link
+function getEventDescription(meeting: Pick<MeetingRow, "description" | "agenda" | "conference_url">): string {
+  return [
+    meeting.description,
+    meeting.agenda && `Agenda:\n${meeting.agenda}`,
+    meeting.conference_url && `Join video call: ${meeting.conference_url}`,
+  ].filter(Boolean).join("\n\n");
+}
+
+/**
+ * Graph has no RRULE support; the rules Buizly writes (FREQ with INTERVAL,
+ * BYDAY and COUNT/UNTIL) map onto its patterned recurrence. Anything else
+ * returns null and the event is created as a single occurrence.
+ */
+function toGraphRecurrence(rule: string, start: Date, timeZone: string): GraphRecurrence | null {
+  const parts = Object.fromEntries(rule.split(";").map(part => part.split("=")));
+  if (Object.keys(parts).some(key => !["FREQ", "INTERVAL", "BYDAY", "COUNT", "UNTIL"].includes(key))) return null;
+
+  const interval = Number(parts.INTERVAL || 1);
+  const startDate = formatInTimeZone(start, timeZone, "yyyy-MM-dd");
+  const weekday = formatInTimeZone(start, timeZone, "EEEE").toLowerCase();
+
+  let pattern: GraphRecurrence["pattern"];
+  switch (parts.FREQ) {
+    case "DAILY":
+      pattern = { type: "daily", interval };
+      break;
+    case "WEEKLY": {
+      const days = parts.BYDAY ? parts.BYDAY.split(",").map((day: string) => GRAPH_DAYS[day]) : [weekday];
+      if (days.some((day: string | undefined) => !day)) return null;
+      pattern = { type: "weekly", interval, daysOfWeek: days, firstDayOfWeek: "monday" };
+      break;
+    }
+    case "MONTHLY":
+      if (parts.BYDAY) return null;
+      pattern = { type: "absoluteMonthly", interval, dayOfMonth: Number(formatInTimeZone(start, timeZone, "d")) };
+      break;
+    case "YEARLY":
+      if (parts.BYDAY) return null;
+      pattern = {
+        type: "absoluteYearly",
+        interval,
+        dayOfMonth: Number(formatInTimeZone(start, timeZone, "d")),
+        month: Number(formatInTimeZone(start, timeZone, "M")),
+      };
+      break;
+    default:
+      return null;
+  }
+
+  const range: GraphRecurrence["range"] = parts.COUNT
+    ? { type: "numbered", startDate, numberOfOccurrences: Number(parts.COUNT) }
+    : parts.UNTIL
+      ? { type: "endDate", startDate, endDate: `${parts.UNTIL.slice(0, 4)}-${parts.UNTIL.slice(4, 6)}-${parts.UNTIL.slice(6, 8)}` }
+      : { type: "noEnd", startDate };
+
+  return { pattern, range: { ...range, recurrenceTimeZone: timeZone } };
+}
+
+function toGraphEvent(meeting: MeetingRow, attendees: { email: string; name: string | null }[]): GraphEvent {
+  const timeZone = meeting.time_zone || "UTC";
+  const start = new Date(meeting.starts_at);
+  const end = new Date(start.getTime() + meeting.duration_minutes * 60 * 1000);
+  const wallClock = (date: Date) => formatInTimeZone(date, timeZone, "yyyy-MM-dd'T'HH:mm:ss");
+  const place = meeting.location || meeting.conference_url;
+
+  const recurrence = meeting.recurrence_rule ? toGraphRecurrence(meeting.recurrence_rule, start, timeZone) : null;
+  if (meeting.recurrence_rule && !recurrence) {
+    console.warn("[microsoft-calendar-sync] Unsupported recurrence, creating a single event:", meeting.recurrence_rule);
+  }
+
+  return {
+    subject: meeting.title || "Meeting",
+    body: { contentType: "text", content: getEventDescription(meeting) },
+    // Outlook shows the event in this zone on the organizer's calendar
+    start: { dateTime: wallClock(start), timeZone },
+    end: { dateTime: wallClock(end), timeZone },
+    ...(place ? { location: { displayName: place } } : {}),
+    attendees: attendees.map(a => ({
+      emailAddress: { address: a.email, ...(a.name ? { name: a.name } : {}) },
+      type: "required" as const,
+    })),
+    ...(recurrence ? { recurrence } : {}),
+    isReminderOn: true,
+    reminderMinutesBeforeStart: 60,
+  };
+}
+
+export async function getSeriesEventId(supabase: SupabaseClient, seriesId: string): Promise<string | null> {
+  const { data } = await supabase
+    .from("meetings")
+    .select("outlook_event_id")
+    .eq("id", seriesId)
+    .maybeSingle();
+  return data?.outlook_event_id || null;
+}
+
+// Graph recurrences have no exception dates; cancelled occurrences are deleted one by one
+async function removeCancelledInstances(api: GraphCalendarApi, eventId: string, meeting: MeetingRow) {
+  for (const exception of meeting.recurrence_exceptions || []) {
+    const instanceId = await api.findInstance(eventId, new Date(exception));
+    if (instanceId) await api.deleteEvent(instanceId);
+  }
+}
+
+async function saveEventId(supabase: SupabaseClient, meetingId: string, eventId: string) {
+  const { error } = await supabase
+    .from("meetings")
+    .update({ outlook_event_id: eventId })
+    .eq("id", meetingId);
+  if (error) throw error;
+}
+
+// The event a meeting maps to: its own, or its instance of the series event
+async function resolveEventId(
+  api: GraphCalendarApi,
+  supabase: SupabaseClient,
+  meeting: MeetingRow,
+  seriesEventId: string | null
+): Promise<string | null> {
+  if (meeting.outlook_event_id) return meeting.outlook_event_id;
+  if (!seriesEventId || !meeting.original_starts_at) return null;
+
+  const instanceId = await api.findInstance(seriesEventId, new Date(meeting.original_starts_at));
+  if (instanceId) await saveEventId(supabase, meeting.id, instanceId);
+  return instanceId;
+}
+
+/**
+ * Creates or updates the meeting's event, or deletes it once the meeting is
+ * cancelled. An event deleted in Outlook is created again, unless it was an
+ * instance of a series, which can't exist on its own.
+ */
+export async function pushMeeting(
+  api: GraphCalendarApi,
+  supabase: SupabaseClient,
+  meeting: MeetingRow,
+  seriesEventId: string | null
+): Promise<SyncResult> {
+  const eventId = await resolveEventId(api, supabase, meeting, seriesEventId);
+  if (!eventId && meeting.series_id) return { status: "skipped" };
+
+  // Removing a series event removes its instances too
+  if (meeting.status === "cancelled") {
+    if (eventId) await api.deleteEvent(eventId);
+    return { status: "synced", eventId };
+  }
+
+  const { data: participants } = await supabase
+    .from("meeting_participants")
+    .select("email, name")
+    .eq("meeting_id", meeting.id);
+  const body = toGraphEvent(meeting, participants || []);
+
+  let event: GraphEvent;
+  try {
+    event = eventId ? await api.updateEvent(eventId, body) : await api.createEvent(body);
+  } catch (error) {
+    if (!(error instanceof GraphApiError) || !eventId || meeting.series_id || ![404, 410].includes(error.status)) throw error;
+    event = await api.createEvent(body);
+  }
+
+  if (event.id && event.id !== eventId) {
+    await saveEventId(supabase, meeting.id, event.id);
+  }
+  if (event.id && meeting.recurrence_rule) {
+    await removeCancelledInstances(api, event.id, meeting);
+  }
+
+  return { status: "synced", eventId: event.id ?? null, eventLink: event.webLink };
+}
+
+// Removes the meeting's event (or its instance of a series event) before the meeting is deleted
+export async function removeMeeting(
+  api: GraphCalendarApi,
+  supabase: SupabaseClient,
+  meeting: MeetingRow,
+  seriesEventId: string | null
+): Promise<SyncResult> {
+  const eventId = await resolveEventId(api, supabase, meeting, seriesEventId);
+  if (!eventId) return { status: "skipped" };
+
+  await api.deleteEvent(eventId);
+  return { status: "synced", eventId };
+}
@@ -36,8 +36,15 @@ function getCorsHeaders(req: Request): { [key: string]: string } {
   };
 }
 
+function getAppUrl(req: Request): string {
+  const origin = req.headers.get('origin') || '';
+  const isAllowed = allowedOrigins.includes(origin) ||
+    allowedOriginPatterns.some(pattern => pattern.test(origin));
+  return isAllowed ? origin : (Deno.env.get("APP_URL") || 'https://buizly.lovable.app');
+}
+
 interface EmailRequest {
-  type: "welcome" | "contactRequest" | "cardConnection" | "connectionAccepted" | "connectionRequest" | "profileUpdate";
+  type: "welcome" | "contactRequest" | "cardConnection" | "connectionAccepted" | "connectionRequest" | "profileUpdate" | "workspaceInvite";
   to: string;
   payload: Record<string, any>;
 }
@@ -120,6 +127,15 @@ const handler = async (req: Request): Promise<Response> => {
 
     console.log(`[Buizly Email] Sending ${type} email to ${to} by user ${user.id}`);
 
+    // Profile links in these templates are always the sender's own card, so build them
+    // server-side from the current vanity slug instead of trusting the payload
+    const { data: senderProfile } = await supabaseClient
+      .from("profiles")
+      .select("slug, full_name")
+      .eq("id", user.id)
+      .maybeSingle();
+    const senderProfileUrl = `${getAppUrl(req)}${senderProfile?.slug ? `/@${senderProfile.slug}` : `/u/${user.id}`}`;
+
     let subject = "";
     let html = "";
 
@@ -137,7 +153,7 @@ const handler = async (req: Request): Promise<Response> => {
               <li>Schedule and track meetings</li>
               <li>Never lose a contact again</li>
             </ul>
-            <a href="${escapeHtml(payload.profileUrl)}" style="display: inline-block; background: #00FF4D; color: #000; padding: 12px 24px; text-decoration: none; border-radius: 8px; margin-top: 16px;">View Your Profile</a>
+            <a href="${escapeHtml(senderProfileUrl)}" style="display: inline-block; background: #00FF4D; color: #000; padding: 12px 24px; text-decoration: none; border-radius: 8px; margin-top: 16px;">View Your Profile</a>
             <p style="margin-top: 32px; color: #666; font-size: 14px;">Happy networking!<br>The Buizly Team</p>
           </div>
         `;
@@ -172,7 +188,7 @@ const handler = async (req: Request): Promise<Response> => {
               ${payload.email ? `<p style="margin: 8px 0;">📧 ${escapeHtml(payload.email)}</p>` : ""}
               ${payload.phone ? `<p style="margin: 8px 0;">📱 ${escapeHtml(payload.phone)}</p>` : ""}
             </div>
-            <a href="${escapeHtml(payload.cardUrl)}" style="display: inline-block; background: #00FF4D; color: #000; padding: 12px 24px; text-decoration: none; border-radius: 8px; margin-top: 16px;">Save Contact</a>
+            <a href="${escapeHtml(senderProfileUrl)}" style="display: inline-block; background: #00FF4D; color: #000; padding: 12px 24px; text-decoration: none; border-radius: 8px; margin-top: 16px;">Save Contact</a>
             <p style="margin-top: 32px; color: #666; font-size: 14px;">Download Buizly to create your own digital business card!</p>
           </div>
         `;
@@ -218,12 +234,53 @@ const handler = async (req: Request): Promise<Response> => {
           <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
             <h1 style="color: #00FF4D;">Profile Update</h1>
             <p><strong>${escapeHtml(payload.connectionName)}</strong> has updated their profile information.</p>
-            <a href="${escapeHtml(payload.profileUrl)}" style="display: inline-block; background: #00FF4D; color: #000; padding: 12px 24px; text-decoration: none; border-radius: 8px; margin-top: 16px;">View Profile</a>
+            <a href="${escapeHtml(senderProfileUrl)}" style="display: inline-block; background: #00FF4D; color: #000; padding: 12px 24px; text-decoration: none; border-radius: 8px; margin-top: 16px;">View Profile</a>
             <p style="margin-top: 32px; color: #666; font-size: 14px;">Stay connected!<br>The Buizly Team</p>
           </div>
         `; 
         break;
 
+      case "workspaceInvite": {
+        // Only send for a pending invite in a workspace the sender manages, and take the
+        // names and link from the database so this can't relay arbitrary invitations
+        const [{ data: invite }, { data: membership }] = await Promise.all([
+          supabaseClient
+            .from("workspace_invites")
+            .select("workspaces(name)")
+            .eq("workspace_id", payload.workspaceId)
+            .eq("email", String(to).trim().toLowerCase())
+            .eq("status", "pending")
+            .maybeSingle(),
+          supabaseClient
+            .from("workspace_members")
+            .select("role")
+            .eq("workspace_id", payload.workspaceId)
+            .eq("user_id", user.id)
+            .maybeSingle(),
+        ]);
+
+        if (!invite || !membership || !["owner", "admin"].includes(membership.role)) {
+          return new Response(
+            JSON.stringify({ error: "Invite not found" }),
+            { status: 404, headers: { "Content-Type": "application/json", ...corsHeaders } }
+          );
+        }
+
+        const inviterName = senderProfile?.full_name || "A Buizly user";
+        const workspaceName = (invite.workspaces as { name: string } | null)?.name || "a team";
+        subject = `${escapeHtml(inviterName)} invited you to ${escapeHtml(workspaceName)} on Buizly`;
+        html = `
+          <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+            <h1 style="color: #00FF4D;">You're invited to a team</h1>
+            <p><strong>${escapeHtml(inviterName)}</strong> invited you to join the <strong>${escapeHtml(workspaceName)}</strong> workspace on Buizly.</p>
+            <p>Team members share a contact pool so everyone can follow up on the same leads.</p>
+            <a href="${escapeHtml(`${getAppUrl(req)}/team`)}" style="display: inline-block; background: #00FF4D; color: #000; padding: 12px 24px; text-decoration: none; border-radius: 8px; margin-top: 16px;">View Invitation</a>
+            <p style="margin-top: 32px; color: #666; font-size: 14px;">Sign in with this email address to accept.<br>The Buizly Team</p>
+          </div>
+        `;
+        break;
+      }
+
       default:
         throw new Error(`Unknown email type: ${type}`);
     }
@@ -1,5 +1,9 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts";
+import { RRule } from "https://esm.sh/rrule@2.8.1";
+import { buildInvitation, type FeedMeeting } from "../_shared/ics.ts";
+import { createResponseToken } from "../_shared/responseToken.ts";
 
 // CORS configuration - restrict to allowed origins for authenticated endpoints
 const allowedOrigins = [
@@ -32,19 +36,18 @@ function getCorsHeaders(req: Request): { [key: string]: string } {
   };
 }
 
+// Everything shown in the email is read from the meeting and organizer rows
 interface MeetingInvitationRequest {
   meetingId: string;
   participantEmail: string;
-  participantName?: string;
-  meetingTitle: string;
-  meetingDate: string;
-  meetingTime: string;
-  meetingLocation?: string;
-  meetingDescription?: string;
-  organizerName: string;
-  organizerEmail: string;
+  // Resent after the meeting changed; cancelled meetings always get a cancellation
+  updated?: boolean;
 }
 
+const MEETING_COLUMNS =
+  "id, user_id, organizer_id, title, description, agenda, location, conference_url, starts_at, time_zone, duration_minutes, status, " +
+  "recurrence_rule, recurrence_exceptions, series_id, original_starts_at, ics_sequence, created_at, updated_at";
+
 // Rate limiting map (in production, use Redis or similar)
 const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
 
@@ -78,6 +81,45 @@ const escapeHtml = (str: string): string => {
   });
 };
 
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (!hours) return `${rest} min`;
+  return rest ? `${hours} hr ${rest} min` : `${hours} hr`;
+}
+
+// We don't know the recipient's zone, so show the organizer's and name it explicitly
+function formatMeetingDateTime(startsAt: string, timeZone: string, durationMinutes = 60): { date: string; time: string } {
+  const start = new Date(startsAt);
+  const end = new Date(start.getTime() + durationMinutes * 60 * 1000);
+  const zone = isValidTimeZone(timeZone) ? timeZone : 'UTC';
+  const startTime = start.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: zone });
+  const endTime = end.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: zone, timeZoneName: 'short' });
+  return {
+    date: start.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', timeZone: zone }),
+    time: `${startTime} – ${endTime} (${zone.replace(/_/g, ' ')}) · ${formatDuration(durationMinutes)}`,
+  };
+}
+
+// "FREQ=WEEKLY" -> "Every week"; unparseable rules are left out of the email
+function describeRecurrence(rule: string): string | null {
+  try {
+    const text = RRule.fromString(rule).toText();
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  } catch {
+    return null;
+  }
+}
+
 const handler = async (req: Request): Promise<Response> => {
   console.log("[send-meeting-invitation] Request received");
   const corsHeaders = getCorsHeaders(req);
@@ -102,18 +144,25 @@ const handler = async (req: Request): Promise<Response> => {
     }
 
     const token = authHeader.replace("Bearer ", "");
-    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token);
-    
-    if (authError || !user) {
-      return new Response(
-        JSON.stringify({ error: "Invalid or expired token" }),
-        { status: 401, headers: { "Content-Type": "application/json", ...corsHeaders } }
-      );
+    // Other functions (e.g. book-meeting) call in with the service role key on a visitor's behalf
+    const isInternalCall = token === Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    let senderId = "internal";
+
+    if (!isInternalCall) {
+      const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token);
+
+      if (authError || !user) {
+        return new Response(
+          JSON.stringify({ error: "Invalid or expired token" }),
+          { status: 401, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        );
+      }
+      senderId = user.id;
     }
 
     // Rate limit: 20 invitations per hour per user
-    if (!checkRateLimit(user.id, 20, 3600000)) {
-      console.warn("[send-meeting-invitation] Rate limit exceeded for user:", user.id);
+    if (!isInternalCall && !checkRateLimit(senderId, 20, 3600000)) {
+      console.warn("[send-meeting-invitation] Rate limit exceeded for user:", senderId);
       return new Response(
         JSON.stringify({ error: "Rate limit exceeded. Please try again later." }),
         { status: 429, headers: { "Content-Type": "application/json", ...corsHeaders } }
@@ -121,7 +170,15 @@ const handler = async (req: Request): Promise<Response> => {
     }
 
     const invitation: MeetingInvitationRequest = await req.json();
-    console.log(`[send-meeting-invitation] Sending to ${invitation.participantEmail} by user ${user.id}`);
+
+    if (!invitation.meetingId || typeof invitation.participantEmail !== "string" || !invitation.participantEmail.trim()) {
+      return new Response(
+        JSON.stringify({ error: "Invalid invitation" }),
+        { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    console.log(`[send-meeting-invitation] Sending to ${invitation.participantEmail} by user ${senderId}`);
 
     // Use the production URL for better email deliverability
     const appUrl = Deno.env.get("APP_URL") || 'https://buizly.lovable.app';
@@ -132,16 +189,109 @@ const handler = async (req: Request): Promise<Response> => {
       throw new Error("RESEND_API_KEY not configured");
     }
 
-    // Include participant email in the response links for tracking
-    const acceptLink = `${appUrl}/meeting-response/${escapeHtml(invitation.meetingId)}?action=accept&email=${encodeURIComponent(invitation.participantEmail)}`;
-    const declineLink = `${appUrl}/meeting-response/${escapeHtml(invitation.meetingId)}?action=decline&email=${encodeURIComponent(invitation.participantEmail)}`;
+    const { data: meeting, error: meetingError } = await supabaseClient
+      .from("meetings")
+      .select(MEETING_COLUMNS)
+      .eq("id", invitation.meetingId)
+      .maybeSingle();
+
+    if (meetingError) throw meetingError;
+    if (!meeting || (!isInternalCall && meeting.user_id !== senderId && meeting.organizer_id !== senderId)) {
+      return new Response(
+        JSON.stringify({ error: "Meeting not found" }),
+        { status: 404, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const { data: participant, error: participantError } = await supabaseClient
+      .from("meeting_participants")
+      .select("id, name, email, response")
+      .eq("meeting_id", meeting.id)
+      .ilike("email", invitation.participantEmail.trim().replace(/[%_\\]/g, "\\$&"))
+      .maybeSingle();
+
+    if (participantError) throw participantError;
+    if (!participant) {
+      return new Response(
+        JSON.stringify({ error: "Not a participant of this meeting" }),
+        { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    if (!meeting.starts_at || isNaN(new Date(meeting.starts_at).getTime())) {
+      return new Response(
+        JSON.stringify({ error: "Invalid meeting start time" }),
+        { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const cancelled = meeting.status === "cancelled";
+
+    // Signed, single-use token so only this participant can respond through the links
+    let acceptLink = "";
+    let declineLink = "";
+    if (!cancelled) {
+      const responseToken = await createResponseToken(supabaseClient, participant.id);
+      const responseLink = `${appUrl}/meeting-response/${encodeURIComponent(meeting.id)}?token=${encodeURIComponent(responseToken)}`;
+      acceptLink = `${responseLink}&action=accept`;
+      declineLink = `${responseLink}&action=decline`;
+    }
+
+    // Edited occurrences are sent as an instance of their series' calendar event
+    let series: FeedMeeting | undefined;
+    if (meeting.series_id) {
+      const { data: seriesData, error: seriesError } = await supabaseClient
+        .from("meetings")
+        .select(MEETING_COLUMNS)
+        .eq("id", meeting.series_id)
+        .single();
+      if (seriesError) throw seriesError;
+      series = seriesData;
+    }
+
+    const { data: organizerProfile } = await supabaseClient
+      .from("profiles")
+      .select("full_name, email")
+      .eq("id", meeting.organizer_id || meeting.user_id)
+      .maybeSingle();
+
+    // Calendar apps show their own RSVP buttons for a REQUEST and remove the event on CANCEL
+    const method = cancelled ? "CANCEL" : "REQUEST";
+    const ics = buildInvitation(
+      method,
+      meeting,
+      {
+        name: organizerProfile?.full_name || null,
+        email: organizerProfile?.email || "",
+      },
+      { name: participant.name, email: participant.email, response: participant.response },
+      series
+    );
 
     // Escape all user-provided content
-    const escapedTitle = escapeHtml(invitation.meetingTitle);
-    const escapedOrganizerName = escapeHtml(invitation.organizerName);
-    const escapedOrganizerEmail = escapeHtml(invitation.organizerEmail);
-    const escapedLocation = escapeHtml(invitation.meetingLocation || '');
-    const escapedDescription = escapeHtml(invitation.meetingDescription || '');
+    const escapedTitle = escapeHtml(meeting.title || 'Meeting');
+    const escapedOrganizerName = escapeHtml(organizerProfile?.full_name || 'A Buizly user');
+    const escapedOrganizerEmail = escapeHtml(organizerProfile?.email || '');
+    const escapedLocation = escapeHtml(meeting.location || '');
+    const escapedDescription = escapeHtml(meeting.description || '');
+    const escapedAgenda = escapeHtml(meeting.agenda || '');
+    // Read from the meeting row; a Meet link may only exist once the event reached Google
+    const escapedConferenceUrl = cancelled ? '' : escapeHtml(meeting.conference_url || '');
+    const duration = Math.min(1440, Math.max(5, Math.round(meeting.duration_minutes || 60)));
+    const when = formatMeetingDateTime(meeting.starts_at, meeting.time_zone || 'UTC', duration);
+    const repeats = meeting.recurrence_rule ? describeRecurrence(meeting.recurrence_rule) : null;
+
+    const heading = cancelled ? "Meeting Cancelled" : invitation.updated ? "Meeting Updated" : "You're Invited!";
+    const intro = cancelled
+      ? `${escapedOrganizerName} has cancelled this meeting`
+      : invitation.updated
+        ? `${escapedOrganizerName} has updated this meeting`
+        : `${escapedOrganizerName} has invited you to a meeting`;
+    const subject = cancelled
+      ? `Meeting Cancelled: ${escapedTitle}`
+      : invitation.updated
+        ? `Updated Meeting Invitation: ${escapedTitle}`
+        : `Meeting Invitation: ${escapedTitle}`;
 
     // Email HTML optimized for deliverability and client compatibility
     const emailHtml = `
@@ -151,7 +301,7 @@ const handler = async (req: Request): Promise<Response> => {
         <meta charset="utf-8">
         <meta name="viewport" content="width=device-width, initial-scale=1.0">
         <meta name="x-apple-disable-message-reformatting">
-        <title>Meeting Invitation from ${escapedOrganizerName}</title>
+        <title>${subject}</title>
       </head>
       <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; background-color: #f4f4f4;">
         <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0" style="background-color: #f4f4f4;">
@@ -168,8 +318,8 @@ const handler = async (req: Request): Promise<Response> => {
                 <!-- Title -->
                 <tr>
                   <td style="padding: 0 32px;">
-                    <h2 style="margin: 0 0 8px 0; font-size: 24px; color: #1a1a1a;">You're Invited!</h2>
-                    <p style="margin: 0; font-size: 14px; color: #666666;">${escapedOrganizerName} has invited you to a meeting</p>
+                    <h2 style="margin: 0 0 8px 0; font-size: 24px; color: #1a1a1a;">${heading}</h2>
+                    <p style="margin: 0; font-size: 14px; color: #666666;">${intro}</p>
                   </td>
                 </tr>
                 
@@ -189,15 +339,23 @@ const handler = async (req: Request): Promise<Response> => {
                             <tr>
                               <td style="padding: 8px 0;">
                                 <span style="display: inline-block; width: 80px; font-size: 12px; color: #888888; text-transform: uppercase;">Date</span>
-                                <span style="font-size: 14px; color: #1a1a1a;">${new Date(invitation.meetingDate).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</span>
+                                <span style="font-size: 14px; color: #1a1a1a;">${escapeHtml(when.date)}</span>
                               </td>
                             </tr>
                             <tr>
                               <td style="padding: 8px 0;">
                                 <span style="display: inline-block; width: 80px; font-size: 12px; color: #888888; text-transform: uppercase;">Time</span>
-                                <span style="font-size: 14px; color: #1a1a1a;">${escapeHtml(invitation.meetingTime)}</span>
+                                <span style="font-size: 14px; color: #1a1a1a;">${escapeHtml(when.time)}</span>
+                              </td>
+                            </tr>
+                            ${repeats ? `
+                            <tr>
+                              <td style="padding: 8px 0;">
+                                <span style="display: inline-block; width: 80px; font-size: 12px; color: #888888; text-transform: uppercase;">Repeats</span>
+                                <span style="font-size: 14px; color: #1a1a1a;">${escapeHtml(repeats)}</span>
                               </td>
                             </tr>
+                            ` : ''}
                             ${escapedLocation ? `
                             <tr>
                               <td style="padding: 8px 0;">
@@ -206,6 +364,14 @@ const handler = async (req: Request): Promise<Response> => {
                               </td>
                             </tr>
                             ` : ''}
+                            ${escapedConferenceUrl ? `
+                            <tr>
+                              <td style="padding: 8px 0;">
+                                <span style="display: inline-block; width: 80px; font-size: 12px; color: #888888; text-transform: uppercase;">Join</span>
+                                <a href="${escapedConferenceUrl}" style="font-size: 14px; color: #00CC3D; word-break: break-all;">${escapedConferenceUrl}</a>
+                              </td>
+                            </tr>
+                            ` : ''}
                             ${escapedDescription ? `
                             <tr>
                               <td style="padding: 8px 0;">
@@ -214,6 +380,14 @@ const handler = async (req: Request): Promise<Response> => {
                               </td>
                             </tr>
                             ` : ''}
+                            ${escapedAgenda ? `
+                            <tr>
+                              <td style="padding: 8px 0;">
+                                <span style="display: inline-block; width: 80px; font-size: 12px; color: #888888; text-transform: uppercase;">Agenda</span>
+                                <span style="font-size: 14px; color: #1a1a1a; white-space: pre-line;">${escapedAgenda}</span>
+                              </td>
+                            </tr>
+                            ` : ''}
                           </table>
                         </td>
                       </tr>
@@ -247,6 +421,7 @@ const handler = async (req: Request): Promise<Response> => {
                 </tr>
                 
                 <!-- Buttons - Using table-based buttons for maximum email client compatibility -->
+                ${cancelled ? '' : `
                 <tr>
                   <td style="padding: 0 32px 24px 32px;">
                     <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
@@ -293,12 +468,13 @@ const handler = async (req: Request): Promise<Response> => {
                     </p>
                   </td>
                 </tr>
+                `}
                 
                 <!-- Footer -->
                 <tr>
                   <td align="center" style="padding: 24px 32px; border-top: 1px solid #eeeeee;">
                     <p style="margin: 0; font-size: 12px; color: #888888;">
-                      You can also respond by opening the Buizly app
+                      ${cancelled ? 'No action is needed on your part' : 'You can also respond by opening the Buizly app'}
                     </p>
                     <p style="margin: 8px 0 0 0; font-size: 11px; color: #aaaaaa;">
                       © ${new Date().getFullYear()} Buizly. All rights reserved.
@@ -321,11 +497,18 @@ const handler = async (req: Request): Promise<Response> => {
       },
       body: JSON.stringify({
         from: "Buizly <onboarding@resend.dev>",
-        to: [invitation.participantEmail],
-        subject: `Meeting Invitation: ${escapedTitle}`,
+        to: [participant.email],
+        subject,
         html: emailHtml,
+        attachments: [
+          {
+            filename: cancelled ? "cancel.ics" : "invite.ics",
+            content: encodeBase64(new TextEncoder().encode(ics)),
+            content_type: `text/calendar; charset=utf-8; method=${method}`,
+          },
+        ],
         headers: {
-          "X-Entity-Ref-ID": invitation.meetingId,
+          "X-Entity-Ref-ID": meeting.id,
         },
       }),
     });
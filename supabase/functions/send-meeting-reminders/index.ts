@@ -0,0 +1,483 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.84.0";
+import { getOccurrenceStarts } from "../_shared/recurrence.ts";
+import { isPushConfigured, sendPush, PushSubscriptionRow } from "./push.ts";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+type ReminderType = "24h" | "1h";
+
+interface ReminderMeeting {
+  id: string;
+  user_id: string;
+  organizer_id: string | null;
+  title: string | null;
+  location: string | null;
+  conference_url: string | null;
+  starts_at: string;
+  time_zone: string | null;
+  duration_minutes: number | null;
+  recurrence_rule: string | null;
+  recurrence_exceptions: string[] | null;
+  reminder_24h_sent: boolean | null;
+  reminder_1h_sent: boolean | null;
+}
+
+interface Reminder {
+  meeting: ReminderMeeting;
+  type: ReminderType;
+  startsAt: Date;
+  // Set for occurrences of a series, which share the series' row
+  occurrenceStart: string | null;
+}
+
+interface RecipientSettings {
+  user_id: string;
+  email_notifications: boolean | null;
+  push_notifications: boolean | null;
+}
+
+interface Recipient {
+  userId: string | null;
+  email: string;
+  name: string | null;
+}
+
+const MEETING_COLUMNS =
+  "id, user_id, organizer_id, title, location, conference_url, starts_at, time_zone, duration_minutes, recurrence_rule, recurrence_exceptions, reminder_24h_sent, reminder_1h_sent";
+
+// A meeting gets the 1h reminder once it is within the hour, and the 24h one before that
+function getReminderType(startsAt: number, now: number): ReminderType {
+  return startsAt - now <= HOUR_MS ? "1h" : "24h";
+}
+
+/**
+ * One-off meetings and edited occurrences, claimed by flipping their reminder
+ * flag. The flag is only set where it was still unset, so overlapping runs
+ * never both claim the same reminder.
+ */
+async function claimSingleReminders(supabase: SupabaseClient, now: number): Promise<Reminder[]> {
+  const { data, error } = await supabase
+    .from("meetings")
+    .select(MEETING_COLUMNS)
+    .is("recurrence_rule", null)
+    .in("status", ["pending", "confirmed"])
+    .gt("starts_at", new Date(now).toISOString())
+    .lte("starts_at", new Date(now + DAY_MS).toISOString())
+    .or("reminder_24h_sent.is.null,reminder_24h_sent.eq.false,reminder_1h_sent.is.null,reminder_1h_sent.eq.false");
+
+  if (error) throw error;
+
+  const reminders: Reminder[] = [];
+  for (const meeting of (data || []) as ReminderMeeting[]) {
+    const startsAt = new Date(meeting.starts_at);
+    const type = getReminderType(startsAt.getTime(), now);
+    const flag = type === "1h" ? "reminder_1h_sent" : "reminder_24h_sent";
+    if (meeting[flag]) continue;
+
+    // A missed 24h reminder isn't worth sending once the 1h one is due
+    const { data: claimed, error: claimError } = await supabase
+      .from("meetings")
+      .update(type === "1h" ? { reminder_1h_sent: true, reminder_24h_sent: true } : { reminder_24h_sent: true })
+      .eq("id", meeting.id)
+      .or(`${flag}.is.null,${flag}.eq.false`)
+      .select("id");
+
+    if (claimError) throw claimError;
+    if (claimed && claimed.length > 0) {
+      reminders.push({ meeting, type, startsAt, occurrenceStart: null });
+    }
+  }
+  return reminders;
+}
+
+/**
+ * Occurrences of recurring series, claimed per occurrence in
+ * meeting_occurrence_reminders. Occurrences that were edited have their own
+ * row and are reminded through claimSingleReminders instead.
+ */
+async function claimSeriesReminders(supabase: SupabaseClient, now: number): Promise<Reminder[]> {
+  const { data, error } = await supabase
+    .from("meetings")
+    .select(MEETING_COLUMNS)
+    .not("recurrence_rule", "is", null)
+    .in("status", ["pending", "confirmed"])
+    .lte("starts_at", new Date(now + DAY_MS).toISOString());
+
+  if (error) throw error;
+
+  const seriesList = (data || []) as ReminderMeeting[];
+  if (seriesList.length === 0) return [];
+
+  const { data: overrides, error: overridesError } = await supabase
+    .from("meetings")
+    .select("series_id, original_starts_at")
+    .in("series_id", seriesList.map(s => s.id))
+    .gt("original_starts_at", new Date(now - DAY_MS).toISOString())
+    .lte("original_starts_at", new Date(now + 2 * DAY_MS).toISOString());
+
+  if (overridesError) throw overridesError;
+
+  const overridden = new Set(
+    (overrides || []).map(o => `${o.series_id}:${new Date(o.original_starts_at).getTime()}`)
+  );
+
+  const reminders: Reminder[] = [];
+  for (const series of seriesList) {
+    const starts = getOccurrenceStarts(
+      { ...series, recurrence_rule: series.recurrence_rule! },
+      new Date(now),
+      new Date(now + DAY_MS)
+    ).filter(start => start > now && start <= now + DAY_MS);
+
+    for (const start of starts) {
+      if (overridden.has(`${series.id}:${start}`)) continue;
+
+      const type = getReminderType(start, now);
+      const occurrenceStart = new Date(start).toISOString();
+      const { data: claimed, error: claimError } = await supabase
+        .from("meeting_occurrence_reminders")
+        .upsert(
+          { meeting_id: series.id, occurrence_starts_at: occurrenceStart, reminder_type: type },
+          { onConflict: "meeting_id,occurrence_starts_at,reminder_type", ignoreDuplicates: true }
+        )
+        .select("meeting_id");
+
+      if (claimError) throw claimError;
+      if (claimed && claimed.length > 0) {
+        reminders.push({ meeting: series, type, startsAt: new Date(start), occurrenceStart });
+      }
+    }
+  }
+  return reminders;
+}
+
+// The organizer and everyone who hasn't declined, once each
+async function getRecipients(supabase: SupabaseClient, meeting: ReminderMeeting): Promise<Recipient[]> {
+  const organizerId = meeting.organizer_id || meeting.user_id;
+
+  const [organizerResult, participantsResult] = await Promise.all([
+    supabase.from("profiles").select("id, email, full_name").eq("id", organizerId).maybeSingle(),
+    supabase
+      .from("meeting_participants")
+      .select("email, name, user_id, response")
+      .eq("meeting_id", meeting.id),
+  ]);
+
+  if (organizerResult.error) throw organizerResult.error;
+  if (participantsResult.error) throw participantsResult.error;
+
+  const recipients: Recipient[] = [];
+  const seen = new Set<string>();
+  const add = (recipient: Recipient) => {
+    const keys = [recipient.userId, recipient.email.toLowerCase()].filter(Boolean) as string[];
+    if (keys.some(key => seen.has(key))) return;
+    keys.forEach(key => seen.add(key));
+    recipients.push(recipient);
+  };
+
+  if (organizerResult.data) {
+    add({ userId: organizerResult.data.id, email: organizerResult.data.email, name: organizerResult.data.full_name });
+  }
+  for (const participant of participantsResult.data || []) {
+    if (participant.response === "declined" || participant.response === "cancelled") continue;
+    add({ userId: participant.user_id, email: participant.email, name: participant.name });
+  }
+  return recipients;
+}
+
+// HTML escape utility to prevent injection
+const escapeHtml = (str: string): string => {
+  if (!str) return '';
+  return str.replace(/[&<>"']/g, (char) => {
+    const entities: Record<string, string> = {
+      '&': '&amp;',
+      '<': '&lt;',
+      '>': '&gt;',
+      '"': '&quot;',
+      "'": '&#39;'
+    };
+    return entities[char] || char;
+  });
+};
+
+function isValidTimeZone(timeZone: string | null): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Recipients' zones aren't known, so show the organizer's and name it explicitly
+function formatReminderTime(startsAt: Date, timeZone: string | null): string {
+  const zone = isValidTimeZone(timeZone) ? timeZone : 'UTC';
+  const date = startsAt.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', timeZone: zone });
+  const time = startsAt.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: zone, timeZoneName: 'short' });
+  return `${date} at ${time}`;
+}
+
+// "in 45 minutes", "in 23 hours"
+function formatTimeUntil(startsAt: Date, now: number): string {
+  const minutes = Math.max(1, Math.round((startsAt.getTime() - now) / MINUTE_MS));
+  if (minutes < 60) return `in ${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.round(minutes / 60);
+  return `in ${hours} hour${hours === 1 ? '' : 's'}`;
+}
+
+function buildReminderEmail(reminder: Reminder, when: string, timeUntil: string, link: string | null): string {
+  const title = escapeHtml(reminder.meeting.title || 'Meeting');
+  const location = escapeHtml(reminder.meeting.location || '');
+  const conferenceUrl = escapeHtml(reminder.meeting.conference_url || '');
+
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Reminder: ${title}</title>
+    </head>
+    <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; background-color: #f4f4f4;">
+      <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0" style="background-color: #f4f4f4;">
+        <tr>
+          <td align="center" style="padding: 40px 20px;">
+            <table role="presentation" width="600" cellspacing="0" cellpadding="0" border="0" style="background-color: #ffffff; border-radius: 16px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+              <tr>
+                <td align="center" style="padding: 32px 32px 16px 32px;">
+                  <h1 style="margin: 0; font-size: 28px; font-weight: bold; color: #00CC3D;">Buizly</h1>
+                </td>
+              </tr>
+              <tr>
+                <td style="padding: 0 32px;">
+                  <h2 style="margin: 0 0 8px 0; font-size: 24px; color: #1a1a1a;">${title}</h2>
+                  <p style="margin: 0; font-size: 14px; color: #666666;">Your meeting starts ${escapeHtml(timeUntil)}</p>
+                </td>
+              </tr>
+              <tr>
+                <td style="padding: 24px 32px;">
+                  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0" style="background-color: #f9f9f9; border-radius: 12px;">
+                    <tr>
+                      <td style="padding: 20px;">
+                        <p style="margin: 0; font-size: 14px; color: #1a1a1a;">${escapeHtml(when)}</p>
+                        ${location ? `<p style="margin: 8px 0 0 0; font-size: 14px; color: #666666;">${location}</p>` : ''}
+                      </td>
+                    </tr>
+                  </table>
+                </td>
+              </tr>
+              ${conferenceUrl ? `
+              <tr>
+                <td align="center" style="padding: 0 32px 16px 32px;">
+                  <table role="presentation" cellspacing="0" cellpadding="0" border="0">
+                    <tr>
+                      <td style="border-radius: 8px; background-color: #00CC3D;">
+                        <a href="${conferenceUrl}" style="display: inline-block; padding: 14px 32px; color: #000000; text-decoration: none; font-weight: 600; font-size: 14px;">Join video call</a>
+                      </td>
+                    </tr>
+                  </table>
+                  <p style="margin: 12px 0 0 0; font-size: 12px; color: #888888; word-break: break-all;">${conferenceUrl}</p>
+                </td>
+              </tr>
+              ` : ''}
+              ${link ? `
+              <tr>
+                <td align="center" style="padding: 0 32px 24px 32px;">
+                  <table role="presentation" cellspacing="0" cellpadding="0" border="0">
+                    <tr>
+                      <td style="border-radius: 8px; ${conferenceUrl ? 'border: 1px solid #00CC3D;' : 'background-color: #00CC3D;'}">
+                        <a href="${link}" style="display: inline-block; padding: 14px 32px; color: #000000; text-decoration: none; font-weight: 600; font-size: 14px;">View meeting</a>
+                      </td>
+                    </tr>
+                  </table>
+                </td>
+              </tr>
+              ` : ''}
+              <tr>
+                <td align="center" style="padding: 24px 32px; border-top: 1px solid #eeeeee;">
+                  <p style="margin: 0; font-size: 12px; color: #888888;">
+                    You can turn off email reminders in your Buizly settings
+                  </p>
+                  <p style="margin: 8px 0 0 0; font-size: 11px; color: #aaaaaa;">
+                    © ${new Date().getFullYear()} Buizly. All rights reserved.
+                  </p>
+                </td>
+              </tr>
+            </table>
+          </td>
+        </tr>
+      </table>
+    </body>
+    </html>
+  `;
+}
+
+async function sendReminderEmail(to: string, subject: string, html: string, meetingId: string): Promise<boolean> {
+  const resendApiKey = Deno.env.get("RESEND_API_KEY");
+  if (!resendApiKey) {
+    console.warn("[send-meeting-reminders] RESEND_API_KEY not configured - email skipped");
+    return false;
+  }
+
+  const response = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${resendApiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      from: "Buizly <onboarding@resend.dev>",
+      to: [to],
+      subject,
+      html,
+      headers: {
+        "X-Entity-Ref-ID": meetingId,
+      },
+    }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    // Resend's free tier only delivers to verified domains
+    if (data.statusCode === 403 && data.name === "validation_error") {
+      console.warn("[send-meeting-reminders] Resend domain not verified - email skipped");
+    } else {
+      console.error("[send-meeting-reminders] Email error:", data);
+    }
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Notifies every recipient of one reminder: an in-app notification and push
+ * for account holders, and email for anyone who hasn't turned it off.
+ * Delivery failures are logged; the reminder stays claimed so it is never
+ * sent twice.
+ */
+async function deliverReminder(supabase: SupabaseClient, reminder: Reminder, now: number): Promise<number> {
+  const recipients = await getRecipients(supabase, reminder.meeting);
+  const userIds = recipients.map(r => r.userId).filter(Boolean) as string[];
+
+  const [settingsResult, subscriptionsResult] = await Promise.all([
+    userIds.length > 0
+      ? supabase.from("user_settings").select("user_id, email_notifications, push_notifications").in("user_id", userIds)
+      : Promise.resolve({ data: [], error: null }),
+    userIds.length > 0 && isPushConfigured()
+      ? supabase.from("push_subscriptions").select("id, user_id, endpoint, p256dh, auth").in("user_id", userIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (settingsResult.error) throw settingsResult.error;
+  if (subscriptionsResult.error) throw subscriptionsResult.error;
+
+  const settingsByUser = new Map(((settingsResult.data || []) as RecipientSettings[]).map(s => [s.user_id, s]));
+  const subscriptions = (subscriptionsResult.data || []) as (PushSubscriptionRow & { user_id: string })[];
+  const appUrl = Deno.env.get("APP_URL") || 'https://buizly.lovable.app';
+  const path = reminder.occurrenceStart
+    ? `/meeting/${reminder.meeting.id}?occurrence=${encodeURIComponent(reminder.occurrenceStart)}`
+    : `/meeting/${reminder.meeting.id}`;
+
+  const title = reminder.meeting.title || "Meeting";
+  const timeUntil = formatTimeUntil(reminder.startsAt, now);
+  const when = formatReminderTime(reminder.startsAt, reminder.meeting.time_zone);
+  const message = `${title} starts ${timeUntil}`;
+
+  let delivered = 0;
+  for (const recipient of recipients) {
+    // Missing settings mean the defaults, which have everything on
+    const settings = recipient.userId ? settingsByUser.get(recipient.userId) : undefined;
+    const wantsEmail = settings?.email_notifications ?? true;
+    const wantsPush = settings?.push_notifications ?? true;
+
+    try {
+      if (recipient.userId) {
+        const { error: notificationError } = await supabase.from("notifications").insert({
+          user_id: recipient.userId,
+          type: "meeting_reminder",
+          title: reminder.type === "1h" ? "Meeting starting soon" : "Upcoming meeting",
+          message: `${message} · ${when}`,
+          data: {
+            meeting_id: reminder.meeting.id,
+            occurrence_start: reminder.occurrenceStart,
+            reminder_type: reminder.type,
+            conference_url: reminder.meeting.conference_url,
+          },
+        });
+        if (notificationError) throw notificationError;
+
+        if (wantsPush) {
+          for (const subscription of subscriptions.filter(s => s.user_id === recipient.userId)) {
+            const result = await sendPush(subscription, { title: "Meeting reminder", body: message, url: path });
+            if (result === "expired") {
+              await supabase.from("push_subscriptions").delete().eq("id", subscription.id);
+            }
+          }
+        }
+      }
+
+      if (wantsEmail && recipient.email) {
+        // Only account holders can open the meeting page
+        const link = recipient.userId ? `${appUrl}${path}` : null;
+        await sendReminderEmail(
+          recipient.email,
+          `Reminder: ${title} ${timeUntil}`,
+          buildReminderEmail(reminder, when, timeUntil, link),
+          reminder.meeting.id
+        );
+      }
+
+      delivered++;
+    } catch (error: any) {
+      console.error("[send-meeting-reminders] Delivery failed for", recipient.email, error.message);
+    }
+  }
+  return delivered;
+}
+
+serve(async (req: Request) => {
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      headers: { "Content-Type": "application/json" },
+      status,
+    });
+
+  try {
+    // Only the pg_cron job calls this, with the service role key
+    const authHeader = req.headers.get("authorization");
+    const token = authHeader?.replace("Bearer ", "");
+    if (!token || token !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const now = Date.now();
+    const reminders = [
+      ...(await claimSingleReminders(supabase, now)),
+      ...(await claimSeriesReminders(supabase, now)),
+    ];
+
+    let sent = 0;
+    for (const reminder of reminders) {
+      try {
+        sent += await deliverReminder(supabase, reminder, now);
+      } catch (error: any) {
+        console.error("[send-meeting-reminders] Reminder failed for meeting:", reminder.meeting.id, error.message);
+      }
+    }
+
+    console.log(`[send-meeting-reminders] ${reminders.length} reminders, ${sent} recipients notified`);
+    return jsonResponse({ success: true, reminders: reminders.length, sent });
+  } catch (error: any) {
+    console.error("[send-meeting-reminders] Error:", error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
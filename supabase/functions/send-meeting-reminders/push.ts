@@ -0,0 +1,51 @@
+// Web Push delivery with VAPID keys. Without them, push reminders are skipped.
+
+import webpush from "npm:web-push@3.6.7";
+
+export interface PushSubscriptionRow {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string;
+}
+
+export type PushResult = "sent" | "expired" | "failed";
+
+let configured: boolean | null = null;
+
+export function isPushConfigured(): boolean {
+  if (configured !== null) return configured;
+
+  const publicKey = Deno.env.get("VAPID_PUBLIC_KEY");
+  const privateKey = Deno.env.get("VAPID_PRIVATE_KEY");
+  configured = !!(publicKey && privateKey);
+  if (configured) {
+    webpush.setVapidDetails(Deno.env.get("VAPID_SUBJECT") || "mailto:support@buizly.app", publicKey!, privateKey!);
+  }
+  return configured;
+}
+
+/**
+ * Sends one push message. "expired" means the browser dropped the
+ * subscription and it should be deleted.
+ */
+export async function sendPush(subscription: PushSubscriptionRow, payload: PushPayload): Promise<PushResult> {
+  try {
+    await webpush.sendNotification(
+      { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+      JSON.stringify(payload),
+      { TTL: 60 * 60 }
+    );
+    return "sent";
+  } catch (error: any) {
+    if (error.statusCode === 404 || error.statusCode === 410) return "expired";
+    console.error("[send-meeting-reminders] Push failed:", error.statusCode, error.body || error.message);
+    return "failed";
+  }
+}
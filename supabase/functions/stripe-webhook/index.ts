@@ -0,0 +1,52 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createStripeApi, verifySignature } from "./stripe.ts";
+import { handleStripeEvent } from "./webhook.ts";
+
+serve(async (req: Request) => {
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const webhookSecret = Deno.env.get("STRIPE_WEBHOOK_SECRET");
+  if (!webhookSecret) {
+    console.error("[stripe-webhook] STRIPE_WEBHOOK_SECRET not configured");
+    return new Response("Webhook not configured", { status: 500 });
+  }
+
+  // Signature is computed over the raw body, so read it before parsing
+  const payload = await req.text();
+  const valid = await verifySignature(payload, req.headers.get("stripe-signature"), webhookSecret);
+  if (!valid) {
+    console.warn("[stripe-webhook] Invalid signature");
+    return new Response(JSON.stringify({ error: "Invalid signature" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const event = JSON.parse(payload);
+    console.log(`[stripe-webhook] Received ${event.type} (${event.id})`);
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+    const stripe = createStripeApi(Deno.env.get("STRIPE_SECRET_KEY") ?? "");
+
+    const result = await handleStripeEvent(stripe, supabase, event);
+
+    return new Response(JSON.stringify({ received: true, ...(result === "duplicate" ? { duplicate: true } : {}) }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: any) {
+    // Non-2xx makes Stripe retry the delivery
+    console.error("[stripe-webhook] Error:", error.message);
+    return new Response(JSON.stringify({ error: "Webhook handling failed" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+});
@@ -0,0 +1,88 @@
+// Minimal Stripe client and webhook signature check. The base URL and fetch
+// are injectable so the webhook can run against stripe-mock (STRIPE_API_BASE,
+// e.g. http://localhost:12111) in local testing.
+
+export const STRIPE_API_BASE = "https://api.stripe.com";
+
+// Reject signatures older than this to stop replayed events
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// Only the fields the webhook reads
+export interface StripeSubscription {
+  id: string;
+  customer: string;
+  status: string;
+  metadata?: Record<string, string>;
+  items?: { data?: { price?: { id: string }; current_period_start?: number; current_period_end?: number }[] };
+  current_period_start?: number;
+  current_period_end?: number;
+  cancel_at_period_end?: boolean;
+  canceled_at?: number | null;
+}
+
+export interface StripeApi {
+  getSubscription(subscriptionId: string): Promise<StripeSubscription>;
+}
+
+interface StripeApiOptions {
+  baseUrl?: string;
+  fetchFn?: typeof fetch;
+}
+
+export function createStripeApi(secretKey: string, options: StripeApiOptions = {}): StripeApi {
+  const baseUrl = options.baseUrl || Deno.env.get("STRIPE_API_BASE") || STRIPE_API_BASE;
+  const fetchFn = options.fetchFn || fetch;
+
+  return {
+    async getSubscription(subscriptionId) {
+      const response = await fetchFn(`${baseUrl}/v1/subscriptions/${encodeURIComponent(subscriptionId)}`, {
+        headers: { "Authorization": `Bearer ${secretKey}` },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || `Stripe API error (${response.status})`);
+      }
+      return data;
+    },
+  };
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+}
+
+export async function signPayload(payload: string, timestamp: number, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const mac = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${timestamp}.${payload}`));
+  return Array.from(new Uint8Array(mac))
+    .map(b => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Checks a Stripe-Signature header ("t=<unix seconds>,v1=<hex hmac>,...")
+export async function verifySignature(payload: string, header: string | null, secret: string): Promise<boolean> {
+  if (!header) return false;
+
+  const parts = header.split(",").map(p => p.split("=") as [string, string]);
+  const timestamp = parts.find(([k]) => k === "t")?.[1];
+  const signatures = parts.filter(([k]) => k === "v1").map(([, v]) => v);
+  if (!timestamp || signatures.length === 0) return false;
+
+  const age = Math.floor(Date.now() / 1000) - Number(timestamp);
+  if (!Number.isFinite(age) || Math.abs(age) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = await signPayload(payload, Number(timestamp), secret);
+  return signatures.some(sig => timingSafeEqual(sig, expected));
+}
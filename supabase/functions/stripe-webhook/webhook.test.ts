@@ -0,0 +1,150 @@
+import { assert, assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createFakeSupabase, jsonReply, withMockServer } from "../_shared/testing.ts";
+import { createStripeApi, signPayload, verifySignature, type StripeSubscription } from "./stripe.ts";
+import { handleStripeEvent, type StripeEvent } from "./webhook.ts";
+
+const SECRET_KEY = "sk_test_123";
+const WEBHOOK_SECRET = "whsec_test";
+
+Deno.env.set("STRIPE_PRICE_PRO", "price_pro");
+Deno.env.set("STRIPE_PRICE_BUSINESS", "price_business");
+
+function subscription(overrides: Partial<StripeSubscription> = {}): StripeSubscription {
+  return {
+    id: "sub_1",
+    customer: "cus_1",
+    status: "active",
+    metadata: { user_id: "user-1" },
+    items: { data: [{ price: { id: "price_pro" }, current_period_start: 1790000000, current_period_end: 1792592000 }] },
+    cancel_at_period_end: false,
+    canceled_at: null,
+    ...overrides,
+  };
+}
+
+function subscriptionEvent(type: string, object: Partial<StripeSubscription> = {}, id = "evt_1"): StripeEvent {
+  return { id, type, data: { object: { ...subscription(), ...object } } };
+}
+
+// GET /v1/subscriptions/:id the way stripe-mock answers it
+function stripeMock(subscriptions: StripeSubscription[]) {
+  return (req: Request, url: URL): Response => {
+    if (req.headers.get("Authorization") !== `Bearer ${SECRET_KEY}`) {
+      return jsonReply({ error: { message: "Invalid API Key provided" } }, 401);
+    }
+    const match = url.pathname.match(/^\/v1\/subscriptions\/([^/]+)$/);
+    const found = match && req.method === "GET" && subscriptions.find(s => s.id === decodeURIComponent(match[1]));
+    return found
+      ? jsonReply({ object: "subscription", ...found })
+      : jsonReply({ error: { message: "No such subscription" } }, 404);
+  };
+}
+
+async function signatureHeader(payload: string, timestamp = Math.floor(Date.now() / 1000)): Promise<string> {
+  return `t=${timestamp},v1=${await signPayload(payload, timestamp, WEBHOOK_SECRET)}`;
+}
+
+Deno.test("verifySignature accepts a correctly signed payload", async () => {
+  const payload = JSON.stringify(subscriptionEvent("customer.subscription.updated"));
+  assert(await verifySignature(payload, await signatureHeader(payload), WEBHOOK_SECRET));
+});
+
+Deno.test("verifySignature rejects a tampered payload, a wrong secret and a missing header", async () => {
+  const payload = JSON.stringify(subscriptionEvent("customer.subscription.updated"));
+  const header = await signatureHeader(payload);
+
+  assertEquals(await verifySignature(payload.replace("sub_1", "sub_2"), header, WEBHOOK_SECRET), false);
+  assertEquals(await verifySignature(payload, header, "whsec_other"), false);
+  assertEquals(await verifySignature(payload, null, WEBHOOK_SECRET), false);
+  assertEquals(await verifySignature(payload, "t=123", WEBHOOK_SECRET), false);
+});
+
+Deno.test("verifySignature rejects a replayed signature outside the tolerance", async () => {
+  const payload = JSON.stringify(subscriptionEvent("customer.subscription.updated"));
+  const tenMinutesAgo = Math.floor(Date.now() / 1000) - 600;
+  assertEquals(await verifySignature(payload, await signatureHeader(payload, tenMinutesAgo), WEBHOOK_SECRET), false);
+});
+
+Deno.test("handleStripeEvent stores the subscription re-read from Stripe", async () => {
+  await withMockServer(stripeMock([subscription()]), async server => {
+    const stripe = createStripeApi(SECRET_KEY, { baseUrl: server.url });
+    const supabase = createFakeSupabase();
+
+    const result = await handleStripeEvent(stripe, supabase as unknown as SupabaseClient, subscriptionEvent("customer.subscription.created"));
+
+    assertEquals(result, "processed");
+    assertEquals(server.requests.map(r => r.path), ["/v1/subscriptions/sub_1"]);
+    const [row] = supabase.tables.subscriptions;
+    assertEquals(row.user_id, "user-1");
+    assertEquals(row.plan, "pro");
+    assertEquals(row.status, "active");
+    assertEquals(row.stripe_subscription_id, "sub_1");
+    assertEquals(supabase.tables.stripe_webhook_events, [{ id: "evt_1", type: "customer.subscription.created" }]);
+  });
+});
+
+Deno.test("handleStripeEvent uses Stripe's current state over a stale event payload", async () => {
+  // The subscription was cancelled after this "updated" event was sent
+  await withMockServer(stripeMock([subscription({ status: "canceled", canceled_at: 1790500000 })]), async server => {
+    const stripe = createStripeApi(SECRET_KEY, { baseUrl: server.url });
+    const supabase = createFakeSupabase({
+      subscriptions: [{ user_id: "user-1", plan: "pro", status: "active", stripe_subscription_id: "sub_1" }],
+    });
+
+    await handleStripeEvent(stripe, supabase as unknown as SupabaseClient, subscriptionEvent("customer.subscription.updated", { status: "active" }));
+
+    const [row] = supabase.tables.subscriptions;
+    assertEquals(row.plan, "free");
+    assertEquals(row.status, "cancelled");
+    assertEquals(row.stripe_subscription_id, null);
+  });
+});
+
+Deno.test("handleStripeEvent keeps an incomplete checkout on the free plan", async () => {
+  await withMockServer(stripeMock([subscription({ status: "incomplete" })]), async server => {
+    const stripe = createStripeApi(SECRET_KEY, { baseUrl: server.url });
+    const supabase = createFakeSupabase();
+    const event: StripeEvent = {
+      id: "evt_checkout",
+      type: "checkout.session.completed",
+      data: { object: { id: "cs_1", subscription: "sub_1", client_reference_id: "user-1" } },
+    };
+
+    await handleStripeEvent(stripe, supabase as unknown as SupabaseClient, event);
+
+    const [row] = supabase.tables.subscriptions;
+    assertEquals(row.plan, "free");
+    assertEquals(row.status, "incomplete");
+  });
+});
+
+Deno.test("handleStripeEvent skips an event it has already handled", async () => {
+  await withMockServer(stripeMock([subscription({ status: "canceled" })]), async server => {
+    const stripe = createStripeApi(SECRET_KEY, { baseUrl: server.url });
+    const supabase = createFakeSupabase({
+      stripe_webhook_events: [{ id: "evt_1", type: "customer.subscription.updated" }],
+      subscriptions: [{ user_id: "user-1", plan: "pro", status: "active", stripe_subscription_id: "sub_1" }],
+    });
+
+    const result = await handleStripeEvent(stripe, supabase as unknown as SupabaseClient, subscriptionEvent("customer.subscription.updated"));
+
+    assertEquals(result, "duplicate");
+    assertEquals(server.requests.length, 0);
+    assertEquals(supabase.tables.subscriptions[0].plan, "pro");
+    assertEquals(supabase.tables.stripe_webhook_events.length, 1);
+  });
+});
+
+Deno.test("handleStripeEvent ignores event types it doesn't handle", async () => {
+  await withMockServer(stripeMock([]), async server => {
+    const stripe = createStripeApi(SECRET_KEY, { baseUrl: server.url });
+    const supabase = createFakeSupabase();
+
+    const result = await handleStripeEvent(stripe, supabase as unknown as SupabaseClient, subscriptionEvent("invoice.paid"));
+
+    assertEquals(result, "ignored");
+    assertEquals(server.requests.length, 0);
+    assertEquals(supabase.tables.stripe_webhook_events, undefined);
+  });
+});
@@ -0,0 +1,148 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { StripeApi } from "./stripe.ts";
+
+/**
+ * Applies a verified Stripe event to the user's subscription row. Each event
+ * is recorded in stripe_webhook_events once handled, so Stripe's retries and
+ * duplicate deliveries are skipped. The subscription is always re-read from
+ * Stripe so out-of-order deliveries can't apply stale state.
+ */
+
+type SubscriptionPlan = "free" | "pro" | "business";
+type SubscriptionStatus = "active" | "cancelled" | "past_due" | "trialing" | "expired" | "incomplete";
+
+// A Checkout Session or a Subscription, depending on the event type
+interface StripeEventObject {
+  id: string;
+  subscription?: string | null;
+  client_reference_id?: string | null;
+}
+
+export interface StripeEvent {
+  id: string;
+  type: string;
+  data: { object: StripeEventObject };
+}
+
+export type WebhookResult = "ignored" | "duplicate" | "processed";
+
+const HANDLED_EVENTS = [
+  "checkout.session.completed",
+  "customer.subscription.created",
+  "customer.subscription.updated",
+  "customer.subscription.deleted",
+];
+
+function planForPrice(priceId: string | undefined): SubscriptionPlan | null {
+  if (!priceId) return null;
+  if (priceId === Deno.env.get("STRIPE_PRICE_PRO")) return "pro";
+  if (priceId === Deno.env.get("STRIPE_PRICE_BUSINESS")) return "business";
+  return null;
+}
+
+function mapStatus(stripeStatus: string): SubscriptionStatus {
+  switch (stripeStatus) {
+    case "active":
+      return "active";
+    case "trialing":
+      return "trialing";
+    case "past_due":
+      return "past_due";
+    case "incomplete":
+      // First payment still pending (e.g. 3DS) or about to fail
+      return "incomplete";
+    case "canceled":
+      return "cancelled";
+    default:
+      // unpaid, incomplete_expired, paused
+      return "expired";
+  }
+}
+
+function toIso(unixSeconds: number | null | undefined): string | null {
+  return unixSeconds ? new Date(unixSeconds * 1000).toISOString() : null;
+}
+
+export async function handleStripeEvent(
+  stripe: StripeApi,
+  supabase: SupabaseClient,
+  event: StripeEvent
+): Promise<WebhookResult> {
+  if (!HANDLED_EVENTS.includes(event.type)) return "ignored";
+
+  const { data: processed } = await supabase
+    .from("stripe_webhook_events")
+    .select("id")
+    .eq("id", event.id)
+    .maybeSingle();
+
+  if (processed) {
+    console.log(`[stripe-webhook] Skipping duplicate event ${event.id}`);
+    return "duplicate";
+  }
+
+  const object = event.data.object;
+  const subscriptionId = event.type === "checkout.session.completed"
+    ? object.subscription
+    : object.id;
+
+  if (subscriptionId) {
+    const stripeSub = await stripe.getSubscription(subscriptionId);
+
+    const customerId = stripeSub.customer;
+    let userId: string | null = stripeSub.metadata?.user_id || object.client_reference_id || null;
+
+    if (!userId) {
+      const { data: existing } = await supabase
+        .from("subscriptions")
+        .select("user_id")
+        .eq("stripe_customer_id", customerId)
+        .maybeSingle();
+      userId = existing?.user_id ?? null;
+    }
+
+    if (!userId) {
+      throw new Error(`No user found for customer ${customerId}`);
+    }
+
+    const item = stripeSub.items?.data?.[0];
+    const priceId = item?.price?.id;
+    const status = mapStatus(stripeSub.status);
+    // past_due is the only grace state; an incomplete checkout hasn't paid yet
+    const isLive = status === "active" || status === "trialing" || status === "past_due";
+    const plan = isLive ? planForPrice(priceId) ?? "free" : "free";
+
+    const { data: current } = await supabase
+      .from("subscriptions")
+      .select("stripe_subscription_id")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    // An ended subscription must not downgrade a newer one the user has since started
+    if (!isLive && current?.stripe_subscription_id && current.stripe_subscription_id !== stripeSub.id) {
+      console.log(`[stripe-webhook] Ignored ended subscription ${stripeSub.id} for ${userId}`);
+    } else {
+      const { error: upsertError } = await supabase
+        .from("subscriptions")
+        .upsert({
+          user_id: userId,
+          plan,
+          status,
+          stripe_customer_id: customerId,
+          stripe_subscription_id: isLive ? stripeSub.id : null,
+          stripe_price_id: isLive ? priceId ?? null : null,
+          current_period_start: toIso(stripeSub.current_period_start ?? item?.current_period_start),
+          current_period_end: toIso(stripeSub.current_period_end ?? item?.current_period_end),
+          cancel_at_period_end: Boolean(stripeSub.cancel_at_period_end),
+          cancelled_at: toIso(stripeSub.canceled_at),
+        }, { onConflict: "user_id" });
+
+      if (upsertError) throw upsertError;
+
+      console.log(`[stripe-webhook] Synced ${userId}: plan=${plan} status=${stripeSub.status}`);
+    }
+  }
+
+  await supabase.from("stripe_webhook_events").insert({ id: event.id, type: event.type });
+  return "processed";
+}
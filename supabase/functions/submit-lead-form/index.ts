@@ -0,0 +1,174 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { validateLeadField, type LeadFormField, type LeadFormFieldType } from "../_shared/leadFieldRules.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface SubmitLeadRequest {
+  formId: string;
+  values: Record<string, unknown>;
+  consent?: boolean;
+}
+
+// Standard field types land in their own connection column
+const COLUMN_FOR_TYPE: Partial<Record<LeadFormFieldType, string>> = {
+  name: "connection_name",
+  email: "connection_email",
+  phone: "connection_phone",
+  company: "connection_company",
+  title: "connection_title",
+  linkedin: "connection_linkedin",
+};
+
+// Rate limiting map (in production, use Redis or similar)
+const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
+
+function checkRateLimit(key: string, limit: number, windowMs: number): boolean {
+  const now = Date.now();
+  const existing = rateLimitMap.get(key);
+
+  if (!existing || now > existing.resetAt) {
+    rateLimitMap.set(key, { count: 1, resetAt: now + windowMs });
+    return true;
+  }
+
+  if (existing.count >= limit) return false;
+
+  existing.count++;
+  return true;
+}
+
+// Validate UUID format
+function validateUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  console.log("[submit-lead-form] Request received");
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const ip = req.headers.get("x-forwarded-for")?.split(",")[0] ||
+               req.headers.get("cf-connecting-ip") ||
+               "unknown";
+
+    // Rate limit: 5 submissions per hour per IP
+    if (!checkRateLimit(ip, 5, 3600000)) {
+      console.warn("[submit-lead-form] Rate limit exceeded for IP:", ip.substring(0, 10) + "...");
+      return jsonResponse({ error: "Too many submissions. Please try again later." }, 429);
+    }
+
+    const { formId, values, consent }: SubmitLeadRequest = await req.json();
+
+    if (!formId || !validateUUID(formId) || !values || typeof values !== "object") {
+      return jsonResponse({ error: "Invalid request" }, 400);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: form, error: formError } = await supabaseClient
+      .from("lead_forms")
+      .select("*")
+      .eq("id", formId)
+      .maybeSingle();
+
+    if (formError) throw formError;
+    if (!form || !form.is_enabled) {
+      return jsonResponse({ error: "This form is not accepting submissions" }, 404);
+    }
+
+    const { data: hasLeadCapture } = await supabaseClient.rpc("has_lead_capture", { p_user_id: form.user_id });
+    if (!hasLeadCapture) {
+      return jsonResponse({ error: "This form is not accepting submissions" }, 404);
+    }
+
+    if (form.consent_required && consent !== true) {
+      return jsonResponse({ error: "Consent is required" }, 400);
+    }
+
+    const fields = (form.fields || []) as LeadFormField[];
+    const columns: Record<string, string | null> = {};
+    const answers: Record<string, string> = {};
+    const errors: Record<string, string> = {};
+
+    for (const field of fields) {
+      const { value, error } = validateLeadField(field, values[field.id]);
+      if (error) {
+        errors[field.id] = error;
+        continue;
+      }
+      if (!value) continue;
+
+      const column = COLUMN_FOR_TYPE[field.type];
+      if (column && !columns[column]) {
+        columns[column] = value;
+      } else {
+        answers[field.label] = value;
+      }
+    }
+
+    if (Object.keys(errors).length > 0) {
+      return jsonResponse({ error: "Please check the highlighted fields", fields: errors }, 400);
+    }
+
+    const connectionName = columns.connection_name || columns.connection_email || "Website lead";
+    const notes = Object.entries(answers).map(([label, value]) => `${label}: ${value}`).join("\n");
+
+    const { error: insertError } = await supabaseClient
+      .from("connections")
+      .insert({
+        ...columns,
+        user_id: form.user_id,
+        connection_name: connectionName,
+        notes: notes || null,
+        source: "lead_form",
+        lead_form_id: form.id,
+        lead_form_data: answers,
+        consent_given_at: consent ? new Date().toISOString() : null,
+      });
+
+    if (insertError) {
+      // Owner is over their monthly connection quota
+      if (insertError.message === "CONNECTION_LIMIT_REACHED") {
+        console.warn("[submit-lead-form] Connection limit reached for form:", form.id);
+        return jsonResponse({ error: "This form is not accepting submissions right now" }, 403);
+      }
+      console.error("[submit-lead-form] Insert error:", insertError);
+      throw insertError;
+    }
+
+    await supabaseClient.from("notifications").insert({
+      user_id: form.user_id,
+      type: "new_connection",
+      title: "New lead from your profile",
+      message: `${connectionName} filled in your "${form.title}" form`,
+      data: { source: "lead_form", lead_form_id: form.id },
+    });
+
+    console.log("[submit-lead-form] Lead captured for form:", form.id);
+
+    return jsonResponse({ success: true }, 200);
+  } catch (error: any) {
+    console.error("[submit-lead-form] Error:", error.message);
+    return jsonResponse({ error: "Failed to submit form" }, 500);
+  }
+};
+
+serve(handler);
@@ -0,0 +1,340 @@
+-- Team workspaces for Business plan subscribers
+-- A workspace has one owner, optional admins and members, email invites,
+-- and a shared pool of connections contributed by its members.
+
+CREATE TYPE public.workspace_role AS ENUM ('owner', 'admin', 'member');
+
+-- Workspaces
+CREATE TABLE public.workspaces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  owner_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Workspace members (the owner is a member too)
+CREATE TABLE public.workspace_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  role workspace_role NOT NULL DEFAULT 'member',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(workspace_id, user_id)
+);
+
+-- Email invites
+CREATE TABLE public.workspace_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role workspace_role NOT NULL DEFAULT 'member' CHECK (role <> 'owner'),
+  invited_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'revoked')),
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(workspace_id, email)
+);
+
+-- Shared contact pool built on connections
+CREATE TABLE public.workspace_connections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  connection_id UUID NOT NULL REFERENCES public.connections(id) ON DELETE CASCADE,
+  shared_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(workspace_id, connection_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_connections ENABLE ROW LEVEL SECURITY;
+
+-- Helper: role of the current user in a workspace (NULL if not a member)
+-- SECURITY DEFINER avoids RLS recursion on workspace_members
+CREATE OR REPLACE FUNCTION public.get_workspace_role(p_workspace_id UUID)
+RETURNS public.workspace_role
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role public.workspace_role;
+BEGIN
+  SELECT role INTO v_role
+  FROM public.workspace_members
+  WHERE workspace_id = p_workspace_id
+  AND user_id = auth.uid();
+
+  RETURN v_role;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_workspace_member(p_workspace_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN public.get_workspace_role(p_workspace_id) IS NOT NULL;
+END;
+$$;
+
+-- Member limit comes from the owner's plan (Business: 5 members including the owner)
+CREATE OR REPLACE FUNCTION public.get_workspace_member_limit(p_workspace_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.subscription_plan;
+BEGIN
+  SELECT s.plan INTO v_plan
+  FROM public.workspaces w
+  JOIN public.subscriptions s ON s.user_id = w.owner_id
+  WHERE w.id = p_workspace_id
+  AND s.status IN ('active', 'trialing');
+
+  IF v_plan = 'business' THEN
+    RETURN 5;
+  END IF;
+
+  RETURN 0;
+END;
+$$;
+
+-- Members plus outstanding invites must stay within the limit
+CREATE OR REPLACE FUNCTION public.can_add_workspace_member(p_workspace_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_members INTEGER;
+  v_pending INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO v_members
+  FROM public.workspace_members
+  WHERE workspace_id = p_workspace_id;
+
+  SELECT COUNT(*) INTO v_pending
+  FROM public.workspace_invites
+  WHERE workspace_id = p_workspace_id
+  AND status = 'pending';
+
+  RETURN v_members + v_pending < public.get_workspace_member_limit(p_workspace_id);
+END;
+$$;
+
+-- Only Business subscribers can create a workspace
+CREATE OR REPLACE FUNCTION public.can_create_workspace()
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN false;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM public.subscriptions
+    WHERE user_id = auth.uid()
+    AND plan = 'business'
+    AND status IN ('active', 'trialing')
+  );
+END;
+$$;
+
+-- Accept an invite addressed to the current user's email
+CREATE OR REPLACE FUNCTION public.accept_workspace_invite(p_invite_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite public.workspace_invites%ROWTYPE;
+  v_email TEXT;
+  v_members INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT email INTO v_email FROM public.profiles WHERE id = auth.uid();
+
+  SELECT * INTO v_invite
+  FROM public.workspace_invites
+  WHERE id = p_invite_id
+  FOR UPDATE;
+
+  IF v_invite.id IS NULL OR lower(v_invite.email) <> lower(v_email) THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+
+  IF v_invite.status <> 'pending' THEN
+    RAISE EXCEPTION 'Invite is no longer valid';
+  END IF;
+
+  -- The pending invite already holds a seat; only existing members count here
+  SELECT COUNT(*) INTO v_members
+  FROM public.workspace_members
+  WHERE workspace_id = v_invite.workspace_id;
+
+  IF v_members >= public.get_workspace_member_limit(v_invite.workspace_id) THEN
+    RAISE EXCEPTION 'Team member limit reached';
+  END IF;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (v_invite.workspace_id, auth.uid(), v_invite.role)
+  ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+  UPDATE public.workspace_invites
+  SET status = 'accepted', responded_at = now()
+  WHERE id = p_invite_id;
+
+  RETURN v_invite.workspace_id;
+END;
+$$;
+
+-- Add the owner as a member when a workspace is created
+CREATE OR REPLACE FUNCTION public.handle_new_workspace()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (NEW.id, NEW.owner_id, 'owner');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_workspace_created
+  AFTER INSERT ON public.workspaces
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_workspace();
+
+CREATE TRIGGER update_workspaces_updated_at
+  BEFORE UPDATE ON public.workspaces
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS policies for workspaces
+CREATE POLICY "Members can view their workspaces"
+ON public.workspaces FOR SELECT
+USING (public.is_workspace_member(id));
+
+CREATE POLICY "Business users can create workspaces"
+ON public.workspaces FOR INSERT
+WITH CHECK (owner_id = auth.uid() AND public.can_create_workspace());
+
+CREATE POLICY "Owners and admins can update workspaces"
+ON public.workspaces FOR UPDATE
+USING (public.get_workspace_role(id) IN ('owner', 'admin'));
+
+CREATE POLICY "Owners can delete workspaces"
+ON public.workspaces FOR DELETE
+USING (owner_id = auth.uid());
+
+-- RLS policies for workspace_members
+-- Members are only added by the owner trigger and accept_workspace_invite()
+CREATE POLICY "Members can view fellow members"
+ON public.workspace_members FOR SELECT
+USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners can change member roles"
+ON public.workspace_members FOR UPDATE
+USING (public.get_workspace_role(workspace_id) = 'owner' AND role <> 'owner')
+WITH CHECK (role <> 'owner');
+
+CREATE POLICY "Admins can remove members and members can leave"
+ON public.workspace_members FOR DELETE
+USING (
+  role <> 'owner' AND (
+    user_id = auth.uid() OR
+    public.get_workspace_role(workspace_id) IN ('owner', 'admin')
+  )
+);
+
+-- RLS policies for workspace_invites
+CREATE POLICY "Admins and invitees can view invites"
+ON public.workspace_invites FOR SELECT
+USING (
+  public.get_workspace_role(workspace_id) IN ('owner', 'admin') OR
+  lower(email) = lower((SELECT email FROM public.profiles WHERE id = auth.uid()))
+);
+
+CREATE POLICY "Admins can invite within the member limit"
+ON public.workspace_invites FOR INSERT
+WITH CHECK (
+  invited_by = auth.uid() AND
+  status = 'pending' AND
+  public.get_workspace_role(workspace_id) IN ('owner', 'admin') AND
+  public.can_add_workspace_member(workspace_id)
+);
+
+CREATE POLICY "Admins and invitees can update invites"
+ON public.workspace_invites FOR UPDATE
+USING (
+  public.get_workspace_role(workspace_id) IN ('owner', 'admin') OR
+  lower(email) = lower((SELECT email FROM public.profiles WHERE id = auth.uid()))
+)
+WITH CHECK (status IN ('pending', 'declined', 'revoked'));
+
+CREATE POLICY "Admins can delete invites"
+ON public.workspace_invites FOR DELETE
+USING (public.get_workspace_role(workspace_id) IN ('owner', 'admin'));
+
+-- RLS policies for workspace_connections
+CREATE POLICY "Members can view the shared contact pool"
+ON public.workspace_connections FOR SELECT
+USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can share their own connections"
+ON public.workspace_connections FOR INSERT
+WITH CHECK (
+  shared_by = auth.uid() AND
+  public.is_workspace_member(workspace_id) AND
+  EXISTS (
+    SELECT 1 FROM public.connections
+    WHERE connections.id = workspace_connections.connection_id
+    AND connections.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Sharers and admins can unshare connections"
+ON public.workspace_connections FOR DELETE
+USING (
+  shared_by = auth.uid() OR
+  public.get_workspace_role(workspace_id) IN ('owner', 'admin')
+);
+
+-- Let workspace members read connections shared into their workspaces
+CREATE POLICY "Workspace members can view shared connections"
+ON public.connections FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.workspace_connections
+    WHERE workspace_connections.connection_id = connections.id
+    AND public.is_workspace_member(workspace_connections.workspace_id)
+  )
+);
+
+-- Indexes
+CREATE INDEX idx_workspace_members_user ON public.workspace_members(user_id);
+CREATE INDEX idx_workspace_invites_email ON public.workspace_invites(lower(email));
+CREATE INDEX idx_workspace_connections_workspace ON public.workspace_connections(workspace_id);
+
+-- Enable realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.workspace_members;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.workspace_invites;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.workspace_connections;
@@ -0,0 +1,73 @@
+-- Lead capture forms shown on public profiles (Business plan)
+
+-- Tag every connection with where it came from
+ALTER TABLE public.connections
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'manual',
+  ADD COLUMN IF NOT EXISTS lead_form_id UUID,
+  ADD COLUMN IF NOT EXISTS lead_form_data JSONB,
+  ADD COLUMN IF NOT EXISTS consent_given_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE public.lead_forms (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES public.profiles(id) ON DELETE CASCADE,
+  is_enabled BOOLEAN NOT NULL DEFAULT false,
+  title TEXT NOT NULL DEFAULT 'Get in touch' CHECK (char_length(title) BETWEEN 1 AND 100),
+  description TEXT CHECK (description IS NULL OR char_length(description) <= 500),
+  fields JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(fields) = 'array' AND jsonb_array_length(fields) <= 12),
+  consent_required BOOLEAN NOT NULL DEFAULT true,
+  consent_text TEXT NOT NULL DEFAULT 'I agree to be contacted about my enquiry.' CHECK (char_length(consent_text) <= 500),
+  submit_label TEXT NOT NULL DEFAULT 'Send' CHECK (char_length(submit_label) BETWEEN 1 AND 40),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.connections
+  ADD CONSTRAINT connections_lead_form_id_fkey
+  FOREIGN KEY (lead_form_id) REFERENCES public.lead_forms(id) ON DELETE SET NULL;
+
+ALTER TABLE public.lead_forms ENABLE ROW LEVEL SECURITY;
+
+-- Only Business subscribers can turn a form on; submissions are also checked in submit-lead-form
+CREATE OR REPLACE FUNCTION public.has_lead_capture(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.subscriptions
+    WHERE user_id = p_user_id
+      AND plan = 'business'
+      AND status IN ('active', 'trialing')
+  )
+$$;
+
+CREATE POLICY "Users can view their own lead form"
+ON public.lead_forms FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Anyone can view enabled lead forms"
+ON public.lead_forms FOR SELECT
+USING (is_enabled = true AND public.has_lead_capture(user_id));
+
+CREATE POLICY "Business users can create their lead form"
+ON public.lead_forms FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.has_lead_capture(auth.uid()));
+
+CREATE POLICY "Business users can update their lead form"
+ON public.lead_forms FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id AND (is_enabled = false OR public.has_lead_capture(auth.uid())));
+
+CREATE POLICY "Users can delete their lead form"
+ON public.lead_forms FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_lead_forms_updated_at
+BEFORE UPDATE ON public.lead_forms
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_connections_source ON public.connections(user_id, source);
+CREATE INDEX idx_connections_lead_form_id ON public.connections(lead_form_id);
@@ -0,0 +1,35 @@
+-- Stripe billing: subscription state is now written only by the stripe-webhook function
+
+ALTER TABLE public.subscriptions
+  ADD COLUMN IF NOT EXISTS stripe_price_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subscriptions_stripe_customer_id
+  ON public.subscriptions(stripe_customer_id)
+  WHERE stripe_customer_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_stripe_subscription_id
+  ON public.subscriptions(stripe_subscription_id);
+
+-- Users could previously grant themselves any plan
+DROP POLICY IF EXISTS "Users can update their own subscription" ON public.subscriptions;
+DROP POLICY IF EXISTS "Users can insert their own subscription" ON public.subscriptions;
+
+CREATE POLICY "Users can insert their own free subscription"
+ON public.subscriptions FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND plan = 'free'
+  AND status = 'active'
+  AND stripe_customer_id IS NULL
+  AND stripe_subscription_id IS NULL
+);
+
+-- Processed webhook events, so Stripe retries are applied once
+CREATE TABLE public.stripe_webhook_events (
+  id TEXT NOT NULL PRIMARY KEY,
+  type TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only the service role touches this table
+ALTER TABLE public.stripe_webhook_events ENABLE ROW LEVEL SECURITY;
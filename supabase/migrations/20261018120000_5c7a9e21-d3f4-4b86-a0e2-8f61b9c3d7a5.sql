@@ -0,0 +1,95 @@
+-- Enforce the monthly connection quota in the database for every insert path
+
+-- NULL means unlimited
+CREATE OR REPLACE FUNCTION public.get_connection_limit(p_user_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.subscription_plan;
+BEGIN
+  SELECT plan INTO v_plan
+  FROM public.subscriptions
+  WHERE user_id = p_user_id
+    AND status IN ('active', 'trialing', 'past_due');
+
+  IF v_plan IN ('pro', 'business') THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN 5;
+END;
+$$;
+
+-- Counts the insert against this month's usage and rejects it once the plan limit is hit.
+-- Raising rolls back the usage increment along with the insert.
+CREATE OR REPLACE FUNCTION public.enforce_connection_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit INTEGER;
+  v_count INTEGER;
+BEGIN
+  v_limit := public.get_connection_limit(NEW.user_id);
+
+  INSERT INTO public.usage_tracking (user_id, month_year, connections_count)
+  VALUES (NEW.user_id, TO_CHAR(NOW(), 'YYYY-MM'), 1)
+  ON CONFLICT (user_id, month_year)
+  DO UPDATE SET
+    connections_count = public.usage_tracking.connections_count + 1,
+    updated_at = NOW()
+  RETURNING connections_count INTO v_count;
+
+  IF v_limit IS NOT NULL AND v_count > v_limit THEN
+    RAISE EXCEPTION 'CONNECTION_LIMIT_REACHED'
+      USING ERRCODE = 'P0001',
+            DETAIL = format('Monthly limit of %s connections reached', v_limit),
+            HINT = 'Upgrade to Pro for unlimited connections';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_connection_limit
+BEFORE INSERT ON public.connections
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_connection_limit();
+
+-- Keep the client-side pre-check in line with the trigger
+CREATE OR REPLACE FUNCTION public.can_add_connection(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF auth.uid() != p_user_id THEN
+    RAISE EXCEPTION 'Unauthorized: can only check own connection quota';
+  END IF;
+
+  v_limit := public.get_connection_limit(p_user_id);
+  IF v_limit IS NULL THEN
+    RETURN true;
+  END IF;
+
+  RETURN public.get_current_month_usage(p_user_id) < v_limit;
+END;
+$$;
+
+-- Usage is now counted by the trigger; clients must not be able to reset or inflate it
+DROP FUNCTION IF EXISTS public.increment_connection_count(UUID);
+DROP POLICY IF EXISTS "Users can insert their own usage" ON public.usage_tracking;
+DROP POLICY IF EXISTS "Users can update their own usage" ON public.usage_tracking;
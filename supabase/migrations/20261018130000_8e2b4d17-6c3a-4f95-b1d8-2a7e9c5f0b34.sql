@@ -0,0 +1,124 @@
+-- Custom profile URLs (/@slug) for Pro and Business plans
+
+ALTER TABLE public.profiles ADD COLUMN slug TEXT;
+
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_slug_format
+CHECK (slug IS NULL OR slug ~ '^[a-z0-9][a-z0-9-]{1,28}[a-z0-9]$');
+
+CREATE UNIQUE INDEX profiles_slug_key ON public.profiles (slug);
+
+-- Previous slugs keep redirecting to their owner and can't be claimed by anyone else
+CREATE TABLE public.profile_slug_history (
+  slug TEXT PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_profile_slug_history_profile_id ON public.profile_slug_history(profile_id);
+
+-- Only reachable through resolve_profile_slug and the slug trigger
+ALTER TABLE public.profile_slug_history ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.has_custom_profile_url(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.subscriptions
+    WHERE user_id = p_user_id
+      AND plan IN ('pro', 'business')
+      AND status IN ('active', 'trialing')
+  )
+$$;
+
+-- Mirrors RESERVED_SLUGS in src/lib/validationSchemas.ts
+CREATE OR REPLACE FUNCTION public.is_reserved_slug(p_slug TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT lower(p_slug) = ANY (ARRAY[
+    'admin', 'analytics', 'api', 'app', 'auth', 'billing', 'buizly', 'capture',
+    'connect', 'connection', 'contact', 'dashboard', 'discover', 'help', 'home',
+    'login', 'logout', 'meeting', 'meeting-response', 'network', 'oauth2callback',
+    'profile', 'root', 'schedule', 'settings', 'signup', 'subscription', 'support',
+    'team', 'www'
+  ])
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_profile_slug_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.slug := NULLIF(lower(trim(NEW.slug)), '');
+
+  IF TG_OP = 'UPDATE' AND NEW.slug IS NOT DISTINCT FROM OLD.slug THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.slug IS NOT NULL THEN
+    IF NOT public.has_custom_profile_url(NEW.id) THEN
+      RAISE EXCEPTION 'SLUG_REQUIRES_UPGRADE'
+        USING ERRCODE = 'P0001',
+              HINT = 'Upgrade to Pro for a custom profile URL';
+    END IF;
+
+    IF public.is_reserved_slug(NEW.slug) THEN
+      RAISE EXCEPTION 'SLUG_RESERVED' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.profile_slug_history
+      WHERE slug = NEW.slug AND profile_id != NEW.id
+    ) THEN
+      RAISE EXCEPTION 'SLUG_TAKEN' USING ERRCODE = 'P0001';
+    END IF;
+
+    -- Taking back one of your own old slugs makes it current again
+    DELETE FROM public.profile_slug_history WHERE slug = NEW.slug;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.slug IS NOT NULL THEN
+    INSERT INTO public.profile_slug_history (slug, profile_id)
+    VALUES (OLD.slug, NEW.id)
+    ON CONFLICT (slug) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER handle_profile_slug_change
+BEFORE INSERT OR UPDATE OF slug ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_profile_slug_change();
+
+-- Resolves current and previous slugs; slug is the profile's current one (NULL if cleared)
+-- Slugs keep resolving after a downgrade so printed cards don't break
+CREATE OR REPLACE FUNCTION public.resolve_profile_slug(p_slug TEXT)
+RETURNS TABLE(profile_id UUID, slug TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.slug
+  FROM public.profiles p
+  WHERE p.slug = lower(p_slug)
+  UNION ALL
+  SELECT p.id, p.slug
+  FROM public.profile_slug_history h
+  JOIN public.profiles p ON p.id = h.profile_id
+  WHERE h.slug = lower(p_slug)
+  LIMIT 1
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resolve_profile_slug(TEXT) TO anon, authenticated;
@@ -0,0 +1,102 @@
+-- Saved business card design, rendered on the public profile, profile page and QR code
+
+CREATE TABLE public.card_designs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES public.profiles(id) ON DELETE CASCADE,
+  template_id TEXT NOT NULL DEFAULT 'default'
+    CHECK (template_id IN ('default', 'ocean', 'sunset', 'royal', 'gold', 'minimal')),
+  accent_color TEXT NOT NULL DEFAULT '#00ff4d' CHECK (accent_color ~ '^#[0-9a-f]{6}$'),
+  background_color TEXT NOT NULL DEFAULT '#000000' CHECK (background_color ~ '^#[0-9a-f]{6}$'),
+  qr_foreground TEXT NOT NULL DEFAULT '#00ff4d' CHECK (qr_foreground ~ '^#[0-9a-f]{6}$'),
+  qr_background TEXT NOT NULL DEFAULT '#000000' CHECK (qr_background ~ '^#[0-9a-f]{6}$'),
+  font_family TEXT NOT NULL DEFAULT 'default'
+    CHECK (font_family IN ('default', 'serif', 'mono', 'rounded')),
+  logo_url TEXT CHECK (logo_url IS NULL OR char_length(logo_url) <= 1000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.card_designs ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.has_custom_branding(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.subscriptions
+    WHERE user_id = p_user_id
+      AND plan IN ('pro', 'business')
+      AND status IN ('active', 'trialing')
+  )
+$$;
+
+-- Free plans get the Classic and Minimal templates with their stock colors and no logo.
+-- Mirrors the free templates in src/lib/cardDesign.ts
+CREATE OR REPLACE FUNCTION public.is_free_card_design(
+  p_template_id TEXT,
+  p_accent_color TEXT,
+  p_background_color TEXT,
+  p_qr_foreground TEXT,
+  p_qr_background TEXT,
+  p_logo_url TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT p_logo_url IS NULL AND (
+    (p_template_id = 'default'
+      AND p_accent_color = '#00ff4d' AND p_background_color = '#000000'
+      AND p_qr_foreground = '#00ff4d' AND p_qr_background = '#000000')
+    OR
+    (p_template_id = 'minimal'
+      AND p_accent_color = '#000000' AND p_background_color = '#ffffff'
+      AND p_qr_foreground = '#000000' AND p_qr_background = '#ffffff')
+  )
+$$;
+
+CREATE POLICY "Users can view their own card design"
+ON public.card_designs FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Pro designs stop showing publicly after a downgrade; viewers fall back to the default card
+CREATE POLICY "Anyone can view active card designs"
+ON public.card_designs FOR SELECT
+USING (
+  public.has_custom_branding(user_id)
+  OR public.is_free_card_design(template_id, accent_color, background_color, qr_foreground, qr_background, logo_url)
+);
+
+CREATE POLICY "Users can create their card design"
+ON public.card_designs FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    public.has_custom_branding(auth.uid())
+    OR public.is_free_card_design(template_id, accent_color, background_color, qr_foreground, qr_background, logo_url)
+  )
+);
+
+CREATE POLICY "Users can update their card design"
+ON public.card_designs FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    public.has_custom_branding(auth.uid())
+    OR public.is_free_card_design(template_id, accent_color, background_color, qr_foreground, qr_background, logo_url)
+  )
+);
+
+CREATE POLICY "Users can delete their card design"
+ON public.card_designs FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_card_designs_updated_at
+BEFORE UPDATE ON public.card_designs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,8 @@
+-- QR codes are generated on-device; store how each user's code should be drawn
+
+ALTER TABLE public.card_designs
+  ADD COLUMN qr_error_correction TEXT NOT NULL DEFAULT 'M'
+    CHECK (qr_error_correction IN ('L', 'M', 'Q', 'H')),
+  ADD COLUMN qr_margin SMALLINT NOT NULL DEFAULT 4
+    CHECK (qr_margin BETWEEN 0 AND 10),
+  ADD COLUMN qr_show_logo BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,48 @@
+-- Keep past meetings as history; only purge them when the user opts into a retention period
+
+-- NULL keeps meeting history forever
+ALTER TABLE public.user_settings
+  ADD COLUMN meeting_retention_days INTEGER
+    CHECK (meeting_retention_days IS NULL OR meeting_retention_days >= 30);
+
+-- Purging a meeting must not fail because a follow-up still points at it
+ALTER TABLE public.meetings
+  DROP CONSTRAINT IF EXISTS meetings_parent_meeting_id_fkey,
+  ADD CONSTRAINT meetings_parent_meeting_id_fkey
+    FOREIGN KEY (parent_meeting_id) REFERENCES public.meetings(id) ON DELETE SET NULL;
+
+-- Deletes the caller's meetings older than their retention period.
+-- Participants and notes go with them via ON DELETE CASCADE.
+CREATE OR REPLACE FUNCTION public.apply_meeting_retention()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_days INTEGER;
+  v_deleted INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  SELECT meeting_retention_days INTO v_days
+  FROM public.user_settings
+  WHERE user_id = v_user_id;
+
+  IF v_days IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  DELETE FROM public.meetings
+  WHERE user_id = v_user_id
+    AND meeting_date < CURRENT_DATE - v_days;
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_meeting_retention() TO authenticated;
@@ -0,0 +1,93 @@
+-- Store meetings as absolute timestamps with the organizer's IANA time zone.
+-- meeting_date/meeting_time stay as the organizer's wall-clock values for existing readers.
+
+ALTER TABLE public.meetings
+  ADD COLUMN starts_at TIMESTAMPTZ,
+  -- NULL only for rows created before time zones were tracked
+  ADD COLUMN time_zone TEXT;
+
+-- Legacy meeting_time values are free-form ("09:00 AM", "14:30"); unreadable ones fall back to 09:00
+CREATE OR REPLACE FUNCTION public.parse_meeting_time(p_time TEXT)
+RETURNS TIME
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF p_time ~* '^\s*\d{1,2}:\d{2}\s*(AM|PM)\s*$' THEN
+    RETURN to_timestamp(upper(regexp_replace(trim(p_time), '\s+', ' ')), 'HH12:MI AM')::TIME;
+  END IF;
+  RETURN trim(p_time)::TIME;
+EXCEPTION WHEN others THEN
+  RETURN '09:00'::TIME;
+END;
+$$;
+
+-- The organizer's zone is unknown for existing rows, so anchor them in UTC for now.
+-- localize_legacy_meetings re-anchors them once the organizer's browser reports its zone.
+UPDATE public.meetings
+SET starts_at = (meeting_date + public.parse_meeting_time(meeting_time)) AT TIME ZONE 'UTC',
+    meeting_time = to_char(public.parse_meeting_time(meeting_time), 'HH24:MI');
+
+ALTER TABLE public.meetings ALTER COLUMN starts_at SET NOT NULL;
+
+CREATE INDEX idx_meetings_starts_at ON public.meetings(starts_at);
+
+-- starts_at is authoritative; meeting_date/meeting_time are derived in the organizer's zone
+CREATE OR REPLACE FUNCTION public.sync_meeting_schedule()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_zone TEXT := COALESCE(NEW.time_zone, 'UTC');
+  v_local TIMESTAMP;
+BEGIN
+  -- Rejects zone names Postgres doesn't know
+  PERFORM now() AT TIME ZONE v_zone;
+
+  IF NEW.starts_at IS NULL THEN
+    NEW.starts_at := (NEW.meeting_date + public.parse_meeting_time(NEW.meeting_time)) AT TIME ZONE v_zone;
+  END IF;
+
+  v_local := NEW.starts_at AT TIME ZONE v_zone;
+  NEW.meeting_date := v_local::DATE;
+  NEW.meeting_time := to_char(v_local, 'HH24:MI');
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_meeting_schedule
+  BEFORE INSERT OR UPDATE ON public.meetings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_meeting_schedule();
+
+-- Re-anchors the caller's legacy meetings to the wall-clock time they entered, in their zone
+CREATE OR REPLACE FUNCTION public.localize_legacy_meetings(p_time_zone TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_updated INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM now() AT TIME ZONE p_time_zone;
+
+  UPDATE public.meetings
+  SET time_zone = p_time_zone,
+      starts_at = (meeting_date + meeting_time::TIME) AT TIME ZONE p_time_zone
+  WHERE time_zone IS NULL
+    AND COALESCE(organizer_id, user_id) = v_user_id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.localize_legacy_meetings(TEXT) TO authenticated;
@@ -0,0 +1,4 @@
+-- Meetings get a length; existing rows keep the one hour everything assumed so far
+ALTER TABLE public.meetings
+  ADD COLUMN duration_minutes INTEGER NOT NULL DEFAULT 60
+    CHECK (duration_minutes BETWEEN 5 AND 1440);
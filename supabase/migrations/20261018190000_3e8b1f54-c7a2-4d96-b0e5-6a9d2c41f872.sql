@@ -0,0 +1,78 @@
+-- Recurring meetings: a series row carries an RRULE, occurrences are expanded on read
+
+ALTER TABLE public.meetings
+  -- RRULE body without the "RRULE:" prefix, e.g. FREQ=WEEKLY;INTERVAL=1.
+  -- Expanded in the organizer's time_zone so a weekly 9 AM stays 9 AM across DST.
+  ADD COLUMN recurrence_rule TEXT
+    CHECK (recurrence_rule IS NULL OR recurrence_rule ~ '^FREQ=(DAILY|WEEKLY|MONTHLY|YEARLY)(;[A-Z]+=[A-Z0-9,+-]+)*$'),
+  -- Original start times of cancelled occurrences
+  ADD COLUMN recurrence_exceptions TIMESTAMPTZ[] NOT NULL DEFAULT '{}',
+  -- Set on a row that replaces a single occurrence of a series ("edit this occurrence")
+  ADD COLUMN series_id UUID REFERENCES public.meetings(id) ON DELETE CASCADE,
+  ADD COLUMN original_starts_at TIMESTAMPTZ,
+  ADD CONSTRAINT meetings_occurrence_override_check
+    CHECK ((series_id IS NULL) = (original_starts_at IS NULL)),
+  ADD CONSTRAINT meetings_override_not_recurring_check
+    CHECK (series_id IS NULL OR recurrence_rule IS NULL);
+
+CREATE UNIQUE INDEX idx_meetings_series_occurrence
+  ON public.meetings(series_id, original_starts_at)
+  WHERE series_id IS NOT NULL;
+
+-- reminder_24h_sent/reminder_1h_sent only describe a single start time, so
+-- reminders for occurrences of a series are recorded per occurrence instead
+CREATE TABLE public.meeting_occurrence_reminders (
+  meeting_id UUID NOT NULL REFERENCES public.meetings(id) ON DELETE CASCADE,
+  occurrence_starts_at TIMESTAMPTZ NOT NULL,
+  reminder_type TEXT NOT NULL CHECK (reminder_type IN ('24h', '1h')),
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (meeting_id, occurrence_starts_at, reminder_type)
+);
+
+ALTER TABLE public.meeting_occurrence_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Written by the service role only; organizers can see what went out
+CREATE POLICY "Users can view reminders for their meetings"
+ON public.meeting_occurrence_reminders FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.meetings
+    WHERE meetings.id = meeting_occurrence_reminders.meeting_id
+    AND (meetings.user_id = auth.uid() OR meetings.organizer_id = auth.uid())
+  )
+);
+
+-- A series is history only once it has no future occurrences, which the
+-- database can't tell from the RRULE, so retention leaves series rows alone
+CREATE OR REPLACE FUNCTION public.apply_meeting_retention()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_days INTEGER;
+  v_deleted INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  SELECT meeting_retention_days INTO v_days
+  FROM public.user_settings
+  WHERE user_id = v_user_id;
+
+  IF v_days IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  DELETE FROM public.meetings
+  WHERE user_id = v_user_id
+    AND recurrence_rule IS NULL
+    AND meeting_date < CURRENT_DATE - v_days;
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$;
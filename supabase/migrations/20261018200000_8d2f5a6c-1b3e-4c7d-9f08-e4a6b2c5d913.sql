@@ -0,0 +1,56 @@
+-- Public booking pages: visitors pick a free slot from the owner's weekly availability
+
+CREATE TABLE public.booking_pages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES public.profiles(id) ON DELETE CASCADE,
+  is_enabled BOOLEAN NOT NULL DEFAULT false,
+  title TEXT NOT NULL DEFAULT 'Book a meeting' CHECK (char_length(title) BETWEEN 1 AND 100),
+  description TEXT CHECK (description IS NULL OR char_length(description) <= 500),
+  -- Availability is in the owner's zone, e.g. [{"day":1,"start":"09:00","end":"17:00"}] (day 0 = Sunday)
+  time_zone TEXT NOT NULL DEFAULT 'UTC',
+  availability JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(availability) = 'array' AND jsonb_array_length(availability) <= 28),
+  -- [{"id":"...","title":"Intro call","duration_minutes":30,"description":null,"location":null}]
+  meeting_types JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(meeting_types) = 'array' AND jsonb_array_length(meeting_types) <= 10),
+  buffer_before_minutes INTEGER NOT NULL DEFAULT 0 CHECK (buffer_before_minutes BETWEEN 0 AND 240),
+  buffer_after_minutes INTEGER NOT NULL DEFAULT 0 CHECK (buffer_after_minutes BETWEEN 0 AND 240),
+  min_notice_minutes INTEGER NOT NULL DEFAULT 240 CHECK (min_notice_minutes BETWEEN 0 AND 20160),
+  max_days_ahead INTEGER NOT NULL DEFAULT 30 CHECK (max_days_ahead BETWEEN 1 AND 365),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.booking_pages ENABLE ROW LEVEL SECURITY;
+
+-- Slots are computed by the book-meeting function; visitors only read the page itself
+CREATE POLICY "Users can view their own booking page"
+ON public.booking_pages FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Anyone can view enabled booking pages"
+ON public.booking_pages FOR SELECT
+USING (is_enabled = true);
+
+CREATE POLICY "Users can create their booking page"
+ON public.booking_pages FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their booking page"
+ON public.booking_pages FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their booking page"
+ON public.booking_pages FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_booking_pages_updated_at
+BEFORE UPDATE ON public.booking_pages
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Meetings created from a booking page
+ALTER TABLE public.meetings
+  ADD COLUMN booking_page_id UUID REFERENCES public.booking_pages(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_meetings_booking_page_id ON public.meetings(booking_page_id);
@@ -0,0 +1,52 @@
+-- Two-way Google Calendar sync: etags and pending edits per meeting, a sync token per user
+
+ALTER TABLE public.meetings
+  -- Etag of the Google event as Buizly last wrote or read it
+  ADD COLUMN google_calendar_etag TEXT,
+  -- The meeting was edited in Buizly and not yet pushed to Google
+  ADD COLUMN google_sync_pending BOOLEAN NOT NULL DEFAULT false,
+  -- Google's version when both sides changed; cleared once the user picks one
+  ADD COLUMN google_sync_conflict JSONB;
+
+CREATE INDEX idx_meetings_google_calendar_event_id
+  ON public.meetings(google_calendar_event_id)
+  WHERE google_calendar_event_id IS NOT NULL;
+
+ALTER TABLE public.user_settings
+  -- Google's incremental sync token for the primary calendar
+  ADD COLUMN google_sync_token TEXT,
+  ADD COLUMN google_last_synced_at TIMESTAMP WITH TIME ZONE;
+
+-- Edits made by the user mark a linked meeting as pending. The sync itself
+-- runs as the service role (no auth.uid()), so its writes don't.
+CREATE OR REPLACE FUNCTION public.mark_meeting_google_sync_pending()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NEW.google_calendar_event_id IS NOT NULL
+    AND (
+      NEW.title IS DISTINCT FROM OLD.title
+      OR NEW.description IS DISTINCT FROM OLD.description
+      OR NEW.location IS DISTINCT FROM OLD.location
+      OR NEW.starts_at IS DISTINCT FROM OLD.starts_at
+      OR NEW.time_zone IS DISTINCT FROM OLD.time_zone
+      OR NEW.duration_minutes IS DISTINCT FROM OLD.duration_minutes
+      OR NEW.status IS DISTINCT FROM OLD.status
+      OR NEW.recurrence_rule IS DISTINCT FROM OLD.recurrence_rule
+      OR NEW.recurrence_exceptions IS DISTINCT FROM OLD.recurrence_exceptions
+    )
+  THEN
+    NEW.google_sync_pending := true;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER mark_meeting_google_sync_pending
+  BEFORE UPDATE ON public.meetings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.mark_meeting_google_sync_pending();
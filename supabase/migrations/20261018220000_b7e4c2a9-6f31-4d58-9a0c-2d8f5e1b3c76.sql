@@ -0,0 +1,4 @@
+-- Outlook Calendar: remember the Graph event created for a meeting
+
+ALTER TABLE public.meetings
+  ADD COLUMN outlook_event_id TEXT;
@@ -0,0 +1,30 @@
+-- Busy times read from the user's iCal feed (user_settings.ical_url) by the ical-sync function
+
+CREATE TABLE public.calendar_busy_blocks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  -- UID of the feed event; occurrences of a recurring event share it
+  uid TEXT,
+  summary TEXT,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- All-day blocks hold UTC midnights and cover those calendar days in the viewer's zone
+  all_day BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX idx_calendar_busy_blocks_user_starts_at
+  ON public.calendar_busy_blocks(user_id, starts_at);
+
+ALTER TABLE public.calendar_busy_blocks ENABLE ROW LEVEL SECURITY;
+
+-- Blocks are replaced wholesale by the sync, so users only read them
+CREATE POLICY "Users can view their own busy blocks"
+ON public.calendar_busy_blocks FOR SELECT
+USING (auth.uid() = user_id);
+
+ALTER TABLE public.user_settings
+  ADD COLUMN ical_last_synced_at TIMESTAMP WITH TIME ZONE,
+  -- Why the last fetch failed (unreachable, not a calendar...); null when it worked
+  ADD COLUMN ical_sync_error TEXT;
@@ -0,0 +1,71 @@
+-- Subscribable ICS feed of a user's meetings, served by the calendar-feed function
+
+ALTER TABLE public.meetings
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- RFC 5545 SEQUENCE: bumped whenever calendar apps should treat the event as changed
+  ADD COLUMN ics_sequence INTEGER NOT NULL DEFAULT 0;
+
+CREATE TRIGGER update_meetings_updated_at
+  BEFORE UPDATE ON public.meetings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.bump_meeting_ics_sequence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.title IS DISTINCT FROM OLD.title
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.location IS DISTINCT FROM OLD.location
+    OR NEW.starts_at IS DISTINCT FROM OLD.starts_at
+    OR NEW.time_zone IS DISTINCT FROM OLD.time_zone
+    OR NEW.duration_minutes IS DISTINCT FROM OLD.duration_minutes
+    OR NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.recurrence_rule IS DISTINCT FROM OLD.recurrence_rule
+    OR NEW.recurrence_exceptions IS DISTINCT FROM OLD.recurrence_exceptions
+  THEN
+    NEW.ics_sequence := OLD.ics_sequence + 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bump_meeting_ics_sequence
+  BEFORE UPDATE ON public.meetings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_meeting_ics_sequence();
+
+-- Secret for the feed URL; null means the feed is off
+ALTER TABLE public.user_settings
+  ADD COLUMN calendar_feed_token TEXT UNIQUE;
+
+-- Issues a new feed token, which stops the old URL from working
+CREATE OR REPLACE FUNCTION public.rotate_calendar_feed_token()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_token TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  new_token := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+  UPDATE public.user_settings
+  SET calendar_feed_token = new_token
+  WHERE user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User settings not found';
+  END IF;
+
+  RETURN new_token;
+END;
+$$;
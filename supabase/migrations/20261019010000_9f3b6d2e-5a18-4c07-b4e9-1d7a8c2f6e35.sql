@@ -0,0 +1,68 @@
+-- Meeting reminders: web push subscriptions, and a pg_cron job that calls the
+-- send-meeting-reminders function every five minutes
+
+CREATE TABLE public.push_subscriptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_push_subscriptions_user_id ON public.push_subscriptions(user_id);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own push subscriptions"
+ON public.push_subscriptions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their own push subscriptions"
+ON public.push_subscriptions FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their own push subscriptions"
+ON public.push_subscriptions FOR DELETE
+USING (auth.uid() = user_id);
+
+-- A rescheduled meeting gets its reminders again at the new time
+CREATE OR REPLACE FUNCTION public.reset_meeting_reminders()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.starts_at IS DISTINCT FROM OLD.starts_at THEN
+    NEW.reminder_24h_sent := false;
+    NEW.reminder_1h_sent := false;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_meeting_reminders
+  BEFORE UPDATE ON public.meetings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reset_meeting_reminders();
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- Reads the project URL and service role key from Vault secrets named
+-- 'project_url' and 'service_role_key', so neither is stored in the migration
+SELECT cron.schedule(
+  'send-meeting-reminders',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-meeting-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
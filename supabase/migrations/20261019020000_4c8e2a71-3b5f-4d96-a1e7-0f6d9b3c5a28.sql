@@ -0,0 +1,56 @@
+-- Structured counter-proposals: participants suggest one or more start times
+-- instead of the free-text meeting_participants.suggested_time, which is kept
+-- only so older suggestions still display
+
+CREATE TABLE public.meeting_time_proposals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  meeting_id UUID NOT NULL REFERENCES public.meetings(id) ON DELETE CASCADE,
+  participant_id UUID NOT NULL REFERENCES public.meeting_participants(id) ON DELETE CASCADE,
+  starts_at TIMESTAMPTZ NOT NULL,
+  note TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'dismissed')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_meeting_time_proposals_meeting_id ON public.meeting_time_proposals(meeting_id);
+
+ALTER TABLE public.meeting_time_proposals ENABLE ROW LEVEL SECURITY;
+
+-- Proposals are written by the propose-meeting-times function; organizers
+-- review them and participants can see their own
+CREATE POLICY "Users can view proposals for their meetings"
+ON public.meeting_time_proposals FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.meetings
+    WHERE meetings.id = meeting_time_proposals.meeting_id
+    AND (meetings.user_id = auth.uid() OR meetings.organizer_id = auth.uid())
+  )
+  OR EXISTS (
+    SELECT 1 FROM public.meeting_participants
+    WHERE meeting_participants.id = meeting_time_proposals.participant_id
+    AND meeting_participants.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update proposals for their meetings"
+ON public.meeting_time_proposals FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.meetings
+    WHERE meetings.id = meeting_time_proposals.meeting_id
+    AND (meetings.user_id = auth.uid() OR meetings.organizer_id = auth.uid())
+  )
+);
+
+-- Accepting a proposal updates everyone's response, so organizers need to
+-- write participant rows too (participants could already update their own)
+CREATE POLICY "Users can update participants of their meetings"
+ON public.meeting_participants FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.meetings
+    WHERE meetings.id = meeting_participants.meeting_id
+    AND (meetings.user_id = auth.uid() OR meetings.organizer_id = auth.uid())
+  )
+);
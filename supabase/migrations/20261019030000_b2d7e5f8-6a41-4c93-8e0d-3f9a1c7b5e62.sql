@@ -0,0 +1,15 @@
+-- Single-use response links: each invitation email carries a signed token
+-- naming one of these rows, and the meeting-response function marks it used
+
+CREATE TABLE public.meeting_response_tokens (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  participant_id UUID NOT NULL REFERENCES public.meeting_participants(id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_meeting_response_tokens_participant_id ON public.meeting_response_tokens(participant_id);
+
+-- Only edge functions (service role) read or write tokens
+ALTER TABLE public.meeting_response_tokens ENABLE ROW LEVEL SECURITY;
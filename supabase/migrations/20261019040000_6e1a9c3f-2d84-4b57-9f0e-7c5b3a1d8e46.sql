@@ -0,0 +1,164 @@
+-- Structured meeting content. MeetingForm used to store a JSON string of
+-- { description, notes, photos } in meetings.description; the description
+-- and agenda are now columns, notes are meeting_notes rows and photos are
+-- meeting_media records.
+
+ALTER TABLE public.meetings
+  ADD COLUMN agenda TEXT;
+
+-- The agenda goes to calendars with the description, so edits to it count as changes
+CREATE OR REPLACE FUNCTION public.bump_meeting_ics_sequence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.title IS DISTINCT FROM OLD.title
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.agenda IS DISTINCT FROM OLD.agenda
+    OR NEW.location IS DISTINCT FROM OLD.location
+    OR NEW.starts_at IS DISTINCT FROM OLD.starts_at
+    OR NEW.time_zone IS DISTINCT FROM OLD.time_zone
+    OR NEW.duration_minutes IS DISTINCT FROM OLD.duration_minutes
+    OR NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.recurrence_rule IS DISTINCT FROM OLD.recurrence_rule
+    OR NEW.recurrence_exceptions IS DISTINCT FROM OLD.recurrence_exceptions
+  THEN
+    NEW.ics_sequence := OLD.ics_sequence + 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_meeting_google_sync_pending()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NEW.google_calendar_event_id IS NOT NULL
+    AND (
+      NEW.title IS DISTINCT FROM OLD.title
+      OR NEW.description IS DISTINCT FROM OLD.description
+      OR NEW.agenda IS DISTINCT FROM OLD.agenda
+      OR NEW.location IS DISTINCT FROM OLD.location
+      OR NEW.starts_at IS DISTINCT FROM OLD.starts_at
+      OR NEW.time_zone IS DISTINCT FROM OLD.time_zone
+      OR NEW.duration_minutes IS DISTINCT FROM OLD.duration_minutes
+      OR NEW.status IS DISTINCT FROM OLD.status
+      OR NEW.recurrence_rule IS DISTINCT FROM OLD.recurrence_rule
+      OR NEW.recurrence_exceptions IS DISTINCT FROM OLD.recurrence_exceptions
+    )
+  THEN
+    NEW.google_sync_pending := true;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TABLE public.meeting_media (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  meeting_id UUID NOT NULL REFERENCES public.meetings(id) ON DELETE CASCADE,
+  media_type TEXT NOT NULL DEFAULT 'photo' CHECK (media_type IN ('photo')),
+  -- Object path in the private meeting-media bucket; readers sign URLs for it
+  storage_path TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_meeting_media_meeting_id ON public.meeting_media(meeting_id);
+
+ALTER TABLE public.meeting_media ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view media for their own meetings"
+  ON public.meeting_media FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.meetings
+      WHERE meetings.id = meeting_media.meeting_id
+      AND meetings.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can add media to their own meetings"
+  ON public.meeting_media FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.meetings
+      WHERE meetings.id = meeting_media.meeting_id
+      AND meetings.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete media from their own meetings"
+  ON public.meeting_media FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.meetings
+      WHERE meetings.id = meeting_media.meeting_id
+      AND meetings.user_id = auth.uid()
+    )
+  );
+
+-- Photos were saved as year-long signed URLs; keep the object path they point at
+-- (https://<project>.supabase.co/storage/v1/object/sign/meeting-media/<path>?token=...)
+CREATE FUNCTION pg_temp.meeting_media_path(url TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT substring(url FROM '/object/(?:sign|public)/meeting-media/([^?#]+)');
+$$;
+
+-- Photos added on the meeting page
+INSERT INTO public.meeting_media (meeting_id, storage_path, created_at)
+SELECT notes.meeting_id, pg_temp.meeting_media_path(photo.url), notes.created_at
+FROM public.meeting_notes AS notes
+CROSS JOIN LATERAL unnest(notes.photo_urls) AS photo(url)
+WHERE pg_temp.meeting_media_path(photo.url) IS NOT NULL;
+
+DELETE FROM public.meeting_notes
+WHERE text_note IS NULL AND audio_note_url IS NULL;
+
+ALTER TABLE public.meeting_notes
+  DROP COLUMN photo_urls;
+
+-- Unpack the JSON descriptions; plain text descriptions are left as they are
+DO $$
+DECLARE
+  meeting RECORD;
+  content JSONB;
+BEGIN
+  FOR meeting IN
+    SELECT id, description, created_at FROM public.meetings WHERE description LIKE '{%'
+  LOOP
+    BEGIN
+      content := meeting.description::jsonb;
+    EXCEPTION WHEN invalid_text_representation THEN
+      CONTINUE;
+    END;
+
+    IF jsonb_typeof(content) <> 'object' THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE public.meetings
+    SET description = NULLIF(btrim(content->>'description'), '')
+    WHERE id = meeting.id;
+
+    IF NULLIF(btrim(content->>'notes'), '') IS NOT NULL THEN
+      INSERT INTO public.meeting_notes (meeting_id, text_note, created_at)
+      VALUES (meeting.id, content->>'notes', meeting.created_at);
+    END IF;
+
+    IF jsonb_typeof(content->'photos') = 'array' THEN
+      INSERT INTO public.meeting_media (meeting_id, storage_path, created_at)
+      SELECT meeting.id, pg_temp.meeting_media_path(photo.url), meeting.created_at
+      FROM jsonb_array_elements_text(content->'photos') AS photo(url)
+      WHERE pg_temp.meeting_media_path(photo.url) IS NOT NULL;
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,68 @@
+-- How a meeting takes place. Video meetings carry a conference link: a Google
+-- Meet link when the organizer's calendar is connected, otherwise a Jitsi room.
+
+CREATE TYPE public.meeting_mode AS ENUM ('in_person', 'phone', 'video');
+
+ALTER TABLE public.meetings
+  ADD COLUMN meeting_mode public.meeting_mode NOT NULL DEFAULT 'in_person',
+  -- Links go into emails and calendar events, so only https is accepted
+  ADD COLUMN conference_url TEXT CHECK (conference_url ~* '^https://');
+
+-- The join link is part of the calendar event, so changing it counts as an update
+CREATE OR REPLACE FUNCTION public.bump_meeting_ics_sequence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.title IS DISTINCT FROM OLD.title
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.agenda IS DISTINCT FROM OLD.agenda
+    OR NEW.location IS DISTINCT FROM OLD.location
+    OR NEW.meeting_mode IS DISTINCT FROM OLD.meeting_mode
+    OR NEW.conference_url IS DISTINCT FROM OLD.conference_url
+    OR NEW.starts_at IS DISTINCT FROM OLD.starts_at
+    OR NEW.time_zone IS DISTINCT FROM OLD.time_zone
+    OR NEW.duration_minutes IS DISTINCT FROM OLD.duration_minutes
+    OR NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.recurrence_rule IS DISTINCT FROM OLD.recurrence_rule
+    OR NEW.recurrence_exceptions IS DISTINCT FROM OLD.recurrence_exceptions
+  THEN
+    NEW.ics_sequence := OLD.ics_sequence + 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- The Meet link Google hands back is written by the sync function, which has
+-- no auth.uid(), so storing it doesn't queue another push
+CREATE OR REPLACE FUNCTION public.mark_meeting_google_sync_pending()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NEW.google_calendar_event_id IS NOT NULL
+    AND (
+      NEW.title IS DISTINCT FROM OLD.title
+      OR NEW.description IS DISTINCT FROM OLD.description
+      OR NEW.agenda IS DISTINCT FROM OLD.agenda
+      OR NEW.location IS DISTINCT FROM OLD.location
+      OR NEW.meeting_mode IS DISTINCT FROM OLD.meeting_mode
+      OR NEW.conference_url IS DISTINCT FROM OLD.conference_url
+      OR NEW.starts_at IS DISTINCT FROM OLD.starts_at
+      OR NEW.time_zone IS DISTINCT FROM OLD.time_zone
+      OR NEW.duration_minutes IS DISTINCT FROM OLD.duration_minutes
+      OR NEW.status IS DISTINCT FROM OLD.status
+      OR NEW.recurrence_rule IS DISTINCT FROM OLD.recurrence_rule
+      OR NEW.recurrence_exceptions IS DISTINCT FROM OLD.recurrence_exceptions
+    )
+  THEN
+    NEW.google_sync_pending := true;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,49 @@
+-- Invites were updatable on any column by admins and invitees alike, so an
+-- invitee could raise their own role or an admin could revive a revoked
+-- invite past the member limit. Admins may now only revoke pending invites;
+-- invitees decline through decline_workspace_invite().
+
+DROP POLICY "Admins and invitees can update invites" ON public.workspace_invites;
+
+CREATE POLICY "Admins can revoke pending invites"
+ON public.workspace_invites FOR UPDATE
+USING (
+  status = 'pending' AND
+  public.get_workspace_role(workspace_id) IN ('owner', 'admin')
+)
+WITH CHECK (
+  status = 'revoked' AND
+  public.get_workspace_role(workspace_id) IN ('owner', 'admin')
+);
+
+-- Policies can't compare old and new rows; the rest of the invite is fixed by grants
+REVOKE UPDATE ON public.workspace_invites FROM anon, authenticated;
+GRANT UPDATE (status, responded_at) ON public.workspace_invites TO authenticated;
+
+-- Decline an invite addressed to the current user's email
+CREATE OR REPLACE FUNCTION public.decline_workspace_invite(p_invite_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT email INTO v_email FROM public.profiles WHERE id = auth.uid();
+
+  UPDATE public.workspace_invites
+  SET status = 'declined', responded_at = now()
+  WHERE id = p_invite_id
+  AND lower(email) = lower(v_email)
+  AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite is no longer valid';
+  END IF;
+END;
+$$;
@@ -0,0 +1,3 @@
+-- Checkout subscriptions start as incomplete until the first payment succeeds;
+-- they were stored as past_due and got the paid plan before paying.
+ALTER TYPE public.subscription_status ADD VALUE IF NOT EXISTS 'incomplete';
@@ -0,0 +1,24 @@
+-- book-meeting checks the slot is free and then inserts, so two visitors
+-- booking the same time at once could both get it. The database now refuses
+-- overlapping booking-page meetings for the same owner.
+
+CREATE EXTENSION IF NOT EXISTS btree_gist WITH SCHEMA extensions;
+
+-- timestamptz + interval is only STABLE (day intervals depend on the zone);
+-- whole minutes don't, so the range is safe to index
+CREATE OR REPLACE FUNCTION public.meeting_time_range(p_starts_at TIMESTAMP WITH TIME ZONE, p_duration_minutes INTEGER)
+RETURNS tstzrange
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT tstzrange(p_starts_at, p_starts_at + make_interval(mins => p_duration_minutes), '[)');
+$$;
+
+ALTER TABLE public.meetings
+  ADD CONSTRAINT meetings_no_overlapping_bookings
+  EXCLUDE USING gist (
+    user_id WITH =,
+    public.meeting_time_range(starts_at, duration_minutes) WITH &&
+  )
+  WHERE (booking_page_id IS NOT NULL AND status IS DISTINCT FROM 'cancelled' AND status IS DISTINCT FROM 'declined');
@@ -0,0 +1,20 @@
+-- Scanned business cards hold contact details, so they live in a private
+-- bucket under the owner's folder rather than in the public avatars bucket
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('card-scans', 'card-scans', false);
+
+CREATE POLICY "Users can upload their own card scans"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'card-scans' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can view their own card scans"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'card-scans' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own card scans"
+ON storage.objects FOR DELETE
+USING (bucket_id = 'card-scans' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+ALTER TABLE public.connections
+  -- Object path in the private card-scans bucket; readers sign URLs for it
+  ADD COLUMN card_scan_path TEXT;
@@ -0,0 +1,100 @@
+-- Invites were matched against profiles.email, which users can edit, so anyone
+-- could claim an invite by changing their profile email. Match the verified
+-- login email from the JWT instead.
+
+DROP POLICY "Admins and invitees can view invites" ON public.workspace_invites;
+
+CREATE POLICY "Admins and invitees can view invites"
+ON public.workspace_invites FOR SELECT
+USING (
+  public.get_workspace_role(workspace_id) IN ('owner', 'admin') OR
+  lower(email) = lower(auth.jwt() ->> 'email')
+);
+
+-- Accept an invite addressed to the current user's login email
+CREATE OR REPLACE FUNCTION public.accept_workspace_invite(p_invite_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite public.workspace_invites%ROWTYPE;
+  v_email TEXT := auth.jwt() ->> 'email';
+  v_members INTEGER;
+BEGIN
+  IF auth.uid() IS NULL OR v_email IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_invite
+  FROM public.workspace_invites
+  WHERE id = p_invite_id
+  FOR UPDATE;
+
+  IF v_invite.id IS NULL OR lower(v_invite.email) <> lower(v_email) THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+
+  IF v_invite.status <> 'pending' THEN
+    RAISE EXCEPTION 'Invite is no longer valid';
+  END IF;
+
+  -- The pending invite already holds a seat; only existing members count here
+  SELECT COUNT(*) INTO v_members
+  FROM public.workspace_members
+  WHERE workspace_id = v_invite.workspace_id;
+
+  IF v_members >= public.get_workspace_member_limit(v_invite.workspace_id) THEN
+    RAISE EXCEPTION 'Team member limit reached';
+  END IF;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (v_invite.workspace_id, auth.uid(), v_invite.role)
+  ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+  UPDATE public.workspace_invites
+  SET status = 'accepted', responded_at = now()
+  WHERE id = p_invite_id;
+
+  RETURN v_invite.workspace_id;
+END;
+$$;
+
+-- Decline an invite addressed to the current user's login email
+CREATE OR REPLACE FUNCTION public.decline_workspace_invite(p_invite_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email TEXT := auth.jwt() ->> 'email';
+BEGIN
+  IF auth.uid() IS NULL OR v_email IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.workspace_invites
+  SET status = 'declined', responded_at = now()
+  WHERE id = p_invite_id
+  AND lower(email) = lower(v_email)
+  AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite is no longer valid';
+  END IF;
+END;
+$$;
+
+-- Admins could rewrite owner_id and take over the workspace. Only the name is
+-- editable; ownership and the plan that sets the seat limit stay with the owner.
+DROP POLICY "Owners and admins can update workspaces" ON public.workspaces;
+
+CREATE POLICY "Owners and admins can rename workspaces"
+ON public.workspaces FOR UPDATE
+USING (public.get_workspace_role(id) IN ('owner', 'admin'))
+WITH CHECK (public.get_workspace_role(id) IN ('owner', 'admin'));
+
+REVOKE UPDATE ON public.workspaces FROM anon, authenticated;
+GRANT UPDATE (name) ON public.workspaces TO authenticated;
@@ -0,0 +1,5 @@
+-- Participants could still write their own response straight to the table,
+-- matched on the editable profiles.email, which skipped meeting-response and
+-- let anyone answer as another invitee. Responses now only go through that
+-- function; organizers keep "Users can update participants of their meetings".
+DROP POLICY "Users can update their own response" ON public.meeting_participants;
@@ -0,0 +1,62 @@
+-- Accepting a time proposal moved the meeting, reset everyone's response and
+-- settled the proposals in separate requests, so a failure part-way left the
+-- meeting moved with stale responses. Do it all in one transaction.
+CREATE OR REPLACE FUNCTION public.accept_meeting_time_proposal(p_proposal_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_proposal public.meeting_time_proposals%ROWTYPE;
+  v_others INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_proposal
+  FROM public.meeting_time_proposals
+  WHERE id = p_proposal_id
+  FOR UPDATE;
+
+  IF v_proposal.id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.meetings
+    WHERE id = v_proposal.meeting_id
+    AND (user_id = auth.uid() OR organizer_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Proposal not found';
+  END IF;
+
+  IF v_proposal.status <> 'pending' THEN
+    RAISE EXCEPTION 'Proposal is no longer pending';
+  END IF;
+
+  -- Everyone else who hasn't declined has to confirm the new time
+  SELECT COUNT(*) INTO v_others
+  FROM public.meeting_participants
+  WHERE meeting_id = v_proposal.meeting_id
+  AND id <> v_proposal.participant_id
+  AND response IS DISTINCT FROM 'declined';
+
+  UPDATE public.meetings
+  SET starts_at = v_proposal.starts_at,
+      status = CASE WHEN v_others > 0 THEN 'pending' ELSE 'confirmed' END::public.meeting_status
+  WHERE id = v_proposal.meeting_id;
+
+  UPDATE public.meeting_participants
+  SET response = 'confirmed', responded_at = now(), suggested_time = NULL
+  WHERE id = v_proposal.participant_id;
+
+  UPDATE public.meeting_participants
+  SET response = 'pending', responded_at = NULL
+  WHERE meeting_id = v_proposal.meeting_id
+  AND id <> v_proposal.participant_id
+  AND response IS DISTINCT FROM 'declined';
+
+  UPDATE public.meeting_time_proposals
+  SET status = CASE WHEN id = p_proposal_id THEN 'accepted' ELSE 'dismissed' END
+  WHERE meeting_id = v_proposal.meeting_id
+  AND (id = p_proposal_id OR status = 'pending');
+END;
+$$;
@@ -0,0 +1,62 @@
+-- The Stripe webhook keeps the paid plan while a renewal is past_due, and the
+-- connection limit already honoured it, but workspace and lead capture checks
+-- dropped Business features during the grace period. Use the same statuses in
+-- every plan check.
+
+CREATE OR REPLACE FUNCTION public.get_workspace_member_limit(p_workspace_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan public.subscription_plan;
+BEGIN
+  SELECT s.plan INTO v_plan
+  FROM public.workspaces w
+  JOIN public.subscriptions s ON s.user_id = w.owner_id
+  WHERE w.id = p_workspace_id
+  AND s.status IN ('active', 'trialing', 'past_due');
+
+  IF v_plan = 'business' THEN
+    RETURN 5;
+  END IF;
+
+  RETURN 0;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_create_workspace()
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN false;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM public.subscriptions
+    WHERE user_id = auth.uid()
+    AND plan = 'business'
+    AND status IN ('active', 'trialing', 'past_due')
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_lead_capture(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.subscriptions
+    WHERE user_id = p_user_id
+      AND plan = 'business'
+      AND status IN ('active', 'trialing', 'past_due')
+  )
+$$;
@@ -0,0 +1,65 @@
+-- Accepting a request inserted the requester's side of the connection from
+-- the client, which RLS never allowed, and the failure was ignored. Add both
+-- sides and clear the request in one transaction, so either quota rejecting
+-- its insert leaves the request pending.
+CREATE OR REPLACE FUNCTION public.accept_connection_request(p_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.connection_requests%ROWTYPE;
+  v_requester public.profiles%ROWTYPE;
+  v_me public.profiles%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM public.connection_requests
+  WHERE id = p_request_id
+  AND target_id = auth.uid()
+  AND status = 'pending'
+  FOR UPDATE;
+
+  IF v_request.id IS NULL THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  SELECT * INTO v_requester FROM public.profiles WHERE id = v_request.requester_id;
+  SELECT * INTO v_me FROM public.profiles WHERE id = auth.uid();
+
+  IF v_requester.id IS NULL OR v_me.id IS NULL THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  -- The accepting user's own quota raises CONNECTION_LIMIT_REACHED as usual
+  INSERT INTO public.connections (
+    user_id, connection_name, connection_email, connection_title, connection_company, connection_phone,
+    connection_avatar_url, connection_linkedin, connection_instagram, connection_gallery_photos
+  ) VALUES (
+    auth.uid(), v_requester.full_name, v_requester.email, v_requester.job_title, v_requester.company, v_requester.phone,
+    v_requester.avatar_url, v_requester.linkedin_url, v_requester.instagram_url, v_requester.gallery_photos
+  );
+
+  BEGIN
+    INSERT INTO public.connections (
+      user_id, connection_name, connection_email, connection_title, connection_company, connection_phone,
+      connection_avatar_url, connection_linkedin, connection_instagram, connection_gallery_photos
+    ) VALUES (
+      v_request.requester_id, v_me.full_name, v_me.email, v_me.job_title, v_me.company, v_me.phone,
+      v_me.avatar_url, v_me.linkedin_url, v_me.instagram_url, v_me.gallery_photos
+    );
+  EXCEPTION WHEN raise_exception THEN
+    -- Not the accepting user's limit, so don't report it as one
+    IF SQLERRM = 'CONNECTION_LIMIT_REACHED' THEN
+      RAISE EXCEPTION 'This person has reached their monthly connection limit';
+    END IF;
+    RAISE;
+  END;
+
+  DELETE FROM public.connection_requests WHERE id = p_request_id;
+END;
+$$;
@@ -0,0 +1,8 @@
+-- The scanned card belongs with the connection's other photos. It stays in the
+-- private card-scans bucket: connection_gallery_photos holds its object path
+-- (not a URL), and readers sign a URL for any entry that isn't one.
+UPDATE public.connections
+SET connection_gallery_photos = array_prepend(card_scan_path, COALESCE(connection_gallery_photos, '{}'))
+WHERE card_scan_path IS NOT NULL;
+
+ALTER TABLE public.connections DROP COLUMN card_scan_path;
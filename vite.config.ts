@@ -2,6 +2,7 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { viteStaticCopy } from "vite-plugin-static-copy";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -9,7 +10,25 @@ export default defineConfig(({ mode }) => ({
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [
+    react(),
+    mode === "development" && componentTagger(),
+    // Card scanning runs offline and inside the native apps, so the OCR worker,
+    // engine and English model ship with the app instead of coming from a CDN
+    viteStaticCopy({
+      targets: [
+        {
+          src: [
+            "node_modules/tesseract.js/dist/worker.min.js",
+            "node_modules/tesseract.js-core/tesseract-core-lstm.wasm.js",
+            "node_modules/tesseract.js-core/tesseract-core-simd-lstm.wasm.js",
+            "node_modules/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz",
+          ],
+          dest: "tesseract",
+        },
+      ],
+    }),
+  ].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),